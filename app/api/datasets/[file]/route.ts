@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { errorMessage } from "@/lib/utils"
+import { readDatasetFile } from "@/utils/datasetDirectory"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ file: string }> }) {
+  const { file } = await params
+  try {
+    const contents = await readDatasetFile(file)
+    if (contents === null) {
+      return NextResponse.json({ error: `Dataset file ${file} not found` }, { status: 404 })
+    }
+    return new NextResponse(contents, {
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+    })
+  } catch (err) {
+    console.error(`[api/datasets] Failed to read ${file}:`, err)
+    return NextResponse.json({ error: `Failed to read ${file}: ${errorMessage(err)}` }, { status: 500 })
+  }
+}
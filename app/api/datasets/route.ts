@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+import { errorMessage } from "@/lib/utils"
+import { listDatasets } from "@/utils/datasetDirectory"
+
+// The listing must reflect the directory at request time, not at build time
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    return NextResponse.json({ datasets: await listDatasets() })
+  } catch (err) {
+    console.error("[api/datasets] Failed to list datasets:", err)
+    return NextResponse.json({ error: `Failed to list datasets: ${errorMessage(err)}` }, { status: 500 })
+  }
+}
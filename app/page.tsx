@@ -6,13 +6,63 @@ import ErrorBoundary from "@/components/ErrorBoundary"
 import DarkModeToggle from "@/components/DarkModeToggle"
 import NodeDetailsPanel from "@/components/NodeDetailsPanel"
 import InfoPanel from "@/components/InfoPanel"
-import { DATASETS, DatasetName } from "@/config/datasets"
+import DatasetDiffView from "@/components/DatasetDiffView"
+import DatasetImportPanel from "@/components/DatasetImportPanel"
+import { DATASETS } from "@/config/datasets"
+import { isSessionPath } from "@/utils/datasetLoader"
+import { DEFAULT_TOPOLOGY_STREAM_URL } from "@/utils/topologyStream"
+import type { NodeDetails } from "@/utils/topologyModel"
+
+type DatasetFiles = { dataFile: string, positionsFile: string }
+
+// Live polling intervals offered in the header (milliseconds, 0 = off)
+const POLL_INTERVALS = [
+  { label: "Auto-refresh: Off", value: 0 },
+  { label: "Every 5s", value: 5000 },
+  { label: "Every 10s", value: 10000 },
+  { label: "Every 30s", value: 30000 },
+  { label: "Every 60s", value: 60000 },
+]
 
 export default function Page() {
   const [showInfo, setShowInfo] = useState(false)
   const [darkMode, setDarkMode] = useState(false)
-  const [selectedNodeDetails, setSelectedNodeDetails] = useState<any>(null)
-  const [datasetName, setDatasetName] = useState<DatasetName>("EST4 150 Node")
+  const [selectedNodeDetails, setSelectedNodeDetails] = useState<NodeDetails | null>(null)
+  // Datasets listed by the server plus any imported from the browser during this session
+  const [datasets, setDatasets] = useState<Record<string, DatasetFiles>>({})
+  const [datasetsLoaded, setDatasetsLoaded] = useState(false)
+  const [datasetName, setDatasetName] = useState<string>("EST4 150 Node")
+  const [showImport, setShowImport] = useState(false)
+  // Compare the selected dataset against another capture instead of exploring it
+  const [diffMode, setDiffMode] = useState(false)
+  const [pollInterval, setPollInterval] = useState(0)
+  // Receive topology deltas pushed by the backend instead of (or besides) polling
+  const [streaming, setStreaming] = useState(false)
+
+  // Build the selector from the server's dataset directory listing. Without the
+  // API (e.g. a static export) fall back to the configured DATASETS under public/.
+  useEffect(() => {
+    const loadDatasetListing = async () => {
+      let listed: Record<string, DatasetFiles> = DATASETS
+      try {
+        const response = await fetch(`/api/datasets?t=${Date.now()}`)
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+        const { datasets: listing } = await response.json() as { datasets: Array<{ name: string } & DatasetFiles> }
+        if (listing.length > 0) {
+          listed = Object.fromEntries(listing.map(({ name, dataFile, positionsFile }) => [name, { dataFile, positionsFile }]))
+        }
+      } catch (err) {
+        console.warn("[v0] Dataset listing unavailable, using configured datasets:", err)
+      }
+      setDatasets((prev) => ({
+        ...listed,
+        ...Object.fromEntries(Object.entries(prev).filter(([, files]) => isSessionPath(files.dataFile))),
+      }))
+      setDatasetName((current) => current in listed ? current : Object.keys(listed)[0])
+      setDatasetsLoaded(true)
+    }
+    loadDatasetListing()
+  }, [])
 
   useEffect(() => {
     if (darkMode) {
@@ -43,6 +93,37 @@ export default function Page() {
           >
             Refresh Data
           </button>
+          <select
+            value={pollInterval}
+            onChange={(e) => setPollInterval(Number(e.target.value))}
+            className="source-select"
+            title="Poll the data file and update the map in place when it changes"
+          >
+            {POLL_INTERVALS.map(({ label, value }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setStreaming(!streaming)}
+            className="header-button header-action action-btn refresh-button highlight-enabled"
+            title={`Apply topology changes pushed from ${DEFAULT_TOPOLOGY_STREAM_URL}`}
+          >
+            {streaming ? "Stop Stream" : "Live Stream"}
+          </button>
+          <button
+            onClick={() => setShowImport(!showImport)}
+            className="header-button header-action action-btn info-button highlight-enabled"
+            title="Import a network map JSON from your computer"
+          >
+            {showImport ? "Hide Import" : "Import Dataset"}
+          </button>
+          <button
+            onClick={() => setDiffMode(!diffMode)}
+            className="header-button header-action action-btn info-button highlight-enabled"
+            title="Compare the selected dataset with another capture"
+          >
+            {diffMode ? "Exit Compare" : "Compare Datasets"}
+          </button>
         </div>
       </header>
 
@@ -52,7 +133,7 @@ export default function Page() {
           <div style={{ flex: '0 0 auto', paddingTop: '8px' }}>
             <select
               value={datasetName}
-              onChange={(e) => setDatasetName(e.target.value as DatasetName)}
+              onChange={(e) => setDatasetName(e.target.value)}
               style={{
                 padding: '8px 32px 8px 12px',
                 borderRadius: 6,
@@ -70,7 +151,7 @@ export default function Page() {
                 backgroundPosition: 'right 10px center'
               }}
             >
-              {Object.keys(DATASETS).map((name) => (
+              {Object.keys(datasets).map((name) => (
                 <option key={name} value={name}>{name}</option>
               ))}
             </select>
@@ -79,12 +160,21 @@ export default function Page() {
           {/* Network Map Component */}
           <ErrorBoundary>
             <div style={{ flex: '1 1 auto', minHeight: "400px" }}>
-              <BackendNetworkExample 
-                darkMode={darkMode} 
-                dataFile={DATASETS[datasetName].dataFile}
-                positionsFile={DATASETS[datasetName].positionsFile}
-                onNodeClick={(nodeData: any) => setSelectedNodeDetails(nodeData)}
-              />
+              {!datasetsLoaded ? (
+                <div className="loading-container">Loading datasets...</div>
+              ) : diffMode ? (
+                // Keyed so switching datasets starts over from that dataset's default pair
+                <DatasetDiffView key={datasetName} datasets={datasets} currentName={datasetName} darkMode={darkMode} />
+              ) : (
+                <BackendNetworkExample 
+                  darkMode={darkMode} 
+                  dataFile={datasets[datasetName].dataFile}
+                  positionsFile={datasets[datasetName].positionsFile}
+                  pollInterval={pollInterval}
+                  streamUrl={streaming ? DEFAULT_TOPOLOGY_STREAM_URL : null}
+                  onNodeClick={(nodeData) => setSelectedNodeDetails(nodeData)}
+                />
+              )}
             </div>
           </ErrorBoundary>
         </div>
@@ -95,12 +185,25 @@ export default function Page() {
             nodeData={selectedNodeDetails} 
             onClose={() => setSelectedNodeDetails(null)}
             darkMode={darkMode}
+            historyKey={diffMode ? null : datasets[datasetName]?.dataFile}
           />
         )}
 
         {showInfo && (
           <InfoPanel darkMode={darkMode} onClose={() => setShowInfo(false)} />
         )}
+
+        {showImport && (
+          <DatasetImportPanel
+            darkMode={darkMode}
+            existingNames={Object.keys(datasets)}
+            onImport={(name, files) => {
+              setDatasets((prev) => ({ ...prev, [name]: files }))
+              setDatasetName(name)
+            }}
+            onClose={() => setShowImport(false)}
+          />
+        )}
       </main>
 
       <footer className="app-footer">
@@ -2,39 +2,187 @@
 
 import type React from "react"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import NetworkMap from "./NetworkMap"
 import StatisticsDisplay from "./StatisticsDisplay"
 import SearchableSelect from "./SearchableSelect"
-import { NetworkDataAdapter } from "@/utils/dataAdapter"
+import DataHealthPanel from "./DataHealthPanel"
+import RouteFaultsPanel, { routeFaultKey } from "./RouteFaultsPanel"
+import RouteAsymmetryPanel, { routeAsymmetryKey } from "./RouteAsymmetryPanel"
+import NodeInventoryPanel from "./NodeInventoryPanel"
+import InventoryDriftPanel, { driftBadges } from "./InventoryDriftPanel"
+import WorstLinksPanel from "./WorstLinksPanel"
+import { errorMessage } from "@/lib/utils"
+import { NetworkDataAdapter, type MapEdge, type MapNode } from "@/utils/dataAdapter"
+import { parseQueryPayload, type ParsedQueryPayload, type PayloadIssue } from "@/utils/backendSchema"
+import { analyzeDataHealth } from "@/utils/dataHealth"
+import { loadDatasetJson } from "@/utils/datasetLoader"
+import { linkMetricsLabel, rankLinksByRtt, type LinkMetricsRow } from "@/utils/linkMetrics"
+import type { MapLegendItem } from "@/utils/mapExport"
+import { buildMetricsSample, recordMetricsSample } from "@/utils/metricsHistory"
+import { buildInventory, DEFAULT_MIN_FREE_DISK_MB, detectInventoryDrift, INVENTORY_ATTRIBUTES, type InventoryAttribute, type InventoryRow } from "@/utils/nodeInventory"
+import { buildStyleMapping, LINK_COLOR_OPTIONS, LINK_WIDTH_OPTIONS, NODE_COLOR_OPTIONS, type StyleChoice } from "@/utils/styleMapping"
+import { applyDeltasToPayload } from "@/utils/topologyDeltas"
+import { LAYOUT_MODE_LABELS, type LayoutMode } from "@/utils/layoutEngines"
+import { buildPositionsFile, clearSavedPositions, downloadJson, loadSavedPositions, parsePositionsFile, savePositions, type NodePositions } from "@/utils/savedPositions"
+import { getTopologyModel, type NodeDetails } from "@/utils/topologyModel"
+import { connectTopologyStream, type TopologyStream, type TopologyStreamStatus } from "@/utils/topologyStream"
+import { buildDistributionTree, compareRoutedWithShortest, detectRouteAsymmetry, detectRouteFaults, type DistributionTree, type PathComparison, type RouteAsymmetry, type RouteFault } from "@/utils/routeAnalysis"
+
+// Highlight `emphasized` nodes, leave `kept` nodes as they are and dim everything else
+const styleHighlightedNodes = (nodes: MapNode[], emphasized: Set<string>, kept: Set<string>, darkMode: boolean) => {
+  const highlightColor = getComputedStyle(document.documentElement).getPropertyValue('--color-legend-highlight').trim() || (darkMode ? "#FFD166" : "#FF6B6B")
+  const highlightNodeStyle = { color: { background: highlightColor, border: highlightColor }, borderWidth: 4 }
+  const dimColor = darkMode ? "#444" : "#ccc"
+  const dimNodeStyle = { color: { background: dimColor, border: dimColor }, opacity: 0.4 }
+
+  return nodes.map((n) => {
+    if (emphasized.has(n.id)) return { ...n, ...highlightNodeStyle }
+    if (kept.has(n.id)) return n
+    return { ...n, ...dimNodeStyle }
+  })
+}
 
 interface BackendNetworkExampleProps {
   darkMode: boolean
   dataFile: string
   positionsFile: string
-  onNodeClick?: (nodeData: any) => void
+  /** Auto-refresh interval in milliseconds; 0 disables live polling */
+  pollInterval?: number
+  /** Push channel (SSE or WebSocket URL) delivering topology deltas; null disables streaming */
+  streamUrl?: string | null
+  onNodeClick?: (nodeData: NodeDetails | null) => void
 }
 
-export default function BackendNetworkExample({ darkMode, dataFile, positionsFile, onNodeClick }: BackendNetworkExampleProps) {
+export default function BackendNetworkExample({ darkMode, dataFile, positionsFile, pollInterval = 0, streamUrl = null, onNodeClick }: BackendNetworkExampleProps) {
   // Ensure hover is cleared on blur
   const handleNodeBlur = useCallback(() => {
     setHoveredNode(null);
   }, []);
-  const [networkData, setNetworkData] = useState<any>(null)
-  const [rawBackendData, setRawBackendData] = useState<any>(null)
+  const [networkData, setNetworkData] = useState<{ nodes: MapNode[], edges: MapEdge[] } | null>(null)
+  const [rawBackendData, setRawBackendData] = useState<unknown>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [hoveredNode, setHoveredNode] = useState<any>(null)
-  const [selectedNode, setSelectedNode] = useState<any>(null)
+  // Validation problems reported for the loaded payload (entries skipped during conversion)
+  const [payloadIssues, setPayloadIssues] = useState<PayloadIssue[]>([])
+  // Parsed query-*.json inventory for the dataset (null when it could not be loaded)
+  const [queryData, setQueryData] = useState<ParsedQueryPayload | null>(null)
+  // What node colors and link colors/widths stand for (see utils/styleMapping.ts)
+  const [styleChoice, setStyleChoice] = useState<StyleChoice>({ nodeColor: 'default', linkColor: 'default', linkWidth: 'default' })
+  // Nodes with less free disk space than this are flagged as drift
+  const [minFreeDiskMb, setMinFreeDiskMb] = useState(DEFAULT_MIN_FREE_DISK_MB)
+  const [hoveredNode, setHoveredNode] = useState<NodeDetails | null>(null)
+  const [selectedNode, setSelectedNode] = useState<NodeDetails | null>(null)
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 })
   const [selectedSource, setSelectedSource] = useState("")
   const [selectedTarget, setSelectedTarget] = useState("")
   const [pathLoading, setPathLoading] = useState(false)
   const [pathHighlighted, setPathHighlighted] = useState(false)
-  const [pathError, setPathError] = useState<string | null>(null)
   const [noPathExists, setNoPathExists] = useState(false)
   // Store highlighted path info for custom canvas drawing
   const [highlightedPathInfo, setHighlightedPathInfo] = useState<{ nodes: string[], edges: string[] } | null>(null)
+  // 'path' traces a single source -> target route; 'compare' draws that route next to the
+  // physical shortest path; 'tree' draws the whole distribution tree of the source
+  const [viewMode, setViewMode] = useState<'path' | 'compare' | 'tree'>('path')
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('grid')
+  // Hand-arranged node positions for this dataset, and whether they differ from the saved copy
+  const [arrangement, setArrangement] = useState<NodePositions | null>(null)
+  const [arrangementDirty, setArrangementDirty] = useState(false)
+  const [nodesUnlocked, setNodesUnlocked] = useState(false)
+  const [arrangementNotice, setArrangementNotice] = useState<string | null>(null)
+  const [showGroups, setShowGroups] = useState(false)
+  const [distributionTree, setDistributionTree] = useState<DistributionTree | null>(null)
+  const [pathComparison, setPathComparison] = useState<PathComparison | null>(null)
+  // Routing fault (from the whole-network scan) currently highlighted on the map
+  const [selectedFault, setSelectedFault] = useState<RouteFault | null>(null)
+  // Asymmetric pair whose two directions are drawn on the map (A -> B primary, B -> A secondary)
+  const [selectedAsymmetry, setSelectedAsymmetry] = useState<RouteAsymmetry | null>(null)
+  // Link from the worst links list currently highlighted on the map
+  const [selectedLink, setSelectedLink] = useState<LinkMetricsRow | null>(null)
+  // Annotate every link with its RTT and packet counters
+  const [showLinkMetrics, setShowLinkMetrics] = useState(false)
+  // Serialized copy of the last payload, so polls that return the same data skip the rebuild
+  const payloadSignatureRef = useRef<string | null>(null)
+  const [lastPolledAt, setLastPolledAt] = useState<Date | null>(null)
+  const [pollError, setPollError] = useState<string | null>(null)
+  const [topologyStream, setTopologyStream] = useState<TopologyStream | null>(null)
+  const [streamStatus, setStreamStatus] = useState<TopologyStreamStatus>('closed')
+  const [streamError, setStreamError] = useState<string | null>(null)
+  // Latest payload for the stream listener, which outlives individual renders
+  const rawBackendDataRef = useRef<unknown>(null)
+  // Payload produced by streamed deltas. NetworkMap applies the same deltas to its
+  // DataSets, so this payload must not trigger a rebuild of the map.
+  const streamedPayloadRef = useRef<unknown>(null)
+
+  // The query file is optional for the map itself (imported datasets may not
+  // have one), so failures here only disable the inventory cross-checks
+  // instead of surfacing an error.
+  const loadQueryData = useCallback(async () => {
+    if (!positionsFile) {
+      setQueryData(null)
+      return
+    }
+    try {
+      setQueryData(parseQueryPayload(await loadDatasetJson(positionsFile)))
+    } catch (err) {
+      console.warn(`[v0] Failed to load query data from ${positionsFile}:`, err)
+      setQueryData(null)
+    }
+  }, [positionsFile])
+
+  useEffect(() => {
+    loadQueryData()
+  }, [loadQueryData])
+
+  // A saved arrangement replaces the computed layout when the dataset is opened
+  useEffect(() => {
+    setArrangement(loadSavedPositions(dataFile))
+    setArrangementDirty(false)
+    setNodesUnlocked(false)
+    setArrangementNotice(null)
+  }, [dataFile])
+
+  const handleNodesMoved = useCallback((positions: NodePositions) => {
+    setArrangement(positions)
+    setArrangementDirty(true)
+    setArrangementNotice(null)
+  }, [])
+
+  const saveArrangement = () => {
+    if (!arrangement) return
+    if (savePositions(dataFile, arrangement)) {
+      setArrangementDirty(false)
+      setArrangementNotice('Layout saved in this browser')
+    } else {
+      setArrangementNotice('This browser refused to store the layout; use Export instead')
+    }
+  }
+
+  // File-name friendly name of the dataset, for downloads
+  const datasetBaseName = dataFile.replace(/^session:/, '').split('/').pop()?.replace(/\.json$/i, '') || 'dataset'
+
+  const exportArrangement = () => {
+    if (!arrangement) return
+    downloadJson(`positions-${datasetBaseName}.json`, buildPositionsFile(dataFile, arrangement))
+  }
+
+  const importArrangement = async (file: File) => {
+    try {
+      const { positions } = parsePositionsFile(JSON.parse(await file.text()))
+      setArrangement(positions)
+      setArrangementDirty(true)
+      setArrangementNotice(`Loaded ${Object.keys(positions).length} positions from ${file.name}; save to keep them`)
+    } catch (err) {
+      setArrangementNotice(`${file.name}: ${errorMessage(err)}`)
+    }
+  }
+
+  const resetArrangement = () => {
+    clearSavedPositions(dataFile)
+    setArrangement(null)
+    setArrangementDirty(false)
+    setArrangementNotice(null)
+  }
 
   useEffect(() => {
     const loadBackendData = async () => {
@@ -45,32 +193,37 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
         setSelectedSource("")
         setSelectedTarget("")
         setPathHighlighted(false)
-        setPathError(null)
         setNoPathExists(false)
+        setDistributionTree(null)
+        setPathComparison(null)
+        setSelectedFault(null)
+        setSelectedAsymmetry(null)
+        setSelectedLink(null)
         
-        const response = await fetch(`${dataFile}?t=${Date.now()}`)
-        if (!response.ok) {
-          throw new Error(`Failed to load backend data: ${response.status} ${response.statusText}`)
-        }
-        const rawData = await response.json()
+        const rawData = await loadDatasetJson(dataFile)
         console.log(`[v0] Loaded raw backend data from ${dataFile}:`, rawData)
+        payloadSignatureRef.current = JSON.stringify(rawData)
 
-        const physData = NetworkDataAdapter.convertPhysicalOnly(rawData)
-        console.log("[v0] Converted to physical data:", physData)
+        const model = getTopologyModel(rawData)
+        setPayloadIssues(model.parsed.issues)
 
-        if (!physData || !physData.nodes || physData.nodes.length === 0) {
+        if (model.nodes.length === 0) {
           setError(
             `Backend data is missing or malformed. Check ${dataFile} and ensure it is in the public folder and matches the expected format.`,
           )
+          // Drop the previous dataset so the panels built from its topology go too
+          setRawBackendData(null)
           setNetworkData(null)
           return
         }
         setRawBackendData(rawData)
-        setNetworkData(NetworkDataAdapter.convertToVisNetwork(physData))
-      } catch (err: any) {
+        setNetworkData(model.visData)
+      } catch (err) {
         console.error("[v0] Failed to load backend data:", err)
-        setError(`Failed to load network data: ${err.message}`)
+        setError(`Failed to load network data: ${errorMessage(err)}`)
+        setRawBackendData(null)
         setNetworkData(null)
+        setPayloadIssues([])
       } finally {
         setLoading(false)
       }
@@ -78,277 +231,16 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
     loadBackendData()
   }, [darkMode, dataFile])
 
-  // Helper: compute connected interfaces for a given node by scanning physical nodes/edges
-  const computeConnectedInterfaces = useCallback((nodeId: string) => {
-    if (!nodeId || !rawBackendData) return []
-    // canonicalize nodeId: if it looks like an IPv6, extract short id and remove leading zeros
-    let canonicalId = (nodeId && nodeId.toString().includes(':')) ? NetworkDataAdapter.extractLastHex(nodeId) : nodeId
-    // Remove leading zeros from canonical ID
-    if (canonicalId && /^[0-9a-fA-F]+$/.test(canonicalId)) {
-      canonicalId = parseInt(canonicalId, 16).toString(16)
-    }
-    
-    const phys = NetworkDataAdapter.convertPhysicalOnly(rawBackendData)
-    const edges = phys.edges || []
-    const nodes = phys.nodes || []
-    const conns: Array<{ interface: string; neighbor: string; neighborFullIp?: string; localIp?: string; rx_packets?: string; tx_packets?: string; rtt_ms?: number; mdev_rtt_ms?: number }> = []
-
-    // Build a map of all IP addresses to their base node IDs
-    const ipToBaseNodeId = new Map<string, string>()
-    
-    // Build a map of node IDs to their fullAddress
-    const nodeIdToFullAddress = new Map<string, string>()
-    for (const node of nodes) {
-      if (node.id && node.fullAddress) {
-        nodeIdToFullAddress.set(node.id, node.fullAddress)
-      }
-    }
-    const networkMapData = rawBackendData?.network_map || rawBackendData?.networkMap
-    let networkMap: any[] = []
-    if (networkMapData) {
-      // Handle nested structure: { networkMap: { nodeRouteInfo: [...] } }
-      if (networkMapData.nodeRouteInfo || networkMapData.node_route_info) {
-        networkMap = networkMapData.nodeRouteInfo || networkMapData.node_route_info
-      } else if (Array.isArray(networkMapData)) {
-        networkMap = networkMapData
-      }
-    }
-    
-    // Map all IPs to their base node ID
-    networkMap.forEach((n: any) => {
-      const nodeName = n.node_name || n.nodeName
-      if (!nodeName) return
-      
-      // Extract base node ID from node name
-      let baseNodeId = nodeName
-      if (nodeName.toString().startsWith('Node') && nodeName.length > 4) {
-        const hexPart = nodeName.substring(4)
-        const nodeIdWithZeros = hexPart.substring(hexPart.length - 4)
-        // Remove leading zeros
-        baseNodeId = parseInt(nodeIdWithZeros, 16).toString(16)
-      }
-      
-      // Map all local IPs to this base node ID
-      const localIps = n.local_ip_info || n.localIpInfo || []
-      localIps.forEach((lip: any) => {
-        const ip = lip.local_ip || lip.localIp
-        if (ip) {
-          const ipId = NetworkDataAdapter.extractLastHex(ip)
-          ipToBaseNodeId.set(ipId, baseNodeId)
-        }
-      })
-    })
-    
-    const currentNode = networkMap.find((n: any) => {
-      const nodeName = n.node_name || n.nodeName
-      if (!nodeName) return false
-      
-      // Extract short ID from node name and remove leading zeros
-      let nodeShortId = nodeName
-      if (nodeName.toString().startsWith('Node') && nodeName.length > 4) {
-        const hexPart = nodeName.substring(4)
-        const idWithZeros = hexPart.substring(hexPart.length - 4)
-        nodeShortId = parseInt(idWithZeros, 16).toString(16)
-      } else if (nodeName.toString().includes(':')) {
-        nodeShortId = NetworkDataAdapter.extractLastHex(nodeName)
-      }
-      
-      // Also extract short ID from nodeId for comparison
-      let searchShortId = nodeId
-      if (nodeId && nodeId.toString().includes(':')) {
-        searchShortId = NetworkDataAdapter.extractLastHex(nodeId)
-        // Remove leading zeros
-        if (/^[0-9a-fA-F]+$/.test(searchShortId)) {
-          searchShortId = parseInt(searchShortId, 16).toString(16)
-        }
-      }
-      
-      // Match using both canonical and short IDs
-      return nodeShortId === canonicalId || 
-             nodeShortId === searchShortId ||
-             nodeName === nodeId ||
-             nodeName === canonicalId
-    })
+  // Indexed topology of the current payload, shared by the handlers, lists and analyses below
+  const topology = useMemo(() => rawBackendData ? getTopologyModel(rawBackendData) : null, [rawBackendData])
 
-    // Get local IPs for this node
-    const localIpInfo = currentNode?.local_ip_info || currentNode?.localIpInfo || []
-    
-    console.log(`[computeConnectedInterfaces] Node ${canonicalId}:`, {
-      currentNode: currentNode ? 'found' : 'NOT FOUND',
-      nodeName: currentNode?.node_name || currentNode?.nodeName,
-      localIpInfoCount: localIpInfo.length,
-      localIpInfo: localIpInfo
-    })
-
-    // Track which connections we've already added to avoid duplicates
-    // Key: "localInterface-neighborIP" to allow multiple connections to different IPs of same node
-    const seenConnections = new Set<string>()
-
-    for (const e of edges) {
-      // Only include physical (direct) connections
-      if (e.edgeType === 'direct') {
-        if (e.from === canonicalId) {
-          // Use interfaceA (the interface on the 'from' side) if available
-          const iface = e.interfaceA || e.label || 'unknown'
-          // Use the original neighbor IP stored in the edge
-          const neighborIp = e.neighborIpA || e.to
-          
-          // Get base node ID for this neighbor
-          const neighborIpId = NetworkDataAdapter.extractLastHex(neighborIp)
-          let baseNeighborId = ipToBaseNodeId.get(neighborIpId)
-          
-          // If not in map, extract and normalize the ID
-          if (!baseNeighborId) {
-            baseNeighborId = neighborIpId
-            // Remove leading zeros
-            if (baseNeighborId && /^[0-9a-fA-F]+$/.test(baseNeighborId)) {
-              baseNeighborId = parseInt(baseNeighborId, 16).toString(16)
-            }
-          }
-          
-          // Get the full address for this neighbor node
-          const neighborFullAddress = nodeIdToFullAddress.get(baseNeighborId) || neighborIp
-          
-          // Create unique key based on local interface and neighbor IP (not base node)
-          const connectionKey = `${iface}-${neighborIpId}`
-          
-          // Skip if we've already added this exact connection
-          if (seenConnections.has(connectionKey)) continue
-          seenConnections.add(connectionKey)
-          
-          // Find the local IP for this exact interface (eth0, eth1, usb0, usb1, etc.)
-          const localIpEntry = localIpInfo.find((li: any) => {
-            const liInterface = li.interface || li.iface
-            // Treat 'NO_INTERFACE' as 'eth0' and also match undefined/null as 'eth0'
-            const normalizedLiInterface = (!liInterface || liInterface === 'NO_INTERFACE') ? 'eth0' : liInterface
-            const normalizedIface = (!iface || iface === 'NO_INTERFACE') ? 'eth0' : iface
-            return normalizedLiInterface === normalizedIface
-          })
-          
-          if (!localIpEntry && localIpInfo.length > 0) {
-            console.log(`[Connection FROM] Interface '${iface}' not found for node ${canonicalId}. Available:`, 
-              localIpInfo.map((li: any) => `${li.interface || li.iface || 'NO_INTERFACE'}: ${li.local_ip || li.localIp}`))
-          }
-          
-          const localIp = localIpEntry?.local_ip || localIpEntry?.localIp
-          
-          // Find RTT stats from route_info for this interface/neighbor
-          const routeInfo = currentNode?.route_info || currentNode?.routeInfo || []
-          const routeEntry = routeInfo.find((r: any) => {
-            const incomingIf = r.incoming_interface || r.incomingInterface || ''
-            return incomingIf === iface
-          })
-          
-          conns.push({ 
-            interface: iface, 
-            neighbor: baseNeighborId,  // Use base node ID instead of interface IP
-            neighborFullIp: neighborFullAddress,  // Store full neighbor IP address (eth0)
-            localIp: localIp,
-            rx_packets: routeEntry?.rx_packets,
-            tx_packets: routeEntry?.tx_packets,
-            rtt_ms: routeEntry?.rtt_ms,
-            mdev_rtt_ms: routeEntry?.mdev_rtt_ms
-          })
-        } else if (e.to === canonicalId) {
-          // Use interfaceB (the interface on the 'to' side) if available
-          const iface = e.interfaceB || e.label || 'unknown'
-          // Use the original neighbor IP stored in the edge
-          const neighborIp = e.neighborIpB || e.from
-          
-          // Get base node ID for this neighbor
-          const neighborIpId = NetworkDataAdapter.extractLastHex(neighborIp)
-          let baseNeighborId = ipToBaseNodeId.get(neighborIpId)
-          
-          // If not in map, extract and normalize the ID
-          if (!baseNeighborId) {
-            baseNeighborId = neighborIpId
-            // Remove leading zeros
-            if (baseNeighborId && /^[0-9a-fA-F]+$/.test(baseNeighborId)) {
-              baseNeighborId = parseInt(baseNeighborId, 16).toString(16)
-            }
-          }
-          
-          // Get the full address for this neighbor node
-          const neighborFullAddress = nodeIdToFullAddress.get(baseNeighborId) || neighborIp
-          
-          // Create unique key based on local interface and neighbor IP (not base node)
-          const connectionKey = `${iface}-${neighborIpId}`
-          
-          // Skip if we've already added this exact connection
-          if (seenConnections.has(connectionKey)) continue
-          seenConnections.add(connectionKey)
-          
-          // Find the local IP for this exact interface (eth0, eth1, usb0, usb1, etc.)
-          // Normalize interface names: treat 'NO_INTERFACE', undefined, null as 'eth0'
-          const localIpEntry = localIpInfo.find((li: any) => {
-            const liInterface = li.interface || li.iface
-            const normalizedLiInterface = (!liInterface || liInterface === 'NO_INTERFACE') ? 'eth0' : liInterface
-            const normalizedIface = (!iface || iface === 'NO_INTERFACE') ? 'eth0' : iface
-            return normalizedLiInterface === normalizedIface
-          })
-          
-          if (!localIpEntry && localIpInfo.length > 0) {
-            console.log(`[Connection TO] Interface '${iface}' not found for node ${canonicalId}. Available:`, 
-              localIpInfo.map((li: any) => `${li.interface || li.iface || 'NO_INTERFACE'}: ${li.local_ip || li.localIp}`))
-          }
-          
-          const localIp = localIpEntry?.local_ip || localIpEntry?.localIp
-          
-          // Find RTT stats from route_info for this interface/neighbor
-          const routeInfo = currentNode?.route_info || currentNode?.routeInfo || []
-          const routeEntry = routeInfo.find((r: any) => {
-            const incomingIf = r.incoming_interface || r.incomingInterface || ''
-            return incomingIf === iface
-          })
-          
-          conns.push({ 
-            interface: iface, 
-            neighbor: baseNeighborId,  // Use base node ID for consistency
-            neighborFullIp: neighborFullAddress,  // Store full neighbor IP address (eth0)
-            localIp: localIp,
-            rx_packets: routeEntry?.rx_packets,
-            tx_packets: routeEntry?.tx_packets,
-            rtt_ms: routeEntry?.rtt_ms,
-            mdev_rtt_ms: routeEntry?.mdev_rtt_ms
-          })
-        }
-      }
-    }
-
-    // Deduplicate by normalized interface+neighbor, and sort
-    // Also filter out self-connections (where neighbor is the same as the node itself)
-    const seen = new Set<string>()
-    const dedup: Array<{ interface: string; neighbor: string; neighborFullIp?: string; localIp?: string; rx_packets?: string; tx_packets?: string; rtt_ms?: number; mdev_rtt_ms?: number }> = []
-    for (const c of conns) {
-      const iface = (c.interface || '').toString().trim()
-      const neigh = (c.neighbor || '').toString().trim()
-      if (!neigh) continue
-      // Skip self-connections
-      if (neigh.toLowerCase() === canonicalId.toLowerCase()) continue
-      const key = `${iface.toLowerCase()}::${neigh.toLowerCase()}`
-      if (!seen.has(key)) {
-        seen.add(key)
-        dedup.push({ 
-          interface: iface || 'unknown', 
-          neighbor: neigh,
-          rx_packets: c.rx_packets,
-          tx_packets: c.tx_packets,
-          rtt_ms: c.rtt_ms,
-          mdev_rtt_ms: c.mdev_rtt_ms
-        })
-      }
-    }
-    dedup.sort((a, b) => a.interface.localeCompare(b.interface) || a.neighbor.localeCompare(b.neighbor))
-    return dedup
-  }, [rawBackendData])
-
-  const handleNodeHover = useCallback((nodeData: any) => {
-    if (!nodeData || !rawBackendData) {
+  const handleNodeHover = useCallback((nodeData: NodeDetails | null) => {
+    if (!nodeData || !topology) {
       setHoveredNode(null);
       return;
     }
 
-    const connectedInterfaces = computeConnectedInterfaces(nodeData.id)
+    const connectedInterfaces = topology.connectedInterfaces(nodeData.id)
     // Preserve fullAddress from original nodeData
     const enrichedNodeData = { 
       ...nodeData, 
@@ -356,13 +248,13 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
       connectedInterfaces: connectedInterfaces.length > 0 ? connectedInterfaces : undefined 
     };
     setHoveredNode(enrichedNodeData);
-  }, [rawBackendData, computeConnectedInterfaces])
+  }, [topology])
 
-  const handleNodeClick = useCallback((nodeData: any) => {
+  const handleNodeClick = useCallback((nodeData: NodeDetails | null) => {
     // Clear hover state when clicking
     setHoveredNode(null);
     
-    if (!nodeData || !rawBackendData) {
+    if (!nodeData || !topology) {
       setSelectedNode(null);
       if (onNodeClick) {
         onNodeClick(null);
@@ -371,8 +263,7 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
     }
 
     // Find backend-equivalent node info using the converted physical data
-    const phys = NetworkDataAdapter.convertPhysicalOnly(rawBackendData)
-    const backendNodeInfo = (phys.nodes || []).find((n: any) => n.id === nodeData.id) || null
+    const backendNodeInfo = topology.nodeById.get(nodeData.id) || null
     
     console.log('[handleNodeClick] Node data:', {
       clickedId: nodeData.id,
@@ -380,13 +271,17 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
       allLocalIps: backendNodeInfo?.allLocalIps
     })
 
-    const connectedInterfaces = computeConnectedInterfaces(nodeData.id)
+    const connectedInterfaces = topology.connectedInterfaces(nodeData.id)
+    // Same counts as the node's samples in the metrics history
+    const entry = topology.entryByNodeId.get(nodeData.id)
     // Preserve fullAddress from nodeData (set by main adapter) - don't let backendNodeInfo overwrite it
     const mergedNode = { 
       ...nodeData, 
       ...(backendNodeInfo || {}), 
       fullAddress: nodeData.fullAddress, // Explicitly preserve the correct fullAddress
-      connectedInterfaces: connectedInterfaces.length > 0 ? connectedInterfaces : undefined 
+      connectedInterfaces: connectedInterfaces.length > 0 ? connectedInterfaces : undefined,
+      routeCount: entry?.routeInfo.length,
+      neighborCount: entry?.neighIpInfo.length,
     };
     setSelectedNode(mergedNode);
     
@@ -394,7 +289,12 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
     if (onNodeClick) {
       onNodeClick(mergedNode);
     }
-  }, [rawBackendData, computeConnectedInterfaces, onNodeClick])
+  }, [topology, onNodeClick])
+
+  // Selecting an inventory row selects its node, as a click on the map would
+  const selectInventoryRow = (row: InventoryRow | null) => {
+    handleNodeClick(row && topology?.nodeById.get(row.mapId!) || null)
+  }
 
   const handleMouseMove = useCallback((event: React.MouseEvent) => {
     setMousePosition({ x: event.clientX + 10, y: event.clientY + 10 })
@@ -406,44 +306,96 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
     setSelectedSource('')
     setSelectedTarget('')
     setPathHighlighted(false)
-    setPathError(null)
     setNoPathExists(false)
     setHighlightedPathInfo(null)
+    setDistributionTree(null)
+    setPathComparison(null)
+    setSelectedFault(null)
+    setSelectedAsymmetry(null)
+    setSelectedLink(null)
     try {
       setError(null)
-      const response = await fetch(`${dataFile}?t=${Date.now()}`)
-      if (!response.ok) {
-        throw new Error(`Failed to load backend data: ${response.status} ${response.statusText}`)
-      }
-      const rawData = await response.json()
-      const physData = NetworkDataAdapter.convertPhysicalOnly(rawData)
-      setNetworkData(NetworkDataAdapter.convertToVisNetwork(physData))
+      const rawData = await loadDatasetJson(dataFile)
+      payloadSignatureRef.current = JSON.stringify(rawData)
+      loadQueryData()
+      const model = getTopologyModel(rawData)
+      setPayloadIssues(model.parsed.issues)
+      setNetworkData(model.visData)
       setRawBackendData(rawData)
-    } catch (err: any) {
+    } catch (err) {
       console.error("[v0] Failed to refresh network data:", err)
-      setError(`Failed to refresh network data: ${err.message}`)
+      setError(`Failed to refresh network data: ${errorMessage(err)}`)
       setNetworkData(null)
+      setPayloadIssues([])
     } finally {
       setLoading(false)
     }
-  }, [dataFile])
+  }, [dataFile, loadQueryData])
+
+  // Query records linked to the map nodes by node name
+  const inventory = useMemo(() => {
+    if (!queryData || !topology) return []
+    const idByName = new Map<string, string>(topology.nodes.map((node) => [node.nodeName!, node.id]))
+    return buildInventory(queryData.nodes, (nodeName) => idByName.get(nodeName))
+  }, [queryData, topology])
+
+  const styleMapping = useMemo(
+    () => topology ? buildStyleMapping(topology, inventory, styleChoice) : null,
+    [topology, inventory, styleChoice]
+  )
+  // The inventory table drives (and shows) node colors by one of its own columns
+  const inventoryColorBy = INVENTORY_ATTRIBUTES.some(({ key }) => key === styleChoice.nodeColor) ? styleChoice.nodeColor as InventoryAttribute : null
+
+  const inventoryDrift = useMemo(() => detectInventoryDrift(inventory, minFreeDiskMb), [inventory, minFreeDiskMb])
+  const inventoryBadges = useMemo(
+    () => inventoryDrift.drifts.length > 0 ? driftBadges(inventoryDrift.drifts, darkMode) : null,
+    [inventoryDrift, darkMode]
+  )
+
+  // Direct links with RTT/packet metrics, worst RTT first, and their overlay labels
+  const worstLinks = useMemo(() => topology ? rankLinksByRtt(topology.edges) : [], [topology])
+  const linkLabels = useMemo(
+    () => showLinkMetrics ? Object.fromEntries(worstLinks.map((row) => [row.edgeId, linkMetricsLabel(row.metrics)!])) : null,
+    [showLinkMetrics, worstLinks]
+  )
+
+  const healthFindings = useMemo(
+    () => topology ? analyzeDataHealth(topology.parsed, queryData, topology.identity) : [],
+    [topology, queryData]
+  )
+
+  // Walk every (source, receiver) pair in the route tables and collect the walks that fail
+  const routeFaults = useMemo(
+    () => topology ? detectRouteFaults(topology.routeTable, topology.edges) : [],
+    [topology]
+  )
+
+  // Compare A -> B with B -> A for every pair of nodes
+  const asymmetryReport = useMemo(
+    () => topology ? detectRouteAsymmetry(topology.routeTable, topology.nodes, topology.edges) : { asymmetric: [], comparedPairs: 0, unresolvedPairs: 0 },
+    [topology]
+  )
 
   // Build source list from all physical nodes (so every visible node is selectable as a source)
-  const physForList = rawBackendData ? NetworkDataAdapter.convertPhysicalOnly(rawBackendData) : { nodes: [], edges: [] }
-  const sourceNodes = (physForList.nodes || [])
-    .map((n: any) => ({ id: n.id, label: n.label || `Node ${n.id}` }))
-    .filter((node: any, index: number, self: any[]) => node.id && index === self.findIndex((m) => m.id === node.id))
+  const sourceNodes = useMemo(
+    () => (topology?.nodes || [])
+      .map((n) => ({ id: n.id, label: n.label || `Node ${n.id}` }))
+      .filter((node) => node.id),
+    [topology]
+  )
 
   // Build full node list (physical) for target selection
-  const physicalList = rawBackendData ? NetworkDataAdapter.convertPhysicalOnly(rawBackendData) : { nodes: [], edges: [] }
-  const allNodes = physicalList.nodes || []
+  const allNodes = topology?.nodes || []
 
   // Compute and highlight path when explicitly requested
   const computeAndHighlightPath = useCallback(() => {
-    if (!rawBackendData) return
-    const physData = NetworkDataAdapter.convertPhysicalOnly(rawBackendData)
+    if (!topology) return
+    setSelectedFault(null)
+    setSelectedAsymmetry(null)
+    setSelectedLink(null)
+    setPathComparison(null)
     if (!selectedSource || !selectedTarget) {
-      setNetworkData(NetworkDataAdapter.convertToVisNetwork(physData))
+      setNetworkData(topology.visData)
       setPathHighlighted(false)
       setNoPathExists(false)
       setHighlightedPathInfo(null)  // Clear path info
@@ -453,69 +405,293 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
     console.log('[computeAndHighlightPath] Finding path:', {
       selectedSource,
       selectedTarget,
-      availableNodes: physData.nodes.map((n: any) => n.id)
+      availableNodes: topology.nodes.map((n) => n.id)
     })
     
     try {
       // Use findAllPaths to get ALL paths (for multicast with multiple direct connections)
-      const { pathEdges, pathNodes } = NetworkDataAdapter.findAllPaths(physData.nodes, physData.edges, selectedSource, selectedTarget, rawBackendData)
+      const { pathEdges, pathNodes } = NetworkDataAdapter.findAllPaths(topology.nodes, topology.edges, selectedSource, selectedTarget, topology.routeTable)
       
-      const highlightColor = getComputedStyle(document.documentElement).getPropertyValue('--color-legend-highlight').trim() || (darkMode ? "#FFD166" : "#FF6B6B")
-      const highlightNodeStyle = { color: { background: highlightColor, border: highlightColor }, borderWidth: 4 }
-      
-      // Dim non-highlighted nodes but NOT intermediate path nodes
-      // Source and target get highlight style, intermediate path nodes stay normal, others get dimmed
-      const dimColor = darkMode ? "#444" : "#ccc"
-      const dimNodeStyle = { color: { background: dimColor, border: dimColor }, opacity: 0.4 }
-
-      const nodes = physData.nodes.map((n: any) => {
-        const isSource = n.id === selectedSource
-        const isTarget = n.id === selectedTarget
-        const isOnPath = pathNodes.includes(n.id)
-        
-        if (isSource || isTarget) {
-          // Source and target get highlight
-          return { ...n, ...highlightNodeStyle }
-        } else if (isOnPath) {
-          // Intermediate path nodes stay normal (no style change)
-          return n
-        } else {
-          // All other nodes get dimmed
-          return { ...n, ...dimNodeStyle }
-        }
-      })
+      // Source and target get highlight, intermediate path nodes stay normal, others get dimmed
+      const nodes = styleHighlightedNodes(topology.nodes, new Set([selectedSource, selectedTarget]), new Set(pathNodes), darkMode)
       
       // Note: edges are drawn via custom canvas, so we don't modify them here
       // Just pass the data through, the highlighting is handled in NetworkMap
-      setNetworkData(NetworkDataAdapter.convertToVisNetwork({ nodes, edges: physData.edges }))
+      setNetworkData(NetworkDataAdapter.convertToVisNetwork({ nodes, edges: topology.edges }))
       
       // Store path info for custom canvas drawing (includes ALL path edges for multicast)
       const hasPath = (pathNodes || []).length > 1
       setHighlightedPathInfo(hasPath ? { nodes: pathNodes, edges: pathEdges } : null)
       setPathHighlighted(hasPath)
       setNoPathExists(!hasPath)
-    } catch (err: any) {
+    } catch (err) {
       console.warn('Path compute failed:', err)
-      setNetworkData(NetworkDataAdapter.convertToVisNetwork(physData))
+      setNetworkData(topology.visData)
       setPathHighlighted(false)
       setNoPathExists(true)
       setHighlightedPathInfo(null)
     }
-  }, [rawBackendData, selectedSource, selectedTarget, darkMode])
+  }, [topology, selectedSource, selectedTarget, darkMode])
+
+  // Draw the routed path (highlighted) and the physical shortest path (secondary) together
+  const computeAndHighlightComparison = useCallback(() => {
+    if (!topology) return
+    setSelectedFault(null)
+    setSelectedAsymmetry(null)
+    setSelectedLink(null)
+    setNoPathExists(false)
+    if (!selectedSource || !selectedTarget) {
+      setNetworkData(topology.visData)
+      setPathHighlighted(false)
+      setHighlightedPathInfo(null)
+      setPathComparison(null)
+      return
+    }
+
+    const comparison = compareRoutedWithShortest(selectedSource, selectedTarget, topology.routeTable, topology.edges)
+    const kept = new Set([...(comparison.routed?.nodes || []), ...(comparison.shortest?.nodes || [])])
+    const nodes = styleHighlightedNodes(topology.nodes, new Set([selectedSource, selectedTarget]), kept, darkMode)
+
+    setNetworkData(NetworkDataAdapter.convertToVisNetwork({ nodes, edges: topology.edges }))
+    setHighlightedPathInfo(comparison.routed || { nodes: [], edges: [] })
+    setPathComparison(comparison)
+    setPathHighlighted(true)
+    setNoPathExists(!comparison.routed && !comparison.shortest)
+  }, [topology, selectedSource, selectedTarget, darkMode])
+
+  // Draw the multicast distribution tree rooted at the selected source
+  const computeAndHighlightTree = useCallback(() => {
+    if (!topology) return
+    setSelectedFault(null)
+    setSelectedAsymmetry(null)
+    setSelectedLink(null)
+    if (!selectedSource) {
+      setNetworkData(topology.visData)
+      setDistributionTree(null)
+      setPathComparison(null)
+      setHighlightedPathInfo(null)
+      return
+    }
+
+    const tree = buildDistributionTree(selectedSource, topology.routeTable, topology.nodes, topology.edges)
+    const treeNodeIds = new Set(tree.nodes.map((n) => n.nodeId))
+
+    // Source gets highlight, nodes reached by the tree stay normal, everything else is dimmed
+    const nodes = styleHighlightedNodes(topology.nodes, new Set([selectedSource]), treeNodeIds, darkMode)
+
+    setNetworkData(NetworkDataAdapter.convertToVisNetwork({ nodes, edges: topology.edges }))
+    setHighlightedPathInfo({ nodes: Array.from(treeNodeIds), edges: tree.edges })
+    setDistributionTree(tree)
+  }, [topology, selectedSource, darkMode])
+
+  // Show one failed route walk: the walked nodes stay normal, the receiver and the
+  // node where the walk broke (plus its offending next hop) are highlighted
+  const highlightRouteFault = useCallback((fault: RouteFault | null) => {
+    if (!topology) return
+    setSelectedFault(fault)
+    setSelectedAsymmetry(null)
+    setSelectedLink(null)
+    setPathHighlighted(false)
+    setNoPathExists(false)
+    setDistributionTree(null)
+    setPathComparison(null)
+    if (!fault) {
+      setNetworkData(topology.visData)
+      setHighlightedPathInfo(null)
+      return
+    }
+
+    const emphasized = new Set([fault.receiverId, fault.atNode, ...(fault.nextHop ? [fault.nextHop] : [])])
+    const nodes = styleHighlightedNodes(topology.nodes, emphasized, new Set(fault.walk), darkMode)
+
+    setNetworkData(NetworkDataAdapter.convertToVisNetwork({ nodes, edges: topology.edges }))
+    setHighlightedPathInfo({ nodes: fault.walk, edges: fault.walkEdges })
+  }, [topology, darkMode])
+
+  // Draw both directions of an asymmetric pair: A -> B as the highlighted path, B -> A as the secondary path
+  const highlightRouteAsymmetry = useCallback((pair: RouteAsymmetry | null) => {
+    if (!topology) return
+    setSelectedAsymmetry(pair)
+    setSelectedFault(null)
+    setSelectedLink(null)
+    setPathHighlighted(false)
+    setNoPathExists(false)
+    setDistributionTree(null)
+    setPathComparison(null)
+    if (!pair) {
+      setNetworkData(topology.visData)
+      setHighlightedPathInfo(null)
+      return
+    }
+
+    const kept = new Set([...pair.forward.nodes, ...pair.reverse.nodes])
+    const nodes = styleHighlightedNodes(topology.nodes, new Set([pair.nodeA, pair.nodeB]), kept, darkMode)
+
+    setNetworkData(NetworkDataAdapter.convertToVisNetwork({ nodes, edges: topology.edges }))
+    setHighlightedPathInfo(pair.forward)
+  }, [topology, darkMode])
+
+  // Highlight one link from the worst links list together with its two ends
+  const highlightLink = useCallback((row: LinkMetricsRow | null) => {
+    if (!topology) return
+    setSelectedLink(row)
+    setSelectedFault(null)
+    setSelectedAsymmetry(null)
+    setPathHighlighted(false)
+    setNoPathExists(false)
+    setDistributionTree(null)
+    setPathComparison(null)
+    if (!row) {
+      setNetworkData(topology.visData)
+      setHighlightedPathInfo(null)
+      return
+    }
+
+    const ends = new Set([row.from, row.to])
+    const nodes = styleHighlightedNodes(topology.nodes, ends, ends, darkMode)
+
+    setNetworkData(NetworkDataAdapter.convertToVisNetwork({ nodes, edges: topology.edges }))
+    setHighlightedPathInfo({ nodes: [row.from, row.to], edges: [row.edgeId] })
+  }, [topology, darkMode])
+
+  const secondaryPathInfo = useMemo(
+    () => selectedAsymmetry ? selectedAsymmetry.reverse : pathComparison ? pathComparison.shortest : null,
+    [selectedAsymmetry, pathComparison]
+  )
+
+  // The legend below the map, repeated in map exports
+  const exportLegendItems = useMemo((): MapLegendItem[] => [
+    { label: 'Physical Connection', color: 'var(--color-legend-phys)', kind: 'node' },
+    { label: 'Highlighted Node', color: 'var(--color-legend-route)', kind: 'node' },
+    { label: 'Direct Link', color: 'var(--color-legend-phys)', kind: 'line' },
+    { label: 'Multicast Route Path', color: 'var(--color-legend-highlight)', kind: 'line' },
+    ...(viewMode === 'compare' && pathComparison ? [
+      { label: 'Routed Path (and shared links)', color: 'var(--color-legend-highlight)', kind: 'line' as const },
+      { label: 'Shortest Physical Path', color: 'var(--color-legend-secondary)', kind: 'dashed' as const },
+    ] : []),
+    ...(selectedAsymmetry ? [
+      { label: `${selectedAsymmetry.nodeA} → ${selectedAsymmetry.nodeB} (and links used both ways)`, color: 'var(--color-legend-highlight)', kind: 'line' as const },
+      { label: `${selectedAsymmetry.nodeB} → ${selectedAsymmetry.nodeA}`, color: 'var(--color-legend-secondary)', kind: 'dashed' as const },
+    ] : []),
+    ...(inventoryBadges ? [{ label: 'Configuration drift (⚠ badge)', color: darkMode ? '#f87171' : '#c62828', kind: 'node' as const }] : []),
+    ...(styleMapping?.legend || []),
+  ], [viewMode, pathComparison, selectedAsymmetry, inventoryBadges, styleMapping, darkMode])
+
+  // Per-node depth/interface badges drawn on the map (memoized so NetworkMap only redraws when the tree changes)
+  const treeAnnotations = useMemo(
+    () => distributionTree
+      ? Object.fromEntries(distributionTree.nodes.map((n) => [n.nodeId, { depth: n.depth, incomingInterface: n.incomingInterface }]))
+      : null,
+    [distributionTree]
+  )
+
+  // Every payload shown (load, refresh, poll or stream) adds a sample to the dataset's metrics history
+  useEffect(() => {
+    if (!topology) return
+    recordMetricsSample(buildMetricsSample(dataFile, topology))
+      .catch((err) => console.warn(`[v0] Could not record metrics history for ${dataFile}:`, err))
+  }, [topology])
+
+  // In tree mode the tree follows the Source selection directly
+  useEffect(() => {
+    if (viewMode === 'tree') computeAndHighlightTree()
+  }, [viewMode, selectedSource])
 
   // When raw data or theme changes, reapply path highlighting if it was previously shown
   useEffect(() => {
+    rawBackendDataRef.current = rawBackendData
     if (!rawBackendData) return
+    const streamed = streamedPayloadRef.current === rawBackendData
+    streamedPayloadRef.current = null
+    // A live update may have fixed (or changed) the selected fault, asymmetric pair or
+    // link, so look them up again in the analyses of the new payload
+    const fault = selectedFault && routeFaults.find((f) => routeFaultKey(f) === routeFaultKey(selectedFault))
+    const asymmetry = selectedAsymmetry && asymmetryReport.asymmetric.find((p) => routeAsymmetryKey(p) === routeAsymmetryKey(selectedAsymmetry))
+    const link = selectedLink && worstLinks.find((row) => row.edgeId === selectedLink.edgeId)
     // Only re-highlight if the path was explicitly shown (pathHighlighted is true)
-    if (pathHighlighted && selectedSource && selectedTarget) {
-      computeAndHighlightPath()
-    } else {
+    if (viewMode === 'tree' && selectedSource) {
+      computeAndHighlightTree()
+    } else if (selectedFault || selectedAsymmetry) {
+      if (fault) highlightRouteFault(fault)
+      else highlightRouteAsymmetry(asymmetry || null)
+    } else if (selectedLink) {
+      highlightLink(link || null)
+    } else if (pathHighlighted && selectedSource && selectedTarget) {
+      if (viewMode === 'compare') computeAndHighlightComparison()
+      else computeAndHighlightPath()
+    } else if (!streamed) {
       // Otherwise, reset to physical topology without highlighting
-      const physData = NetworkDataAdapter.convertPhysicalOnly(rawBackendData)
-      setNetworkData(NetworkDataAdapter.convertToVisNetwork(physData))
+      setNetworkData(topology!.visData)
     }
   }, [rawBackendData, darkMode])
 
+  // Live mode: poll the data URL and only hand a payload to the map when it differs from
+  // the one shown. Selections are kept, so the re-highlight effect above redraws the
+  // current path/tree/fault on top of the new data and NetworkMap keeps its viewport.
+  useEffect(() => {
+    if (!pollInterval) {
+      setLastPolledAt(null)
+      setPollError(null)
+      return
+    }
+    let cancelled = false
+    let inFlight = false
+    const poll = async () => {
+      if (inFlight) return
+      inFlight = true
+      try {
+        const rawData = await loadDatasetJson(dataFile)
+        if (cancelled) return
+        setLastPolledAt(new Date())
+        setPollError(null)
+        const signature = JSON.stringify(rawData)
+        if (signature === payloadSignatureRef.current) return
+        const model = getTopologyModel(rawData)
+        if (model.nodes.length === 0) {
+          setPollError('Latest payload has no usable nodes; keeping the previous map')
+          return
+        }
+        payloadSignatureRef.current = signature
+        setPayloadIssues(model.parsed.issues)
+        setRawBackendData(rawData)
+      } catch (err) {
+        console.warn(`[v0] Live poll of ${dataFile} failed:`, err)
+        if (!cancelled) setPollError(errorMessage(err))
+      } finally {
+        inFlight = false
+      }
+    }
+    const timer = setInterval(poll, pollInterval)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [pollInterval, dataFile])
+
+  // Push mode: deltas from the stream patch the payload (for the analyses and node
+  // details) while NetworkMap applies them to its DataSets in place
+  useEffect(() => {
+    if (!streamUrl) return
+    setStreamError(null)
+    const stream = connectTopologyStream(streamUrl, (status) => {
+      setStreamStatus(status)
+      if (status === 'open') setStreamError(null)
+    }, setStreamError)
+    const unsubscribe = stream.subscribe((deltas) => {
+      if (!rawBackendDataRef.current) return
+      const next = applyDeltasToPayload(rawBackendDataRef.current, deltas)
+      rawBackendDataRef.current = next
+      streamedPayloadRef.current = next
+      setRawBackendData(next)
+    })
+    setTopologyStream(stream)
+    return () => {
+      unsubscribe()
+      stream.close()
+      setTopologyStream(null)
+    }
+  }, [streamUrl, dataFile])
+
   // Listen for a global refresh event so header can host the refresh button
   useEffect(() => {
     const onRefresh = () => {
@@ -549,10 +725,13 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
     background: '#ffc107',
     color: '#000'
   }
-  const refreshBtnStyle: React.CSSProperties = {
+  const layoutBtnStyle: React.CSSProperties = {
     ...btnBase,
-    background: '#007bff',
-    color: '#fff'
+    padding: '5px 10px',
+    fontSize: '13px',
+    background: darkMode ? '#1e293b' : '#f3f4f6',
+    color: darkMode ? '#e2e8f0' : '#111827',
+    border: `1px solid ${darkMode ? '#475569' : '#d1d5db'}`,
   }
 
   return (
@@ -562,11 +741,71 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
           <div>
             <h2 className="network-title">Network Map</h2>
             <p className="network-subtitle">Select a source and target to visualize a path.</p>
+            {pollInterval > 0 && (
+              <p className="network-subtitle" style={{ color: pollError ? (darkMode ? '#f87171' : '#c62828') : undefined }} title={pollError || undefined}>
+                {pollError
+                  ? `● Live · last poll failed`
+                  : `● Live · ${lastPolledAt ? `checked ${lastPolledAt.toLocaleTimeString()}` : `every ${pollInterval / 1000}s`}`}
+              </p>
+            )}
+            {streamUrl && (
+              <p className="network-subtitle" style={{ color: streamStatus === 'open' ? undefined : streamError ? (darkMode ? '#f87171' : '#c62828') : (darkMode ? '#fbbf24' : '#b45309') }} title={streamError || streamUrl}>
+                {streamError && streamStatus !== 'open' ? `● Stream · ${streamStatus} · connection failed` : `● Stream · ${streamStatus}`}
+              </p>
+            )}
           </div>
         </div>
 
         <div style={{ display: 'flex', gap: '12px', alignItems: 'center', flex: '1 1 auto', justifyContent: 'center' }}>
           <div className="source-selector" style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <label htmlFor="mode-select" className="source-label" style={{ fontWeight: 600 }}>Mode</label>
+            <select
+              id="mode-select"
+              className="source-select"
+              value={viewMode}
+              onChange={(e) => {
+                const mode = e.target.value as 'path' | 'compare' | 'tree'
+                setViewMode(mode)
+                // Switching modes starts from a clean map
+                setHighlightedPathInfo(null)
+                setPathHighlighted(false)
+                setNoPathExists(false)
+                setDistributionTree(null)
+                setPathComparison(null)
+                setSelectedFault(null)
+                setSelectedAsymmetry(null)
+                setSelectedLink(null)
+                if (mode !== 'tree' && topology) {
+                  setNetworkData(topology.visData)
+                }
+              }}
+              disabled={loading}
+              title="Trace a single path, compare it with the physical shortest path, or draw the distribution tree of the selected source"
+            >
+              <option value="path">Path</option>
+              <option value="compare">Compare with Shortest</option>
+              <option value="tree">Distribution Tree</option>
+            </select>
+
+            <label htmlFor="layout-select" className="source-label" style={{ fontWeight: 600 }}>Layout</label>
+            <select
+              id="layout-select"
+              className="source-select"
+              value={layoutMode}
+              onChange={(e) => {
+                setLayoutMode(e.target.value as LayoutMode)
+                // Picking a layout shows it; a saved arrangement comes back on the next load
+                setArrangement(null)
+                setArrangementDirty(false)
+              }}
+              disabled={loading}
+              title="How nodes are placed on the map. The hierarchical layout is rooted at the selected source. Picking a layout sets aside the hand-arranged positions until the dataset is opened again."
+            >
+              {(Object.keys(LAYOUT_MODE_LABELS) as LayoutMode[]).map((mode) => (
+                <option key={mode} value={mode}>{LAYOUT_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+
             <label htmlFor="source-select" className="source-label" style={{ fontWeight: 600 }}>Source</label>
             <SearchableSelect
               id="source-select"
@@ -578,43 +817,60 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
               darkMode={darkMode}
             />
 
-            <label htmlFor="target-select" className="source-label" style={{ fontWeight: 600 }}>Target</label>
-            <SearchableSelect
-              id="target-select"
-              value={selectedTarget}
-              onChange={setSelectedTarget}
-              options={allNodes}
-              placeholder="-- Select Target Node --"
-              disabled={loading}
-              darkMode={darkMode}
-            />
+            {viewMode !== 'tree' && (
+              <>
+                <label htmlFor="target-select" className="source-label" style={{ fontWeight: 600 }}>Target</label>
+                <SearchableSelect
+                  id="target-select"
+                  value={selectedTarget}
+                  onChange={setSelectedTarget}
+                  options={allNodes}
+                  placeholder="-- Select Target Node --"
+                  disabled={loading}
+                  darkMode={darkMode}
+                />
+              </>
+            )}
           </div>
 
           <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
-            <button
-              onClick={() => { setPathError(''); setPathLoading(true); computeAndHighlightPath(); setTimeout(() => setPathLoading(false), 300) }}
-              disabled={loading || !selectedSource || !selectedTarget || selectedSource === selectedTarget}
-              className={`action-btn ${pathLoading ? 'is-loading' : ''} ${(!loading && selectedSource && selectedTarget && selectedSource !== selectedTarget) ? 'highlight-enabled' : ''}`}
-              style={{ ...showBtnStyle, opacity: (loading || !selectedSource || !selectedTarget || selectedSource === selectedTarget) ? 0.6 : 1 }}
-              title={
-                !selectedSource || !selectedTarget
-                  ? 'Please select both source and target nodes.'
-                  : selectedSource === selectedTarget
-                  ? 'Source and target nodes are the same. Please select different nodes.'
-                  : 'Compute and show the path'
-              }
-            >
-              {pathLoading ? 'Computing…' : 'Show Path'}
-            </button>
+            {viewMode !== 'tree' && (
+              <button
+                onClick={() => {
+                  setPathLoading(true)
+                  if (viewMode === 'compare') computeAndHighlightComparison()
+                  else computeAndHighlightPath()
+                  setTimeout(() => setPathLoading(false), 300)
+                }}
+                disabled={loading || !selectedSource || !selectedTarget || selectedSource === selectedTarget}
+                className={`action-btn ${pathLoading ? 'is-loading' : ''} ${(!loading && selectedSource && selectedTarget && selectedSource !== selectedTarget) ? 'highlight-enabled' : ''}`}
+                style={{ ...showBtnStyle, opacity: (loading || !selectedSource || !selectedTarget || selectedSource === selectedTarget) ? 0.6 : 1 }}
+                title={
+                  !selectedSource || !selectedTarget
+                    ? 'Please select both source and target nodes.'
+                    : selectedSource === selectedTarget
+                    ? 'Source and target nodes are the same. Please select different nodes.'
+                    : viewMode === 'compare'
+                    ? 'Compute the routed path and the physical shortest path'
+                    : 'Compute and show the path'
+                }
+              >
+                {pathLoading ? 'Computing…' : viewMode === 'compare' ? 'Compare Paths' : 'Show Path'}
+              </button>
+            )}
 
             <button
               onClick={() => {
-                setSelectedSource(''); setSelectedTarget(''); setPathError('');
+                setSelectedSource(''); setSelectedTarget('');
                 setNoPathExists(false)
                 setHighlightedPathInfo(null)  // Clear path highlighting
-                if (rawBackendData) {
-                  const physData = NetworkDataAdapter.convertPhysicalOnly(rawBackendData)
-                  setNetworkData(NetworkDataAdapter.convertToVisNetwork(physData))
+                setDistributionTree(null)
+                setPathComparison(null)
+                setSelectedFault(null)
+                setSelectedAsymmetry(null)
+                setSelectedLink(null)
+                if (topology) {
+                  setNetworkData(topology.visData)
                 }
                 setPathHighlighted(false)
               }}
@@ -640,6 +896,110 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
         </div>
       )}
 
+      {payloadIssues.length > 0 && (
+        <div className="error-message">
+          <strong>Data validation:</strong> {payloadIssues.length} problem{payloadIssues.length === 1 ? '' : 's'} found in {dataFile}. Affected entries were skipped, so the map may be incomplete.
+          <div className="error-hint">
+            See the Data Health panel below the legend for the JSON path of each problem.
+          </div>
+        </div>
+      )}
+
+      {networkData && (
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', justifyContent: 'flex-end', flexWrap: 'wrap', margin: '8px 0', fontSize: '13px' }}>
+          <button
+            onClick={() => {
+              // Members of an NCA belong together, so showing the containers also groups the layout
+              if (!showGroups && !arrangement) setLayoutMode('nca')
+              setShowGroups(!showGroups)
+            }}
+            disabled={!positionsFile}
+            style={{ ...layoutBtnStyle, opacity: positionsFile ? 1 : 0.6, ...(showGroups ? { background: '#17a2b8', color: '#000', borderColor: '#17a2b8' } : {}) }}
+            title={positionsFile ? 'Draw a container around each NCA; click a container title to collapse it into one node' : 'NCA groups come from the query file, which this dataset does not have'}
+          >
+            {showGroups ? 'Hide NCA Groups' : 'Show NCA Groups'}
+          </button>
+          {([
+            { key: 'nodeColor', label: 'Node color', options: NODE_COLOR_OPTIONS },
+            { key: 'linkColor', label: 'Link color', options: LINK_COLOR_OPTIONS },
+            { key: 'linkWidth', label: 'Link width', options: LINK_WIDTH_OPTIONS },
+          ] as const).map(({ key, label, options }) => (
+            <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              {label}
+              <select
+                value={styleChoice[key]}
+                onChange={(e) => setStyleChoice({ ...styleChoice, [key]: e.target.value })}
+                style={layoutBtnStyle}
+              >
+                {options.map((option) => (
+                  <option key={option.key} value={option.key}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <button
+            onClick={() => {
+              // The overlay reads best with links colored by where their RTT ranks
+              if (!showLinkMetrics && styleChoice.linkColor === 'default') setStyleChoice({ ...styleChoice, linkColor: 'rttPercentile' })
+              setShowLinkMetrics(!showLinkMetrics)
+            }}
+            disabled={worstLinks.length === 0}
+            style={{ ...layoutBtnStyle, marginRight: 'auto', opacity: worstLinks.length > 0 ? 1 : 0.6, ...(showLinkMetrics ? { background: '#17a2b8', color: '#000', borderColor: '#17a2b8' } : {}) }}
+            title={worstLinks.length > 0 ? 'Label every link with its RTT (± deviation) and rx/tx packet counters' : 'No route entry in this dataset reports link metrics'}
+          >
+            {showLinkMetrics ? 'Hide Link Metrics' : 'Show Link Metrics'}
+          </button>
+          {arrangementNotice && <span style={{ opacity: 0.8 }}>{arrangementNotice}</span>}
+          {arrangement && (
+            <span style={{ opacity: 0.8 }}>{arrangementDirty ? 'Custom layout (unsaved)' : 'Custom layout'}</span>
+          )}
+          <button
+            onClick={() => setNodesUnlocked(!nodesUnlocked)}
+            style={{ ...layoutBtnStyle, ...(nodesUnlocked ? { background: '#17a2b8', color: '#000', borderColor: '#17a2b8' } : {}) }}
+            title={nodesUnlocked ? 'Lock nodes in place' : 'Unlock nodes so they can be dragged'}
+          >
+            {nodesUnlocked ? 'Lock Nodes' : 'Unlock Nodes'}
+          </button>
+          <button
+            onClick={saveArrangement}
+            disabled={!arrangement || !arrangementDirty}
+            style={{ ...layoutBtnStyle, opacity: arrangement && arrangementDirty ? 1 : 0.6 }}
+            title="Save the arrangement for this dataset in this browser"
+          >
+            Save Layout
+          </button>
+          <button
+            onClick={exportArrangement}
+            disabled={!arrangement}
+            style={{ ...layoutBtnStyle, opacity: arrangement ? 1 : 0.6 }}
+            title={arrangement ? 'Download the arrangement as a positions JSON file' : 'Drag nodes or import a positions file first'}
+          >
+            Export
+          </button>
+          <label style={{ ...layoutBtnStyle, display: 'inline-block' }} title="Load an arrangement from a positions JSON file">
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) importArrangement(file)
+                e.target.value = ''
+              }}
+              style={{ display: 'none' }}
+            />
+          </label>
+          <button
+            onClick={resetArrangement}
+            disabled={!arrangement}
+            style={{ ...layoutBtnStyle, opacity: arrangement ? 1 : 0.6 }}
+            title="Forget the saved arrangement and go back to the computed layout"
+          >
+            Reset Layout
+          </button>
+        </div>
+      )}
+
       <div className="network-container" style={{ width: "100%", height: "600px", position: "relative" }}>
         {noPathExists && (
           <div style={{ color: '#ff4d4f', fontWeight: 700, marginBottom: 8, textAlign: 'center', fontStyle: 'italic' }}>
@@ -657,6 +1017,21 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
               onNodeBlur={handleNodeBlur}
               positionsFile={positionsFile}
               highlightedPath={highlightedPathInfo}
+              secondaryPath={secondaryPathInfo}
+              treeAnnotations={treeAnnotations}
+              nodeBadges={inventoryBadges}
+              topologyStream={topologyStream}
+              layoutMode={layoutMode}
+              layoutRoot={selectedSource || null}
+              positionOverrides={arrangement}
+              nodesDraggable={nodesUnlocked}
+              onNodesMoved={handleNodesMoved}
+              showGroups={showGroups}
+              exportName={`network-map-${datasetBaseName}`}
+              legendItems={exportLegendItems}
+              nodeColors={styleMapping?.nodeScale?.colors ?? null}
+              edgeStyles={styleMapping?.edgeStyles ?? null}
+              linkLabels={linkLabels}
             />
             {hoveredNode && (
               <StatisticsDisplay nodeData={hoveredNode} position={mousePosition} darkMode={darkMode} selectedSource={selectedSource} selectedTarget={selectedTarget} />
@@ -667,6 +1042,61 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
         )}
       </div>
 
+      {viewMode === 'compare' && pathComparison && (
+        <div className="legend" style={{ marginTop: "20px" }}>
+          <h3 style={{ margin: "0 0 10px 0", fontWeight: 600 }}>Routed vs. Shortest Path: {pathComparison.sourceId} → {pathComparison.targetId}</h3>
+          <ul style={{ margin: 0, paddingLeft: "18px", fontSize: "14px", lineHeight: 1.7 }}>
+            <li>
+              Routed path: {pathComparison.routed
+                ? `${pathComparison.routed.nodes.length - 1} hops (${pathComparison.routed.nodes.join(' → ')})`
+                : `none (${pathComparison.routedError})`}
+            </li>
+            <li>
+              Shortest physical path: {pathComparison.shortest
+                ? `${pathComparison.shortest.nodes.length - 1} hops (${pathComparison.shortest.nodes.join(' → ')})`
+                : 'none, the nodes are not physically connected'}
+            </li>
+            {pathComparison.hopDifference !== null && (
+              <li>
+                {pathComparison.hopDifference > 0
+                  ? `The routing tables take ${pathComparison.hopDifference} extra hop${pathComparison.hopDifference === 1 ? '' : 's'}.`
+                  : 'The routed path is as short as the physical shortest path.'}
+                {pathComparison.divergesAt && ` The paths diverge after node ${pathComparison.divergesAt}.`}
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      {viewMode === 'tree' && distributionTree && (
+        <div className="legend" style={{ marginTop: "20px" }}>
+          <h3 style={{ margin: "0 0 10px 0", fontWeight: 600 }}>Distribution Tree from Node {distributionTree.sourceId}</h3>
+          <p style={{ margin: "0 0 10px 0", fontSize: "14px" }}>
+            Reaches {distributionTree.nodes.length - 1} of {distributionTree.nodes.length - 1 + distributionTree.unreached.length + distributionTree.broken.length} receivers,
+            max depth {Math.max(0, ...distributionTree.nodes.map((n) => n.depth))} hops.
+          </p>
+          <div style={{ display: "flex", gap: "6px", flexWrap: "wrap", fontSize: "13px" }}>
+            {distributionTree.nodes.filter((n) => n.parent).map((n) => (
+              <span key={n.nodeId} style={{ padding: "2px 8px", borderRadius: "4px", border: "1px solid var(--color-border)" }} title={`Node ${n.nodeId} receives from ${n.parent} on ${n.incomingInterface || 'unknown interface'}`}>
+                {n.nodeId}: depth {n.depth} via {n.incomingInterface || '?'}
+              </span>
+            ))}
+          </div>
+          {distributionTree.broken.length > 0 && (
+            <ul style={{ margin: "10px 0 0 0", paddingLeft: "18px", fontSize: "13px" }}>
+              {distributionTree.broken.map((b) => (
+                <li key={b.nodeId}>Node {b.nodeId}: {b.reason}</li>
+              ))}
+            </ul>
+          )}
+          {distributionTree.unreached.length > 0 && (
+            <p style={{ margin: "10px 0 0 0", fontSize: "13px", opacity: 0.8 }}>
+              No route entry for this source: {distributionTree.unreached.join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+
       <div className="legend" style={{ marginTop: "20px" }}>
         <h3 style={{ margin: "0 0 10px 0", fontWeight: 600 }}>Legend</h3>
         <div style={{ display: "flex", gap: "30px", flexWrap: "wrap", fontSize: "15px" }}>
@@ -689,8 +1119,97 @@ export default function BackendNetworkExample({ darkMode, dataFile, positionsFil
             ></div>
             <span>Multicast Route Path</span>
           </div>
+          {viewMode === 'compare' && pathComparison && (
+            <>
+              <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                <div className="legend-highlight" style={{ width: "16px", height: "2px", borderRadius: "1px" }}></div>
+                <span>Routed Path (and shared links)</span>
+              </div>
+              <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                <div className="legend-secondary" style={{ width: "16px", height: "2px", borderRadius: "1px" }}></div>
+                <span>Shortest Physical Path</span>
+              </div>
+            </>
+          )}
+          {selectedAsymmetry && (
+            <>
+              <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                <div className="legend-highlight" style={{ width: "16px", height: "2px", borderRadius: "1px" }}></div>
+                <span>{selectedAsymmetry.nodeA} → {selectedAsymmetry.nodeB} (and links used both ways)</span>
+              </div>
+              <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                <div className="legend-secondary" style={{ width: "16px", height: "2px", borderRadius: "1px" }}></div>
+                <span>{selectedAsymmetry.nodeB} → {selectedAsymmetry.nodeA}</span>
+              </div>
+            </>
+          )}
         </div>
+        {styleMapping && styleMapping.legend.length > 0 && (
+          <div style={{ display: "flex", gap: "18px", flexWrap: "wrap", fontSize: "13px", marginTop: "12px" }}>
+            {styleMapping.legend.map((item) => (
+              <div key={item.label} style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                <div style={item.kind === 'node'
+                  ? { width: "16px", height: "16px", borderRadius: "3px", background: item.color }
+                  : { width: "16px", height: `${item.width ?? 3}px`, borderRadius: "1px", background: item.color }}></div>
+                <span>{item.label}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
+
+      {topology && <DataHealthPanel findings={healthFindings} darkMode={darkMode} />}
+
+      {topology && (
+        <RouteFaultsPanel
+          faults={routeFaults}
+          selectedKey={selectedFault ? routeFaultKey(selectedFault) : null}
+          onSelect={highlightRouteFault}
+          darkMode={darkMode}
+        />
+      )}
+
+      {topology && (
+        <RouteAsymmetryPanel
+          report={asymmetryReport}
+          selectedKey={selectedAsymmetry ? routeAsymmetryKey(selectedAsymmetry) : null}
+          onSelect={highlightRouteAsymmetry}
+          darkMode={darkMode}
+        />
+      )}
+
+      {topology && (
+        <WorstLinksPanel
+          rows={worstLinks}
+          linkCount={topology.edges.filter((edge) => edge.edgeType === 'direct').length}
+          selectedId={selectedLink?.edgeId ?? null}
+          onSelect={highlightLink}
+          darkMode={darkMode}
+        />
+      )}
+
+      {topology && inventory.length > 0 && (
+        <InventoryDriftPanel
+          report={inventoryDrift}
+          minFreeDiskMb={minFreeDiskMb}
+          onMinFreeDiskChange={setMinFreeDiskMb}
+          selectedId={selectedNode?.id ?? null}
+          onSelect={(drift) => handleNodeClick(drift?.mapId && topology?.nodeById.get(drift.mapId) || null)}
+          darkMode={darkMode}
+        />
+      )}
+
+      {topology && (
+        <NodeInventoryPanel
+          rows={inventory}
+          selectedId={selectedNode?.id ?? null}
+          onSelect={selectInventoryRow}
+          colorBy={inventoryColorBy}
+          onColorByChange={(attribute) => setStyleChoice({ ...styleChoice, nodeColor: attribute ?? 'default' })}
+          coloring={inventoryColorBy ? styleMapping?.nodeScale : null}
+          darkMode={darkMode}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,118 @@
+"use client"
+
+import { useState } from "react"
+import { HEALTH_CATEGORY_LABELS, type HealthCategory, type HealthFinding, type HealthSeverity } from "@/utils/dataHealth"
+
+interface DataHealthPanelProps {
+  findings: HealthFinding[]
+  darkMode?: boolean
+}
+
+export default function DataHealthPanel({ findings, darkMode = false }: DataHealthPanelProps) {
+  const [expanded, setExpanded] = useState<HealthCategory | null>(null)
+
+  // Colors adapt to theme - matching NodeDetailsPanel
+  const bgColor = darkMode ? '#0b1220' : '#ffffff'
+  const borderColor = darkMode ? '#24303a' : '#e5e7eb'
+  const headerColor = darkMode ? '#f3f4f6' : '#111827'
+  const labelColor = darkMode ? '#94a3b8' : '#6b7280'
+  const valueColor = darkMode ? '#e6eef7' : '#111827'
+  const sectionBg = darkMode ? '#1e293b' : '#f9fafb'
+  const severityColors: Record<HealthSeverity, string> = {
+    error: darkMode ? '#f87171' : '#c62828',
+    warning: darkMode ? '#fbbf24' : '#b45309',
+    info: darkMode ? '#60a5fa' : '#0066cc',
+  }
+
+  // Group findings by category, keeping the category order of the labels map
+  const categories = (Object.keys(HEALTH_CATEGORY_LABELS) as HealthCategory[])
+    .map((category) => ({ category, items: findings.filter((f) => f.category === category) }))
+    .filter((group) => group.items.length > 0)
+
+  return (
+    <div style={{
+      marginTop: '20px',
+      background: bgColor,
+      border: `1px solid ${borderColor}`,
+      borderRadius: '12px',
+      padding: '20px',
+      transition: 'all 0.3s ease',
+    }}>
+      <h3 style={{
+        margin: '0 0 12px 0',
+        fontSize: '18px',
+        fontWeight: 'bold',
+        color: headerColor,
+      }}>
+        Data Health
+      </h3>
+
+      {categories.length === 0 ? (
+        <div style={{ fontSize: '13px', color: labelColor, fontStyle: 'italic' }}>
+          No inconsistencies found in the loaded dataset.
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {categories.map(({ category, items }) => {
+            const isOpen = expanded === category
+            const worst: HealthSeverity = items.some((f) => f.severity === 'error') ? 'error' : items.some((f) => f.severity === 'warning') ? 'warning' : 'info'
+            return (
+              <div key={category} style={{
+                background: sectionBg,
+                border: `1px solid ${borderColor}`,
+                borderRadius: '8px',
+              }}>
+                <button
+                  onClick={() => setExpanded(isOpen ? null : category)}
+                  style={{
+                    width: '100%',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    padding: '10px 15px',
+                    background: 'transparent',
+                    border: 'none',
+                    cursor: 'pointer',
+                    color: headerColor,
+                    fontSize: '14px',
+                    fontWeight: 'bold',
+                  }}
+                  title={isOpen ? 'Hide details' : 'Show details'}
+                >
+                  <span>{isOpen ? '▾' : '▸'} {HEALTH_CATEGORY_LABELS[category]}</span>
+                  <span style={{ color: severityColors[worst] }}>{items.length}</span>
+                </button>
+
+                {isOpen && (
+                  <ul style={{
+                    margin: 0,
+                    padding: '0 15px 12px 33px',
+                    maxHeight: '240px',
+                    overflowY: 'auto',
+                    fontSize: '12px',
+                    lineHeight: 1.6,
+                    color: valueColor,
+                  }}>
+                    {items.map((finding, index) => (
+                      <li key={index} style={{ marginBottom: '4px' }}>
+                        <span style={{ color: severityColors[finding.severity], fontWeight: 'bold', textTransform: 'uppercase', fontSize: '10px', marginRight: '6px' }}>
+                          {finding.severity}
+                        </span>
+                        {finding.message}
+                        {finding.path && (
+                          <div style={{ color: labelColor, fontFamily: 'monospace', fontSize: '11px', wordBreak: 'break-all' }}>
+                            {finding.path}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import NetworkMap from "./NetworkMap"
+import { errorMessage } from "@/lib/utils"
+import { NetworkDataAdapter } from "@/utils/dataAdapter"
+import { diffDatasets, type DatasetDiff, type DiffKind, type DiffStatus } from "@/utils/datasetDiff"
+import { loadDatasetJson } from "@/utils/datasetLoader"
+
+interface DatasetDiffViewProps {
+  /** Datasets available for comparison, by display name */
+  datasets: Record<string, { dataFile: string, positionsFile: string }>
+  /** Dataset selected in the header; the comparison starts from it and another capture of the same network */
+  currentName: string
+  darkMode: boolean
+}
+
+const KIND_LABELS: Record<DiffKind, string> = {
+  node: "Nodes",
+  interface: "Interfaces",
+  link: "Links",
+  route: "Route entries",
+}
+
+const STATUS_MARKS: Record<DiffStatus, string> = {
+  added: "+",
+  removed: "−",
+  changed: "~",
+}
+
+/**
+ * Older capture first: the current dataset and another capture of the same
+ * network, whose names differ by a suffix ("EST4 150 Node" is older than
+ * "EST4 150 Node (new)"), whichever of the two is current. Without such a
+ * capture the current dataset is compared against the first other one.
+ */
+function defaultPair(names: string[], current: string): [string, string] {
+  const sibling = names.find((name) => name !== current && (current.startsWith(name) || name.startsWith(current)))
+  if (sibling) return current.startsWith(sibling) ? [sibling, current] : [current, sibling]
+  return [names.find((name) => name !== current) || current, current]
+}
+
+export default function DatasetDiffView({ datasets, currentName, darkMode }: DatasetDiffViewProps) {
+  const names = Object.keys(datasets)
+  const [[beforeName, afterName], setPair] = useState(() => defaultPair(names, currentName))
+  const setBeforeName = (name: string) => setPair(([, after]) => [name, after])
+  const setAfterName = (name: string) => setPair(([before]) => [before, name])
+  const [diff, setDiff] = useState<DatasetDiff | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Colors adapt to theme - matching DataHealthPanel
+  const bgColor = darkMode ? '#0b1220' : '#ffffff'
+  const borderColor = darkMode ? '#24303a' : '#e5e7eb'
+  const headerColor = darkMode ? '#f3f4f6' : '#111827'
+  const labelColor = darkMode ? '#94a3b8' : '#6b7280'
+  const valueColor = darkMode ? '#e6eef7' : '#111827'
+  const statusColors: Record<DiffStatus, string> = {
+    added: darkMode ? '#4ade80' : '#16a34a',
+    removed: darkMode ? '#f87171' : '#dc2626',
+    changed: darkMode ? '#fbbf24' : '#d97706',
+  }
+
+  useEffect(() => {
+    const before = datasets[beforeName]
+    const after = datasets[afterName]
+    if (!before || !after) return
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    Promise.all([loadDatasetJson(before.dataFile), loadDatasetJson(after.dataFile)])
+      .then(([beforeJson, afterJson]) => {
+        if (!cancelled) setDiff(diffDatasets(beforeJson, afterJson))
+      })
+      .catch((err) => {
+        console.error("[v0] Failed to load datasets for comparison:", err)
+        if (!cancelled) {
+          setError(errorMessage(err))
+          setDiff(null)
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [datasets, beforeName, afterName])
+
+  // Merged topology with nodes colored by diff status; unchanged nodes keep the default style
+  const networkData = useMemo(() => {
+    if (!diff) return null
+    const nodes = diff.nodes.map((n) => {
+      const status = diff.nodeStatus[n.id]
+      if (!status) return n
+      const color = statusColors[status]
+      return { ...n, color: { background: color, border: color }, borderWidth: 3, opacity: status === 'removed' ? 0.5 : 1 }
+    })
+    return NetworkDataAdapter.convertToVisNetwork({ nodes, edges: diff.edges })
+  }, [diff, darkMode])
+
+  const edgeStyles = useMemo(() => {
+    if (!diff) return null
+    return Object.fromEntries(Object.entries(diff.edgeStatus).map(([id, status]) => [id, { color: statusColors[status], dashed: status === 'removed' }]))
+  }, [diff, darkMode])
+
+  const groups = (Object.keys(KIND_LABELS) as DiffKind[])
+    .map((kind) => ({ kind, items: (diff?.changes || []).filter((c) => c.kind === kind) }))
+    .filter((group) => group.items.length > 0)
+
+  return (
+    <div style={{ width: "100%" }}>
+      <div className="network-controls" style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+        <div>
+          <h2 className="network-title">Dataset Diff</h2>
+          <p className="network-subtitle">Changes from {beforeName} to {afterName}.</p>
+        </div>
+        <label htmlFor="diff-before-select" className="source-label" style={{ fontWeight: 600 }}>Before</label>
+        <select
+          id="diff-before-select"
+          className="source-select"
+          value={beforeName}
+          onChange={(e) => setBeforeName(e.target.value)}
+        >
+          {names.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <label htmlFor="diff-after-select" className="source-label" style={{ fontWeight: 600 }}>After</label>
+        <select
+          id="diff-after-select"
+          className="source-select"
+          value={afterName}
+          onChange={(e) => setAfterName(e.target.value)}
+        >
+          {names.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="error-message">
+          <strong>Error:</strong> {error}
+          <div className="error-hint">
+            Make sure both datasets exist (JSON type) and the server is running.
+          </div>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '16px', alignItems: 'stretch' }}>
+        <div className="network-container" style={{ flex: '1 1 auto', height: "600px", position: "relative" }}>
+          {loading ? (
+            <div className="loading-container">Comparing datasets...</div>
+          ) : networkData ? (
+            <NetworkMap
+              networkData={networkData}
+              darkMode={darkMode}
+              positionsFile={datasets[afterName].positionsFile}
+              edgeStyles={edgeStyles}
+            />
+          ) : (
+            <div className="no-data-message">No comparison available</div>
+          )}
+        </div>
+
+        <div style={{
+          flex: '0 0 340px',
+          height: '600px',
+          overflowY: 'auto',
+          background: bgColor,
+          border: `1px solid ${borderColor}`,
+          borderRadius: '12px',
+          padding: '16px',
+          color: valueColor,
+        }}>
+          <h3 style={{ margin: '0 0 12px 0', fontSize: '18px', fontWeight: 'bold', color: headerColor }}>Changelog</h3>
+          {!loading && groups.length === 0 && (
+            <div style={{ fontSize: '13px', color: labelColor, fontStyle: 'italic' }}>
+              {beforeName === afterName ? 'Choose two different datasets to compare.' : 'The two captures are identical.'}
+            </div>
+          )}
+          {groups.map(({ kind, items }) => (
+            <div key={kind} style={{ marginBottom: '14px' }}>
+              <div style={{ fontSize: '14px', fontWeight: 'bold', color: headerColor, marginBottom: '4px' }}>
+                {KIND_LABELS[kind]} <span style={{ color: labelColor, fontWeight: 'normal' }}>({items.length})</span>
+              </div>
+              <ul style={{ margin: 0, padding: 0, listStyle: 'none', fontSize: '12px', lineHeight: 1.6, fontFamily: 'monospace' }}>
+                {items.map((change, index) => (
+                  <li key={index} style={{ wordBreak: 'break-all' }}>
+                    <span style={{ color: statusColors[change.status], fontWeight: 'bold', marginRight: '6px' }}>{STATUS_MARKS[change.status]}</span>
+                    {change.description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="legend" style={{ marginTop: "20px" }}>
+        <h3 style={{ margin: "0 0 10px 0", fontWeight: 600 }}>Legend</h3>
+        <div style={{ display: "flex", gap: "30px", flexWrap: "wrap", fontSize: "15px" }}>
+          {(Object.keys(STATUS_MARKS) as DiffStatus[]).map((status) => (
+            <div key={status} style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+              <div style={{ width: "16px", height: "16px", borderRadius: "50%", background: statusColors[status], opacity: status === 'removed' ? 0.6 : 1 }}></div>
+              <span style={{ textTransform: "capitalize" }}>{status}{status === 'removed' ? ' (dotted links)' : ''}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { errorMessage } from "@/lib/utils"
+import { parseBackendPayload, parseQueryPayload } from "@/utils/backendSchema"
+import { registerSessionFile } from "@/utils/datasetLoader"
+
+interface DatasetImportPanelProps {
+  darkMode: boolean
+  /** Names already in the dataset selector, so imports never shadow one */
+  existingNames: string[]
+  onImport: (name: string, files: { dataFile: string, positionsFile: string }) => void
+  onClose: () => void
+}
+
+interface PickedFile {
+  fileName: string
+  json: unknown
+}
+
+const readJsonFile = async (file: File): Promise<PickedFile> => {
+  try {
+    return { fileName: file.name, json: JSON.parse(await file.text()) }
+  } catch (err) {
+    throw new Error(`${file.name} is not valid JSON: ${errorMessage(err)}`)
+  }
+}
+
+// query-*.json files carry a nodeInfo list; anything else is treated as a networkMap dump
+const isQueryPayload = (json: unknown) =>
+  typeof json === "object" && json !== null && Array.isArray((json as { nodeInfo?: unknown }).nodeInfo)
+
+export default function DatasetImportPanel({ darkMode, existingNames, onImport, onClose }: DatasetImportPanelProps) {
+  const [dataFile, setDataFile] = useState<PickedFile | null>(null)
+  const [queryFile, setQueryFile] = useState<PickedFile | null>(null)
+  const [name, setName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [dragging, setDragging] = useState(false)
+
+  // Colors adapt to theme - matching NodeDetailsPanel
+  const bgColor = darkMode ? '#0b1220' : '#ffffff'
+  const borderColor = darkMode ? '#24303a' : '#e5e7eb'
+  const headerColor = darkMode ? '#f3f4f6' : '#111827'
+  const labelColor = darkMode ? '#60a5fa' : '#0066cc'
+  const textColor = darkMode ? '#cbd5e1' : '#555'
+  const closeButtonBg = darkMode ? '#1e293b' : '#f3f4f6'
+  const sectionBg = darkMode ? '#1e293b' : '#f9fafb'
+
+  const acceptData = (picked: PickedFile) => {
+    const parsed = parseBackendPayload(picked.json)
+    if (parsed.entries.length === 0) {
+      const first = parsed.issues[0]
+      throw new Error(`${picked.fileName} has no usable node entries${first ? ` (${first.path}: ${first.message})` : ''}`)
+    }
+    setDataFile(picked)
+    if (!name) setName(picked.fileName.replace(/\.json$/i, ''))
+  }
+
+  const acceptQuery = (picked: PickedFile) => {
+    const parsed = parseQueryPayload(picked.json)
+    if (parsed.nodes.length === 0) {
+      const first = parsed.issues[0]
+      throw new Error(`${picked.fileName} has no usable nodeInfo records${first ? ` (${first.path}: ${first.message})` : ''}`)
+    }
+    setQueryFile(picked)
+  }
+
+  // Dropped files are sorted into networkMap vs query by content, not by name
+  const handleFiles = async (files: File[], role?: 'data' | 'query') => {
+    setError(null)
+    try {
+      for (const file of files) {
+        const picked = await readJsonFile(file)
+        const asQuery = role ? role === 'query' : isQueryPayload(picked.json)
+        if (asQuery) acceptQuery(picked)
+        else acceptData(picked)
+      }
+    } catch (err) {
+      setError(errorMessage(err))
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault()
+    setDragging(false)
+    handleFiles(Array.from(event.dataTransfer.files))
+  }
+
+  const handleImport = () => {
+    if (!dataFile) return
+    const baseName = name.trim() || dataFile.fileName
+    let uniqueName = baseName
+    for (let i = 2; existingNames.includes(uniqueName); i++) uniqueName = `${baseName} (${i})`
+
+    onImport(uniqueName, {
+      dataFile: registerSessionFile(`${uniqueName}/${dataFile.fileName}`, dataFile.json),
+      positionsFile: queryFile ? registerSessionFile(`${uniqueName}/${queryFile.fileName}`, queryFile.json) : '',
+    })
+    onClose()
+  }
+
+  const fileRow = (label: string, picked: PickedFile | null, role: 'data' | 'query') => (
+    <div style={{ marginBottom: '10px' }}>
+      <div style={{ color: labelColor, fontSize: '13px', fontWeight: 600, marginBottom: '4px' }}>{label}</div>
+      <input
+        type="file"
+        accept=".json,application/json"
+        onChange={(e) => handleFiles(Array.from(e.target.files || []), role)}
+        style={{ fontSize: '12px', color: textColor }}
+      />
+      {picked && <div style={{ fontSize: '12px', color: textColor, marginTop: '2px' }}>✓ {picked.fileName}</div>}
+    </div>
+  )
+
+  return (
+    <div
+      style={{
+        background: bgColor,
+        border: `1px solid ${borderColor}`,
+        borderRadius: '12px',
+        padding: '20px',
+        minWidth: '300px',
+        maxWidth: '350px',
+        height: 'fit-content',
+        maxHeight: '85vh',
+        overflowY: 'auto',
+        transition: 'all 0.3s ease',
+      }}
+    >
+      {/* Header with close button */}
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '15px',
+        paddingBottom: '10px',
+        borderBottom: `2px solid ${borderColor}`,
+      }}>
+        <h3 style={{
+          margin: 0,
+          fontSize: '18px',
+          fontWeight: 'bold',
+          color: headerColor,
+        }}>
+          Import Dataset
+        </h3>
+        <button
+          onClick={onClose}
+          style={{
+            background: closeButtonBg,
+            border: 'none',
+            borderRadius: '6px',
+            padding: '6px 12px',
+            cursor: 'pointer',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            color: darkMode ? '#94a3b8' : '#666',
+          }}
+          title="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Drop zone */}
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDragging(true) }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        style={{
+          border: `2px dashed ${dragging ? labelColor : borderColor}`,
+          background: dragging ? sectionBg : 'transparent',
+          borderRadius: '8px',
+          padding: '18px 12px',
+          marginBottom: '15px',
+          textAlign: 'center',
+          fontSize: '13px',
+          color: textColor,
+        }}
+      >
+        Drop a networkMap JSON here, optionally together with its query JSON.
+      </div>
+
+      {fileRow('Network map JSON', dataFile, 'data')}
+      {fileRow('Query / positions JSON (optional)', queryFile, 'query')}
+
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="import-name" style={{ display: 'block', color: labelColor, fontSize: '13px', fontWeight: 600, marginBottom: '4px' }}>Name</label>
+        <input
+          id="import-name"
+          className="source-select"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Shown in the dataset selector"
+          style={{ width: '100%', boxSizing: 'border-box' }}
+        />
+      </div>
+
+      {error && (
+        <div className="error-message" style={{ fontSize: '13px' }}>
+          {error}
+        </div>
+      )}
+
+      <button
+        onClick={handleImport}
+        disabled={!dataFile}
+        className="action-btn highlight-enabled"
+        style={{
+          padding: '8px 14px',
+          borderRadius: 6,
+          border: 'none',
+          cursor: dataFile ? 'pointer' : 'not-allowed',
+          fontWeight: 600,
+          background: '#17a2b8',
+          color: '#000',
+          opacity: dataFile ? 1 : 0.6,
+        }}
+        title={dataFile ? 'Add this dataset to the selector for this session' : 'Choose a network map JSON first'}
+      >
+        Import
+      </button>
+      <p style={{ margin: '10px 0 0 0', fontSize: '12px', color: textColor }}>
+        Imported datasets stay available until the page is reloaded.
+      </p>
+    </div>
+  )
+}
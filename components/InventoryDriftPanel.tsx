@@ -0,0 +1,169 @@
+"use client"
+
+import type React from "react"
+
+import type { InventoryDrift, InventoryDriftKind, InventoryDriftReport } from "@/utils/nodeInventory"
+
+interface InventoryDriftPanelProps {
+  report: InventoryDriftReport
+  /** Free disk space below which a node is flagged, in MB */
+  minFreeDiskMb: number
+  onMinFreeDiskChange?: (mb: number) => void
+  /** Map id of the selected node */
+  selectedId?: string | null
+  onSelect?: (drift: InventoryDrift | null) => void
+  darkMode?: boolean
+}
+
+const KIND_LABELS: Record<InventoryDriftKind, string> = {
+  'firmware-baseline': 'Firmware ≠ baseline',
+  'configuration-guid': 'Other configuration',
+  'project-guid': 'Other project',
+  'low-disk': 'Low disk space',
+}
+
+// Short codes shown in the map badge of a flagged node
+const BADGE_CODES: Record<InventoryDriftKind, string> = {
+  'firmware-baseline': 'FW',
+  'configuration-guid': 'CFG',
+  'project-guid': 'PRJ',
+  'low-disk': 'DISK',
+}
+
+const kindColor = (kind: InventoryDriftKind, darkMode: boolean) =>
+  kind === 'low-disk' ? (darkMode ? '#fbbf24' : '#b45309') : (darkMode ? '#f87171' : '#c62828')
+
+/** One map badge per flagged node, listing its drift kinds; amber when only disk space is low */
+export const driftBadges = (drifts: InventoryDrift[], darkMode: boolean) => {
+  const kindsByNode = new Map<string, InventoryDriftKind[]>()
+  drifts.forEach((drift) => {
+    if (drift.mapId) kindsByNode.set(drift.mapId, [...(kindsByNode.get(drift.mapId) || []), drift.kind])
+  })
+  return Object.fromEntries(Array.from(kindsByNode, ([mapId, kinds]) => [mapId, {
+    text: `⚠ ${kinds.map((kind) => BADGE_CODES[kind]).join('·')}`,
+    color: kindColor(kinds.every((kind) => kind === 'low-disk') ? 'low-disk' : 'firmware-baseline', darkMode),
+  }]))
+}
+
+export default function InventoryDriftPanel({ report, minFreeDiskMb, onMinFreeDiskChange, selectedId = null, onSelect, darkMode = false }: InventoryDriftPanelProps) {
+  // Colors adapt to theme - matching DataHealthPanel
+  const bgColor = darkMode ? '#0b1220' : '#ffffff'
+  const borderColor = darkMode ? '#24303a' : '#e5e7eb'
+  const headerColor = darkMode ? '#f3f4f6' : '#111827'
+  const labelColor = darkMode ? '#94a3b8' : '#6b7280'
+  const valueColor = darkMode ? '#e6eef7' : '#111827'
+  const sectionBg = darkMode ? '#1e293b' : '#f9fafb'
+
+  const { drifts, majority } = report
+  const counts = (Object.keys(KIND_LABELS) as InventoryDriftKind[])
+    .map((kind) => ({ kind, count: drifts.filter((d) => d.kind === kind).length }))
+    .filter((c) => c.count > 0)
+  const sorted = [...drifts].sort((a, b) =>
+    Object.keys(KIND_LABELS).indexOf(a.kind) - Object.keys(KIND_LABELS).indexOf(b.kind) || a.nodeName.localeCompare(b.nodeName))
+
+  const cellStyle: React.CSSProperties = { padding: '6px 10px', borderBottom: `1px solid ${borderColor}`, textAlign: 'left', whiteSpace: 'nowrap' }
+
+  return (
+    <div style={{
+      marginTop: '20px',
+      background: bgColor,
+      border: `1px solid ${borderColor}`,
+      borderRadius: '12px',
+      padding: '20px',
+      transition: 'all 0.3s ease',
+    }}>
+      <h3 style={{
+        margin: '0 0 12px 0',
+        fontSize: '18px',
+        fontWeight: 'bold',
+        color: headerColor,
+      }}>
+        Configuration Drift
+      </h3>
+
+      <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap', alignItems: 'center', fontSize: '13px', color: labelColor, marginBottom: '10px' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          Flag free disk space below
+          <input
+            type="number"
+            min={0}
+            step={256}
+            value={minFreeDiskMb}
+            onChange={(event) => {
+              const mb = Number(event.target.value)
+              if (Number.isFinite(mb) && mb >= 0) onMinFreeDiskChange?.(mb)
+            }}
+            style={{ width: '90px', padding: '4px 8px', fontSize: '13px', borderRadius: '6px', border: `1px solid ${borderColor}`, background: sectionBg, color: valueColor }}
+          />
+          MB
+        </label>
+        {majority.configurationGuid && (
+          <span title={majority.configurationGuid.value}>
+            Majority configuration: {majority.configurationGuid.count} of {majority.configurationGuid.of} nodes
+          </span>
+        )}
+        {majority.projectGuid && (
+          <span title={majority.projectGuid.value}>
+            Majority project: {majority.projectGuid.count} of {majority.projectGuid.of} nodes
+          </span>
+        )}
+      </div>
+
+      {drifts.length === 0 ? (
+        <div style={{ fontSize: '13px', color: labelColor, fontStyle: 'italic' }}>
+          Every node runs its baseline firmware and the majority configuration, with enough free disk space.
+        </div>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap', fontSize: '13px', color: labelColor, marginBottom: '10px' }}>
+            {counts.map(({ kind, count }) => (
+              <span key={kind}>
+                <span style={{ color: kindColor(kind, darkMode), fontWeight: 'bold' }}>{count}</span> {KIND_LABELS[kind].toLowerCase()}
+              </span>
+            ))}
+            <span>· flagged nodes carry a ⚠ badge on the map; click a row to select the node</span>
+          </div>
+
+          <div style={{
+            maxHeight: '320px',
+            overflowY: 'auto',
+            background: sectionBg,
+            border: `1px solid ${borderColor}`,
+            borderRadius: '8px',
+          }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', color: valueColor }}>
+              <thead>
+                <tr>
+                  {['Issue', 'Node', 'Detail'].map((label) => (
+                    <th key={label} style={{ ...cellStyle, position: 'sticky', top: 0, background: sectionBg, color: labelColor }}>{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((drift) => {
+                  const onMap = drift.mapId !== undefined
+                  const isSelected = onMap && drift.mapId === selectedId
+                  return (
+                    <tr
+                      key={`${drift.kind}:${drift.nodeName}`}
+                      onClick={() => onMap && onSelect?.(isSelected ? null : drift)}
+                      style={{
+                        cursor: onMap ? 'pointer' : 'default',
+                        background: isSelected ? (darkMode ? '#334155' : '#e0f2fe') : 'transparent',
+                      }}
+                      title={!onMap ? 'This node is not on the map' : isSelected ? 'Click to clear the selection' : 'Select this node on the map'}
+                    >
+                      <td style={{ ...cellStyle, color: kindColor(drift.kind, darkMode), fontWeight: 'bold' }}>{KIND_LABELS[drift.kind]}</td>
+                      <td style={cellStyle}>{drift.nodeName}</td>
+                      <td style={{ ...cellStyle, whiteSpace: 'normal' }}>{drift.message}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
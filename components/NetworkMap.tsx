@@ -1,7 +1,19 @@
 "use client"
 
+import type React from "react"
 import { useEffect, useRef, useState } from "react"
 import { Network } from "vis-network"
+import { DataSet } from "vis-data"
+import { loadDatasetJson } from "@/utils/datasetLoader"
+import { buildImagePdf, downloadBlob, drawLegend, layoutLegend, SvgContext, type DrawContext, type ExportFormat, type MapLegendItem } from "@/utils/mapExport"
+import type { MapEdge, MapNode } from "@/utils/dataAdapter"
+import { buildNodeGroups, collapseGroups, type NodeGroup } from "@/utils/nodeGroups"
+import type { NodePositions } from "@/utils/savedPositions"
+import { computeLayout, type Layout, type LayoutMode, type LayoutNode, type Point } from "@/utils/layoutEngines"
+import { shortNodeId } from "@/utils/nodeIdentity"
+import { applyDeltaToDataSets, type TopologyDataSets, type TopologyDelta } from "@/utils/topologyDeltas"
+import type { NodeDetails } from "@/utils/topologyModel"
+import type { TopologyStream } from "@/utils/topologyStream"
 
 const getNetworkOptions = (darkMode: boolean) => ({
   nodes: {
@@ -103,41 +115,295 @@ const getNetworkOptions = (darkMode: boolean) => ({
 })
 
 
+// Collect unique interfaces per node from the direct edges
+const collectNodeInterfaces = (edgeList: MapEdge[]) => {
+  const nodeEdgeInterfaces = new Map<string, Map<string, {edgeId: string, interface: string, connectedTo: string}>>();
+
+  edgeList.forEach((edge) => {
+    // Aggregated links of collapsed groups keep the interface of their real-node side
+    if (edge.edgeType === 'direct' || edge.edgeType === 'group') {
+      const ifA = edge.interfaceA || '';
+      const ifB = edge.interfaceB || '';
+    
+      // Store interface info for node 'from' (a) - deduplicated by interface name
+      if (ifA) {
+        if (!nodeEdgeInterfaces.has(edge.from)) {
+          nodeEdgeInterfaces.set(edge.from, new Map());
+        }
+        // Only store if this interface hasn't been added yet for this node
+        if (!nodeEdgeInterfaces.get(edge.from)!.has(ifA)) {
+          nodeEdgeInterfaces.get(edge.from)!.set(ifA, {
+            edgeId: edge.id,
+            interface: ifA,
+            connectedTo: edge.to
+          });
+        }
+      }
+    
+      // Store interface info for node 'to' (b) - deduplicated by interface name
+      if (ifB) {
+        if (!nodeEdgeInterfaces.has(edge.to)) {
+          nodeEdgeInterfaces.set(edge.to, new Map());
+        }
+        // Only store if this interface hasn't been added yet for this node
+        if (!nodeEdgeInterfaces.get(edge.to)!.has(ifB)) {
+          nodeEdgeInterfaces.get(edge.to)!.set(ifB, {
+            edgeId: edge.id,
+            interface: ifB,
+            connectedTo: edge.from
+          });
+        }
+      }
+    }
+  });
+  return nodeEdgeInterfaces;
+};
+
+// Whole items, or an id with the fields to change; null sends a field back to vis-network's default
+type ItemUpdate<T> = T | ({ id: string } & Record<string, unknown>)
+
+// Apply only the items whose fields differ from what the DataSet holds
+const updateChanged = <T extends MapNode | MapEdge>(dataSet: DataSet<T>, items: ItemUpdate<T>[]) => {
+  const changed = items.filter((item) => {
+    const previous = dataSet.get(item.id) as Record<string, unknown> | null;
+    return !previous || Object.entries(item).some(([key, value]) => JSON.stringify(previous[key]) !== JSON.stringify(value));
+  });
+  if (changed.length > 0) dataSet.update(changed as Parameters<DataSet<T>["update"]>[0]);
+};
+
+// Make a DataSet hold exactly `items`. Fields an item no longer has are sent as null,
+// which vis-network treats as "back to the default" (e.g. a node leaving a dimmed path).
+const syncDataSet = <T extends MapNode | MapEdge>(dataSet: DataSet<T>, items: T[]) => {
+  const ids = new Set<string | number>(items.map((item) => item.id));
+  const stale = dataSet.getIds().filter((id) => !ids.has(id));
+  if (stale.length > 0) dataSet.remove(stale);
+  updateChanged(dataSet, items.map((item): ItemUpdate<T> => {
+    const previous = dataSet.get(item.id);
+    if (!previous) return item;
+    const cleared = Object.fromEntries(Object.keys(previous).filter((key) => !(key in item)).map((key) => [key, null]));
+    return { ...cleared, ...item };
+  }));
+};
+
+// Minimap overlay size (CSS pixels) and the padding kept around the topology inside it
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 130;
+const MINIMAP_PADDING = 8;
+
+// Maps network canvas coordinates to minimap pixels: mini = offset + (canvas - min) * scale
+type MinimapTransform = { minX: number, minY: number, scale: number, offsetX: number, offsetY: number };
+
+// Draw the whole topology scaled into the minimap, plus the rectangle of the main view
+const drawMinimap = (canvas: HTMLCanvasElement, network: Network, container: HTMLElement, edges: MapEdge[], pathNodes: Set<string>, darkMode: boolean): MinimapTransform | null => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const ratio = window.devicePixelRatio || 1;
+  if (canvas.width !== MINIMAP_WIDTH * ratio) {
+    canvas.width = MINIMAP_WIDTH * ratio;
+    canvas.height = MINIMAP_HEIGHT * ratio;
+  }
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  ctx.clearRect(0, 0, MINIMAP_WIDTH, MINIMAP_HEIGHT);
+
+  const positions = network.getPositions();
+  const points = Object.values(positions);
+  if (points.length === 0) return null;
+  // Pad by half a node so boxes at the edge stay inside
+  const minX = Math.min(...points.map((p) => p.x)) - 60;
+  const maxX = Math.max(...points.map((p) => p.x)) + 60;
+  const minY = Math.min(...points.map((p) => p.y)) - 40;
+  const maxY = Math.max(...points.map((p) => p.y)) + 40;
+  const scale = Math.min((MINIMAP_WIDTH - 2 * MINIMAP_PADDING) / (maxX - minX), (MINIMAP_HEIGHT - 2 * MINIMAP_PADDING) / (maxY - minY));
+  const transform = {
+    minX,
+    minY,
+    scale,
+    offsetX: (MINIMAP_WIDTH - (maxX - minX) * scale) / 2,
+    offsetY: (MINIMAP_HEIGHT - (maxY - minY) * scale) / 2,
+  };
+  const toMini = (p: { x: number, y: number }) => ({ x: transform.offsetX + (p.x - minX) * scale, y: transform.offsetY + (p.y - minY) * scale });
+
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = darkMode ? 'rgba(148,163,184,0.5)' : 'rgba(100,116,139,0.5)';
+  ctx.beginPath();
+  edges.forEach((edge) => {
+    if (edge.edgeType !== 'direct' && edge.edgeType !== 'group') return;
+    if (!positions[edge.from] || !positions[edge.to]) return;
+    const from = toMini(positions[edge.from]);
+    const to = toMini(positions[edge.to]);
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+  });
+  ctx.stroke();
+
+  const physColor = getComputedStyle(document.documentElement).getPropertyValue('--color-legend-phys').trim() || '#4ECDC4';
+  const highlightColor = getComputedStyle(document.documentElement).getPropertyValue('--color-legend-highlight').trim() || '#FFD166';
+  Object.entries(positions).forEach(([id, position]) => {
+    const p = toMini(position);
+    ctx.fillStyle = pathNodes.has(id) ? highlightColor : physColor;
+    ctx.fillRect(p.x - 2, p.y - 2, 4, 4);
+  });
+
+  // Main view: the canvas coordinates of the container's corners
+  const topLeft = toMini(network.DOMtoCanvas({ x: 0, y: 0 }));
+  const bottomRight = toMini(network.DOMtoCanvas({ x: container.clientWidth, y: container.clientHeight }));
+  ctx.fillStyle = darkMode ? 'rgba(96,165,250,0.12)' : 'rgba(0,102,204,0.08)';
+  ctx.strokeStyle = darkMode ? '#60a5fa' : '#0066cc';
+  ctx.lineWidth = 1.5;
+  ctx.fillRect(topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y);
+  ctx.strokeRect(topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y);
+  return transform;
+};
+
+// Animated camera moves for the view controls
+const VIEW_ANIMATION = { duration: 400, easingFunction: 'easeInOutQuad' as const };
+
+// Node boxes as vis draws them, for exports: vis renders nodes itself on screen, so only
+// the export has to repeat them (at the size vis measured, in the node's own colors)
+const drawNodeBoxes = (ctx: DrawContext, network: Network, nodes: MapNode[]) => {
+  const physColor = getComputedStyle(document.documentElement).getPropertyValue('--color-legend-phys').trim() || '#4ECDC4';
+  nodes.forEach((node) => {
+    const box = network.getBoundingBox(node.id);
+    if (!box) return;
+    const color = typeof node.color === 'string' ? { background: node.color, border: node.color } : node.color || {};
+    ctx.save();
+    ctx.fillStyle = color.background || physColor;
+    ctx.strokeStyle = color.border || color.background || physColor;
+    ctx.lineWidth = node.borderWidth ?? 3;
+    ctx.beginPath();
+    ctx.roundRect(box.left, box.top, box.right - box.left, box.bottom - box.top, 4);
+    ctx.fill();
+    ctx.stroke();
+
+    const lines = String(node.label ?? node.id).split('\n');
+    const lineHeight = 17;
+    const centerX = (box.left + box.right) / 2;
+    const firstY = (box.top + box.bottom) / 2 - ((lines.length - 1) * lineHeight) / 2;
+    ctx.font = '14px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = (typeof node.font === 'object' && node.font.color) || '#ffffff';
+    lines.forEach((line, i) => ctx.fillText(line, centerX, firstY + i * lineHeight));
+    ctx.restore();
+  });
+};
+
+const cssColor = (name: string, fallback: string) => getComputedStyle(document.documentElement).getPropertyValue(name).trim() || fallback;
+
+// Exported maps extend this far past the outermost node boxes (interface boxes and NCA containers stick out)
+const EXPORT_MARGIN = 120;
+// Browsers refuse canvases past roughly 16k pixels a side or 100+ megapixels
+const MAX_EXPORT_SIDE = 16384;
+const MAX_EXPORT_AREA = 100_000_000;
+
+// Container and summary node color of the n-th NCA group (golden-angle hues stay apart)
+const groupHue = (index: number) => Math.round((index * 137.5) % 360);
+
+// Enforce a single highlight color for the selected node; the others drop their highlight variants
+const selectionStyle = (node: MapNode, selectedId: string) => {
+  if (node.id === selectedId) {
+    const highlightColor = getComputedStyle(document.documentElement).getPropertyValue('--color-legend-highlight').trim();
+    return { color: { background: highlightColor, border: highlightColor }, borderWidth: 4 };
+  }
+  return {
+    color: node.color && typeof node.color === 'object' ? { background: node.color.background, border: node.color.border } : node.color,
+    borderWidth: 2
+  };
+};
+
+
+// Node record of the query (positions) file, as far as the layout reads it
+type QueryFileNode = { nodeName?: string, nodeId?: string, nodeLabelPath?: string }
+
+// Query file lookups by node name or short id: the node's nodeId, and its NCA and node number within the NCA
+interface NodePositionData {
+  ids: Record<string, string>
+  groupInfo: Record<string, { ncaNumber: string, nodeNumber: string }>
+}
+
 interface NetworkMapProps {
-  networkData: any
-  onNodeHover?: (nodeData: any) => void
-  onNodeClick?: (nodeData: any) => void
+  networkData: { nodes: MapNode[], edges: MapEdge[] } | null
+  onNodeHover?: (nodeData: NodeDetails | null) => void
+  onNodeClick?: (nodeData: NodeDetails | null) => void
   onNodeBlur?: () => void
   darkMode?: boolean
-  selectedNode?: any
+  selectedNode?: NodeDetails | null
   positionsFile?: string
   highlightedPath?: { nodes: string[], edges: string[] } | null  // For source-target path highlighting
+  secondaryPath?: { nodes: string[], edges: string[] } | null  // Second path drawn dashed alongside highlightedPath (e.g. the reverse direction)
+  treeAnnotations?: Record<string, { depth: number, incomingInterface: string }> | null  // Distribution tree depth/iif per node
+  nodeBadges?: Record<string, { text: string, color: string }> | null  // Warning badge per node id (e.g. configuration drift), top-right of the node
+  edgeStyles?: Record<string, { color?: string, width?: number, dashed?: boolean }> | null  // Per-edge color/width overrides (e.g. dataset diff status, attribute mapping)
+  linkLabels?: Record<string, string> | null  // Text drawn on the middle of each link by edge id (e.g. RTT and packet counters)
+  topologyStream?: TopologyStream | null  // Pushed deltas are applied to the DataSets in place, without rebuilding the Network
+  layoutMode?: LayoutMode  // How nodes are placed; "grid" orders them by nodeId from the positions file
+  layoutRoot?: string | null  // Root node of the hierarchical layout (e.g. the selected multicast source)
+  positionOverrides?: NodePositions | null  // Hand-arranged positions by node name (or id); they win over the layout
+  nodesDraggable?: boolean  // Unlock nodes so they can be dragged; the layout keeps them fixed otherwise
+  onNodesMoved?: (positions: NodePositions) => void  // Called after a drag with the position of every node, by node name
+  showGroups?: boolean  // Draw a container per NCA (from nodeLabelPath); clicking its title collapses it into one node
+  nodeColors?: Record<string, string> | null  // Fill color per node id (e.g. colored by firmware); highlight styles from networkData win
+  exportName?: string  // File name (without extension) for PNG/SVG/PDF exports
+  legendItems?: MapLegendItem[] | null  // Legend drawn under exported maps; defaults to links, highlights and paths shown
 }
 
 
-export default function NetworkMap({ networkData, onNodeHover, onNodeClick, onNodeBlur, darkMode = false, selectedNode, positionsFile = "/node-positions-150.json", highlightedPath }: NetworkMapProps) {
+export default function NetworkMap({ networkData, onNodeHover, onNodeClick, onNodeBlur, darkMode = false, selectedNode, positionsFile = "/node-positions-150.json", highlightedPath, secondaryPath, treeAnnotations, nodeBadges, edgeStyles, linkLabels, topologyStream, layoutMode = "grid", layoutRoot = null, positionOverrides = null, nodesDraggable = false, onNodesMoved, showGroups = false, nodeColors = null, exportName = "network-map", legendItems = null }: NetworkMapProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const networkRef = useRef<Network | null>(null)
-  const [nodePositionData, setNodePositionData] = useState<any>(null)
-  const nodePositionDataRef = useRef<any>(null)
+  const [nodePositionData, setNodePositionData] = useState<NodePositionData | null>(null)
+  const nodePositionDataRef = useRef<NodePositionData | null>(null)
   const [clickHighlightedNode, setClickHighlightedNode] = useState<string | null>(null) // For click-to-highlight feature
+  // NCA groups shown as a single summary node, by NCA number
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(() => new Set())
+  // Minimap canvas and its current scale, for turning clicks and drags into camera moves
+  const minimapRef = useRef<HTMLCanvasElement>(null)
+  const minimapTransformRef = useRef<MinimapTransform | null>(null)
+  const minimapDraggingRef = useRef(false)
+  // NCA groups of the current data, read by the container drawing
+  const groupsRef = useRef<{ groups: NodeGroup[], collapsed: Set<string> }>({ groups: [], collapsed: new Set() })
+  const mapRenderersRef = useRef<{ drawGroupContainers: (ctx: DrawContext) => void, drawLinksAndInterfaces: (ctx: DrawContext) => void } | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const hasNodes = Array.isArray(networkData?.nodes) && networkData.nodes.length > 0
+  // Highlight and theme state for the canvas rendering, read on every redraw
+  const drawStateRef = useRef({ darkMode, highlightedPath, secondaryPath, clickHighlightedNode, treeAnnotations, nodeBadges, edgeStyles, linkLabels })
+  // Positions of the current layout (plus nodes placed since), unstyled positioned nodes, and the selection they are styled for
+  const layoutRef = useRef({ positionMap: {} as Record<string, Point>, extraPosition: (n: number): Point => ({ x: 0, y: n * 250 }), extraCount: 0 })
+  const layoutCacheRef = useRef<{ mode: LayoutMode, root: string | null, topologyKey: string, layout: Layout } | null>(null)
+  const baseNodesRef = useRef<MapNode[]>([])
+  const selectedNodeRef = useRef(selectedNode)
+  // Set for a new Network or a new positions file; the next data sync fits the view once
+  const needsFitRef = useRef(true)
+  // DataSets behind the Network, plus where to put nodes that streamed deltas add
+  const dataSetsRef = useRef<(TopologyDataSets & { placeNode: (nodeId: string) => { x: number, y: number } }) | null>(null)
+  // Deltas streamed since networkData last changed; replayed when the DataSets are re-synced for other reasons
+  const streamedDeltasRef = useRef<TopologyDelta[]>([])
+  const lastNetworkDataRef = useRef<NetworkMapProps['networkData']>(null)
   
   // Use refs for callbacks to avoid dependency array issues
   const onNodeHoverRef = useRef(onNodeHover)
   const onNodeClickRef = useRef(onNodeClick)
   const onNodeBlurRef = useRef(onNodeBlur)
+  const onNodesMovedRef = useRef(onNodesMoved)
+  const nodesDraggableRef = useRef(nodesDraggable)
   
   useEffect(() => {
     onNodeHoverRef.current = onNodeHover
     onNodeClickRef.current = onNodeClick
     onNodeBlurRef.current = onNodeBlur
+    onNodesMovedRef.current = onNodesMoved
+    nodesDraggableRef.current = nodesDraggable
   })
 
-  // Load node position data when positionsFile changes
+  // Load node position data when positionsFile changes (an empty path means the
+  // dataset has no query file, so nodes fall back to ids parsed from their names)
   useEffect(() => {
-    fetch(positionsFile)
-      .then(res => res.json())
+    const loadPositions = positionsFile ? loadDatasetJson(positionsFile) : Promise.resolve({ nodeInfo: [] })
+    loadPositions
       .then(data => {
+        // A different positions file means a different dataset, so start from a fitted view
+        needsFitRef.current = true;
+        setCollapsedGroups(new Set());
         // Create THREE maps:
         // 1. nodeName -> nodeId (for nodes with nodeName field)
         // 2. shortId -> nodeId (for nodes without nodeName, lookup by their short ID)
@@ -146,7 +412,7 @@ export default function NetworkMap({ networkData, onNodeHover, onNodeClick, onNo
         const idMap: Record<string, string> = {};
         const groupInfoMap: Record<string, { ncaNumber: string, nodeNumber: string }> = {};
         
-        data.nodeInfo?.forEach((node: any) => {
+        (data as { nodeInfo?: QueryFileNode[] }).nodeInfo?.forEach((node) => {
           if (node.nodeName && node.nodeId) {
             nodeMap[node.nodeName] = node.nodeId;
             
@@ -162,10 +428,7 @@ export default function NetworkMap({ networkData, onNodeHover, onNodeClick, onNo
                 };
                 // Also store by shortId for nodes without nodeName
                 if (node.nodeName.startsWith('Node') && node.nodeName.length > 4) {
-                  const hexPart = node.nodeName.substring(4);
-                  const shortId = hexPart.substring(hexPart.length - 4);
-                  const normalizedShortId = parseInt(shortId, 16).toString(16);
-                  groupInfoMap[normalizedShortId] = {
+                  groupInfoMap[shortNodeId(node.nodeName)] = {
                     ncaNumber: ncaMatch[1],
                     nodeNumber: nodeMatch[1]
                   };
@@ -176,1107 +439,1503 @@ export default function NetworkMap({ networkData, onNodeHover, onNodeClick, onNo
             // Also extract the short ID from nodeName and create reverse mapping
             // e.g., "Node00b01973dfaf" -> extract "dfaf" (last 4 hex chars)
             if (node.nodeName.startsWith('Node') && node.nodeName.length > 4) {
-              const hexPart = node.nodeName.substring(4); // Remove "Node" prefix
-              const shortId = hexPart.substring(hexPart.length - 4); // Last 4 chars
-              // Convert to number and back to remove leading zeros
-              const normalizedShortId = parseInt(shortId, 16).toString(16);
-              idMap[normalizedShortId] = node.nodeId;
+              idMap[shortNodeId(node.nodeName)] = node.nodeId;
             }
           }
         });
         
         // Combine both maps
-        const combinedMap = { ...nodeMap, ...idMap, _groupInfo: groupInfoMap };
+        const combinedMap = { ids: { ...nodeMap, ...idMap }, groupInfo: groupInfoMap };
         setNodePositionData(combinedMap);
         nodePositionDataRef.current = combinedMap;
       })
       .catch(err => console.error('Failed to load node positions:', err));
   }, [positionsFile]);
 
+  // Highlight and theme state read by the canvas rendering; changing it only needs a redraw
   useEffect(() => {
-    if (containerRef.current && networkData && nodePositionData) {
-      if (networkRef.current) {
-        networkRef.current.destroy()
-      }
+    drawStateRef.current = { darkMode, highlightedPath, secondaryPath, clickHighlightedNode, treeAnnotations, nodeBadges, edgeStyles, linkLabels }
+    networkRef.current?.redraw()
+  }, [darkMode, highlightedPath, secondaryPath, clickHighlightedNode, treeAnnotations, nodeBadges, edgeStyles, linkLabels])
+
+  // One Network for the lifetime of the map. Data, selection, theme and highlights are
+  // pushed into it by the effects below, so zoom and pan survive every interaction.
+  useEffect(() => {
+    if (!containerRef.current || !hasNodes) return
+    const nodesDataSet = new DataSet<NodeDetails>();
+    const edgesDataSet = new DataSet<MapEdge>();
 
-      // Prepare networkData for vis-network, enforce single highlight color for selected node
-      let visData = networkData;
-      if (networkData && networkData.nodes && selectedNode) {
-        const highlightColor = getComputedStyle(document.documentElement).getPropertyValue('--color-legend-highlight').trim();
-        visData = {
-          ...networkData,
-          nodes: networkData.nodes.map((n: any) => n.id === selectedNode.id ? {
-            ...n,
-            color: {
-              background: highlightColor,
-              border: highlightColor
-            },
-            borderWidth: 4
-          } : {
-            ...n,
-            color: n.color && typeof n.color === 'object' ? { background: n.color.background, border: n.color.border } : n.color,
-            borderWidth: 2
-          })
-        };
+    // New nodes from streamed deltas take their previous spot, or the next free spot of the layout
+    const placeNode = (nodeId: string) => {
+      const { positionMap, extraPosition } = layoutRef.current;
+      if (!positionMap[nodeId]) {
+        positionMap[nodeId] = extraPosition(layoutRef.current.extraCount++);
       }
-      // Explicitly disable arrows in the vis-network instance
-      const options = getNetworkOptions(darkMode);
-      options.edges.arrows = { to: { enabled: false } }; // Corrected type
+      return { ...positionMap[nodeId], fixed: { x: !nodesDraggableRef.current, y: !nodesDraggableRef.current } };
+    };
+    dataSetsRef.current = { nodes: nodesDataSet, edges: edgesDataSet, placeNode };
+
+    // The canvas rendering below reads the live edge list, so DataSet updates are drawn on the next redraw
+    let drawnEdges: MapEdge[] = [];
+    let nodeEdgeInterfaces = collectNodeInterfaces(drawnEdges);
+    edgesDataSet.on('*', () => {
+      drawnEdges = edgesDataSet.get();
+      nodeEdgeInterfaces = collectNodeInterfaces(drawnEdges);
+    });
+
+    // Explicitly disable arrows in the vis-network instance
+    const options = getNetworkOptions(drawStateRef.current.darkMode);
+    options.edges.arrows = { to: { enabled: false } }; // Corrected type
+
+    const network = new Network(containerRef.current, { nodes: nodesDataSet, edges: edgesDataSet }, options);
+    networkRef.current = network;
+    needsFitRef.current = true;
 
-      // Process edges - add interface labels positioned along the edge
-      const { nodes, edges } = visData;
+    // NCA containers behind the nodes: a labelled box around the members of each expanded group.
+    // Title rectangles are kept for the click handler, which collapses the group.
+    let groupHeaderRects: Array<{ key: string, x: number, y: number, width: number, height: number }> = [];
+    const drawGroupContainers = function (ctx: DrawContext) {
+      const { groups, collapsed } = groupsRef.current;
+      const { darkMode } = drawStateRef.current;
+      groupHeaderRects = [];
+      groups.forEach((group, index) => {
+        if (collapsed.has(group.key)) return;
+        const points = Object.values(network.getPositions(group.members));
+        if (points.length === 0) return;
+        // Leave room for the interface boxes around the outermost members
+        const minX = Math.min(...points.map((p) => p.x)) - 90;
+        const maxX = Math.max(...points.map((p) => p.x)) + 90;
+        const minY = Math.min(...points.map((p) => p.y)) - 60;
+        const maxY = Math.max(...points.map((p) => p.y)) + 60;
+        const hue = groupHue(index);
+        const title = `▾ ${group.label} · ${group.members.length} node${group.members.length === 1 ? '' : 's'}`;
+
+        ctx.save();
+        ctx.fillStyle = `hsla(${hue}, 60%, ${darkMode ? 60 : 50}%, 0.08)`;
+        ctx.strokeStyle = `hsla(${hue}, 60%, ${darkMode ? 60 : 40}%, 0.7)`;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([8, 4]);
+        ctx.beginPath();
+        ctx.roundRect(minX, minY, maxX - minX, maxY - minY, 12);
+        ctx.fill();
+        ctx.stroke();
+
+        ctx.setLineDash([]);
+        ctx.font = 'bold 13px Arial';
+        const titleWidth = ctx.measureText(title).width + 16;
+        const titleRect = { key: group.key, x: minX + 10, y: minY - 12, width: titleWidth, height: 24 };
+        ctx.fillStyle = `hsl(${hue}, 55%, ${darkMode ? 35 : 45}%)`;
+        ctx.beginPath();
+        ctx.roundRect(titleRect.x, titleRect.y, titleRect.width, titleRect.height, 6);
+        ctx.fill();
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(title, titleRect.x + 8, titleRect.y + titleRect.height / 2);
+        ctx.restore();
+        groupHeaderRects.push(titleRect);
+      });
+    };
+    network.on("beforeDrawing", drawGroupContainers);
+
+    // Custom rendering: interface boxes in fixed positions (e0=top, e1=right, u0=bottom, u1=left)
+    const drawLinksAndInterfaces = function (ctx: DrawContext) {
+      const { darkMode, highlightedPath, secondaryPath, clickHighlightedNode, treeAnnotations, nodeBadges, edgeStyles, linkLabels } = drawStateRef.current;
+      const positions = network.getPositions();
+      const interfaceBoxWidth = 24; // Width of interface label box
+      const interfaceBoxHeight = 18; // Height of interface label box
       
-      // Create a map to store unique interfaces per node
-      const nodeEdgeInterfaces = new Map<string, Map<string, {edgeId: string, interface: string, connectedTo: string}>>();
+      // Map interface names to fixed positions: e0=top, e1=right, u0=bottom, u1=left
+      const verticalDistance = 30; // Top and bottom distance
+      const horizontalDistance = 55; // Left and right distance
       
-      edges.forEach((edge: any) => {
-        if (edge.edgeType === 'direct') {
-          const ifA = edge.interfaceA || '';
-          const ifB = edge.interfaceB || '';
+      const getInterfacePosition = (interfaceName: string) => {
+        const name = interfaceName.toLowerCase();
+        if (name.includes('eth0') || name.includes('e0')) {
+          // Top position
+          return { offsetX: 0, offsetY: -verticalDistance };
+        } else if (name.includes('eth1') || name.includes('e1')) {
+          // Right position
+          return { offsetX: horizontalDistance, offsetY: 0 };
+        } else if (name.includes('usb0') || name.includes('u0')) {
+          // Bottom position
+          return { offsetX: 0, offsetY: verticalDistance };
+        } else if (name.includes('usb1') || name.includes('u1')) {
+          // Left position
+          return { offsetX: -horizontalDistance, offsetY: 0 };
+        }
+        // Default fallback
+        return { offsetX: 0, offsetY: -verticalDistance };
+      };
+      
+      // Store interface positions for later connection drawing
+      const interfacePositions = new Map<string, { x: number, y: number, nodeId: string, interface: string, side: string }>();
+      
+      // Draw interface labels in fixed positions for each node
+      nodeEdgeInterfaces.forEach((interfacesMap, nodeId) => {
+        const nodePos = positions[nodeId];
+        if (!nodePos || interfacesMap.size === 0) return;
+        
+        // Draw each interface at its designated fixed position
+        interfacesMap.forEach((iface) => {
+          const pos = getInterfacePosition(iface.interface);
           
-          // Store interface info for node 'from' (a) - deduplicated by interface name
-          if (ifA) {
-            if (!nodeEdgeInterfaces.has(edge.from)) {
-              nodeEdgeInterfaces.set(edge.from, new Map());
-            }
-            // Only store if this interface hasn't been added yet for this node
-            if (!nodeEdgeInterfaces.get(edge.from)!.has(ifA)) {
-              nodeEdgeInterfaces.get(edge.from)!.set(ifA, {
-                edgeId: edge.id,
-                interface: ifA,
-                connectedTo: edge.to
-              });
-            }
+          // Position interface box at fixed position
+          const labelX = nodePos.x + pos.offsetX;
+          const labelY = nodePos.y + pos.offsetY;
+          
+          // Determine which side this interface is on
+          let side = 'top';
+          if (iface.interface.includes('eth1') || iface.interface.includes('e1')) {
+            side = 'right';
+          } else if (iface.interface.includes('usb0') || iface.interface.includes('u0')) {
+            side = 'bottom';
+          } else if (iface.interface.includes('usb1') || iface.interface.includes('u1')) {
+            side = 'left';
           }
           
-          // Store interface info for node 'to' (b) - deduplicated by interface name
-          if (ifB) {
-            if (!nodeEdgeInterfaces.has(edge.to)) {
-              nodeEdgeInterfaces.set(edge.to, new Map());
-            }
-            // Only store if this interface hasn't been added yet for this node
-            if (!nodeEdgeInterfaces.get(edge.to)!.has(ifB)) {
-              nodeEdgeInterfaces.get(edge.to)!.set(ifB, {
-                edgeId: edge.id,
-                interface: ifB,
-                connectedTo: edge.from
-              });
-            }
+          // Store position for connection drawing
+          const key = `${nodeId}_${iface.interface}`;
+          interfacePositions.set(key, { x: labelX, y: labelY, nodeId, interface: iface.interface, side });
+          
+          // Shorten interface name for display
+          let displayName = iface.interface;
+          if (displayName.startsWith('eth')) {
+            displayName = 'e' + displayName.substring(3);
+          } else if (displayName.startsWith('usb')) {
+            displayName = 'u' + displayName.substring(3);
+          } else if (displayName.length > 4) {
+            displayName = displayName.substring(0, 4);
           }
-        }
+          
+          ctx.save();
+          
+          // Draw interface box (attached to node edge)
+          ctx.fillStyle = darkMode ? '#2c3e50' : '#e8f4f8';
+          ctx.strokeStyle = darkMode ? '#34495e' : '#4ECDC4';
+          ctx.lineWidth = 2;
+          
+          const boxX = labelX - interfaceBoxWidth / 2;
+          const boxY = labelY - interfaceBoxHeight / 2;
+          
+          // Rounded rectangle for interface box
+          ctx.beginPath();
+          ctx.roundRect(boxX, boxY, interfaceBoxWidth, interfaceBoxHeight, 3);
+          ctx.fill();
+          ctx.stroke();
+          
+          // Draw interface text
+          ctx.font = 'bold 10px Arial';
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillStyle = darkMode ? '#ecf0f1' : '#2c3e50';
+          ctx.fillText(displayName, labelX, labelY);
+          
+          ctx.restore();
+        });
       });
       
-      // Remove labels from edges - we'll display them differently
-      const updatedEdges = edges.map((edge: any) => {
-        const { label, ...rest } = edge;
-        return rest;
-      });
-
-      // Grid layout algorithm
-      // Position nodes based on nodeId from node-positions.json
+      // ============================================
+      // GLOBAL LANE-BASED ROUTING SYSTEM
+      // ============================================
+      // Every horizontal and vertical line segment gets a unique "track" to prevent overlap.
+      // We track ALL Y-coordinates used by horizontal segments and ALL X-coordinates used by vertical segments.
       
-      const positionMap: Record<string, { x: number, y: number }> = {};
-      const totalNodes = nodes.length;
+      const LANE_SPACING = 4; // Pixels between each lane - smaller for more lanes
       
-      // Adaptive spacing based on node count
-      let horizontalSpacing = 250;
-      let verticalSpacing = 250;
+      // Global sets to track which exact coordinates are already used
+      const usedHorizontalY = new Set<number>(); // All Y coords used by horizontal segments
+      const usedVerticalX = new Set<number>();   // All X coords used by vertical segments
       
-      if (totalNodes > 100) {
-        horizontalSpacing = 300;
-        verticalSpacing = 250;
-      } else if (totalNodes > 50) {
-        horizontalSpacing = 250;
-        verticalSpacing = 200;
-      }
+      // Helper: Get the next available Y coordinate for a horizontal segment
+      // Starting from a preferred Y and searching ONLY in the specified direction
+      // to avoid reversing back into node exclusion zones
+      const getAvailableHorizontalY = (preferredY: number, searchDirection: 'up' | 'down' | 'both' = 'both'): number => {
+        // Round to lane spacing for alignment
+        let y = Math.round(preferredY / LANE_SPACING) * LANE_SPACING;
+        
+        if (searchDirection === 'both') {
+          // Search outward from preferred position - try alternating directions
+          let offset = 0;
+          let direction = 1;
+          while (usedHorizontalY.has(y) && offset < 1000) {
+            offset += LANE_SPACING;
+            direction *= -1;
+            y = Math.round(preferredY / LANE_SPACING) * LANE_SPACING + direction * Math.ceil(offset / (2 * LANE_SPACING)) * LANE_SPACING;
+          }
+        } else {
+          // Search only in specified direction to avoid going back into nodes
+          const step = searchDirection === 'up' ? -LANE_SPACING : LANE_SPACING;
+          let attempts = 0;
+          while (usedHorizontalY.has(y) && attempts < 250) {
+            y += step;
+            attempts++;
+          }
+        }
+        usedHorizontalY.add(y);
+        return y;
+      };
       
-      // Calculate grid dimensions (try to make it roughly square)
-      const cols = Math.ceil(Math.sqrt(totalNodes));
-      const rows = Math.ceil(totalNodes / cols);
+      // Helper: Get the next available X coordinate for a vertical segment
+      const getAvailableVerticalX = (preferredX: number, searchDirection: 'left' | 'right' | 'both' = 'both'): number => {
+        // Round to lane spacing for alignment
+        let x = Math.round(preferredX / LANE_SPACING) * LANE_SPACING;
+        
+        if (searchDirection === 'both') {
+          // Search outward from preferred position - try alternating directions
+          let offset = 0;
+          let direction = 1;
+          while (usedVerticalX.has(x) && offset < 1000) {
+            offset += LANE_SPACING;
+            direction *= -1;
+            x = Math.round(preferredX / LANE_SPACING) * LANE_SPACING + direction * Math.ceil(offset / (2 * LANE_SPACING)) * LANE_SPACING;
+          }
+        } else {
+          // Search only in specified direction to avoid going back into nodes
+          const step = searchDirection === 'left' ? -LANE_SPACING : LANE_SPACING;
+          let attempts = 0;
+          while (usedVerticalX.has(x) && attempts < 250) {
+            x += step;
+            attempts++;
+          }
+        }
+        usedVerticalX.add(x);
+        return x;
+      };
       
-      // Center the grid
-      const gridWidth = (cols - 1) * horizontalSpacing;
-      const gridHeight = (rows - 1) * verticalSpacing;
-      const startX = -gridWidth / 2;
-      const startY = -gridHeight / 2;
+      // ============================================
+      // UNIQUE EDGE COLORING SYSTEM
+      // ============================================
+      // Generate a unique muted color for each edge using HSL
+      // This makes each path visually distinguishable while keeping them subtle
+      const generateEdgeColor = (index: number, totalEdges: number): string => {
+        // Evenly distribute hues across the color wheel
+        const hue = (index * 360 / Math.max(totalEdges, 1)) % 360;
+        // Muted: low saturation, medium lightness for dark mode, slightly different for light
+        const saturation = darkMode ? 45 : 50;
+        const lightness = darkMode ? 50 : 45;
+        return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+      };
       
-      // Position nodes in grid based on nodeId
-      // First, collect and sort all nodes by their nodeId
-      const nodesWithIds = nodes.map((node: any) => {
-        let nodeIdNum = 0;
-        if (nodePositionData && nodePositionData[node.id]) {
-          nodeIdNum = parseInt(nodePositionData[node.id]);
-        } else {
-          // Fallback: extract number from node.id if it contains one
-          const match = node.id.match(/\d+/);
-          nodeIdNum = match ? parseInt(match[0]) : 0;
+      // Build edge color map - assign each unique edge a color
+      const edgeColorMap = new Map<string, string>();
+      let edgeIndex = 0;
+      const directEdges = drawnEdges.filter((e) => e.edgeType === 'direct');
+      directEdges.forEach((edge) => {
+        const edgeKey = `${edge.from}-${edge.to}-${edge.interfaceA}-${edge.interfaceB}`;
+        if (!edgeColorMap.has(edgeKey)) {
+          edgeColorMap.set(edgeKey, generateEdgeColor(edgeIndex, directEdges.length));
+          edgeIndex++;
         }
-        return { node, nodeIdNum };
       });
       
-      // Sort by nodeId
-      nodesWithIds.sort((a: any, b: any) => a.nodeIdNum - b.nodeIdNum);
+      // Determine which edges/nodes should be highlighted or dimmed
+      // Priority: highlightedPath (source-target) > clickHighlightedNode > normal
+      const clickConnectedEdges = new Set<string>();
+      const clickConnectedNodes = new Set<string>();
       
-      // Map to sequential grid positions (0, 1, 2, ... totalNodes-1)
-      nodesWithIds.forEach((item: any, sequentialIndex: number) => {
-        const row = Math.floor(sequentialIndex / cols);
-        const col = sequentialIndex % cols;
-        
-        positionMap[item.node.id] = {
-          x: startX + col * horizontalSpacing,
-          y: startY + row * verticalSpacing
-        };
-      });
+      if (clickHighlightedNode && !highlightedPath) {
+        // Find all edges connected to the click-highlighted node
+        directEdges.forEach((edge) => {
+          if (edge.from === clickHighlightedNode || edge.to === clickHighlightedNode) {
+            const edgeKey = `${edge.from}-${edge.to}-${edge.interfaceA}-${edge.interfaceB}`;
+            clickConnectedEdges.add(edgeKey);
+            clickConnectedNodes.add(edge.from);
+            clickConnectedNodes.add(edge.to);
+          }
+        });
+      }
       
-      // Apply positions to nodes
-      const positionedNodes = nodes.map((node: any) => {
-        const position = positionMap[node.id];
-        
-        return {
-          ...node,
-          x: position.x,
-          y: position.y,
-          fixed: { x: true, y: true }
-        };
-      });
-
-      const updatedNetworkData = { nodes: positionedNodes, edges: updatedEdges };
-
-      const network = new Network(containerRef.current, updatedNetworkData, options);
-      networkRef.current = network;
-
-      // Custom rendering: interface boxes in fixed positions (e0=top, e1=right, u0=bottom, u1=left)
-      network.on("afterDrawing", function (ctx) {
-        const positions = network.getPositions();
-        const nodeSize = 25; // Node box size from options
-        const interfaceBoxWidth = 24; // Width of interface label box
-        const interfaceBoxHeight = 18; // Height of interface label box
-        
-        // Map interface names to fixed positions: e0=top, e1=right, u0=bottom, u1=left
-        const verticalDistance = 30; // Top and bottom distance
-        const horizontalDistance = 55; // Left and right distance
-        
-        const getInterfacePosition = (interfaceName: string) => {
-          const name = interfaceName.toLowerCase();
-          if (name.includes('eth0') || name.includes('e0')) {
-            // Top position
-            return { offsetX: 0, offsetY: -verticalDistance };
-          } else if (name.includes('eth1') || name.includes('e1')) {
-            // Right position
-            return { offsetX: horizontalDistance, offsetY: 0 };
-          } else if (name.includes('usb0') || name.includes('u0')) {
-            // Bottom position
-            return { offsetX: 0, offsetY: verticalDistance };
-          } else if (name.includes('usb1') || name.includes('u1')) {
-            // Left position
-            return { offsetX: -horizontalDistance, offsetY: 0 };
+      // Draw physical connections from interface to interface (not node to node)
+      // Deduplicate edges to avoid drawing the same connection multiple times
+      const drawnConnections = new Set<string>();
+      const interfaceConnectionCount = new Map<string, number>(); // Track connections per interface
+      const pendingLinkLabels: Array<{ x: number, y: number, text: string, color: string, dimmed: boolean }> = [];
+      
+      drawnEdges.forEach((edge) => {
+        if (edge.edgeType === 'direct') {
+          const ifA = edge.interfaceA || '';
+          const ifB = edge.interfaceB || '';
+          
+          if (!ifA || !ifB) return;
+          
+          const fromIfaceKey = `${edge.from}_${ifA}`;
+          const toIfaceKey = `${edge.to}_${ifB}`;
+          
+          const fromIface = interfacePositions.get(fromIfaceKey);
+          const toIface = interfacePositions.get(toIfaceKey);
+          
+          if (!fromIface || !toIface) return;
+          
+          // Create a unique bidirectional connection key using actual interface positions
+          // This ensures we only draw each physical connection once
+          const point1 = `${Math.round(fromIface.x)},${Math.round(fromIface.y)}`;
+          const point2 = `${Math.round(toIface.x)},${Math.round(toIface.y)}`;
+          const connectionKey = [point1, point2].sort().join('<->');
+          
+          // Skip if we've already drawn this connection
+          if (drawnConnections.has(connectionKey)) return;
+          drawnConnections.add(connectionKey);
+          
+          // Track connections per interface SIDE for initial spacing
+          // Use side-based keys to ensure multiple interfaces on the same side (e.g. eth0, eth2 both on Top)
+          // share the same counter and get spaced out properly to avoid overlaps.
+          const fromSideKey = `${edge.from}_${fromIface.side}`;
+          const toSideKey = `${edge.to}_${toIface.side}`;
+          
+          const fromIfaceConnectionCount = interfaceConnectionCount.get(fromSideKey) || 0;
+          const toIfaceConnectionCount = interfaceConnectionCount.get(toSideKey) || 0;
+          interfaceConnectionCount.set(fromSideKey, fromIfaceConnectionCount + 1);
+          interfaceConnectionCount.set(toSideKey, toIfaceConnectionCount + 1);
+          
+          // Get node positions for collision avoidance
+          const fromNodePos = network.getPosition(edge.from);
+          const toNodePos = network.getPosition(edge.to);
+          
+          // Add small offset at origin for connections from same interface
+          const interfaceSpacing = 6; // Increased spacing for better visibility
+          
+          // Helper to alternate offsets (0, +6, -6, +12, -12...) to keep bundle centered-ish
+          const getOffset = (idx: number) => (idx === 0 ? 0 : (idx % 2 === 0 ? -1 : 1) * Math.ceil(idx / 2) * interfaceSpacing);
+          
+          // Determine edge styling based on highlight state
+          const edgeKey = `${edge.from}-${edge.to}-${edge.interfaceA}-${edge.interfaceB}`;
+          const baseEdgeColor = edgeColorMap.get(edgeKey) || (darkMode ? '#666' : '#bbb');
+          
+          // Check if this edge is part of the highlighted path (source-target selection)
+          const isPathHighlighted = highlightedPath && highlightedPath.edges && highlightedPath.edges.includes(edge.id);
+          // Edges shared by both paths keep the primary style; the rest of the secondary path is drawn dashed
+          const isSecondaryHighlighted = !isPathHighlighted && !!secondaryPath && secondaryPath.edges.includes(edge.id);
+          // Check if this edge is connected to the click-highlighted node
+          const isClickHighlighted = clickConnectedEdges.has(edgeKey);
+          // Check if we're in a highlight mode but this edge is NOT highlighted
+          const isInHighlightMode = highlightedPath || secondaryPath || clickHighlightedNode;
+          const shouldDim = isInHighlightMode && !isPathHighlighted && !isSecondaryHighlighted && !isClickHighlighted;
+          const styleOverride = edgeStyles?.[edge.id];
+          
+          // Set edge style based on state
+          let edgeColor: string;
+          let edgeWidth: number;
+          let edgeOpacity: number;
+          
+          if (isPathHighlighted) {
+            // Source-target path: bright, thick, fully visible
+            edgeColor = getComputedStyle(document.documentElement).getPropertyValue('--color-legend-highlight').trim() || '#FFD166';
+            edgeWidth = 3;
+            edgeOpacity = 1;
+          } else if (isSecondaryHighlighted) {
+            // Secondary path: distinct color, same weight as the primary path
+            edgeColor = getComputedStyle(document.documentElement).getPropertyValue('--color-legend-secondary').trim() || '#a78bfa';
+            edgeWidth = 3;
+            edgeOpacity = 1;
+          } else if (isClickHighlighted) {
+            // Click-highlighted connections: use edge's unique color but brighter/thicker
+            edgeColor = baseEdgeColor;
+            edgeWidth = 2.5;
+            edgeOpacity = 1;
+          } else if (styleOverride && !shouldDim) {
+            // Caller-assigned style (e.g. added/removed/changed in a dataset diff, or an attribute mapping)
+            edgeColor = styleOverride.color ?? baseEdgeColor;
+            edgeWidth = styleOverride.width ?? 2.5;
+            edgeOpacity = 1;
+          } else if (shouldDim) {
+            // Not highlighted, in highlight mode: very dim
+            edgeColor = darkMode ? '#444' : '#ddd';
+            edgeWidth = 1;
+            edgeOpacity = 0.3;
+          } else {
+            // Normal state: unique muted color
+            edgeColor = baseEdgeColor;
+            edgeWidth = 1.5;
+            edgeOpacity = 0.6;
           }
-          // Default fallback
-          return { offsetX: 0, offsetY: -verticalDistance };
-        };
-        
-        // Store interface positions for later connection drawing
-        const interfacePositions = new Map<string, { x: number, y: number, nodeId: string, interface: string, side: string }>();
-        
-        // Draw interface labels in fixed positions for each node
-        nodeEdgeInterfaces.forEach((interfacesMap, nodeId) => {
-          const nodePos = positions[nodeId];
-          if (!nodePos || interfacesMap.size === 0) return;
           
-          // Draw each interface at its designated fixed position
-          interfacesMap.forEach((iface) => {
-            const pos = getInterfacePosition(iface.interface);
-            
-            // Position interface box at fixed position
-            const labelX = nodePos.x + pos.offsetX;
-            const labelY = nodePos.y + pos.offsetY;
-            
-            // Determine which side this interface is on
-            let side = 'top';
-            if (iface.interface.includes('eth1') || iface.interface.includes('e1')) {
-              side = 'right';
-            } else if (iface.interface.includes('usb0') || iface.interface.includes('u0')) {
-              side = 'bottom';
-            } else if (iface.interface.includes('usb1') || iface.interface.includes('u1')) {
-              side = 'left';
-            }
-            
-            // Store position for connection drawing
-            const key = `${nodeId}_${iface.interface}`;
-            interfacePositions.set(key, { x: labelX, y: labelY, nodeId, interface: iface.interface, side });
-            
-            // Shorten interface name for display
-            let displayName = iface.interface;
-            if (displayName.startsWith('eth')) {
-              displayName = 'e' + displayName.substring(3);
-            } else if (displayName.startsWith('usb')) {
-              displayName = 'u' + displayName.substring(3);
-            } else if (displayName.length > 4) {
-              displayName = displayName.substring(0, 4);
-            }
-            
-            ctx.save();
-            
-            // Draw interface box (attached to node edge)
-            ctx.fillStyle = darkMode ? '#2c3e50' : '#e8f4f8';
-            ctx.strokeStyle = darkMode ? '#34495e' : '#4ECDC4';
-            ctx.lineWidth = 2;
-            
-            const boxX = labelX - interfaceBoxWidth / 2;
-            const boxY = labelY - interfaceBoxHeight / 2;
-            
-            // Rounded rectangle for interface box
-            ctx.beginPath();
-            ctx.roundRect(boxX, boxY, interfaceBoxWidth, interfaceBoxHeight, 3);
-            ctx.fill();
-            ctx.stroke();
-            
-            // Draw interface text
-            ctx.font = 'bold 10px Arial';
-            ctx.textAlign = 'center';
-            ctx.textBaseline = 'middle';
-            ctx.fillStyle = darkMode ? '#ecf0f1' : '#2c3e50';
-            ctx.fillText(displayName, labelX, labelY);
-            
-            ctx.restore();
-          });
-        });
-        
-        // ============================================
-        // GLOBAL LANE-BASED ROUTING SYSTEM
-        // ============================================
-        // Every horizontal and vertical line segment gets a unique "track" to prevent overlap.
-        // We track ALL Y-coordinates used by horizontal segments and ALL X-coordinates used by vertical segments.
-        
-        const LANE_SPACING = 4; // Pixels between each lane - smaller for more lanes
-        
-        // Global sets to track which exact coordinates are already used
-        const usedHorizontalY = new Set<number>(); // All Y coords used by horizontal segments
-        const usedVerticalX = new Set<number>();   // All X coords used by vertical segments
-        
-        // Helper: Get the next available Y coordinate for a horizontal segment
-        // Starting from a preferred Y and searching ONLY in the specified direction
-        // to avoid reversing back into node exclusion zones
-        const getAvailableHorizontalY = (preferredY: number, searchDirection: 'up' | 'down' | 'both' = 'both'): number => {
-          // Round to lane spacing for alignment
-          let y = Math.round(preferredY / LANE_SPACING) * LANE_SPACING;
+          // Draw orthogonal (right-angled) line connecting the two interface boxes
+          ctx.save();
+          ctx.strokeStyle = edgeColor;
+          ctx.lineWidth = edgeWidth;
+          ctx.globalAlpha = edgeOpacity;
+          ctx.setLineDash(isPathHighlighted ? [] : isSecondaryHighlighted ? [10, 4] : styleOverride && !shouldDim ? (styleOverride.dashed ? [3, 3] : []) : [5, 3]); // Solid for highlighted path, long dashes for the secondary path, dashed for others
+          ctx.beginPath();
           
-          if (searchDirection === 'both') {
-            // Search outward from preferred position - try alternating directions
-            let offset = 0;
-            let direction = 1;
-            while (usedHorizontalY.has(y) && offset < 1000) {
-              offset += LANE_SPACING;
-              direction *= -1;
-              y = Math.round(preferredY / LANE_SPACING) * LANE_SPACING + direction * Math.ceil(offset / (2 * LANE_SPACING)) * LANE_SPACING;
-            }
+          // Calculate orthogonal path with right angles that avoids nodes and interfaces
+          // Start at the center of interface boxes
+          const centerStartX = fromIface.x;
+          const centerStartY = fromIface.y;
+          const centerEndX = toIface.x;
+          const centerEndY = toIface.y;
+          
+          // Constants for routing
+          const interfaceBoxSize = 15; // Full width/height of interface box
+          const clearanceFromInterface = 35; // Extra space from interface box edge (increased for better separation)
+          
+          // Calculate actual start and end points at the center of the interface box edge
+          // that faces the direction of the connection
+          let startX = centerStartX;
+          let startY = centerStartY;
+          let endX = centerEndX;
+          let endY = centerEndY;
+          
+          // For start interface: connect at the edge facing towards the end interface
+          if (fromIface.side === 'top' || fromIface.side === 'bottom') {
+            // Interface is on top/bottom of node - connect at vertical edge
+            startY = fromIface.side === 'top' ? 
+              centerStartY - interfaceBoxSize / 2 : // Top edge of interface box
+              centerStartY + interfaceBoxSize / 2;  // Bottom edge of interface box
+            // Add horizontal offset for multiple connections from same interface
+            startX = centerStartX + getOffset(fromIfaceConnectionCount);
           } else {
-            // Search only in specified direction to avoid going back into nodes
-            const step = searchDirection === 'up' ? -LANE_SPACING : LANE_SPACING;
-            let attempts = 0;
-            while (usedHorizontalY.has(y) && attempts < 250) {
-              y += step;
-              attempts++;
-            }
+            // Interface is on left/right of node - connect at horizontal edge
+            startX = fromIface.side === 'left' ? 
+              centerStartX - interfaceBoxSize / 2 : // Left edge of interface box
+              centerStartX + interfaceBoxSize / 2;  // Right edge of interface box
+            // Add vertical offset for multiple connections from same interface
+            startY = centerStartY + getOffset(fromIfaceConnectionCount);
           }
-          usedHorizontalY.add(y);
-          return y;
-        };
-        
-        // Helper: Get the next available X coordinate for a vertical segment
-        const getAvailableVerticalX = (preferredX: number, searchDirection: 'left' | 'right' | 'both' = 'both'): number => {
-          // Round to lane spacing for alignment
-          let x = Math.round(preferredX / LANE_SPACING) * LANE_SPACING;
           
-          if (searchDirection === 'both') {
-            // Search outward from preferred position - try alternating directions
-            let offset = 0;
-            let direction = 1;
-            while (usedVerticalX.has(x) && offset < 1000) {
-              offset += LANE_SPACING;
-              direction *= -1;
-              x = Math.round(preferredX / LANE_SPACING) * LANE_SPACING + direction * Math.ceil(offset / (2 * LANE_SPACING)) * LANE_SPACING;
-            }
+          // For end interface: connect at the edge facing towards the start interface
+          if (toIface.side === 'top' || toIface.side === 'bottom') {
+            // Interface is on top/bottom of node - connect at vertical edge
+            endY = toIface.side === 'top' ? 
+              centerEndY - interfaceBoxSize / 2 : // Top edge of interface box
+              centerEndY + interfaceBoxSize / 2;  // Bottom edge of interface box
+            // Add horizontal offset for multiple connections to same interface
+            endX = centerEndX + getOffset(toIfaceConnectionCount);
           } else {
-            // Search only in specified direction to avoid going back into nodes
-            const step = searchDirection === 'left' ? -LANE_SPACING : LANE_SPACING;
+            // Interface is on left/right of node - connect at horizontal edge
+            endX = toIface.side === 'left' ? 
+              centerEndX - interfaceBoxSize / 2 : // Left edge of interface box
+              centerEndX + interfaceBoxSize / 2;  // Right edge of interface box
+            // Add vertical offset for multiple connections to same interface
+            endY = centerEndY + getOffset(toIfaceConnectionCount);
+          }
+          
+          ctx.moveTo(startX, startY);
+          // Midpoint of the route's middle segment, where the metrics label goes
+          let labelAnchor: { x: number, y: number } | null = null;
+          
+          // Determine the interface positions relative to their nodes
+          const fromIfaceSide = fromIface.side; // 'top', 'right', 'bottom', 'left'
+          const toIfaceSide = toIface.side;
+          
+          // Define exclusion zones for nodes (node box + gap to interfaces)
+          // The exclusion zone extends from node center to beyond the interface boxes
+          // Define exclusion zones for nodes - MUCH larger to account for:
+          // - Node box itself (~25px)
+          // - Interface boxes around it (up to 55px away + 12px half-width)
+          // - Extra padding to ensure lines don't get too close to interface labels
+          const nodeExclusionHalfSizeX = horizontalDistance + interfaceBoxWidth / 2 + 35; // ~102px for left/right
+          const nodeExclusionHalfSizeY = verticalDistance + interfaceBoxHeight / 2 + 35; // ~74px for top/bottom
+          
+          // Get all node positions for collision checking
+          const allNodePositions = Object.entries(positions).map(([id, pos]) => ({
+            id,
+            x: pos.x,
+            y: pos.y
+          }));
+          
+          // Helper to check if a horizontal segment at Y would pass through ANY node's exclusion zone
+          const wouldCrossAnyNodeHorizontally = (y: number, x1: number, x2: number, excludeNodeIds: string[] = []) => {
+            const minX = Math.min(x1, x2);
+            const maxX = Math.max(x1, x2);
+            return allNodePositions.some(nodePos => {
+              if (excludeNodeIds.includes(nodePos.id)) return false;
+              // Check if Y is within node's vertical exclusion zone AND segment's X range overlaps node's X zone
+              return y > nodePos.y - nodeExclusionHalfSizeY && 
+                     y < nodePos.y + nodeExclusionHalfSizeY &&
+                     maxX > nodePos.x - nodeExclusionHalfSizeX &&
+                     minX < nodePos.x + nodeExclusionHalfSizeX;
+            });
+          };
+          
+          // Helper to check if a vertical segment at X would pass through ANY node's exclusion zone
+          const wouldCrossAnyNodeVertically = (x: number, y1: number, y2: number, excludeNodeIds: string[] = []) => {
+            const minY = Math.min(y1, y2);
+            const maxY = Math.max(y1, y2);
+            return allNodePositions.some(nodePos => {
+              if (excludeNodeIds.includes(nodePos.id)) return false;
+              // Check if X is within node's horizontal exclusion zone AND segment's Y range overlaps node's Y zone
+              return x > nodePos.x - nodeExclusionHalfSizeX && 
+                     x < nodePos.x + nodeExclusionHalfSizeX &&
+                     maxY > nodePos.y - nodeExclusionHalfSizeY &&
+                     minY < nodePos.y + nodeExclusionHalfSizeY;
+            });
+          };
+          
+          // Collision avoidance step - use larger steps for faster escape from node zones
+          const COLLISION_STEP = 15;
+          
+          // Helper to find a safe horizontal Y that doesn't cross any nodes
+          const findSafeHorizontalY = (preferredY: number, x1: number, x2: number, direction: 'up' | 'down', excludeNodeIds: string[] = []): number => {
+            let y = preferredY;
             let attempts = 0;
-            while (usedVerticalX.has(x) && attempts < 250) {
-              x += step;
+            while (wouldCrossAnyNodeHorizontally(y, x1, x2, excludeNodeIds) && attempts < 200) {
+              y = direction === 'up' ? y - COLLISION_STEP : y + COLLISION_STEP;
               attempts++;
             }
-          }
-          usedVerticalX.add(x);
-          return x;
-        };
-        
-        // ============================================
-        // UNIQUE EDGE COLORING SYSTEM
-        // ============================================
-        // Generate a unique muted color for each edge using HSL
-        // This makes each path visually distinguishable while keeping them subtle
-        const generateEdgeColor = (index: number, totalEdges: number): string => {
-          // Evenly distribute hues across the color wheel
-          const hue = (index * 360 / Math.max(totalEdges, 1)) % 360;
-          // Muted: low saturation, medium lightness for dark mode, slightly different for light
-          const saturation = darkMode ? 45 : 50;
-          const lightness = darkMode ? 50 : 45;
-          return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
-        };
-        
-        // Build edge color map - assign each unique edge a color
-        const edgeColorMap = new Map<string, string>();
-        let edgeIndex = 0;
-        const directEdges = edges.filter((e: any) => e.edgeType === 'direct');
-        directEdges.forEach((edge: any) => {
-          const edgeKey = `${edge.from}-${edge.to}-${edge.interfaceA}-${edge.interfaceB}`;
-          if (!edgeColorMap.has(edgeKey)) {
-            edgeColorMap.set(edgeKey, generateEdgeColor(edgeIndex, directEdges.length));
-            edgeIndex++;
-          }
-        });
-        
-        // Determine which edges/nodes should be highlighted or dimmed
-        // Priority: highlightedPath (source-target) > clickHighlightedNode > normal
-        const clickConnectedEdges = new Set<string>();
-        const clickConnectedNodes = new Set<string>();
-        
-        if (clickHighlightedNode && !highlightedPath) {
-          // Find all edges connected to the click-highlighted node
-          directEdges.forEach((edge: any) => {
-            if (edge.from === clickHighlightedNode || edge.to === clickHighlightedNode) {
-              const edgeKey = `${edge.from}-${edge.to}-${edge.interfaceA}-${edge.interfaceB}`;
-              clickConnectedEdges.add(edgeKey);
-              clickConnectedNodes.add(edge.from);
-              clickConnectedNodes.add(edge.to);
-            }
-          });
-        }
-        
-        // Draw physical connections from interface to interface (not node to node)
-        // Deduplicate edges to avoid drawing the same connection multiple times
-        const drawnConnections = new Set<string>();
-        const interfaceConnectionCount = new Map<string, number>(); // Track connections per interface
-        
-        edges.forEach((edge: any) => {
-          if (edge.edgeType === 'direct') {
-            const ifA = edge.interfaceA || '';
-            const ifB = edge.interfaceB || '';
-            
-            if (!ifA || !ifB) return;
-            
-            const fromIfaceKey = `${edge.from}_${ifA}`;
-            const toIfaceKey = `${edge.to}_${ifB}`;
-            
-            const fromIface = interfacePositions.get(fromIfaceKey);
-            const toIface = interfacePositions.get(toIfaceKey);
-            
-            if (!fromIface || !toIface) return;
-            
-            // Create a unique bidirectional connection key using actual interface positions
-            // This ensures we only draw each physical connection once
-            const point1 = `${Math.round(fromIface.x)},${Math.round(fromIface.y)}`;
-            const point2 = `${Math.round(toIface.x)},${Math.round(toIface.y)}`;
-            const connectionKey = [point1, point2].sort().join('<->');
-            
-            // Skip if we've already drawn this connection
-            if (drawnConnections.has(connectionKey)) return;
-            drawnConnections.add(connectionKey);
-            
-            // Determine routing type based on interface sides
-            const isFromHorizontal = fromIface.side === 'left' || fromIface.side === 'right';
-            const isToHorizontal = toIface.side === 'left' || toIface.side === 'right';
-            
-            // Track connections per interface SIDE for initial spacing
-            // Use side-based keys to ensure multiple interfaces on the same side (e.g. eth0, eth2 both on Top)
-            // share the same counter and get spaced out properly to avoid overlaps.
-            const fromSideKey = `${edge.from}_${fromIface.side}`;
-            const toSideKey = `${edge.to}_${toIface.side}`;
-            
-            const fromIfaceConnectionCount = interfaceConnectionCount.get(fromSideKey) || 0;
-            const toIfaceConnectionCount = interfaceConnectionCount.get(toSideKey) || 0;
-            interfaceConnectionCount.set(fromSideKey, fromIfaceConnectionCount + 1);
-            interfaceConnectionCount.set(toSideKey, toIfaceConnectionCount + 1);
-            
-            // Get node positions for collision avoidance
-            const fromNodePos = network.getPosition(edge.from);
-            const toNodePos = network.getPosition(edge.to);
-            
-            // Add small offset at origin for connections from same interface
-            const interfaceSpacing = 6; // Increased spacing for better visibility
-            
-            // Helper to alternate offsets (0, +6, -6, +12, -12...) to keep bundle centered-ish
-            const getOffset = (idx: number) => (idx === 0 ? 0 : (idx % 2 === 0 ? -1 : 1) * Math.ceil(idx / 2) * interfaceSpacing);
-            
-            // Determine edge styling based on highlight state
-            const edgeKey = `${edge.from}-${edge.to}-${edge.interfaceA}-${edge.interfaceB}`;
-            const baseEdgeColor = edgeColorMap.get(edgeKey) || (darkMode ? '#666' : '#bbb');
-            
-            // Check if this edge is part of the highlighted path (source-target selection)
-            const isPathHighlighted = highlightedPath && highlightedPath.edges && highlightedPath.edges.includes(edge.id);
-            // Check if this edge is connected to the click-highlighted node
-            const isClickHighlighted = clickConnectedEdges.has(edgeKey);
-            // Check if we're in a highlight mode but this edge is NOT highlighted
-            const isInHighlightMode = highlightedPath || clickHighlightedNode;
-            const shouldDim = isInHighlightMode && !isPathHighlighted && !isClickHighlighted;
-            
-            // Set edge style based on state
-            let edgeColor: string;
-            let edgeWidth: number;
-            let edgeOpacity: number;
-            
-            if (isPathHighlighted) {
-              // Source-target path: bright, thick, fully visible
-              edgeColor = getComputedStyle(document.documentElement).getPropertyValue('--color-legend-highlight').trim() || '#FFD166';
-              edgeWidth = 3;
-              edgeOpacity = 1;
-            } else if (isClickHighlighted) {
-              // Click-highlighted connections: use edge's unique color but brighter/thicker
-              edgeColor = baseEdgeColor;
-              edgeWidth = 2.5;
-              edgeOpacity = 1;
-            } else if (shouldDim) {
-              // Not highlighted, in highlight mode: very dim
-              edgeColor = darkMode ? '#444' : '#ddd';
-              edgeWidth = 1;
-              edgeOpacity = 0.3;
-            } else {
-              // Normal state: unique muted color
-              edgeColor = baseEdgeColor;
-              edgeWidth = 1.5;
-              edgeOpacity = 0.6;
-            }
-            
-            // Draw orthogonal (right-angled) line connecting the two interface boxes
-            ctx.save();
-            ctx.strokeStyle = edgeColor;
-            ctx.lineWidth = edgeWidth;
-            ctx.globalAlpha = edgeOpacity;
-            ctx.setLineDash(isPathHighlighted ? [] : [5, 3]); // Solid for highlighted path, dashed for others
-            ctx.beginPath();
-            
-            // Calculate orthogonal path with right angles that avoids nodes and interfaces
-            // Start at the center of interface boxes
-            const centerStartX = fromIface.x;
-            const centerStartY = fromIface.y;
-            const centerEndX = toIface.x;
-            const centerEndY = toIface.y;
-            
-            // Constants for routing
-            const nodeSize = 40; // Half of node box size
-            const interfaceBoxSize = 15; // Full width/height of interface box
-            const interfaceOffset = 50; // Distance of interface boxes from node center
-            const clearanceFromInterface = 35; // Extra space from interface box edge (increased for better separation)
-            
-            // Calculate actual start and end points at the center of the interface box edge
-            // that faces the direction of the connection
-            let startX = centerStartX;
-            let startY = centerStartY;
-            let endX = centerEndX;
-            let endY = centerEndY;
-            
-            // Determine which edge of the interface box to connect to based on connection direction
-            // For start interface: connect at the edge facing towards the end interface
-            const startToEndDx = centerEndX - centerStartX;
-            const startToEndDy = centerEndY - centerStartY;
-            
-            // Store unmodified base Y positions for calculating horizontal corridors
-            let baseStartY = centerStartY;
-            let baseEndY = centerEndY;
-            
-            if (fromIface.side === 'top' || fromIface.side === 'bottom') {
-              // Interface is on top/bottom of node - connect at vertical edge
-              startY = fromIface.side === 'top' ? 
-                centerStartY - interfaceBoxSize / 2 : // Top edge of interface box
-                centerStartY + interfaceBoxSize / 2;  // Bottom edge of interface box
-              baseStartY = startY; // Update base for vertical interfaces
-              // Add horizontal offset for multiple connections from same interface
-              startX = centerStartX + getOffset(fromIfaceConnectionCount);
-            } else {
-              // Interface is on left/right of node - connect at horizontal edge
-              startX = fromIface.side === 'left' ? 
-                centerStartX - interfaceBoxSize / 2 : // Left edge of interface box
-                centerStartX + interfaceBoxSize / 2;  // Right edge of interface box
-              // Add vertical offset for multiple connections from same interface
-              startY = centerStartY + getOffset(fromIfaceConnectionCount);
-              // baseStartY stays as centerStartY for horizontal interfaces
+            return y;
+          };
+          
+          // Helper to find a safe vertical X that doesn't cross any nodes
+          const findSafeVerticalX = (preferredX: number, y1: number, y2: number, direction: 'left' | 'right', excludeNodeIds: string[] = []): number => {
+            let x = preferredX;
+            let attempts = 0;
+            while (wouldCrossAnyNodeVertically(x, y1, y2, excludeNodeIds) && attempts < 200) {
+              x = direction === 'left' ? x - COLLISION_STEP : x + COLLISION_STEP;
+              attempts++;
             }
+            return x;
+          };
+          
+          // Strategy: Route away from interfaces with proper clearance
+          // Apply perpendicular offset to separate overlapping parallel lines
+          
+          if (fromIfaceSide === 'top' || fromIfaceSide === 'bottom') {
+            // Start interface is vertical (top/bottom)
+            // Extend from the edge of interface box with additional clearance
+            let extendY = fromIfaceSide === 'top' ? 
+              startY - clearanceFromInterface : startY + clearanceFromInterface;
             
-            // For end interface: connect at the edge facing towards the start interface
-            if (toIface.side === 'top' || toIface.side === 'bottom') {
-              // Interface is on top/bottom of node - connect at vertical edge
-              endY = toIface.side === 'top' ? 
-                centerEndY - interfaceBoxSize / 2 : // Top edge of interface box
-                centerEndY + interfaceBoxSize / 2;  // Bottom edge of interface box
-              baseEndY = endY; // Update base for vertical interfaces
-              // Add horizontal offset for multiple connections to same interface
-              endX = centerEndX + getOffset(toIfaceConnectionCount);
+            // Apply offset based on interface connection count to separate lines starting from same interface
+            if (fromIfaceSide === 'top') {
+              extendY -= (fromIfaceConnectionCount * 10);
             } else {
-              // Interface is on left/right of node - connect at horizontal edge
-              endX = toIface.side === 'left' ? 
-                centerEndX - interfaceBoxSize / 2 : // Left edge of interface box
-                centerEndX + interfaceBoxSize / 2;  // Right edge of interface box
-              // Add vertical offset for multiple connections to same interface
-              endY = centerEndY + getOffset(toIfaceConnectionCount);
-              // baseEndY stays as centerEndY for horizontal interfaces
+              extendY += (fromIfaceConnectionCount * 10);
             }
             
-            ctx.moveTo(startX, startY);
-            
-            // Determine the interface positions relative to their nodes
-            const fromIfaceSide = fromIface.side; // 'top', 'right', 'bottom', 'left'
-            const toIfaceSide = toIface.side;
-            
-            // Calculate routing based on interface sides and node positions
-            const dx = endX - startX;
-            const dy = endY - startY;
-            
-            // Define exclusion zones for nodes (node box + gap to interfaces)
-            // The exclusion zone extends from node center to beyond the interface boxes
-            // Define exclusion zones for nodes - MUCH larger to account for:
-            // - Node box itself (~25px)
-            // - Interface boxes around it (up to 55px away + 12px half-width)
-            // - Extra padding to ensure lines don't get too close to interface labels
-            const nodeExclusionHalfSizeX = horizontalDistance + interfaceBoxWidth / 2 + 35; // ~102px for left/right
-            const nodeExclusionHalfSizeY = verticalDistance + interfaceBoxHeight / 2 + 35; // ~74px for top/bottom
-            
-            // Get all node positions for collision checking
-            const allNodePositions = Object.entries(positions).map(([id, pos]: [string, any]) => ({
-              id,
-              x: pos.x,
-              y: pos.y
-            }));
-            
-            // Helper to check if a horizontal segment at Y would pass through ANY node's exclusion zone
-            const wouldCrossAnyNodeHorizontally = (y: number, x1: number, x2: number, excludeNodeIds: string[] = []) => {
-              const minX = Math.min(x1, x2);
-              const maxX = Math.max(x1, x2);
-              return allNodePositions.some(nodePos => {
-                if (excludeNodeIds.includes(nodePos.id)) return false;
-                // Check if Y is within node's vertical exclusion zone AND segment's X range overlaps node's X zone
-                return y > nodePos.y - nodeExclusionHalfSizeY && 
-                       y < nodePos.y + nodeExclusionHalfSizeY &&
-                       maxX > nodePos.x - nodeExclusionHalfSizeX &&
-                       minX < nodePos.x + nodeExclusionHalfSizeX;
-              });
-            };
-            
-            // Helper to check if a vertical segment at X would pass through ANY node's exclusion zone
-            const wouldCrossAnyNodeVertically = (x: number, y1: number, y2: number, excludeNodeIds: string[] = []) => {
-              const minY = Math.min(y1, y2);
-              const maxY = Math.max(y1, y2);
-              return allNodePositions.some(nodePos => {
-                if (excludeNodeIds.includes(nodePos.id)) return false;
-                // Check if X is within node's horizontal exclusion zone AND segment's Y range overlaps node's Y zone
-                return x > nodePos.x - nodeExclusionHalfSizeX && 
-                       x < nodePos.x + nodeExclusionHalfSizeX &&
-                       maxY > nodePos.y - nodeExclusionHalfSizeY &&
-                       minY < nodePos.y + nodeExclusionHalfSizeY;
-              });
-            };
-            
-            // Collision avoidance step - use larger steps for faster escape from node zones
-            const COLLISION_STEP = 15;
-            
-            // Helper to find a safe horizontal Y that doesn't cross any nodes
-            const findSafeHorizontalY = (preferredY: number, x1: number, x2: number, direction: 'up' | 'down', excludeNodeIds: string[] = []): number => {
-              let y = preferredY;
-              let attempts = 0;
-              while (wouldCrossAnyNodeHorizontally(y, x1, x2, excludeNodeIds) && attempts < 200) {
-                y = direction === 'up' ? y - COLLISION_STEP : y + COLLISION_STEP;
-                attempts++;
-              }
-              return y;
-            };
-            
-            // Helper to find a safe vertical X that doesn't cross any nodes
-            const findSafeVerticalX = (preferredX: number, y1: number, y2: number, direction: 'left' | 'right', excludeNodeIds: string[] = []): number => {
-              let x = preferredX;
-              let attempts = 0;
-              while (wouldCrossAnyNodeVertically(x, y1, y2, excludeNodeIds) && attempts < 200) {
-                x = direction === 'left' ? x - COLLISION_STEP : x + COLLISION_STEP;
-                attempts++;
-              }
-              return x;
-            };
-            
-            // Strategy: Route away from interfaces with proper clearance
-            // Apply perpendicular offset to separate overlapping parallel lines
-            
-            if (fromIfaceSide === 'top' || fromIfaceSide === 'bottom') {
-              // Start interface is vertical (top/bottom)
-              // Extend from the edge of interface box with additional clearance
-              let extendY = fromIfaceSide === 'top' ? 
-                startY - clearanceFromInterface : startY + clearanceFromInterface;
+            if (toIfaceSide === 'top' || toIfaceSide === 'bottom') {
+              // Both interfaces are vertical (top/bottom)
               
-              // Apply offset based on interface connection count to separate lines starting from same interface
-              if (fromIfaceSide === 'top') {
-                extendY -= (fromIfaceConnectionCount * 10);
+              let targetExtendY = toIfaceSide === 'top' ? 
+                endY - clearanceFromInterface : endY + clearanceFromInterface;
+              
+              // Apply offset based on target interface connection count
+              if (toIfaceSide === 'top') {
+                targetExtendY -= (toIfaceConnectionCount * 10);
               } else {
-                extendY += (fromIfaceConnectionCount * 10);
+                targetExtendY += (toIfaceConnectionCount * 10);
               }
               
-              if (toIfaceSide === 'top' || toIfaceSide === 'bottom') {
-                // Both interfaces are vertical (top/bottom)
-                
-                let targetExtendY = toIfaceSide === 'top' ? 
-                  endY - clearanceFromInterface : endY + clearanceFromInterface;
-                
-                // Apply offset based on target interface connection count
-                if (toIfaceSide === 'top') {
-                  targetExtendY -= (toIfaceConnectionCount * 10);
-                } else {
-                  targetExtendY += (toIfaceConnectionCount * 10);
-                }
-                
-                // LANE-BASED ROUTING for V-to-V connections
-                const excludeNodes = [edge.from, edge.to]; // Don't check collision with source/dest nodes
-                
-                // Step 1: Determine the rough routing corridor
-                // The vertical middle segment prefers to be between the two nodes
-                let preferredMidX = (fromNodePos.x + toNodePos.x) / 2;
-                
-                // Step 2: First pass - collision avoidance with nodes
-                // For horizontal segments, test the FULL X extent they will traverse
-                const fullMinX = Math.min(startX, endX) - 50;
-                const fullMaxX = Math.max(startX, endX) + 50;
-                
-                const extendDirection: 'up' | 'down' = fromIfaceSide === 'top' ? 'up' : 'down';
-                extendY = findSafeHorizontalY(extendY, fullMinX, fullMaxX, extendDirection, excludeNodes);
-                
-                const targetDirection: 'up' | 'down' = toIfaceSide === 'top' ? 'up' : 'down';
-                targetExtendY = findSafeHorizontalY(targetExtendY, fullMinX, fullMaxX, targetDirection, excludeNodes);
-                
-                // For vertical segment, test the FULL Y extent FROM START TO END
-                // This must cover the entire vertical span the line could traverse
-                const fullMinY = Math.min(startY, endY, extendY, targetExtendY) - 50;
-                const fullMaxY = Math.max(startY, endY, extendY, targetExtendY) + 50;
-                const vertDirection: 'left' | 'right' = preferredMidX < Math.min(fromNodePos.x, toNodePos.x) ? 'left' : 'right';
-                let midX = findSafeVerticalX(preferredMidX, fullMinY, fullMaxY, vertDirection, excludeNodes);
-                
-                // Step 3: AFTER collision avoidance, get unique lanes to prevent overlap with OTHER lines
-                // CRITICAL: Search in same direction as collision avoidance to avoid going back into nodes
-                extendY = getAvailableHorizontalY(extendY, extendDirection);
-                targetExtendY = getAvailableHorizontalY(targetExtendY, targetDirection);
-                midX = getAvailableVerticalX(midX, vertDirection);
+              // LANE-BASED ROUTING for V-to-V connections
+              const excludeNodes = [edge.from, edge.to]; // Don't check collision with source/dest nodes
+              
+              // Step 1: Determine the rough routing corridor
+              // The vertical middle segment prefers to be between the two nodes
+              const preferredMidX = (fromNodePos.x + toNodePos.x) / 2;
+              
+              // Step 2: First pass - collision avoidance with nodes
+              // For horizontal segments, test the FULL X extent they will traverse
+              const fullMinX = Math.min(startX, endX) - 50;
+              const fullMaxX = Math.max(startX, endX) + 50;
+              
+              const extendDirection: 'up' | 'down' = fromIfaceSide === 'top' ? 'up' : 'down';
+              extendY = findSafeHorizontalY(extendY, fullMinX, fullMaxX, extendDirection, excludeNodes);
+              
+              const targetDirection: 'up' | 'down' = toIfaceSide === 'top' ? 'up' : 'down';
+              targetExtendY = findSafeHorizontalY(targetExtendY, fullMinX, fullMaxX, targetDirection, excludeNodes);
+              
+              // For vertical segment, test the FULL Y extent FROM START TO END
+              // This must cover the entire vertical span the line could traverse
+              const fullMinY = Math.min(startY, endY, extendY, targetExtendY) - 50;
+              const fullMaxY = Math.max(startY, endY, extendY, targetExtendY) + 50;
+              const vertDirection: 'left' | 'right' = preferredMidX < Math.min(fromNodePos.x, toNodePos.x) ? 'left' : 'right';
+              let midX = findSafeVerticalX(preferredMidX, fullMinY, fullMaxY, vertDirection, excludeNodes);
+              
+              // Step 3: AFTER collision avoidance, get unique lanes to prevent overlap with OTHER lines
+              // CRITICAL: Search in same direction as collision avoidance to avoid going back into nodes
+              extendY = getAvailableHorizontalY(extendY, extendDirection);
+              targetExtendY = getAvailableHorizontalY(targetExtendY, targetDirection);
+              midX = getAvailableVerticalX(midX, vertDirection);
+              
+              // Route: start -> extend vertically -> horizontal to gutter -> vertical in gutter -> horizontal to target -> down to target
+              ctx.lineTo(startX, extendY);
+              ctx.lineTo(midX, extendY);
+              ctx.lineTo(midX, targetExtendY);
+              ctx.lineTo(endX, targetExtendY);
+              ctx.lineTo(endX, endY);
+              labelAnchor = { x: midX, y: (extendY + targetExtendY) / 2 };
+              
+              ctx.stroke();
+              ctx.globalAlpha = 1; // Reset alpha for markers
+              
+              const markerSize = 4;
+              // Use edge color for corner markers, slightly brighter
+              ctx.strokeStyle = isPathHighlighted ? edgeColor : (isClickHighlighted ? edgeColor : (shouldDim ? (darkMode ? '#555' : '#ccc') : edgeColor));
+              ctx.lineWidth = isPathHighlighted ? 2.5 : 2;
+              ctx.setLineDash([]);
+              
+              // Draw L-bracket at corner: fromDir is vector pointing BACK to where we came from
+              // toDir is vector pointing FORWARD to where we're going
+              const drawCorner = (x: number, y: number, fromDx: number, fromDy: number, toDx: number, toDy: number) => {
+                const fromDist = Math.abs(fromDx) + Math.abs(fromDy);
+                const toDist = Math.abs(toDx) + Math.abs(toDy);
+                if (fromDist < 5 || toDist < 5) return;
+                const fromIsHorizontal = Math.abs(fromDx) > Math.abs(fromDy);
+                const toIsHorizontal = Math.abs(toDx) > Math.abs(toDy);
+                if (fromIsHorizontal === toIsHorizontal) return;
                 
-                // Route: start -> extend vertically -> horizontal to gutter -> vertical in gutter -> horizontal to target -> down to target
-                ctx.lineTo(startX, extendY);
-                ctx.lineTo(midX, extendY);
-                ctx.lineTo(midX, targetExtendY);
-                ctx.lineTo(endX, targetExtendY);
-                ctx.lineTo(endX, endY);
+                // Arms point in the direction of the vectors (back along from, forward along to)
+                const fromArmX = fromDx !== 0 ? Math.sign(fromDx) * markerSize : 0;
+                const fromArmY = fromDy !== 0 ? Math.sign(fromDy) * markerSize : 0;
+                const toArmX = toDx !== 0 ? Math.sign(toDx) * markerSize : 0;
+                const toArmY = toDy !== 0 ? Math.sign(toDy) * markerSize : 0;
                 
+                ctx.beginPath();
+                ctx.moveTo(x + fromArmX, y + fromArmY);
+                ctx.lineTo(x, y);
+                ctx.lineTo(x + toArmX, y + toArmY);
                 ctx.stroke();
-                ctx.globalAlpha = 1; // Reset alpha for markers
-                
-                const markerSize = 4;
-                // Use edge color for corner markers, slightly brighter
-                ctx.strokeStyle = isPathHighlighted ? edgeColor : (isClickHighlighted ? edgeColor : (shouldDim ? (darkMode ? '#555' : '#ccc') : edgeColor));
-                ctx.lineWidth = isPathHighlighted ? 2.5 : 2;
-                ctx.setLineDash([]);
-                
-                // Draw L-bracket at corner: fromDir is vector pointing BACK to where we came from
-                // toDir is vector pointing FORWARD to where we're going
-                const drawCorner = (x: number, y: number, fromDx: number, fromDy: number, toDx: number, toDy: number) => {
-                  const fromDist = Math.abs(fromDx) + Math.abs(fromDy);
-                  const toDist = Math.abs(toDx) + Math.abs(toDy);
-                  if (fromDist < 5 || toDist < 5) return;
-                  const fromIsHorizontal = Math.abs(fromDx) > Math.abs(fromDy);
-                  const toIsHorizontal = Math.abs(toDx) > Math.abs(toDy);
-                  if (fromIsHorizontal === toIsHorizontal) return;
-                  
-                  // Arms point in the direction of the vectors (back along from, forward along to)
-                  const fromArmX = fromDx !== 0 ? Math.sign(fromDx) * markerSize : 0;
-                  const fromArmY = fromDy !== 0 ? Math.sign(fromDy) * markerSize : 0;
-                  const toArmX = toDx !== 0 ? Math.sign(toDx) * markerSize : 0;
-                  const toArmY = toDy !== 0 ? Math.sign(toDy) * markerSize : 0;
-                  
-                  ctx.beginPath();
-                  ctx.moveTo(x + fromArmX, y + fromArmY);
-                  ctx.lineTo(x, y);
-                  ctx.lineTo(x + toArmX, y + toArmY);
-                  ctx.stroke();
-                };
-                
-                drawCorner(startX, extendY, 0, startY - extendY, midX - startX, 0);
-                drawCorner(midX, extendY, startX - midX, 0, 0, targetExtendY - extendY);
-                drawCorner(midX, targetExtendY, 0, extendY - targetExtendY, endX - midX, 0);
-                drawCorner(endX, targetExtendY, midX - endX, 0, 0, endY - targetExtendY);
+              };
+              
+              drawCorner(startX, extendY, 0, startY - extendY, midX - startX, 0);
+              drawCorner(midX, extendY, startX - midX, 0, 0, targetExtendY - extendY);
+              drawCorner(midX, targetExtendY, 0, extendY - targetExtendY, endX - midX, 0);
+              drawCorner(endX, targetExtendY, midX - endX, 0, 0, endY - targetExtendY);
+            } else {
+              // End interface is horizontal (left/right)
+              // Route with right angles only: vertical -> horizontal -> vertical -> horizontal
+              
+              let targetExtendX = toIfaceSide === 'left' ? 
+                endX - clearanceFromInterface : endX + clearanceFromInterface;
+
+              // Apply offset based on target interface connection count
+              if (toIfaceSide === 'left') {
+                targetExtendX -= (toIfaceConnectionCount * 10);
               } else {
-                // End interface is horizontal (left/right)
-                // Route with right angles only: vertical -> horizontal -> vertical -> horizontal
-                
-                let targetExtendX = toIfaceSide === 'left' ? 
-                  endX - clearanceFromInterface : endX + clearanceFromInterface;
+                targetExtendX += (toIfaceConnectionCount * 10);
+              }
 
-                // Apply offset based on target interface connection count
-                if (toIfaceSide === 'left') {
-                  targetExtendX -= (toIfaceConnectionCount * 10);
-                } else {
-                  targetExtendX += (toIfaceConnectionCount * 10);
-                }
+              // LANE-BASED ROUTING for V-to-H connections
+              const excludeNodes = [edge.from, edge.to];
+              
+              // Step 1: Collision avoidance FIRST
+              // Test full extent of horizontal segment - FROM START TO END
+              const fullMinX = Math.min(startX, endX, targetExtendX) - 50;
+              const fullMaxX = Math.max(startX, endX, targetExtendX) + 50;
+              const extendDirection: 'up' | 'down' = fromIfaceSide === 'top' ? 'up' : 'down';
+              extendY = findSafeHorizontalY(extendY, fullMinX, fullMaxX, extendDirection, excludeNodes);
+              
+              // Test full extent of vertical segment - FROM START TO END
+              const fullMinY = Math.min(startY, endY, extendY) - 50;
+              const fullMaxY = Math.max(startY, endY, extendY) + 50;
+              const targetDirection: 'left' | 'right' = toIfaceSide === 'left' ? 'left' : 'right';
+              targetExtendX = findSafeVerticalX(targetExtendX, fullMinY, fullMaxY, targetDirection, excludeNodes);
 
-                // LANE-BASED ROUTING for V-to-H connections
-                const excludeNodes = [edge.from, edge.to];
-                
-                // Step 1: Collision avoidance FIRST
-                // Test full extent of horizontal segment - FROM START TO END
-                const fullMinX = Math.min(startX, endX, targetExtendX) - 50;
-                const fullMaxX = Math.max(startX, endX, targetExtendX) + 50;
-                const extendDirection: 'up' | 'down' = fromIfaceSide === 'top' ? 'up' : 'down';
-                extendY = findSafeHorizontalY(extendY, fullMinX, fullMaxX, extendDirection, excludeNodes);
+              // Step 2: Get unique lanes AFTER collision avoidance
+              // CRITICAL: Search in same direction as collision avoidance to avoid going back into nodes
+              extendY = getAvailableHorizontalY(extendY, extendDirection);
+              targetExtendX = getAvailableVerticalX(targetExtendX, targetDirection);
+
+              ctx.lineTo(startX, extendY);         // Vertical: extend away from start interface
+              ctx.lineTo(targetExtendX, extendY);  // Horizontal: to target clearance x
+              ctx.lineTo(targetExtendX, endY);     // Vertical: to target y
+              ctx.lineTo(endX, endY);              // Horizontal: to interface edge
+              labelAnchor = { x: (startX + targetExtendX) / 2, y: extendY };
+              
+              ctx.stroke();
+              
+              // Draw L-bracket corner markers only at actual 90-degree turns
+              const markerSize = 4;
+              ctx.strokeStyle = darkMode ? '#888' : '#999';
+              ctx.lineWidth = 2;
+              ctx.setLineDash([]);
+              
+              // Draw L-bracket at corner
+              const drawCorner = (x: number, y: number, fromDx: number, fromDy: number, toDx: number, toDy: number) => {
+                const fromDist = Math.abs(fromDx) + Math.abs(fromDy);
+                const toDist = Math.abs(toDx) + Math.abs(toDy);
+                if (fromDist < 5 || toDist < 5) return;
+                const fromIsHorizontal = Math.abs(fromDx) > Math.abs(fromDy);
+                const toIsHorizontal = Math.abs(toDx) > Math.abs(toDy);
+                if (fromIsHorizontal === toIsHorizontal) return;
                 
-                // Test full extent of vertical segment - FROM START TO END
-                const fullMinY = Math.min(startY, endY, extendY) - 50;
-                const fullMaxY = Math.max(startY, endY, extendY) + 50;
-                const targetDirection: 'left' | 'right' = toIfaceSide === 'left' ? 'left' : 'right';
-                targetExtendX = findSafeVerticalX(targetExtendX, fullMinY, fullMaxY, targetDirection, excludeNodes);
-
-                // Step 2: Get unique lanes AFTER collision avoidance
-                // CRITICAL: Search in same direction as collision avoidance to avoid going back into nodes
-                extendY = getAvailableHorizontalY(extendY, extendDirection);
-                targetExtendX = getAvailableVerticalX(targetExtendX, targetDirection);
-
-                ctx.lineTo(startX, extendY);         // Vertical: extend away from start interface
-                ctx.lineTo(targetExtendX, extendY);  // Horizontal: to target clearance x
-                ctx.lineTo(targetExtendX, endY);     // Vertical: to target y
-                ctx.lineTo(endX, endY);              // Horizontal: to interface edge
+                const fromArmX = fromDx !== 0 ? Math.sign(fromDx) * markerSize : 0;
+                const fromArmY = fromDy !== 0 ? Math.sign(fromDy) * markerSize : 0;
+                const toArmX = toDx !== 0 ? Math.sign(toDx) * markerSize : 0;
+                const toArmY = toDy !== 0 ? Math.sign(toDy) * markerSize : 0;
                 
+                ctx.beginPath();
+                ctx.moveTo(x + fromArmX, y + fromArmY);
+                ctx.lineTo(x, y);
+                ctx.lineTo(x + toArmX, y + toArmY);
                 ctx.stroke();
-                
-                // Draw L-bracket corner markers only at actual 90-degree turns
-                const markerSize = 4;
-                ctx.strokeStyle = darkMode ? '#888' : '#999';
-                ctx.lineWidth = 2;
-                ctx.setLineDash([]);
-                
-                // Draw L-bracket at corner
-                const drawCorner = (x: number, y: number, fromDx: number, fromDy: number, toDx: number, toDy: number) => {
-                  const fromDist = Math.abs(fromDx) + Math.abs(fromDy);
-                  const toDist = Math.abs(toDx) + Math.abs(toDy);
-                  if (fromDist < 5 || toDist < 5) return;
-                  const fromIsHorizontal = Math.abs(fromDx) > Math.abs(fromDy);
-                  const toIsHorizontal = Math.abs(toDx) > Math.abs(toDy);
-                  if (fromIsHorizontal === toIsHorizontal) return;
-                  
-                  const fromArmX = fromDx !== 0 ? Math.sign(fromDx) * markerSize : 0;
-                  const fromArmY = fromDy !== 0 ? Math.sign(fromDy) * markerSize : 0;
-                  const toArmX = toDx !== 0 ? Math.sign(toDx) * markerSize : 0;
-                  const toArmY = toDy !== 0 ? Math.sign(toDy) * markerSize : 0;
-                  
-                  ctx.beginPath();
-                  ctx.moveTo(x + fromArmX, y + fromArmY);
-                  ctx.lineTo(x, y);
-                  ctx.lineTo(x + toArmX, y + toArmY);
-                  ctx.stroke();
-                };
-                
-                // Corner 1: (startX, extendY) - vertical to horizontal
-                drawCorner(startX, extendY, 0, startY - extendY, targetExtendX - startX, 0);
-                // Corner 2: (targetExtendX, extendY) - horizontal to vertical
-                drawCorner(targetExtendX, extendY, startX - targetExtendX, 0, 0, endY - extendY);
-                // Corner 3: (targetExtendX, endY) - vertical to horizontal
-                drawCorner(targetExtendX, endY, 0, extendY - endY, endX - targetExtendX, 0);
-              }
+              };
+              
+              // Corner 1: (startX, extendY) - vertical to horizontal
+              drawCorner(startX, extendY, 0, startY - extendY, targetExtendX - startX, 0);
+              // Corner 2: (targetExtendX, extendY) - horizontal to vertical
+              drawCorner(targetExtendX, extendY, startX - targetExtendX, 0, 0, endY - extendY);
+              // Corner 3: (targetExtendX, endY) - vertical to horizontal
+              drawCorner(targetExtendX, endY, 0, extendY - endY, endX - targetExtendX, 0);
+            }
+          } else {
+            // Start interface is horizontal (left/right)
+            // Extend from the edge of interface box with additional clearance
+            let extendX = fromIfaceSide === 'left' ? 
+              startX - clearanceFromInterface : startX + clearanceFromInterface;
+            
+            // Apply offset based on interface connection count
+            if (fromIfaceSide === 'left') {
+              extendX -= (fromIfaceConnectionCount * 10);
             } else {
-              // Start interface is horizontal (left/right)
-              // Extend from the edge of interface box with additional clearance
-              let extendX = fromIfaceSide === 'left' ? 
-                startX - clearanceFromInterface : startX + clearanceFromInterface;
+              extendX += (fromIfaceConnectionCount * 10);
+            }
+            
+            if (toIfaceSide === 'left' || toIfaceSide === 'right') {
+              // Both interfaces are horizontal (left/right)
               
-              // Apply offset based on interface connection count
-              if (fromIfaceSide === 'left') {
-                extendX -= (fromIfaceConnectionCount * 10);
+              let targetExtendX = toIfaceSide === 'left' ? 
+                endX - clearanceFromInterface : endX + clearanceFromInterface;
+              
+              // Apply offset based on target interface connection count
+              if (toIfaceSide === 'left') {
+                targetExtendX -= (toIfaceConnectionCount * 10);
               } else {
-                extendX += (fromIfaceConnectionCount * 10);
+                targetExtendX += (toIfaceConnectionCount * 10);
               }
               
-              if (toIfaceSide === 'left' || toIfaceSide === 'right') {
-                // Both interfaces are horizontal (left/right)
-                
-                let targetExtendX = toIfaceSide === 'left' ? 
-                  endX - clearanceFromInterface : endX + clearanceFromInterface;
-                
-                // Apply offset based on target interface connection count
-                if (toIfaceSide === 'left') {
-                  targetExtendX -= (toIfaceConnectionCount * 10);
+              // LANE-BASED ROUTING for H-to-H connections
+              const excludeNodes = [edge.from, edge.to]; // Don't check collision with source/dest nodes
+              
+              // Step 1: Determine the rough routing corridor
+              let preferredMidY = (fromNodePos.y + toNodePos.y) / 2;
+              
+              // CRITICAL: For same-side connections (both left or both right),
+              // the horizontal segment must go OUTSIDE the nodes, not between them
+              if (fromIfaceSide === toIfaceSide) {
+                // Both on same side - route above or below all nodes in the path
+                const minNodeY = Math.min(fromNodePos.y, toNodePos.y);
+                const maxNodeY = Math.max(fromNodePos.y, toNodePos.y);
+                // Choose to go above (smaller Y) or below (larger Y) based on which is closer
+                const distToTop = Math.abs(preferredMidY - (minNodeY - 150));
+                const distToBottom = Math.abs(preferredMidY - (maxNodeY + 150));
+                if (distToTop <= distToBottom) {
+                  preferredMidY = minNodeY - 100; // Route above
                 } else {
-                  targetExtendX += (toIfaceConnectionCount * 10);
-                }
-                
-                // LANE-BASED ROUTING for H-to-H connections
-                const excludeNodes = [edge.from, edge.to]; // Don't check collision with source/dest nodes
-                
-                // Step 1: Determine the rough routing corridor
-                let preferredMidY = (fromNodePos.y + toNodePos.y) / 2;
-                
-                // CRITICAL: For same-side connections (both left or both right),
-                // the horizontal segment must go OUTSIDE the nodes, not between them
-                if (fromIfaceSide === toIfaceSide) {
-                  // Both on same side - route above or below all nodes in the path
-                  const minNodeY = Math.min(fromNodePos.y, toNodePos.y);
-                  const maxNodeY = Math.max(fromNodePos.y, toNodePos.y);
-                  // Choose to go above (smaller Y) or below (larger Y) based on which is closer
-                  const distToTop = Math.abs(preferredMidY - (minNodeY - 150));
-                  const distToBottom = Math.abs(preferredMidY - (maxNodeY + 150));
-                  if (distToTop <= distToBottom) {
-                    preferredMidY = minNodeY - 100; // Route above
-                  } else {
-                    preferredMidY = maxNodeY + 100; // Route below
-                  }
+                  preferredMidY = maxNodeY + 100; // Route below
                 }
+              }
+              
+              // Step 2: First pass - collision avoidance with nodes
+              // For vertical segments, test the FULL Y extent FROM START TO END
+              const fullMinY = Math.min(startY, endY) - 50;
+              const fullMaxY = Math.max(startY, endY) + 50;
+              
+              const extendDirection: 'left' | 'right' = fromIfaceSide === 'left' ? 'left' : 'right';
+              extendX = findSafeVerticalX(extendX, fullMinY, fullMaxY, extendDirection, excludeNodes);
+              
+              const targetDirection: 'left' | 'right' = toIfaceSide === 'left' ? 'left' : 'right';
+              targetExtendX = findSafeVerticalX(targetExtendX, fullMinY, fullMaxY, targetDirection, excludeNodes);
+              
+              // For horizontal segment, test the FULL X extent FROM START TO END
+              const fullMinX = Math.min(startX, endX, extendX, targetExtendX) - 50;
+              const fullMaxX = Math.max(startX, endX, extendX, targetExtendX) + 50;
+              const horizDirection: 'up' | 'down' = preferredMidY < Math.min(fromNodePos.y, toNodePos.y) ? 'up' : 'down';
+              let midY = findSafeHorizontalY(preferredMidY, fullMinX, fullMaxX, horizDirection, excludeNodes);
+              
+              // Step 3: AFTER collision avoidance, get unique lanes to prevent overlap with OTHER lines
+              // CRITICAL: Search in same direction as collision avoidance to avoid going back into nodes
+              extendX = getAvailableVerticalX(extendX, extendDirection);
+              targetExtendX = getAvailableVerticalX(targetExtendX, targetDirection);
+              midY = getAvailableHorizontalY(midY, horizDirection);
+              
+              // Route: start -> extend horizontally -> vertical to gutter -> horizontal in gutter -> vertical to target -> right to target
+              ctx.lineTo(extendX, startY);
+              ctx.lineTo(extendX, midY);
+              ctx.lineTo(targetExtendX, midY);
+              ctx.lineTo(targetExtendX, endY);
+              ctx.lineTo(endX, endY);
+              labelAnchor = { x: (extendX + targetExtendX) / 2, y: midY };
+              
+              ctx.stroke();
+              ctx.globalAlpha = 1; // Reset alpha for markers
+              
+              const markerSize = 4;
+              ctx.strokeStyle = isPathHighlighted ? edgeColor : (isClickHighlighted ? edgeColor : (shouldDim ? (darkMode ? '#555' : '#ccc') : edgeColor));
+              ctx.lineWidth = isPathHighlighted ? 2.5 : 2;
+              ctx.setLineDash([]);
+              
+              // Draw L-bracket at corner
+              const drawCorner = (x: number, y: number, fromDx: number, fromDy: number, toDx: number, toDy: number) => {
+                const fromDist = Math.abs(fromDx) + Math.abs(fromDy);
+                const toDist = Math.abs(toDx) + Math.abs(toDy);
+                if (fromDist < 5 || toDist < 5) return;
+                const fromIsHorizontal = Math.abs(fromDx) > Math.abs(fromDy);
+                const toIsHorizontal = Math.abs(toDx) > Math.abs(toDy);
+                if (fromIsHorizontal === toIsHorizontal) return;
                 
-                // Step 2: First pass - collision avoidance with nodes
-                // For vertical segments, test the FULL Y extent FROM START TO END
-                const fullMinY = Math.min(startY, endY) - 50;
-                const fullMaxY = Math.max(startY, endY) + 50;
-                
-                const extendDirection: 'left' | 'right' = fromIfaceSide === 'left' ? 'left' : 'right';
-                extendX = findSafeVerticalX(extendX, fullMinY, fullMaxY, extendDirection, excludeNodes);
-                
-                const targetDirection: 'left' | 'right' = toIfaceSide === 'left' ? 'left' : 'right';
-                targetExtendX = findSafeVerticalX(targetExtendX, fullMinY, fullMaxY, targetDirection, excludeNodes);
-                
-                // For horizontal segment, test the FULL X extent FROM START TO END
-                const fullMinX = Math.min(startX, endX, extendX, targetExtendX) - 50;
-                const fullMaxX = Math.max(startX, endX, extendX, targetExtendX) + 50;
-                const horizDirection: 'up' | 'down' = preferredMidY < Math.min(fromNodePos.y, toNodePos.y) ? 'up' : 'down';
-                let midY = findSafeHorizontalY(preferredMidY, fullMinX, fullMaxX, horizDirection, excludeNodes);
-                
-                // Step 3: AFTER collision avoidance, get unique lanes to prevent overlap with OTHER lines
-                // CRITICAL: Search in same direction as collision avoidance to avoid going back into nodes
-                extendX = getAvailableVerticalX(extendX, extendDirection);
-                targetExtendX = getAvailableVerticalX(targetExtendX, targetDirection);
-                midY = getAvailableHorizontalY(midY, horizDirection);
-                
-                // Route: start -> extend horizontally -> vertical to gutter -> horizontal in gutter -> vertical to target -> right to target
-                ctx.lineTo(extendX, startY);
-                ctx.lineTo(extendX, midY);
-                ctx.lineTo(targetExtendX, midY);
-                ctx.lineTo(targetExtendX, endY);
-                ctx.lineTo(endX, endY);
+                const fromArmX = fromDx !== 0 ? Math.sign(fromDx) * markerSize : 0;
+                const fromArmY = fromDy !== 0 ? Math.sign(fromDy) * markerSize : 0;
+                const toArmX = toDx !== 0 ? Math.sign(toDx) * markerSize : 0;
+                const toArmY = toDy !== 0 ? Math.sign(toDy) * markerSize : 0;
                 
+                ctx.beginPath();
+                ctx.moveTo(x + fromArmX, y + fromArmY);
+                ctx.lineTo(x, y);
+                ctx.lineTo(x + toArmX, y + toArmY);
                 ctx.stroke();
-                ctx.globalAlpha = 1; // Reset alpha for markers
-                
-                const markerSize = 4;
-                ctx.strokeStyle = isPathHighlighted ? edgeColor : (isClickHighlighted ? edgeColor : (shouldDim ? (darkMode ? '#555' : '#ccc') : edgeColor));
-                ctx.lineWidth = isPathHighlighted ? 2.5 : 2;
-                ctx.setLineDash([]);
-                
-                // Draw L-bracket at corner
-                const drawCorner = (x: number, y: number, fromDx: number, fromDy: number, toDx: number, toDy: number) => {
-                  const fromDist = Math.abs(fromDx) + Math.abs(fromDy);
-                  const toDist = Math.abs(toDx) + Math.abs(toDy);
-                  if (fromDist < 5 || toDist < 5) return;
-                  const fromIsHorizontal = Math.abs(fromDx) > Math.abs(fromDy);
-                  const toIsHorizontal = Math.abs(toDx) > Math.abs(toDy);
-                  if (fromIsHorizontal === toIsHorizontal) return;
-                  
-                  const fromArmX = fromDx !== 0 ? Math.sign(fromDx) * markerSize : 0;
-                  const fromArmY = fromDy !== 0 ? Math.sign(fromDy) * markerSize : 0;
-                  const toArmX = toDx !== 0 ? Math.sign(toDx) * markerSize : 0;
-                  const toArmY = toDy !== 0 ? Math.sign(toDy) * markerSize : 0;
-                  
-                  ctx.beginPath();
-                  ctx.moveTo(x + fromArmX, y + fromArmY);
-                  ctx.lineTo(x, y);
-                  ctx.lineTo(x + toArmX, y + toArmY);
-                  ctx.stroke();
-                };
-                
-                drawCorner(extendX, startY, startX - extendX, 0, 0, midY - startY);
-                drawCorner(extendX, midY, 0, startY - midY, targetExtendX - extendX, 0);
-                drawCorner(targetExtendX, midY, extendX - targetExtendX, 0, 0, endY - midY);
-                drawCorner(targetExtendX, endY, 0, midY - endY, endX - targetExtendX, 0);
+              };
+              
+              drawCorner(extendX, startY, startX - extendX, 0, 0, midY - startY);
+              drawCorner(extendX, midY, 0, startY - midY, targetExtendX - extendX, 0);
+              drawCorner(targetExtendX, midY, extendX - targetExtendX, 0, 0, endY - midY);
+              drawCorner(targetExtendX, endY, 0, midY - endY, endX - targetExtendX, 0);
+            } else {
+              // End interface is vertical (top/bottom)
+              // Route with right angles only: horizontal -> vertical -> horizontal -> vertical
+              
+              let targetExtendY = toIfaceSide === 'top' ? 
+                endY - clearanceFromInterface : endY + clearanceFromInterface;
+
+              // Apply offset based on target interface connection count
+              if (toIfaceSide === 'top') {
+                targetExtendY -= (toIfaceConnectionCount * 10);
               } else {
-                // End interface is vertical (top/bottom)
-                // Route with right angles only: horizontal -> vertical -> horizontal -> vertical
-                
-                let targetExtendY = toIfaceSide === 'top' ? 
-                  endY - clearanceFromInterface : endY + clearanceFromInterface;
+                targetExtendY += (toIfaceConnectionCount * 10);
+              }
 
-                // Apply offset based on target interface connection count
-                if (toIfaceSide === 'top') {
-                  targetExtendY -= (toIfaceConnectionCount * 10);
-                } else {
-                  targetExtendY += (toIfaceConnectionCount * 10);
-                }
+              // LANE-BASED ROUTING for H-to-V connections
+              const excludeNodes = [edge.from, edge.to];
+              
+              // Step 1: Collision avoidance FIRST
+              // Test full extent of vertical segment - FROM START TO END
+              const fullMinY = Math.min(startY, endY, targetExtendY) - 50;
+              const fullMaxY = Math.max(startY, endY, targetExtendY) + 50;
+              const extendDirection: 'left' | 'right' = fromIfaceSide === 'left' ? 'left' : 'right';
+              extendX = findSafeVerticalX(extendX, fullMinY, fullMaxY, extendDirection, excludeNodes);
+              
+              // Test full extent of horizontal segment - FROM START TO END
+              const fullMinX = Math.min(startX, endX, extendX) - 50;
+              const fullMaxX = Math.max(startX, endX, extendX) + 50;
+              const targetDirection: 'up' | 'down' = toIfaceSide === 'top' ? 'up' : 'down';
+              targetExtendY = findSafeHorizontalY(targetExtendY, fullMinX, fullMaxX, targetDirection, excludeNodes);
 
-                // LANE-BASED ROUTING for H-to-V connections
-                const excludeNodes = [edge.from, edge.to];
-                
-                // Step 1: Collision avoidance FIRST
-                // Test full extent of vertical segment - FROM START TO END
-                const fullMinY = Math.min(startY, endY, targetExtendY) - 50;
-                const fullMaxY = Math.max(startY, endY, targetExtendY) + 50;
-                const extendDirection: 'left' | 'right' = fromIfaceSide === 'left' ? 'left' : 'right';
-                extendX = findSafeVerticalX(extendX, fullMinY, fullMaxY, extendDirection, excludeNodes);
+              // Step 2: Get unique lanes AFTER collision avoidance
+              // CRITICAL: Search in same direction as collision avoidance to avoid going back into nodes
+              extendX = getAvailableVerticalX(extendX, extendDirection);
+              targetExtendY = getAvailableHorizontalY(targetExtendY, targetDirection);
+
+              ctx.lineTo(extendX, startY);         // Horizontal: extend away from start interface
+              ctx.lineTo(extendX, targetExtendY);  // Vertical: to target clearance y
+              ctx.lineTo(endX, targetExtendY);     // Horizontal: to target x
+              ctx.lineTo(endX, endY);              // Vertical: to interface edge
+              labelAnchor = { x: (extendX + endX) / 2, y: targetExtendY };
+              
+              ctx.stroke();
+              ctx.globalAlpha = 1; // Reset alpha for markers
+              
+              // Draw L-bracket corner markers only at actual 90-degree turns
+              const markerSize = 4;
+              ctx.strokeStyle = isPathHighlighted ? edgeColor : (isClickHighlighted ? edgeColor : (shouldDim ? (darkMode ? '#555' : '#ccc') : edgeColor));
+              ctx.lineWidth = isPathHighlighted ? 2.5 : 2;
+              ctx.setLineDash([]);
+              
+              // Draw L-bracket at corner
+              const drawCorner = (x: number, y: number, fromDx: number, fromDy: number, toDx: number, toDy: number) => {
+                const fromDist = Math.abs(fromDx) + Math.abs(fromDy);
+                const toDist = Math.abs(toDx) + Math.abs(toDy);
+                if (fromDist < 5 || toDist < 5) return;
+                const fromIsHorizontal = Math.abs(fromDx) > Math.abs(fromDy);
+                const toIsHorizontal = Math.abs(toDx) > Math.abs(toDy);
+                if (fromIsHorizontal === toIsHorizontal) return;
                 
-                // Test full extent of horizontal segment - FROM START TO END
-                const fullMinX = Math.min(startX, endX, extendX) - 50;
-                const fullMaxX = Math.max(startX, endX, extendX) + 50;
-                const targetDirection: 'up' | 'down' = toIfaceSide === 'top' ? 'up' : 'down';
-                targetExtendY = findSafeHorizontalY(targetExtendY, fullMinX, fullMaxX, targetDirection, excludeNodes);
-
-                // Step 2: Get unique lanes AFTER collision avoidance
-                // CRITICAL: Search in same direction as collision avoidance to avoid going back into nodes
-                extendX = getAvailableVerticalX(extendX, extendDirection);
-                targetExtendY = getAvailableHorizontalY(targetExtendY, targetDirection);
-
-                ctx.lineTo(extendX, startY);         // Horizontal: extend away from start interface
-                ctx.lineTo(extendX, targetExtendY);  // Vertical: to target clearance y
-                ctx.lineTo(endX, targetExtendY);     // Horizontal: to target x
-                ctx.lineTo(endX, endY);              // Vertical: to interface edge
+                const fromArmX = fromDx !== 0 ? Math.sign(fromDx) * markerSize : 0;
+                const fromArmY = fromDy !== 0 ? Math.sign(fromDy) * markerSize : 0;
+                const toArmX = toDx !== 0 ? Math.sign(toDx) * markerSize : 0;
+                const toArmY = toDy !== 0 ? Math.sign(toDy) * markerSize : 0;
                 
+                ctx.beginPath();
+                ctx.moveTo(x + fromArmX, y + fromArmY);
+                ctx.lineTo(x, y);
+                ctx.lineTo(x + toArmX, y + toArmY);
                 ctx.stroke();
-                ctx.globalAlpha = 1; // Reset alpha for markers
-                
-                // Draw L-bracket corner markers only at actual 90-degree turns
-                const markerSize = 4;
-                ctx.strokeStyle = isPathHighlighted ? edgeColor : (isClickHighlighted ? edgeColor : (shouldDim ? (darkMode ? '#555' : '#ccc') : edgeColor));
-                ctx.lineWidth = isPathHighlighted ? 2.5 : 2;
-                ctx.setLineDash([]);
-                
-                // Draw L-bracket at corner
-                const drawCorner = (x: number, y: number, fromDx: number, fromDy: number, toDx: number, toDy: number) => {
-                  const fromDist = Math.abs(fromDx) + Math.abs(fromDy);
-                  const toDist = Math.abs(toDx) + Math.abs(toDy);
-                  if (fromDist < 5 || toDist < 5) return;
-                  const fromIsHorizontal = Math.abs(fromDx) > Math.abs(fromDy);
-                  const toIsHorizontal = Math.abs(toDx) > Math.abs(toDy);
-                  if (fromIsHorizontal === toIsHorizontal) return;
-                  
-                  const fromArmX = fromDx !== 0 ? Math.sign(fromDx) * markerSize : 0;
-                  const fromArmY = fromDy !== 0 ? Math.sign(fromDy) * markerSize : 0;
-                  const toArmX = toDx !== 0 ? Math.sign(toDx) * markerSize : 0;
-                  const toArmY = toDy !== 0 ? Math.sign(toDy) * markerSize : 0;
-                  
-                  ctx.beginPath();
-                  ctx.moveTo(x + fromArmX, y + fromArmY);
-                  ctx.lineTo(x, y);
-                  ctx.lineTo(x + toArmX, y + toArmY);
-                  ctx.stroke();
-                };
-                
-                // Corner 1: (extendX, startY) - horizontal to vertical turn
-                drawCorner(extendX, startY, startX - extendX, 0, 0, targetExtendY - startY);
-                // Corner 2: (extendX, targetExtendY) - vertical to horizontal turn
-                drawCorner(extendX, targetExtendY, 0, startY - targetExtendY, endX - extendX, 0);
-                // Corner 3: (endX, targetExtendY) - horizontal to vertical turn
-                drawCorner(endX, targetExtendY, extendX - endX, 0, 0, endY - targetExtendY);
-              }
+              };
+              
+              // Corner 1: (extendX, startY) - horizontal to vertical turn
+              drawCorner(extendX, startY, startX - extendX, 0, 0, targetExtendY - startY);
+              // Corner 2: (extendX, targetExtendY) - vertical to horizontal turn
+              drawCorner(extendX, targetExtendY, 0, startY - targetExtendY, endX - extendX, 0);
+              // Corner 3: (endX, targetExtendY) - horizontal to vertical turn
+              drawCorner(endX, targetExtendY, extendX - endX, 0, 0, endY - targetExtendY);
             }
-            
-            ctx.setLineDash([]); // Reset line dash
-            ctx.restore();
           }
-        });
+          
+          ctx.setLineDash([]); // Reset line dash
+          ctx.restore();
+
+          const linkLabel = linkLabels?.[edge.id];
+          if (linkLabel && labelAnchor) {
+            pendingLinkLabels.push({ ...labelAnchor, text: linkLabel, color: edgeColor, dimmed: !!shouldDim });
+          }
+        }
+      });
+
+      // Link metrics labels go on top of every line so crossing links cannot hide them
+      pendingLinkLabels.forEach((label) => {
+        ctx.save();
+        ctx.globalAlpha = label.dimmed ? 0.35 : 1;
+        ctx.font = '10px Arial';
+        const labelWidth = ctx.measureText(label.text).width + 8;
+        ctx.fillStyle = darkMode ? '#0f172a' : '#ffffff';
+        ctx.strokeStyle = label.color;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.roundRect(label.x - labelWidth / 2, label.y - 7, labelWidth, 14, 4);
+        ctx.fill();
+        ctx.stroke();
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = darkMode ? '#e2e8f0' : '#1f2937';
+        ctx.fillText(label.text, label.x, label.y);
+        ctx.restore();
+      });
+
+      // Aggregated links of collapsed groups: one dashed line per pair of endpoints, labelled with the link count
+      drawnEdges.filter((edge) => edge.edgeType === 'group').forEach((edge) => {
+        const from = (edge.interfaceA && interfacePositions.get(`${edge.from}_${edge.interfaceA}`)) || positions[edge.from];
+        const to = (edge.interfaceB && interfacePositions.get(`${edge.to}_${edge.interfaceB}`)) || positions[edge.to];
+        if (!from || !to) return;
+        const dimmed = !!highlightedPath && !(highlightedPath.nodes.includes(edge.from) && highlightedPath.nodes.includes(edge.to));
+
+        ctx.save();
+        ctx.globalAlpha = dimmed ? 0.3 : 0.9;
+        ctx.strokeStyle = darkMode ? '#94a3b8' : '#64748b';
+        ctx.lineWidth = 3;
+        ctx.setLineDash([10, 6]);
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+
+        const text = `×${edge.count}`;
+        ctx.setLineDash([]);
+        ctx.font = 'bold 11px Arial';
+        const badgeWidth = ctx.measureText(text).width + 10;
+        const midX = (from.x + to.x) / 2;
+        const midY = (from.y + to.y) / 2;
+        ctx.fillStyle = darkMode ? '#1e293b' : '#ffffff';
+        ctx.beginPath();
+        ctx.roundRect(midX - badgeWidth / 2, midY - 9, badgeWidth, 18, 9);
+        ctx.fill();
+        ctx.stroke();
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = darkMode ? '#e2e8f0' : '#1f2937';
+        ctx.fillText(text, midX, midY);
+        ctx.restore();
       });
 
-      network.on("hoverNode", (event) => {
-        const nodeId = event.node
-        const nodeData = (networkData.nodes || []).find((n: any) => n.id === nodeId)
+      // Distribution tree badges: hop depth and incoming interface, in the free top-left corner of each node
+      if (treeAnnotations) {
+        Object.entries(treeAnnotations).forEach(([nodeId, info]) => {
+          const nodePos = positions[nodeId];
+          if (!nodePos) return;
+
+          const text = info.depth === 0 ? 'src' : `${info.depth} · ${info.incomingInterface || '?'}`;
+          ctx.save();
+          ctx.font = 'bold 10px Arial';
+          const badgeWidth = ctx.measureText(text).width + 10;
+          const badgeX = nodePos.x - interfaceBoxWidth / 2 - 4 - badgeWidth / 2; // just left of the top (eth0) interface box
+          const badgeY = nodePos.y - verticalDistance;
+
+          ctx.fillStyle = getComputedStyle(document.documentElement).getPropertyValue('--color-legend-highlight').trim() || '#FFD166';
+          ctx.beginPath();
+          ctx.roundRect(badgeX - badgeWidth / 2, badgeY - 8, badgeWidth, 16, 8);
+          ctx.fill();
+
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillStyle = '#000';
+          ctx.fillText(text, badgeX, badgeY);
+          ctx.restore();
+        });
+      }
+
+      // Warning badges (e.g. configuration drift) in the top-right corner, mirroring the tree badges
+      if (nodeBadges) {
+        Object.entries(nodeBadges).forEach(([nodeId, badge]) => {
+          const nodePos = positions[nodeId];
+          if (!nodePos) return;
+
+          ctx.save();
+          ctx.font = 'bold 10px Arial';
+          const badgeWidth = ctx.measureText(badge.text).width + 10;
+          const badgeX = nodePos.x + interfaceBoxWidth / 2 + 4 + badgeWidth / 2; // just right of the top (eth0) interface box
+          const badgeY = nodePos.y - verticalDistance;
+
+          ctx.fillStyle = badge.color;
+          ctx.beginPath();
+          ctx.roundRect(badgeX - badgeWidth / 2, badgeY - 8, badgeWidth, 16, 8);
+          ctx.fill();
+
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillStyle = '#ffffff';
+          ctx.fillText(badge.text, badgeX, badgeY);
+          ctx.restore();
+        });
+      }
+    };
+    network.on("afterDrawing", drawLinksAndInterfaces);
+    // Exports replay the same drawing onto their own canvas
+    mapRenderersRef.current = { drawGroupContainers, drawLinksAndInterfaces };
+
+    // Every redraw (including zoom and pan) refreshes the minimap
+    network.on("afterDrawing", () => {
+      if (minimapRef.current && containerRef.current) {
+        const { darkMode, highlightedPath } = drawStateRef.current;
+        minimapTransformRef.current = drawMinimap(minimapRef.current, network, containerRef.current, drawnEdges, new Set(highlightedPath?.nodes || []), darkMode);
+      }
+    });
+
+
+    network.on("hoverNode", (event) => {
+      const nodeId = event.node
+      const nodeData = nodesDataSet.get(nodeId as string)
+      // Summary nodes of collapsed groups have no statistics to show
+      if (nodeData?.type === 'group') return
+      // Add nodeId and group info from node-positions.json if available
+      if (nodeData && nodePositionDataRef.current) {
+        // Try multiple lookup strategies:
+        // 1. Use nodeName field (e.g., "Node00b01973dfaf")
+        // 2. Use the node's short ID (e.g., "dfaf")
+        // 3. Try fullAddress if it looks like a node name
+        const nodeName = nodeData.nodeName;
+        let lookupKey = null;
+        
+        if (nodeName && nodePositionDataRef.current.ids[nodeName]) {
+          nodeData.nodeIdNumber = nodePositionDataRef.current.ids[nodeName];
+          lookupKey = nodeName;
+        } else if (nodeData.id && nodePositionDataRef.current.ids[nodeData.id]) {
+          nodeData.nodeIdNumber = nodePositionDataRef.current.ids[nodeData.id];
+          lookupKey = nodeData.id;
+        } else if (nodeData.fullAddress && typeof nodeData.fullAddress === 'string' && nodeData.fullAddress.startsWith('Node')) {
+          nodeData.nodeIdNumber = nodePositionDataRef.current.ids[nodeData.fullAddress];
+          lookupKey = nodeData.fullAddress;
+        }
+        
+        // Add group info (NCA and node number within NCA)
+        if (lookupKey && nodePositionDataRef.current.groupInfo[lookupKey]) {
+          const groupInfo = nodePositionDataRef.current.groupInfo[lookupKey];
+          nodeData.ncaNumber = groupInfo.ncaNumber;
+          nodeData.nodeNumber = groupInfo.nodeNumber;
+        }
+      }
+      if (onNodeHoverRef.current) {
+        onNodeHoverRef.current(nodeData)
+      }
+    })
+
+    network.on("click", (event) => {
+      // Clicking a container title collapses the group; clicking its summary node expands it again
+      const header = event.nodes.length === 0 && groupHeaderRects.find((rect) =>
+        event.pointer.canvas.x >= rect.x && event.pointer.canvas.x <= rect.x + rect.width &&
+        event.pointer.canvas.y >= rect.y && event.pointer.canvas.y <= rect.y + rect.height);
+      const summary = event.nodes.length > 0 ? nodesDataSet.get(event.nodes[0] as string) : null;
+      if (header || summary?.type === 'group') {
+        const key = header ? header.key : summary!.groupKey!;
+        setCollapsedGroups(prev => {
+          const next = new Set(prev);
+          if (next.has(key)) next.delete(key);
+          else next.add(key);
+          return next;
+        });
+        return;
+      }
+
+      if (event.nodes.length > 0) {
+        const nodeId = event.nodes[0]
+        const nodeData = nodesDataSet.get(nodeId as string)
+        
+        // Toggle click highlight: click same node to unhighlight, different node to switch
+        setClickHighlightedNode(prev => prev === nodeId ? null : nodeId);
+        
         // Add nodeId and group info from node-positions.json if available
         if (nodeData && nodePositionDataRef.current) {
           // Try multiple lookup strategies:
           // 1. Use nodeName field (e.g., "Node00b01973dfaf")
           // 2. Use the node's short ID (e.g., "dfaf")
-          // 3. Try fullAddress if it looks like a node name
           const nodeName = nodeData.nodeName;
           let lookupKey = null;
           
-          if (nodeName && nodePositionDataRef.current[nodeName]) {
-            nodeData.nodeIdNumber = nodePositionDataRef.current[nodeName];
+          if (nodeName && nodePositionDataRef.current.ids[nodeName]) {
+            nodeData.nodeIdNumber = nodePositionDataRef.current.ids[nodeName];
             lookupKey = nodeName;
-          } else if (nodeData.id && nodePositionDataRef.current[nodeData.id]) {
-            nodeData.nodeIdNumber = nodePositionDataRef.current[nodeData.id];
+          } else if (nodeData.id && nodePositionDataRef.current.ids[nodeData.id]) {
+            nodeData.nodeIdNumber = nodePositionDataRef.current.ids[nodeData.id];
             lookupKey = nodeData.id;
-          } else if (nodeData.fullAddress && typeof nodeData.fullAddress === 'string' && nodeData.fullAddress.startsWith('Node')) {
-            nodeData.nodeIdNumber = nodePositionDataRef.current[nodeData.fullAddress];
-            lookupKey = nodeData.fullAddress;
           }
           
           // Add group info (NCA and node number within NCA)
-          if (lookupKey && nodePositionDataRef.current._groupInfo && nodePositionDataRef.current._groupInfo[lookupKey]) {
-            const groupInfo = nodePositionDataRef.current._groupInfo[lookupKey];
+          if (lookupKey && nodePositionDataRef.current.groupInfo[lookupKey]) {
+            const groupInfo = nodePositionDataRef.current.groupInfo[lookupKey];
             nodeData.ncaNumber = groupInfo.ncaNumber;
             nodeData.nodeNumber = groupInfo.nodeNumber;
           }
         }
-        if (onNodeHoverRef.current) {
-          onNodeHoverRef.current(nodeData)
+        if (onNodeClickRef.current) {
+          onNodeClickRef.current(nodeData)
         }
-      })
-
-      network.on("click", (event) => {
-        if (event.nodes.length > 0) {
-          const nodeId = event.nodes[0]
-          const nodeData = (networkData.nodes || []).find((n: any) => n.id === nodeId)
-          
-          // Toggle click highlight: click same node to unhighlight, different node to switch
-          setClickHighlightedNode(prev => prev === nodeId ? null : nodeId);
-          
-          // Add nodeId and group info from node-positions.json if available
-          if (nodeData && nodePositionDataRef.current) {
-            // Try multiple lookup strategies:
-            // 1. Use nodeName field (e.g., "Node00b01973dfaf")
-            // 2. Use the node's short ID (e.g., "dfaf")
-            const nodeName = nodeData.nodeName;
-            let lookupKey = null;
-            
-            if (nodeName && nodePositionDataRef.current[nodeName]) {
-              nodeData.nodeIdNumber = nodePositionDataRef.current[nodeName];
-              lookupKey = nodeName;
-            } else if (nodeData.id && nodePositionDataRef.current[nodeData.id]) {
-              nodeData.nodeIdNumber = nodePositionDataRef.current[nodeData.id];
-              lookupKey = nodeData.id;
-            }
-            
-            // Add group info (NCA and node number within NCA)
-            if (lookupKey && nodePositionDataRef.current._groupInfo && nodePositionDataRef.current._groupInfo[lookupKey]) {
-              const groupInfo = nodePositionDataRef.current._groupInfo[lookupKey];
-              nodeData.ncaNumber = groupInfo.ncaNumber;
-              nodeData.nodeNumber = groupInfo.nodeNumber;
-            }
-          }
-          if (onNodeClickRef.current) {
-            onNodeClickRef.current(nodeData)
-          }
-        } else {
-          // Clicked on empty space - clear click highlight
-          setClickHighlightedNode(null);
-          if (onNodeClickRef.current) {
-            onNodeClickRef.current(null)
-          }
+      } else {
+        // Clicked on empty space - clear click highlight
+        setClickHighlightedNode(null);
+        if (onNodeClickRef.current) {
+          onNodeClickRef.current(null)
         }
-      })
+      }
+    })
 
-      network.on("blurNode", () => {
-        if (onNodeBlurRef.current) {
-          onNodeBlurRef.current();
-        }
-      })
+    network.on("blurNode", () => {
+      if (onNodeBlurRef.current) {
+        onNodeBlurRef.current();
+      }
+    })
 
-      return () => {
-        if (networkRef.current) {
-          networkRef.current.destroy()
-        }
+    // Report the whole arrangement after a drag, keyed by node name so it outlives id changes
+    network.on("dragEnd", (event) => {
+      if (event.nodes.length === 0 || !onNodesMovedRef.current) return;
+      const positions: NodePositions = {};
+      Object.entries(network.getPositions()).forEach(([id, position]) => {
+        const node = nodesDataSet.get(id);
+        positions[node?.nodeName || id] = { x: Math.round(position.x), y: Math.round(position.y) };
+      });
+      onNodesMovedRef.current(positions);
+    })
+
+    return () => {
+      network.destroy()
+      networkRef.current = null
+      dataSetsRef.current = null
+      mapRenderersRef.current = null
+    }
+  }, [hasNodes])
+
+  // Theme changes restyle the existing Network
+  useEffect(() => {
+    if (!networkRef.current) return
+    const options = getNetworkOptions(darkMode);
+    options.edges.arrows = { to: { enabled: false } };
+    networkRef.current.setOptions(options)
+  }, [darkMode])
+
+  // Sync networkData into the DataSets; vis re-renders only the items that changed
+  useEffect(() => {
+    const data = dataSetsRef.current
+    const network = networkRef.current
+    if (!data || !network || !networkData || !nodePositionData) return
+    // New networkData from the parent already contains every delta received so far
+    if (networkData !== lastNetworkDataRef.current) {
+      lastNetworkDataRef.current = networkData
+      streamedDeltasRef.current = []
+    }
+    const { nodes, edges } = networkData;
+
+    // Remove labels from edges - we'll display them differently
+    const updatedEdges = edges.map((edge) => {
+      const { label: _label, ...rest } = edge;
+      return rest;
+    });
+
+    // Layout input: nodeId from node-positions.json as the sort key, NCA groups from nodeLabelPath
+    const { ids: nodeIds, groupInfo } = nodePositionData;
+    const groupOf = (node: MapNode) => (node.nodeName && groupInfo[node.nodeName]) || groupInfo[node.id];
+    const layoutNodes: LayoutNode[] = nodes.map((node) => {
+      let nodeIdNum = 0;
+      // Nodes with a disambiguated (longer) id are only found by their name
+      const positionKey = nodeIds[node.id] ? node.id : node.nodeName;
+      if (positionKey && nodeIds[positionKey]) {
+        nodeIdNum = parseInt(nodeIds[positionKey]);
+      } else {
+        // Fallback: extract number from node.id if it contains one
+        const match = node.id.match(/\d+/);
+        nodeIdNum = match ? parseInt(match[0]) : 0;
       }
+      const group = groupOf(node);
+      return { id: node.id, order: nodeIdNum, group: group?.ncaNumber, groupOrder: group ? parseInt(group.nodeNumber) : undefined };
+    });
+    const layoutLinks = edges.filter((edge) => edge.edgeType === 'direct');
+
+    // Layouts only depend on the topology, so restyled networkData (highlights) reuses the last one
+    const root = layoutMode === 'hierarchical' ? layoutRoot : null;
+    const topologyKey = JSON.stringify([layoutNodes, layoutLinks.map((edge) => [edge.from, edge.to])]);
+    const cached = layoutCacheRef.current;
+    if (!cached || cached.mode !== layoutMode || cached.root !== root || cached.topologyKey !== topologyKey) {
+      // A different layout mode or root moves everything, so show the whole map again
+      if (cached && (cached.mode !== layoutMode || cached.root !== root)) needsFitRef.current = true;
+      layoutCacheRef.current = { mode: layoutMode, root, topologyKey, layout: computeLayout(layoutMode, layoutNodes, layoutLinks, { root }) };
     }
-  }, [networkData, darkMode, selectedNode, nodePositionData, clickHighlightedNode, highlightedPath])
+    const { layout } = layoutCacheRef.current!;
+
+    // Apply positions to nodes; hand-arranged positions take precedence over the layout
+    const positionedNodes = nodes.map((node): MapNode => {
+      const position = (node.nodeName && positionOverrides?.[node.nodeName]) || positionOverrides?.[node.id] || layout.positions[node.id];
+      // Attribute colors only apply to nodes networkData left unstyled (not highlighted or dimmed)
+      const attributeColor = node.color === undefined ? nodeColors?.[node.id] : undefined;
+      
+      return {
+        ...node,
+        ...(attributeColor ? { color: { background: attributeColor, border: attributeColor } } : {}),
+        x: position.x,
+        y: position.y,
+        fixed: { x: !nodesDraggable, y: !nodesDraggable }
+      };
+    });
+
+    const positionMap = { ...layout.positions };
+    positionedNodes.forEach((node) => { positionMap[node.id] = { x: node.x!, y: node.y! }; });
+    layoutRef.current = { positionMap, extraPosition: layout.extraPosition, extraCount: 0 };
+
+    // NCA containers; collapsed groups are replaced by a summary node with aggregated links
+    const groups = showGroups ? buildNodeGroups(positionedNodes, (node) => groupOf(node)?.ncaNumber) : [];
+    const collapsed = showGroups ? collapsedGroups : new Set<string>();
+    groupsRef.current = { groups, collapsed };
+    const shown = collapseGroups(positionedNodes, updatedEdges, groups, collapsed, (id) => positionOverrides?.[id]);
+    const shownNodes = shown.nodes.map((node): MapNode => {
+      if (node.type !== 'group') return node;
+      const hue = groupHue(groups.findIndex((group) => group.key === node.groupKey));
+      return {
+        ...node,
+        shape: 'box',
+        color: { background: `hsl(${hue}, 55%, 45%)`, border: `hsl(${hue}, 55%, 30%)` },
+        font: { size: 14, color: '#ffffff' },
+        margin: { top: 10, right: 14, bottom: 10, left: 14 },
+        fixed: { x: !nodesDraggable, y: !nodesDraggable },
+        title: 'Click to expand',
+      };
+    });
+    baseNodesRef.current = shownNodes;
+
+    const selectedId = selectedNodeRef.current?.id;
+    syncDataSet(data.nodes, selectedId ? shownNodes.map((node) => ({ ...node, ...selectionStyle(node, selectedId) })) : shownNodes);
+    syncDataSet(data.edges, shown.edges);
+    // Rebuilding from unchanged networkData (e.g. new positions) must keep what was streamed since
+    streamedDeltasRef.current.forEach((delta) => applyDeltaToDataSets(data, delta, data.placeNode));
+
+    if (needsFitRef.current) {
+      network.fit({ animation: false });
+      needsFitRef.current = false;
+    }
+  }, [networkData, nodePositionData, hasNodes, layoutMode, layoutRoot, positionOverrides, nodesDraggable, showGroups, collapsedGroups, nodeColors])
+
+  // Selecting a node only restyles the nodes whose colors change
+  useEffect(() => {
+    selectedNodeRef.current = selectedNode
+    const data = dataSetsRef.current
+    if (!data) return
+    const styles = baseNodesRef.current
+      .filter((node) => data.nodes.get(node.id))
+      .map((node) => {
+        const style = selectedNode ? selectionStyle(node, selectedNode.id) : { color: node.color, borderWidth: node.borderWidth };
+        return { id: node.id, color: style.color ?? null, borderWidth: style.borderWidth ?? null };
+      });
+    updateChanged(data.nodes, styles);
+  }, [selectedNode])
+
+  // Apply pushed deltas straight to the DataSets; vis redraws the changed items itself
+  useEffect(() => {
+    if (!topologyStream) return
+    return topologyStream.subscribe((deltas) => {
+      streamedDeltasRef.current.push(...deltas)
+      const data = dataSetsRef.current
+      if (!data) return
+      deltas.forEach((delta) => applyDeltaToDataSets(data, delta, data.placeNode))
+    })
+  }, [topologyStream])
+
+  // Frame a set of nodes; ids hidden inside collapsed groups are skipped
+  const fitNodes = (ids: string[]) => {
+    const network = networkRef.current
+    const data = dataSetsRef.current
+    if (!network || !data) return
+    const present = ids.filter((id) => data.nodes.get(id))
+    if (present.length === 0) return
+    network.fit({ nodes: present, maxZoomLevel: 1.5, animation: VIEW_ANIMATION })
+  }
+
+  // A newly found path is framed right away. Live updates re-highlight the same path
+  // with a new object, so only a different set of nodes moves the camera.
+  const framedPathRef = useRef<string | null>(null)
+  useEffect(() => {
+    const key = highlightedPath?.nodes.length ? [...highlightedPath.nodes].sort().join('|') : null
+    if (key === framedPathRef.current) return
+    framedPathRef.current = key
+    if (key) fitNodes(highlightedPath!.nodes)
+  }, [highlightedPath])
+
+  const selectionId = selectedNode?.id ?? clickHighlightedNode
+
+  const zoomToSelection = () => {
+    if (!selectionId || !dataSetsRef.current?.nodes.get(selectionId)) return
+    networkRef.current?.focus(selectionId, { scale: Math.max(networkRef.current.getScale(), 1), animation: VIEW_ANIMATION })
+  }
+
+  // Center the main view on the minimap point under the pointer
+  const moveToMinimapPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const transform = minimapTransformRef.current
+    if (!transform || !networkRef.current) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    networkRef.current.moveTo({
+      position: {
+        x: (event.clientX - rect.left - transform.offsetX) / transform.scale + transform.minX,
+        y: (event.clientY - rect.top - transform.offsetY) / transform.scale + transform.minY,
+      },
+      animation: false,
+    })
+  }
+
+  // Legend for exports when the page does not supply one: what the current highlight state shows
+  const defaultLegendItems = (): MapLegendItem[] => {
+    const hasGroupLinks = !!dataSetsRef.current?.edges.get().some((edge) => edge.edgeType === 'group')
+    return [
+      { label: 'Node', color: 'var(--color-legend-phys)', kind: 'node' },
+      { label: 'Physical link', color: darkMode ? '#666' : '#bbb', kind: 'line' },
+      ...(selectionId ? [{ label: 'Selected node', color: 'var(--color-legend-highlight)', kind: 'node' as const }] : []),
+      ...(highlightedPath?.edges.length ? [{ label: 'Highlighted path', color: 'var(--color-legend-highlight)', kind: 'line' as const }] : []),
+      ...(secondaryPath?.edges.length ? [{ label: 'Secondary path', color: 'var(--color-legend-secondary)', kind: 'dashed' as const }] : []),
+      ...(hasGroupLinks ? [{ label: 'Links of a collapsed NCA', color: darkMode ? '#94a3b8' : '#64748b', kind: 'dashed' as const }] : []),
+    ]
+  }
+
+  // Render the whole map (not just the visible part) with its current highlights and a legend.
+  // PNG and PDF use a canvas at `scale` times the map size; SVG records the same drawing as vectors.
+  const exportMap = async (format: ExportFormat, scale = 1) => {
+    const network = networkRef.current
+    const data = dataSetsRef.current
+    const renderers = mapRenderersRef.current
+    if (!network || !data || !renderers) return
+    const nodes = data.nodes.get()
+    const boxes = nodes.map((node) => network.getBoundingBox(node.id)).filter(Boolean)
+    if (boxes.length === 0) return
+
+    const minX = Math.min(...boxes.map((box) => box.left)) - EXPORT_MARGIN
+    const minY = Math.min(...boxes.map((box) => box.top)) - EXPORT_MARGIN
+    const width = Math.max(...boxes.map((box) => box.right)) + EXPORT_MARGIN - minX
+    const mapHeight = Math.max(...boxes.map((box) => box.bottom)) + EXPORT_MARGIN - minY
+    const legend = layoutLegend(legendItems || defaultLegendItems(), width - 2 * EXPORT_MARGIN)
+    const height = mapHeight + legend.height
+
+    const render = (ctx: DrawContext) => {
+      ctx.fillStyle = cssColor('--color-card', darkMode ? '#23272f' : '#ffffff')
+      ctx.fillRect(minX, minY, width, height)
+      renderers.drawGroupContainers(ctx)
+      drawNodeBoxes(ctx, network, nodes)
+      renderers.drawLinksAndInterfaces(ctx)
+      drawLegend(ctx, legend, minX + EXPORT_MARGIN, minY + mapHeight, cssColor('--color-text', darkMode ? '#eeeeee' : '#222222'))
+    }
+
+    const toCanvas = (requestedScale: number) => {
+      const fitScale = Math.min(requestedScale, MAX_EXPORT_SIDE / Math.max(width, height), Math.sqrt(MAX_EXPORT_AREA / (width * height)))
+      if (fitScale < requestedScale) console.warn(`[v0] Map too large for ${requestedScale}x export, using ${fitScale.toFixed(2)}x`)
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.ceil(width * fitScale)
+      canvas.height = Math.ceil(height * fitScale)
+      const ctx = canvas.getContext('2d')!
+      ctx.setTransform(fitScale, 0, 0, fitScale, -minX * fitScale, -minY * fitScale)
+      render(ctx)
+      return canvas
+    }
+    const canvasBlob = (canvas: HTMLCanvasElement, type: string) =>
+      new Promise<Blob>((resolve, reject) => canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`)), type, 0.92))
+
+    setExporting(true)
+    try {
+      if (format === 'svg') {
+        const svg = new SvgContext()
+        render(svg)
+        downloadBlob(`${exportName}.svg`, new Blob([svg.toSvg({ x: minX, y: minY, width, height })], { type: 'image/svg+xml' }))
+      } else if (format === 'png') {
+        downloadBlob(`${exportName}${scale === 1 ? '' : `@${scale}x`}.png`, await canvasBlob(toCanvas(scale), 'image/png'))
+      } else {
+        const canvas = toCanvas(scale)
+        const jpeg = new Uint8Array(await (await canvasBlob(canvas, 'image/jpeg')).arrayBuffer())
+        // Page size in points at 96 dpi map units
+        downloadBlob(`${exportName}.pdf`, buildImagePdf(jpeg, canvas.width, canvas.height, Math.round(width * 0.75), Math.round(height * 0.75)))
+      }
+    } catch (err) {
+      console.error('[v0] Map export failed:', err)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const overlayBg = darkMode ? 'rgba(15,23,42,0.85)' : 'rgba(255,255,255,0.9)'
+  const overlayBorder = darkMode ? '#334155' : '#d1d5db'
+  const viewBtnStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: '4px 8px',
+    fontSize: '12px',
+    fontWeight: 600,
+    borderRadius: 4,
+    border: `1px solid ${overlayBorder}`,
+    background: overlayBg,
+    color: darkMode ? '#e2e8f0' : '#111827',
+    cursor: enabled ? 'pointer' : 'default',
+    opacity: enabled ? 1 : 0.5,
+  })
 
-  const hasNodes = Array.isArray(networkData?.nodes) && networkData.nodes.length > 0
-  const hasEdges = Array.isArray(networkData?.edges) && networkData.edges.length > 0
   return (
-    <div style={{ width: "100%", height: "600px" }}>
+    <div style={{ width: "100%", height: "600px", position: "relative" }}>
       {!hasNodes ? (
         <div style={{ padding: "40px", textAlign: "center", color: "#c00" }}>
           No network nodes found. Please check your backend data and refresh.
         </div>
       ) : (
-        <div ref={containerRef} style={{ width: "100%", height: "100%" }} />
+        <>
+          <div ref={containerRef} style={{ width: "100%", height: "100%" }} />
+          <div style={{ position: "absolute", top: 8, right: 8, display: "flex", gap: "4px" }}>
+            <button onClick={() => networkRef.current?.fit({ animation: VIEW_ANIMATION })} style={viewBtnStyle(true)} title="Show the whole topology">
+              Fit All
+            </button>
+            <button onClick={zoomToSelection} disabled={!selectionId} style={viewBtnStyle(!!selectionId)} title="Zoom to the selected node">
+              Zoom to Selection
+            </button>
+            <button onClick={() => highlightedPath && fitNodes(highlightedPath.nodes)} disabled={!highlightedPath?.nodes.length} style={viewBtnStyle(!!highlightedPath?.nodes.length)} title="Frame the highlighted path">
+              Zoom to Path
+            </button>
+            <select
+              value=""
+              disabled={exporting}
+              onChange={(event) => {
+                const [format, scale] = event.target.value.split(':')
+                if (format) exportMap(format as ExportFormat, Number(scale) || 1)
+              }}
+              style={viewBtnStyle(!exporting)}
+              title="Download the whole map with its current highlights and a legend"
+            >
+              <option value="">{exporting ? 'Exporting…' : 'Export…'}</option>
+              <option value="png:1">PNG (1x)</option>
+              <option value="png:2">PNG (2x)</option>
+              <option value="png:4">PNG (4x)</option>
+              <option value="svg">SVG (vector)</option>
+              <option value="pdf:2">PDF</option>
+            </select>
+          </div>
+          <canvas
+            ref={minimapRef}
+            onPointerDown={(event) => {
+              minimapDraggingRef.current = true
+              event.currentTarget.setPointerCapture(event.pointerId)
+              moveToMinimapPoint(event)
+            }}
+            onPointerMove={(event) => { if (minimapDraggingRef.current) moveToMinimapPoint(event) }}
+            onPointerUp={(event) => {
+              minimapDraggingRef.current = false
+              event.currentTarget.releasePointerCapture(event.pointerId)
+            }}
+            style={{
+              position: "absolute",
+              right: 8,
+              bottom: 8,
+              width: MINIMAP_WIDTH,
+              height: MINIMAP_HEIGHT,
+              background: overlayBg,
+              border: `1px solid ${overlayBorder}`,
+              borderRadius: 6,
+              cursor: "crosshair",
+              touchAction: "none",
+            }}
+            title="Overview: click or drag to move the view"
+          />
+        </>
       )}
     </div>
   )
@@ -1,12 +1,60 @@
 "use client"
 
+import { useEffect, useMemo, useState } from "react"
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { formatRtt } from "@/utils/linkMetrics"
+import { clearMetricsHistory, linkSeries, loadMetricsHistory, nodeSeries, seriesTrend, subscribeMetricsHistory, type LinkSeriesPoint, type MetricsSample } from "@/utils/metricsHistory"
+import type { NodeDetails } from "@/utils/topologyModel"
+
 interface NodeDetailsPanelProps {
-  nodeData: any
+  nodeData: NodeDetails
   onClose: () => void
   darkMode?: boolean
+  /** Dataset whose metrics history is charted (its data file); no history without it */
+  historyKey?: string | null
+}
+
+const SERIES_COLORS = { rtt: '#3b82f6', mdev: '#a78bfa', rx: '#10b981', tx: '#f97316', routes: '#17a2b8', neighbors: '#f59e0b' }
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+// Bare trend line of one series, sized to its card
+function Sparkline({ data, dataKey, color }: { data: LinkSeriesPoint[], dataKey: keyof LinkSeriesPoint, color: string }) {
+  return (
+    <ResponsiveContainer width="100%" height={28}>
+      <LineChart data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+        <YAxis hide domain={['auto', 'auto']} />
+        <Line type="monotone" dataKey={dataKey} stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />
+      </LineChart>
+    </ResponsiveContainer>
+  )
 }
 
-export default function NodeDetailsPanel({ nodeData, onClose, darkMode = false }: NodeDetailsPanelProps) {
+export default function NodeDetailsPanel({ nodeData, onClose, darkMode = false, historyKey = null }: NodeDetailsPanelProps) {
+  const [history, setHistory] = useState<MetricsSample[]>([])
+  // Connection whose full chart is open, by edge id
+  const [expandedLink, setExpandedLink] = useState<string | null>(null)
+
+  // Reload the history whenever a refresh adds a sample to this dataset
+  useEffect(() => {
+    if (!historyKey) {
+      setHistory([])
+      return
+    }
+    let cancelled = false
+    const load = () => loadMetricsHistory(historyKey)
+      .then((samples) => { if (!cancelled) setHistory(samples) })
+      .catch((err) => console.warn(`[v0] Could not load metrics history for ${historyKey}:`, err))
+    load()
+    const unsubscribe = subscribeMetricsHistory((dataset) => { if (dataset === historyKey) load() })
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [historyKey])
+
+  const countSeries = useMemo(() => nodeData ? nodeSeries(history, nodeData.id) : [], [history, nodeData])
+
   if (!nodeData) return null
 
   // Colors adapt to theme
@@ -18,6 +66,9 @@ export default function NodeDetailsPanel({ nodeData, onClose, darkMode = false }
   const closeButtonBg = darkMode ? '#1e293b' : '#f3f4f6'
   const closeButtonHover = darkMode ? '#334155' : '#e5e7eb'
 
+  // Local IP of the interface a connection leaves from
+  const localIpOf = (iface: string) => nodeData.allLocalIps?.find((ipInfo) => ipInfo.interface === iface)?.ip
+
   return (
     <div style={{
       background: bgColor,
@@ -127,7 +178,7 @@ export default function NodeDetailsPanel({ nodeData, onClose, darkMode = false }
             Local IP Addresses
           </h4>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
-            {nodeData.allLocalIps.map((ipInfo: any, index: number) => (
+            {nodeData.allLocalIps.map((ipInfo, index) => (
               <div key={index} style={{
                 display: 'flex',
                 justifyContent: 'space-between',
@@ -201,6 +252,59 @@ export default function NodeDetailsPanel({ nodeData, onClose, darkMode = false }
         </div>
       </div>
 
+      {/* Metrics History Section */}
+      {historyKey && (
+        <div style={{
+          marginBottom: '20px',
+          padding: '15px',
+          background: darkMode ? '#1e293b' : '#f9fafb',
+          borderRadius: '8px',
+          border: `1px solid ${borderColor}`,
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+            <h4 style={{
+              margin: 0,
+              fontSize: '14px',
+              fontWeight: 'bold',
+              color: headerColor,
+            }}>
+              History
+            </h4>
+            {history.length > 0 && (
+              <button
+                onClick={() => clearMetricsHistory(historyKey).catch((err) => console.warn(`[v0] Could not clear metrics history for ${historyKey}:`, err))}
+                style={{ background: 'none', border: `1px solid ${borderColor}`, borderRadius: '6px', padding: '2px 8px', cursor: 'pointer', fontSize: '11px', color: labelColor }}
+                title="Forget the recorded samples of this dataset"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          {countSeries.length < 2 ? (
+            <div style={{ fontSize: '12px', color: labelColor, fontStyle: 'italic' }}>
+              {countSeries.length === 0 ? 'No samples recorded for this node yet.' : `One sample so far (${formatTime(countSeries[0].at)}).`} Every refresh that changes the data adds a sample.
+            </div>
+          ) : (
+            <>
+              <div style={{ fontSize: '11px', color: labelColor, marginBottom: '6px' }}>
+                {countSeries.length} samples, {formatTime(countSeries[0].at)} – {formatTime(countSeries[countSeries.length - 1].at)}
+              </div>
+              <ResponsiveContainer width="100%" height={140}>
+                <LineChart data={countSeries} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+                  <CartesianGrid stroke={borderColor} strokeDasharray="3 3" />
+                  <XAxis dataKey="at" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} tick={{ fontSize: 10, fill: labelColor }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 10, fill: labelColor }} />
+                  <Tooltip labelFormatter={(at) => formatTime(Number(at))} contentStyle={{ background: bgColor, borderColor, fontSize: '11px' }} />
+                  <Legend wrapperStyle={{ fontSize: '11px' }} />
+                  <Line type="stepAfter" dataKey="routes" name="Routes" stroke={SERIES_COLORS.routes} dot={false} isAnimationActive={false} />
+                  <Line type="stepAfter" dataKey="neighbors" name="Neighbors" stroke={SERIES_COLORS.neighbors} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Connections Section */}
       {Array.isArray(nodeData.connectedInterfaces) && nodeData.connectedInterfaces.length > 0 && (
         <div style={{
@@ -220,8 +324,8 @@ export default function NodeDetailsPanel({ nodeData, onClose, darkMode = false }
           </h4>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
             {nodeData.connectedInterfaces
-              .filter((conn: any) => conn && conn.neighbor)
-              .map((conn: any, index: number) => (
+              .filter((conn) => conn && conn.neighbor)
+              .map((conn, index) => (
                 <div key={index} style={{
                   padding: '10px',
                   background: darkMode ? '#0f172a' : '#ffffff',
@@ -251,8 +355,8 @@ export default function NodeDetailsPanel({ nodeData, onClose, darkMode = false }
                       overflow: 'hidden',
                       textOverflow: 'ellipsis',
                       whiteSpace: 'nowrap',
-                    }} title={conn.neighborFullIp || conn.neighbor}>
-                      {conn.neighborFullIp || conn.neighbor}
+                    }} title={conn.neighbor}>
+                      {conn.neighbor}
                     </span>
                   </div>
 
@@ -267,27 +371,12 @@ export default function NodeDetailsPanel({ nodeData, onClose, darkMode = false }
                   }}>
                     <span style={{ color: labelColor }}>Local IP:</span>
                     <span style={{
-                      color: conn.localIp ? valueColor : labelColor,
-                      fontFamily: conn.localIp ? 'monospace' : 'inherit',
+                      color: localIpOf(conn.interface) ? valueColor : labelColor,
+                      fontFamily: localIpOf(conn.interface) ? 'monospace' : 'inherit',
                       fontSize: '10px',
-                      fontStyle: conn.localIp ? 'normal' : 'italic',
+                      fontStyle: localIpOf(conn.interface) ? 'normal' : 'italic',
                     }}>
-                      {(() => {
-                        // First try the localIp from connection
-                        if (conn.localIp) {
-                          return conn.localIp;
-                        }
-                        // If not available, look it up from allLocalIps by matching interface
-                        if (nodeData.allLocalIps && Array.isArray(nodeData.allLocalIps)) {
-                          const matchingIp = nodeData.allLocalIps.find((ipInfo: any) => 
-                            ipInfo.interface === conn.interface
-                          );
-                          if (matchingIp && matchingIp.ip) {
-                            return matchingIp.ip;
-                          }
-                        }
-                        return 'N/A';
-                      })()}
+                      {localIpOf(conn.interface) || 'N/A'}
                     </span>
                   </div>
 
@@ -325,6 +414,48 @@ export default function NodeDetailsPanel({ nodeData, onClose, darkMode = false }
                       )}
                     </div>
                   )}
+
+                  {/* RTT trend from the metrics history; click for the full chart */}
+                  {(() => {
+                    const series = conn.edgeId ? linkSeries(history, conn.edgeId) : []
+                    if (series.filter((point) => point.rtt_ms !== undefined).length < 2) return null
+                    const trend = seriesTrend(series, 'rtt_ms')
+                    const expanded = expandedLink === conn.edgeId
+                    return (
+                      <div
+                        onClick={() => setExpandedLink(expanded ? null : conn.edgeId)}
+                        style={{ marginTop: '8px', paddingTop: '8px', borderTop: `1px solid ${borderColor}`, cursor: 'pointer' }}
+                        title={expanded ? 'Hide the chart' : 'Show the link\'s RTT, jitter and packet counters (both ends) over time'}
+                      >
+                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '10px', color: labelColor }}>
+                          <span>Link RTT over {series.length} samples</span>
+                          {trend !== undefined && (
+                            <span style={{ color: trend > 0 ? (darkMode ? '#f87171' : '#c62828') : valueColor, fontWeight: 'bold' }}>
+                              {trend > 0 ? '+' : trend < 0 ? '−' : '±'}{formatRtt(Math.abs(trend))} since {formatTime(series[0].at)}
+                            </span>
+                          )}
+                        </div>
+                        {expanded ? (
+                          <ResponsiveContainer width="100%" height={180}>
+                            <LineChart data={series} margin={{ top: 4, right: 0, bottom: 0, left: -20 }}>
+                              <CartesianGrid stroke={borderColor} strokeDasharray="3 3" />
+                              <XAxis dataKey="at" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} tick={{ fontSize: 10, fill: labelColor }} />
+                              <YAxis yAxisId="ms" tick={{ fontSize: 10, fill: labelColor }} unit=" ms" width={60} />
+                              <YAxis yAxisId="packets" orientation="right" tick={{ fontSize: 10, fill: labelColor }} width={50} />
+                              <Tooltip labelFormatter={(at) => formatTime(Number(at))} contentStyle={{ background: bgColor, borderColor, fontSize: '11px' }} />
+                              <Legend wrapperStyle={{ fontSize: '11px' }} />
+                              <Line yAxisId="ms" type="monotone" dataKey="rtt_ms" name="RTT" stroke={SERIES_COLORS.rtt} dot={false} isAnimationActive={false} connectNulls />
+                              <Line yAxisId="ms" type="monotone" dataKey="mdev_rtt_ms" name="Jitter" stroke={SERIES_COLORS.mdev} dot={false} isAnimationActive={false} connectNulls />
+                              <Line yAxisId="packets" type="monotone" dataKey="rx_packets" name="RX" stroke={SERIES_COLORS.rx} strokeDasharray="4 2" dot={false} isAnimationActive={false} connectNulls />
+                              <Line yAxisId="packets" type="monotone" dataKey="tx_packets" name="TX" stroke={SERIES_COLORS.tx} strokeDasharray="4 2" dot={false} isAnimationActive={false} connectNulls />
+                            </LineChart>
+                          </ResponsiveContainer>
+                        ) : (
+                          <Sparkline data={series} dataKey="rtt_ms" color={SERIES_COLORS.rtt} />
+                        )}
+                      </div>
+                    )
+                  })()}
                 </div>
               ))}
           </div>
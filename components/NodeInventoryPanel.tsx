@@ -0,0 +1,203 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import {
+  compareInventoryValues,
+  formatInventoryValue,
+  INVENTORY_ATTRIBUTES,
+  type InventoryAttribute,
+  type InventoryRow,
+} from "@/utils/nodeInventory"
+import type { ColorScale } from "@/utils/styleMapping"
+
+interface NodeInventoryPanelProps {
+  rows: InventoryRow[]
+  /** Map id of the selected node */
+  selectedId?: string | null
+  onSelect?: (row: InventoryRow | null) => void
+  /** Attribute the map is colored by, or null for the default colors */
+  colorBy?: InventoryAttribute | null
+  onColorByChange?: (attribute: InventoryAttribute | null) => void
+  /** Colors of the current colorBy attribute, shown as its legend */
+  coloring?: ColorScale | null
+  darkMode?: boolean
+}
+
+type SortColumn = 'nodeName' | 'nca' | InventoryAttribute
+
+const COLUMNS: Array<{ key: SortColumn, label: string }> = [
+  { key: 'nodeName', label: 'Node' },
+  { key: 'nca', label: 'NCA' },
+  ...INVENTORY_ATTRIBUTES,
+]
+
+export default function NodeInventoryPanel({ rows, selectedId = null, onSelect, colorBy = null, onColorByChange, coloring = null, darkMode = false }: NodeInventoryPanelProps) {
+  const [sortColumn, setSortColumn] = useState<SortColumn>('nodeName')
+  const [sortAscending, setSortAscending] = useState(true)
+  const [filter, setFilter] = useState('')
+
+  // Colors adapt to theme - matching DataHealthPanel
+  const bgColor = darkMode ? '#0b1220' : '#ffffff'
+  const borderColor = darkMode ? '#24303a' : '#e5e7eb'
+  const headerColor = darkMode ? '#f3f4f6' : '#111827'
+  const labelColor = darkMode ? '#94a3b8' : '#6b7280'
+  const valueColor = darkMode ? '#e6eef7' : '#111827'
+  const sectionBg = darkMode ? '#1e293b' : '#f9fafb'
+
+  const sortValue = (row: InventoryRow, column: SortColumn) =>
+    column === 'nodeName' ? row.nodeName : column === 'nca' ? (row.nca === undefined ? undefined : Number(row.nca)) : row.values[column]
+
+  // Every word of the filter has to appear in some cell of the row
+  const words = filter.trim().toLowerCase().split(/\s+/).filter(Boolean)
+  const matches = (row: InventoryRow) => {
+    const cells = [row.nodeName, row.mapId, row.nca && `NCA ${row.nca}`, ...Object.values(row.values)]
+      .filter((cell) => cell !== undefined)
+      .map((cell) => String(cell).toLowerCase())
+    return words.every((word) => cells.some((cell) => cell.includes(word)))
+  }
+
+  const shown = rows.filter(matches).sort((a, b) => {
+    const cmp = compareInventoryValues(sortValue(a, sortColumn), sortValue(b, sortColumn))
+    return (sortAscending ? cmp : -cmp) || a.nodeName.localeCompare(b.nodeName)
+  })
+
+  const toggleSort = (column: SortColumn) => {
+    if (column === sortColumn) {
+      setSortAscending(!sortAscending)
+    } else {
+      setSortColumn(column)
+      setSortAscending(true)
+    }
+  }
+
+  const cellStyle: React.CSSProperties = { padding: '6px 10px', borderBottom: `1px solid ${borderColor}`, textAlign: 'left', whiteSpace: 'nowrap' }
+  const inputStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    fontSize: '13px',
+    borderRadius: '6px',
+    border: `1px solid ${borderColor}`,
+    background: sectionBg,
+    color: valueColor,
+  }
+
+  return (
+    <div style={{
+      marginTop: '20px',
+      background: bgColor,
+      border: `1px solid ${borderColor}`,
+      borderRadius: '12px',
+      padding: '20px',
+      transition: 'all 0.3s ease',
+    }}>
+      <h3 style={{
+        margin: '0 0 12px 0',
+        fontSize: '18px',
+        fontWeight: 'bold',
+        color: headerColor,
+      }}>
+        Node Inventory
+      </h3>
+
+      {rows.length === 0 ? (
+        <div style={{ fontSize: '13px', color: labelColor, fontStyle: 'italic' }}>
+          This dataset has no query file, so there is no firmware or configuration information.
+        </div>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap', alignItems: 'center', fontSize: '13px', color: labelColor, marginBottom: '10px' }}>
+            <input
+              type="search"
+              value={filter}
+              onChange={(event) => setFilter(event.target.value)}
+              placeholder="Filter (e.g. NCA 4 08.00)"
+              style={{ ...inputStyle, minWidth: '220px' }}
+            />
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              Color map by
+              <select
+                value={colorBy || ''}
+                onChange={(event) => onColorByChange?.((event.target.value || null) as InventoryAttribute | null)}
+                style={inputStyle}
+              >
+                <option value="">Default colors</option>
+                {INVENTORY_ATTRIBUTES.map(({ key, label }) => (
+                  <option key={key} value={key}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <span>{shown.length === rows.length ? `${rows.length} nodes` : `${shown.length} of ${rows.length} nodes`} · click a row to select the node</span>
+          </div>
+
+          {coloring && coloring.legend.length > 0 && (
+            <div style={{ display: 'flex', gap: '14px', flexWrap: 'wrap', fontSize: '12px', color: valueColor, marginBottom: '10px' }}>
+              {coloring.legend.map((entry) => (
+                <span key={entry.label} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                  <span style={{ width: '14px', height: '14px', borderRadius: '3px', background: entry.color }} />
+                  {entry.label} <span style={{ color: labelColor }}>({entry.count})</span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div style={{
+            maxHeight: '360px',
+            overflow: 'auto',
+            background: sectionBg,
+            border: `1px solid ${borderColor}`,
+            borderRadius: '8px',
+          }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', color: valueColor }}>
+              <thead>
+                <tr>
+                  {COLUMNS.map((column) => (
+                    <th
+                      key={column.key}
+                      onClick={() => toggleSort(column.key)}
+                      style={{ ...cellStyle, position: 'sticky', top: 0, background: sectionBg, color: column.key === colorBy ? headerColor : labelColor, cursor: 'pointer', userSelect: 'none' }}
+                      title={`Sort by ${column.label.toLowerCase()}`}
+                    >
+                      {column.label}{sortColumn === column.key ? (sortAscending ? ' ▲' : ' ▼') : ''}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((row) => {
+                  const isSelected = row.mapId !== undefined && row.mapId === selectedId
+                  const onMap = row.mapId !== undefined
+                  return (
+                    <tr
+                      key={row.nodeName}
+                      onClick={() => onMap && onSelect?.(isSelected ? null : row)}
+                      style={{
+                        cursor: onMap ? 'pointer' : 'default',
+                        opacity: onMap ? 1 : 0.6,
+                        background: isSelected ? (darkMode ? '#334155' : '#e0f2fe') : 'transparent',
+                      }}
+                      title={!onMap ? 'This node is not on the map' : isSelected ? 'Click to clear the selection' : 'Select this node on the map'}
+                    >
+                      <td style={{ ...cellStyle, fontWeight: 'bold' }}>
+                        {coloring && row.mapId && coloring.colors[row.mapId] && (
+                          <span style={{ display: 'inline-block', width: '10px', height: '10px', borderRadius: '2px', marginRight: '6px', background: coloring.colors[row.mapId] }} />
+                        )}
+                        {row.nodeName}
+                      </td>
+                      <td style={cellStyle}>{row.nca ?? '—'}</td>
+                      {INVENTORY_ATTRIBUTES.map(({ key }) => (
+                        <td key={key} style={{ ...cellStyle, ...(key === 'freeDiskSpaceMb' ? { textAlign: 'right' } : {}) }}>
+                          {formatInventoryValue(row.values[key])}
+                        </td>
+                      ))}
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
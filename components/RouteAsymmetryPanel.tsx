@@ -0,0 +1,142 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import type { RouteAsymmetry, RouteAsymmetryReport } from "@/utils/routeAnalysis"
+
+interface RouteAsymmetryPanelProps {
+  report: RouteAsymmetryReport
+  /** Key (`A<->B`) of the pair currently drawn on the map */
+  selectedKey?: string | null
+  onSelect?: (pair: RouteAsymmetry | null) => void
+  darkMode?: boolean
+}
+
+type SortColumn = 'pair' | 'forwardHops' | 'reverseHops' | 'difference'
+
+const COLUMNS: Array<{ key: SortColumn, label: string }> = [
+  { key: 'pair', label: 'Pair' },
+  { key: 'forwardHops', label: 'A → B hops' },
+  { key: 'reverseHops', label: 'B → A hops' },
+  { key: 'difference', label: 'Nodes not shared' },
+]
+
+export const routeAsymmetryKey = (pair: RouteAsymmetry) => `${pair.nodeA}<->${pair.nodeB}`
+
+export default function RouteAsymmetryPanel({ report, selectedKey = null, onSelect, darkMode = false }: RouteAsymmetryPanelProps) {
+  const [sortColumn, setSortColumn] = useState<SortColumn>('difference')
+  const [sortAscending, setSortAscending] = useState(false)
+
+  // Colors adapt to theme - matching DataHealthPanel
+  const bgColor = darkMode ? '#0b1220' : '#ffffff'
+  const borderColor = darkMode ? '#24303a' : '#e5e7eb'
+  const headerColor = darkMode ? '#f3f4f6' : '#111827'
+  const labelColor = darkMode ? '#94a3b8' : '#6b7280'
+  const valueColor = darkMode ? '#e6eef7' : '#111827'
+  const sectionBg = darkMode ? '#1e293b' : '#f9fafb'
+
+  const sortValue = (pair: RouteAsymmetry, column: SortColumn): string | number => {
+    switch (column) {
+      case 'pair': return routeAsymmetryKey(pair)
+      case 'forwardHops': return pair.forward.nodes.length - 1
+      case 'reverseHops': return pair.reverse.nodes.length - 1
+      case 'difference': return pair.forwardOnly.length + pair.reverseOnly.length
+    }
+  }
+
+  const sorted = [...report.asymmetric].sort((a, b) => {
+    const va = sortValue(a, sortColumn)
+    const vb = sortValue(b, sortColumn)
+    const cmp = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb))
+    return (sortAscending ? cmp : -cmp) || routeAsymmetryKey(a).localeCompare(routeAsymmetryKey(b))
+  })
+
+  const toggleSort = (column: SortColumn) => {
+    if (column === sortColumn) {
+      setSortAscending(!sortAscending)
+    } else {
+      setSortColumn(column)
+      setSortAscending(column === 'pair')
+    }
+  }
+
+  const cellStyle: React.CSSProperties = { padding: '6px 10px', borderBottom: `1px solid ${borderColor}`, textAlign: 'left', whiteSpace: 'nowrap' }
+
+  return (
+    <div style={{
+      marginTop: '20px',
+      background: bgColor,
+      border: `1px solid ${borderColor}`,
+      borderRadius: '12px',
+      padding: '20px',
+      transition: 'all 0.3s ease',
+    }}>
+      <h3 style={{
+        margin: '0 0 12px 0',
+        fontSize: '18px',
+        fontWeight: 'bold',
+        color: headerColor,
+      }}>
+        Route Asymmetry
+      </h3>
+
+      <div style={{ fontSize: '13px', color: labelColor, marginBottom: '10px' }}>
+        Compared {report.comparedPairs} pair{report.comparedPairs === 1 ? '' : 's'} in both directions: {report.asymmetric.length} take a different route back.
+        {report.unresolvedPairs > 0 && ` ${report.unresolvedPairs} pair${report.unresolvedPairs === 1 ? '' : 's'} skipped because a direction has no complete route.`}
+        {report.asymmetric.length > 0 && ' Click a row to draw both directions on the map.'}
+      </div>
+
+      {report.asymmetric.length > 0 && (
+        <div style={{
+          maxHeight: '320px',
+          overflowY: 'auto',
+          background: sectionBg,
+          border: `1px solid ${borderColor}`,
+          borderRadius: '8px',
+        }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', color: valueColor }}>
+            <thead>
+              <tr>
+                {COLUMNS.map((column) => (
+                  <th
+                    key={column.key}
+                    onClick={() => toggleSort(column.key)}
+                    style={{ ...cellStyle, position: 'sticky', top: 0, background: sectionBg, color: labelColor, cursor: 'pointer', userSelect: 'none' }}
+                    title={`Sort by ${column.label.toLowerCase()}`}
+                  >
+                    {column.label}{sortColumn === column.key ? (sortAscending ? ' ▲' : ' ▼') : ''}
+                  </th>
+                ))}
+                <th style={{ ...cellStyle, position: 'sticky', top: 0, background: sectionBg, color: labelColor }}>Routes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((pair) => {
+                const key = routeAsymmetryKey(pair)
+                const isSelected = key === selectedKey
+                return (
+                  <tr
+                    key={key}
+                    onClick={() => onSelect?.(isSelected ? null : pair)}
+                    style={{ cursor: 'pointer', background: isSelected ? (darkMode ? '#334155' : '#e0f2fe') : 'transparent' }}
+                    title={isSelected ? 'Click to clear the highlight' : 'Draw both directions on the map'}
+                  >
+                    <td style={{ ...cellStyle, fontWeight: 'bold' }}>{pair.nodeA} ↔ {pair.nodeB}</td>
+                    <td style={cellStyle}>{pair.forward.nodes.length - 1}</td>
+                    <td style={cellStyle}>{pair.reverse.nodes.length - 1}</td>
+                    <td style={cellStyle}>{pair.forwardOnly.length + pair.reverseOnly.length}</td>
+                    <td style={{ ...cellStyle, whiteSpace: 'normal', fontFamily: 'monospace', fontSize: '11px' }}>
+                      <div>{pair.forward.nodes.join(' → ')}</div>
+                      <div style={{ color: labelColor }}>{pair.reverse.nodes.join(' → ')}</div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
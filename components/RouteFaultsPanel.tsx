@@ -0,0 +1,161 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import type { RouteFault, RouteFaultKind } from "@/utils/routeAnalysis"
+
+interface RouteFaultsPanelProps {
+  faults: RouteFault[]
+  /** Key (`source->receiver`) of the fault currently highlighted on the map */
+  selectedKey?: string | null
+  onSelect?: (fault: RouteFault | null) => void
+  darkMode?: boolean
+}
+
+type SortColumn = 'kind' | 'sourceId' | 'receiverId' | 'atNode' | 'hops'
+
+const KIND_LABELS: Record<RouteFaultKind, string> = {
+  'loop': 'Loop',
+  'dead-end': 'Dead end',
+  'missing-link': 'No physical link',
+  'hop-limit': 'Hop limit',
+}
+
+const COLUMNS: Array<{ key: SortColumn, label: string }> = [
+  { key: 'kind', label: 'Fault' },
+  { key: 'sourceId', label: 'Source' },
+  { key: 'receiverId', label: 'Receiver' },
+  { key: 'atNode', label: 'At node' },
+  { key: 'hops', label: 'Hops walked' },
+]
+
+export const routeFaultKey = (fault: RouteFault) => `${fault.sourceId}->${fault.receiverId}`
+
+export default function RouteFaultsPanel({ faults, selectedKey = null, onSelect, darkMode = false }: RouteFaultsPanelProps) {
+  const [sortColumn, setSortColumn] = useState<SortColumn>('kind')
+  const [sortAscending, setSortAscending] = useState(true)
+
+  // Colors adapt to theme - matching DataHealthPanel
+  const bgColor = darkMode ? '#0b1220' : '#ffffff'
+  const borderColor = darkMode ? '#24303a' : '#e5e7eb'
+  const headerColor = darkMode ? '#f3f4f6' : '#111827'
+  const labelColor = darkMode ? '#94a3b8' : '#6b7280'
+  const valueColor = darkMode ? '#e6eef7' : '#111827'
+  const sectionBg = darkMode ? '#1e293b' : '#f9fafb'
+  const kindColors: Record<RouteFaultKind, string> = {
+    'loop': darkMode ? '#f87171' : '#c62828',
+    'dead-end': darkMode ? '#fbbf24' : '#b45309',
+    'missing-link': darkMode ? '#fb923c' : '#c2410c',
+    'hop-limit': darkMode ? '#f87171' : '#c62828',
+  }
+
+  const sortValue = (fault: RouteFault, column: SortColumn): string | number =>
+    column === 'hops' ? fault.walk.length - 1 : column === 'kind' ? KIND_LABELS[fault.kind] : fault[column]
+
+  const sorted = [...faults].sort((a, b) => {
+    const va = sortValue(a, sortColumn)
+    const vb = sortValue(b, sortColumn)
+    const cmp = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb))
+    return (sortAscending ? cmp : -cmp) || routeFaultKey(a).localeCompare(routeFaultKey(b))
+  })
+
+  const counts = (Object.keys(KIND_LABELS) as RouteFaultKind[])
+    .map((kind) => ({ kind, count: faults.filter((f) => f.kind === kind).length }))
+    .filter((c) => c.count > 0)
+
+  const toggleSort = (column: SortColumn) => {
+    if (column === sortColumn) {
+      setSortAscending(!sortAscending)
+    } else {
+      setSortColumn(column)
+      setSortAscending(true)
+    }
+  }
+
+  const cellStyle: React.CSSProperties = { padding: '6px 10px', borderBottom: `1px solid ${borderColor}`, textAlign: 'left', whiteSpace: 'nowrap' }
+
+  return (
+    <div style={{
+      marginTop: '20px',
+      background: bgColor,
+      border: `1px solid ${borderColor}`,
+      borderRadius: '12px',
+      padding: '20px',
+      transition: 'all 0.3s ease',
+    }}>
+      <h3 style={{
+        margin: '0 0 12px 0',
+        fontSize: '18px',
+        fontWeight: 'bold',
+        color: headerColor,
+      }}>
+        Routing Faults
+      </h3>
+
+      {faults.length === 0 ? (
+        <div style={{ fontSize: '13px', color: labelColor, fontStyle: 'italic' }}>
+          Every route walk reaches its source.
+        </div>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap', fontSize: '13px', color: labelColor, marginBottom: '10px' }}>
+            {counts.map(({ kind, count }) => (
+              <span key={kind}>
+                <span style={{ color: kindColors[kind], fontWeight: 'bold' }}>{count}</span> {KIND_LABELS[kind].toLowerCase()}
+              </span>
+            ))}
+            <span>· click a row to highlight it on the map</span>
+          </div>
+
+          <div style={{
+            maxHeight: '320px',
+            overflowY: 'auto',
+            background: sectionBg,
+            border: `1px solid ${borderColor}`,
+            borderRadius: '8px',
+          }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', color: valueColor }}>
+              <thead>
+                <tr>
+                  {COLUMNS.map((column) => (
+                    <th
+                      key={column.key}
+                      onClick={() => toggleSort(column.key)}
+                      style={{ ...cellStyle, position: 'sticky', top: 0, background: sectionBg, color: labelColor, cursor: 'pointer', userSelect: 'none' }}
+                      title={`Sort by ${column.label.toLowerCase()}`}
+                    >
+                      {column.label}{sortColumn === column.key ? (sortAscending ? ' ▲' : ' ▼') : ''}
+                    </th>
+                  ))}
+                  <th style={{ ...cellStyle, position: 'sticky', top: 0, background: sectionBg, color: labelColor }}>Detail</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((fault) => {
+                  const key = routeFaultKey(fault)
+                  const isSelected = key === selectedKey
+                  return (
+                    <tr
+                      key={key}
+                      onClick={() => onSelect?.(isSelected ? null : fault)}
+                      style={{ cursor: 'pointer', background: isSelected ? (darkMode ? '#334155' : '#e0f2fe') : 'transparent' }}
+                      title={isSelected ? 'Click to clear the highlight' : 'Highlight this walk on the map'}
+                    >
+                      <td style={{ ...cellStyle, color: kindColors[fault.kind], fontWeight: 'bold' }}>{KIND_LABELS[fault.kind]}</td>
+                      <td style={cellStyle}>{fault.sourceId}</td>
+                      <td style={cellStyle}>{fault.receiverId}</td>
+                      <td style={cellStyle}>{fault.atNode}</td>
+                      <td style={cellStyle}>{fault.walk.length - 1}</td>
+                      <td style={{ ...cellStyle, whiteSpace: 'normal' }}>{fault.message}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
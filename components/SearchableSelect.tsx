@@ -93,6 +93,7 @@ export default function SearchableSelect({
     <div ref={containerRef} style={{ position: 'relative', ...style }}>
       {/* Display/Trigger Button */}
       <div
+        id={id}
         onClick={() => !disabled && setIsOpen(!isOpen)}
         style={{
           padding: '8px 32px 8px 12px',
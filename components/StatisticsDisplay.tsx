@@ -1,7 +1,9 @@
 "use client"
 
+import type { NodeDetails } from "@/utils/topologyModel"
+
 interface StatisticsDisplayProps {
-  nodeData: any
+  nodeData: NodeDetails | null
   position: { x: number; y: number }
   darkMode?: boolean
   selectedSource?: string
@@ -20,7 +22,6 @@ export default function StatisticsDisplay({ nodeData, position, darkMode = false
     neighborCount: nodeData.neighborCount,
     nextHop: nodeData.nextHop,
     viaInterface: nodeData.viaInterface,
-    fullNextHopAddress: nodeData.fullNextHopAddress,
     rx: nodeData.rx, 
     tx: nodeData.tx, 
     connectedInterfaces: nodeData.connectedInterfaces, 
@@ -111,7 +112,7 @@ export default function StatisticsDisplay({ nodeData, position, darkMode = false
         <div style={{ ...statRowStyle, marginTop: '10px', paddingTop: '10px', borderTop: `1px solid ${borderColor}`, flexDirection: 'column', gap: '5px' }}>
           <span style={{ ...labelStyle, marginBottom: '5px' }}>Local IP Addresses:</span>
           <div style={{ marginLeft: '10px', fontSize: '11px' }}>
-            {nodeData.allLocalIps.map((ipInfo: any, index: number) => (
+            {nodeData.allLocalIps.map((ipInfo, index) => (
               <div key={index} style={{ marginBottom: '3px', display: 'flex', justifyContent: 'space-between' }}>
                 <span style={{ color: labelColor, fontWeight: 'bold' }}>{ipInfo.interface}:</span>
                 <span style={{ color: valueColor, fontFamily: 'monospace', fontSize: '10px' }}>{ipInfo.ip}</span>
@@ -142,25 +143,18 @@ export default function StatisticsDisplay({ nodeData, position, darkMode = false
         </div>
       )}
 
-      {stats.fullNextHopAddress && (
-        <div style={{ ...statRowStyle, marginTop: "10px", paddingTop: "10px", borderTop: "1px solid #eee" }}>
-          <span style={labelStyle}>Full Address:</span>
-          <span style={{ ...valueStyle, fontSize: "10px", wordBreak: "break-all" }}>{stats.fullNextHopAddress}</span>
-        </div>
-      )}
-
       {Array.isArray(stats.connectedInterfaces) && stats.connectedInterfaces.length > 0 ? (
         <div style={{ ...statRowStyle, marginTop: '10px', paddingTop: '10px', borderTop: `1px solid ${borderColor}`, flexDirection: 'column' }}>
           <span style={{ ...labelStyle, marginBottom: '8px' }}>Connections:</span>
           <div style={{ marginLeft: '10px', fontSize: '11px' }}>
             {stats.connectedInterfaces
-              .filter((conn: any) => conn && conn.neighbor)
-              .map((conn: any, index: number) => (
-                <div key={index} style={{ marginBottom: '10px', paddingBottom: '8px', borderBottom: index < stats.connectedInterfaces.length - 1 ? `1px solid ${borderColor}` : 'none' }}>
+              .filter((conn) => conn && conn.neighbor)
+              .map((conn, index) => (
+                <div key={index} style={{ marginBottom: '10px', paddingBottom: '8px', borderBottom: index < stats.connectedInterfaces!.length - 1 ? `1px solid ${borderColor}` : 'none' }}>
                   <div style={{ marginBottom: '4px', display: 'flex', justifyContent: 'space-between' }}>
                     <span style={{ color: labelColor, fontWeight: 'bold' }}>{conn.interface}:</span>
-                    <span style={{ color: valueColor, fontFamily: 'monospace', fontSize: '10px' }} title={conn.neighborFullIp || conn.neighbor}>
-                      {conn.neighborFullIp || conn.neighbor}
+                    <span style={{ color: valueColor, fontFamily: 'monospace', fontSize: '10px' }} title={conn.neighbor}>
+                      {conn.neighbor}
                     </span>
                   </div>
                   {(conn.rx_packets !== undefined || conn.tx_packets !== undefined || conn.rtt_ms !== undefined) && (
@@ -0,0 +1,143 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { formatRtt, percentileValue, RTT_PERCENTILES, type LinkMetrics, type LinkMetricsRow } from "@/utils/linkMetrics"
+
+interface WorstLinksPanelProps {
+  /** Links with metrics, worst RTT first (see rankLinksByRtt) */
+  rows: LinkMetricsRow[]
+  /** Number of direct links on the map, measured or not */
+  linkCount: number
+  /** Edge id of the link currently highlighted on the map */
+  selectedId?: string | null
+  onSelect?: (row: LinkMetricsRow | null) => void
+  darkMode?: boolean
+}
+
+const LIMITS = [10, 25, 0] as const
+
+const percentileColor = (percentile: number | undefined, darkMode: boolean) =>
+  percentile === undefined ? undefined
+    : percentile > 95 ? (darkMode ? '#f87171' : '#c62828')
+      : percentile > 90 ? (darkMode ? '#fbbf24' : '#b45309')
+        : undefined
+
+// Tooltip with each end's own reading
+const endsTitle = (row: LinkMetricsRow) => {
+  const end = (node: string, metrics: LinkMetrics | undefined) => metrics
+    ? `${node}: ${[
+      metrics.rtt_ms !== undefined && `RTT ${formatRtt(metrics.rtt_ms)}`,
+      metrics.mdev_rtt_ms !== undefined && `±${formatRtt(metrics.mdev_rtt_ms)}`,
+      metrics.rx_packets !== undefined && `rx ${metrics.rx_packets.toLocaleString()}`,
+      metrics.tx_packets !== undefined && `tx ${metrics.tx_packets.toLocaleString()}`,
+    ].filter(Boolean).join(', ')}`
+    : `${node}: no reading`
+  return `${end(row.from, row.metricsA)}\n${end(row.to, row.metricsB)}`
+}
+
+export default function WorstLinksPanel({ rows, linkCount, selectedId = null, onSelect, darkMode = false }: WorstLinksPanelProps) {
+  const [limit, setLimit] = useState<number>(10)
+
+  // Colors adapt to theme - matching DataHealthPanel
+  const bgColor = darkMode ? '#0b1220' : '#ffffff'
+  const borderColor = darkMode ? '#24303a' : '#e5e7eb'
+  const headerColor = darkMode ? '#f3f4f6' : '#111827'
+  const labelColor = darkMode ? '#94a3b8' : '#6b7280'
+  const valueColor = darkMode ? '#e6eef7' : '#111827'
+  const sectionBg = darkMode ? '#1e293b' : '#f9fafb'
+
+  const rtts = rows.map((row) => row.metrics.rtt_ms).filter((ms): ms is number => ms !== undefined).sort((a, b) => a - b)
+  const shown = limit > 0 ? rows.slice(0, limit) : rows
+
+  const cellStyle: React.CSSProperties = { padding: '6px 10px', borderBottom: `1px solid ${borderColor}`, textAlign: 'left', whiteSpace: 'nowrap' }
+  const numberStyle: React.CSSProperties = { ...cellStyle, textAlign: 'right' }
+
+  return (
+    <div style={{
+      marginTop: '20px',
+      background: bgColor,
+      border: `1px solid ${borderColor}`,
+      borderRadius: '12px',
+      padding: '20px',
+      transition: 'all 0.3s ease',
+    }}>
+      <h3 style={{
+        margin: '0 0 12px 0',
+        fontSize: '18px',
+        fontWeight: 'bold',
+        color: headerColor,
+      }}>
+        Worst Links
+      </h3>
+
+      {rows.length === 0 ? (
+        <div style={{ fontSize: '13px', color: labelColor, fontStyle: 'italic' }}>
+          No route entry in this dataset reports rtt_ms, mdev_rtt_ms, rx_packets or tx_packets, so there are no link metrics to rank.
+        </div>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap', alignItems: 'center', fontSize: '13px', color: labelColor, marginBottom: '10px' }}>
+            <span>{rows.length} of {linkCount} links report metrics{rtts.length < rows.length ? ` (${rtts.length} with an RTT)` : ''}</span>
+            {rtts.length > 0 && (
+              <span>
+                {RTT_PERCENTILES.map((p) => `p${p} ${formatRtt(percentileValue(rtts, p)!)}`).join(' · ')}
+              </span>
+            )}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: 'auto' }}>
+              Show
+              <select
+                value={limit}
+                onChange={(event) => setLimit(Number(event.target.value))}
+                style={{ padding: '4px 8px', fontSize: '13px', borderRadius: '6px', border: `1px solid ${borderColor}`, background: sectionBg, color: valueColor }}
+              >
+                {LIMITS.map((n) => <option key={n} value={n}>{n > 0 ? `Worst ${n}` : 'All'}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div style={{
+            maxHeight: '360px',
+            overflowY: 'auto',
+            background: sectionBg,
+            border: `1px solid ${borderColor}`,
+            borderRadius: '8px',
+          }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', color: valueColor }}>
+              <thead>
+                <tr>
+                  {['Link', 'Interfaces', 'RTT', 'Deviation', 'Percentile', 'Rx packets', 'Tx packets'].map((label, i) => (
+                    <th key={label} style={{ ...(i >= 2 ? numberStyle : cellStyle), position: 'sticky', top: 0, background: sectionBg, color: labelColor }}>{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((row) => {
+                  const isSelected = row.edgeId === selectedId
+                  const { rtt_ms, mdev_rtt_ms, rx_packets, tx_packets } = row.metrics
+                  return (
+                    <tr
+                      key={row.edgeId}
+                      onClick={() => onSelect?.(isSelected ? null : row)}
+                      style={{ cursor: 'pointer', background: isSelected ? (darkMode ? '#334155' : '#e0f2fe') : 'transparent' }}
+                      title={`${endsTitle(row)}\n${isSelected ? 'Click to clear the highlight' : 'Highlight this link on the map'}`}
+                    >
+                      <td style={{ ...cellStyle, fontWeight: 'bold' }}>{row.from} ↔ {row.to}</td>
+                      <td style={cellStyle}>{row.label}</td>
+                      <td style={{ ...numberStyle, fontWeight: 'bold', color: percentileColor(row.rttPercentile, darkMode) }}>{rtt_ms !== undefined ? formatRtt(rtt_ms) : '—'}</td>
+                      <td style={numberStyle}>{mdev_rtt_ms !== undefined ? `±${formatRtt(mdev_rtt_ms)}` : '—'}</td>
+                      <td style={numberStyle}>{row.rttPercentile !== undefined ? `p${Math.round(row.rttPercentile)}` : '—'}</td>
+                      <td style={numberStyle}>{rx_packets !== undefined ? rx_packets.toLocaleString() : '—'}</td>
+                      <td style={numberStyle}>{tx_packets !== undefined ? tx_packets.toLocaleString() : '—'}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,7 @@
-// Dataset configuration - add new datasets here
+// Dataset configuration. The header selector normally lists the directory
+// served by /api/datasets (DATASETS_DIR, default public/); these entries give
+// the bundled captures their display names and are the fallback list when the
+// API is unavailable.
 export const DATASETS = {
   "Yoda 12 Node": {
     dataFile: "/data-12Node.json",
@@ -11,28 +14,20 @@ export const DATASETS = {
   "EST4 150 Node": {
     dataFile: "/data-150Node.json",
     positionsFile: "/query-150Node.json"
-  }
-} as const;
-
-export type DatasetName = keyof typeof DATASETS;
-
-
-/*
-// Dataset configuration - add new datasets here
-export const DATASETS = {
-  "Yoda 12 Node": {
+  },
+  // Later captures of the same networks, kept alongside for before/after comparison
+  "Yoda 12 Node (new)": {
     dataFile: "/new_12_data.json",
     positionsFile: "/query_new_12node.json"
   },
-  "Yoda 28 Node": {
+  "Yoda 28 Node (new)": {
     dataFile: "/new_28_data.json",
     positionsFile: "/query_new_28node.json"
   },
-  "EST4 150 Node": {
+  "EST4 150 Node (new)": {
     dataFile: "/new_150_data.json",
     positionsFile: "/query_new_150node.json"
   }
 } as const;
 
 export type DatasetName = keyof typeof DATASETS;
-*/
\ No newline at end of file
@@ -4,3 +4,8 @@ import { twMerge } from 'tailwind-merge'
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/** Message of a caught error, whatever was thrown */
+export function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err)
+}
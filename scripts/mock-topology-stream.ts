@@ -0,0 +1,180 @@
+// Development stand-in for the backend's push channel. Serves topology deltas for
+// one dataset as Server-Sent Events (/events) and over a WebSocket (/ws), taking
+// links and nodes down, rerouting sources, and later restoring what it broke.
+//
+//   npm run mock:stream -- [--file public/data-28Node.json] [--port 8787] [--interval 4000]
+//
+// Point the app at it with NEXT_PUBLIC_TOPOLOGY_STREAM_URL (defaults to
+// http://localhost:8787/events) and press "Live Stream" with the same dataset open.
+
+import { createServer, type ServerResponse } from "node:http"
+import { createHash } from "node:crypto"
+import { readFileSync } from "node:fs"
+import type { Duplex } from "node:stream"
+import { parseBackendPayload, type BackendNodeEntry } from "../utils/backendSchema"
+import type { TopologyDelta } from "../utils/topologyDeltas"
+
+const arg = (name: string, fallback: string) => {
+  const index = process.argv.indexOf(`--${name}`)
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback
+}
+
+const file = arg("file", "public/data-28Node.json")
+const port = Number(arg("port", "8787"))
+const interval = Number(arg("interval", "4000"))
+
+const { entries } = parseBackendPayload(JSON.parse(readFileSync(file, "utf8")))
+if (entries.length === 0) {
+  console.error(`${file} has no usable node entries`)
+  process.exit(1)
+}
+
+// ---------------------------------------------------------------------------
+// Scenario: break something, then restore it a few ticks later
+// ---------------------------------------------------------------------------
+
+const pick = <T>(items: T[]): T | undefined => items[Math.floor(Math.random() * items.length)]
+const owns = (entry: BackendNodeEntry, ip: string) => entry.localIpInfo.some((li) => li.localIp.toLowerCase() === ip.toLowerCase())
+const ownerOf = (ip: string) => entries.find((entry) => owns(entry, ip))
+
+// Nodes involved in a change that has not been restored yet
+const busy = new Set<string>()
+const pendingRestores: Array<{ nodes: string[], deltas: TopologyDelta[] }> = []
+
+const linkDown = (): TopologyDelta[] | null => {
+  const entry = pick(entries.filter((e) => !busy.has(e.nodeName) && e.neighIpInfo.length > 0))
+  const neighbor = entry && pick(entry.neighIpInfo)
+  const peer = neighbor && ownerOf(neighbor.neighIp)
+  if (!entry || !neighbor || !peer || busy.has(peer.nodeName)) return null
+  const back = peer.neighIpInfo.find((n) => owns(entry, n.neighIp))
+
+  const down: TopologyDelta[] = [{ type: "neighbor-removed", nodeName: entry.nodeName, interface: neighbor.interface, neighIp: neighbor.neighIp }]
+  const up: TopologyDelta[] = [{ type: "neighbor-added", nodeName: entry.nodeName, interface: neighbor.interface, neighIp: neighbor.neighIp }]
+  if (back) {
+    down.push({ type: "neighbor-removed", nodeName: peer.nodeName, interface: back.interface, neighIp: back.neighIp })
+    up.push({ type: "neighbor-added", nodeName: peer.nodeName, interface: back.interface, neighIp: back.neighIp })
+  }
+  pendingRestores.push({ nodes: [entry.nodeName, peer.nodeName], deltas: up })
+  return down
+}
+
+const nodeDown = (): TopologyDelta[] | null => {
+  const entry = pick(entries.filter((e) => !busy.has(e.nodeName) && e.localIpInfo.length > 0))
+  if (!entry) return null
+  // Coming back means the node and every neighbor re-announce their links to each other
+  const up: TopologyDelta[] = [{ type: "node-up", nodeName: entry.nodeName, localIpInfo: entry.localIpInfo }]
+  for (const n of entry.neighIpInfo) up.push({ type: "neighbor-added", nodeName: entry.nodeName, interface: n.interface, neighIp: n.neighIp })
+  for (const other of entries) {
+    if (other === entry) continue
+    for (const n of other.neighIpInfo) {
+      if (owns(entry, n.neighIp)) up.push({ type: "neighbor-added", nodeName: other.nodeName, interface: n.interface, neighIp: n.neighIp })
+    }
+    // Routes for traffic from the node expire while it is down
+    for (const r of other.routeInfo) {
+      if (r.iifNeighNode && (owns(entry, r.sourceNode) || r.sourceNode === entry.nodeName)) {
+        up.push({ type: "route-changed", nodeName: other.nodeName, sourceNode: r.sourceNode, incomingInterface: r.incomingInterface, iifNeighNode: r.iifNeighNode })
+      }
+    }
+  }
+  pendingRestores.push({ nodes: [entry.nodeName], deltas: up })
+  return [{ type: "node-down", nodeName: entry.nodeName }]
+}
+
+const reroute = (): TopologyDelta[] | null => {
+  const entry = pick(entries.filter((e) => !busy.has(e.nodeName) && e.neighIpInfo.length > 1 && e.routeInfo.some((r) => r.iifNeighNode)))
+  const route = entry && pick(entry.routeInfo.filter((r) => r.iifNeighNode))
+  const detour = entry && route && pick(entry.neighIpInfo.filter((n) => n.neighIp !== route.iifNeighNode))
+  if (!entry || !route || !detour) return null
+  pendingRestores.push({
+    nodes: [entry.nodeName],
+    deltas: [{ type: "route-changed", nodeName: entry.nodeName, sourceNode: route.sourceNode, incomingInterface: route.incomingInterface, iifNeighNode: route.iifNeighNode! }],
+  })
+  return [{ type: "route-changed", nodeName: entry.nodeName, sourceNode: route.sourceNode, incomingInterface: detour.interface, iifNeighNode: detour.neighIp }]
+}
+
+const nextBatch = (): TopologyDelta[] | null => {
+  if (pendingRestores.length > 0 && (pendingRestores.length >= 3 || Math.random() < 0.4)) {
+    const restore = pendingRestores.shift()!
+    restore.nodes.forEach((name) => busy.delete(name))
+    return restore.deltas
+  }
+  const before = pendingRestores.length
+  const deltas = (pick([linkDown, nodeDown, reroute]) || linkDown)()
+  if (deltas && pendingRestores.length > before) pendingRestores[pendingRestores.length - 1].nodes.forEach((name) => busy.add(name))
+  return deltas
+}
+
+// ---------------------------------------------------------------------------
+// Transports
+// ---------------------------------------------------------------------------
+
+const sseClients = new Set<ServerResponse>()
+const wsClients = new Set<Duplex>()
+
+// Unmasked single-frame text message (server -> client)
+const wsTextFrame = (text: string) => {
+  const payload = Buffer.from(text)
+  const length = payload.length
+  const header = length < 126
+    ? Buffer.from([0x81, length])
+    : length < 65536
+      ? Buffer.from([0x81, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x81, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(length)); return b })()])
+  return Buffer.concat([header, payload])
+}
+
+const broadcast = (deltas: TopologyDelta[]) => {
+  const message = JSON.stringify(deltas)
+  sseClients.forEach((res) => res.write(`data: ${message}\n\n`))
+  wsClients.forEach((socket) => socket.write(wsTextFrame(message)))
+  console.log(`[mock-stream] ${deltas.map((d) => `${d.type} ${d.nodeName}`).join(", ")} -> ${sseClients.size + wsClients.size} client(s)`)
+}
+
+const server = createServer((req, res) => {
+  if (req.url?.startsWith("/events")) {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store",
+      Connection: "keep-alive",
+      "Access-Control-Allow-Origin": "*",
+    })
+    res.write(": connected\n\n")
+    sseClients.add(res)
+    req.on("close", () => sseClients.delete(res))
+    return
+  }
+  res.writeHead(404, { "Content-Type": "text/plain", "Access-Control-Allow-Origin": "*" })
+  res.end("Use /events (SSE) or /ws (WebSocket)\n")
+})
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"]
+  if (!req.url?.startsWith("/ws") || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n")
+    return
+  }
+  const accept = createHash("sha1").update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest("base64")
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`)
+  wsClients.add(socket)
+  // Clients only ever send a close frame (opcode 8); answer it and drop the socket
+  socket.on("data", (chunk: Buffer) => {
+    if ((chunk[0] & 0x0f) === 0x8) {
+      socket.end(Buffer.from([0x88, 0]))
+      wsClients.delete(socket)
+    }
+  })
+  socket.on("close", () => wsClients.delete(socket))
+  socket.on("error", () => wsClients.delete(socket))
+})
+
+setInterval(() => {
+  const deltas = nextBatch()
+  if (deltas) broadcast(deltas)
+}, interval)
+
+// Keep idle SSE connections from being closed by proxies
+setInterval(() => sseClients.forEach((res) => res.write(": ping\n\n")), 15000)
+
+server.listen(port, () => {
+  console.log(`[mock-stream] ${entries.length} nodes from ${file}; SSE on http://localhost:${port}/events, WebSocket on ws://localhost:${port}/ws`)
+})
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest"
+import { parseBackendPayload } from "./backendSchema"
+
+describe("parseBackendPayload", () => {
+  const entry = {
+    nodeName: "Node00b01979a001",
+    localIpInfo: [{ interface: "eth0", localIp: "2001:db8::a001" }],
+    neighIpInfo: [{ interface: "eth0", neighIp: "2001:db8::a002" }],
+    routeInfo: [{ sourceNode: "2001:db8::a002", incomingInterface: "eth0", iifNeighNode: "2001:db8::a002", rtt_ms: "1.5" }],
+  }
+
+  it("reads the same entry from every payload shape", () => {
+    const shapes = [
+      { networkMap: { nodeRouteInfo: [entry] } },
+      { network_map: [entry] },
+      { networkMap: { a001: entry } },
+      [entry],
+      entry,
+    ]
+    for (const shape of shapes) {
+      const { entries, issues } = parseBackendPayload(shape)
+      expect(issues).toEqual([])
+      expect(entries.map(({ nodeName, localIpInfo, neighIpInfo, routeInfo }) => ({ nodeName, localIpInfo, neighIpInfo, routeInfo }))).toEqual([entry])
+    }
+  })
+
+  it("resolves snake_case aliases to the canonical fields and keeps their spelling in item paths", () => {
+    const { entries, issues } = parseBackendPayload({
+      status: "SUCCESS",
+      network_map: [{
+        node_name: "Node00b01979a001",
+        local_ip_info: [{ iface: "eth0", local_ip: "2001:db8::a001" }],
+        neigh_ip_info: [{ neigh_ip: "2001:db8::a002" }],
+        route_info: [{ source_node: "2001:db8::a002", iif: "eth0", next_hop: "2001:db8::a002", rttMs: 2 }],
+      }],
+    })
+
+    expect(issues).toEqual([])
+    expect(entries[0]).toMatchObject({
+      nodeName: "Node00b01979a001",
+      localIpInfo: [{ interface: "eth0", localIp: "2001:db8::a001" }],
+      neighIpInfo: [{ neighIp: "2001:db8::a002" }],
+      routeInfo: [{ sourceNode: "2001:db8::a002", incomingInterface: "eth0", iifNeighNode: "2001:db8::a002", rtt_ms: 2 }],
+      path: "$.network_map[0]",
+    })
+    expect(entries[0].itemPaths.neighIpInfo).toEqual(["$.network_map[0].neigh_ip_info[0]"])
+  })
+
+  it("drops invalid items with an issue at their path and keeps the rest", () => {
+    const { entries, issues } = parseBackendPayload({
+      networkMap: {
+        nodeRouteInfo: [
+          { nodeName: "" },
+          { ...entry, neighIpInfo: [{ neighIp: "   " }, { neighIp: "2001:db8::a003" }] },
+          { node_name: 42, localIpInfo: "eth0" },
+        ],
+      },
+    })
+
+    expect(issues).toEqual([
+      { path: "$.networkMap.nodeRouteInfo[0].nodeName", message: "nodeName is empty" },
+      { path: "$.networkMap.nodeRouteInfo[1].neighIpInfo[0].neighIp", message: "neighIp is empty" },
+      { path: "$.networkMap.nodeRouteInfo[2].localIpInfo", message: "Expected an array" },
+    ])
+    expect(entries.map((e) => e.nodeName)).toEqual(["Node00b01979a001", "42"])
+    expect(entries[0].neighIpInfo).toEqual([{ neighIp: "2001:db8::a003" }])
+    expect(entries[0].itemPaths.neighIpInfo).toEqual(["$.networkMap.nodeRouteInfo[1].neighIpInfo[1]"])
+  })
+
+  it("reports a payload without node entries", () => {
+    expect(parseBackendPayload({ networkMap: { nodeRouteInfo: [] } }).issues).toEqual([{ path: "$", message: "Payload contains no node entries" }])
+    expect(parseBackendPayload("nope").issues).toEqual([{ path: "$", message: "Payload must be a JSON object or array" }])
+  })
+})
@@ -0,0 +1,324 @@
+import { z } from "zod"
+
+// Types and runtime validation for the networkMap/nodeRouteInfo payload produced
+// by the C++ backend. The backend has emitted both camelCase and snake_case field
+// names over time, so every field is first resolved through its known aliases and
+// then validated against a single canonical (camelCase) shape.
+
+// Some backend builds send numeric ids (e.g. a nodeName of 1234) as JSON numbers
+const requiredString = (what: string) =>
+  z.preprocess(
+    (value) => typeof value === "number" ? String(value) : value,
+    z.string({ required_error: `${what} is missing`, invalid_type_error: `${what} must be a string` }).trim().min(1, `${what} is empty`),
+  )
+
+const optionalString = (what: string) =>
+  z.string({ invalid_type_error: `${what} must be a string` }).optional()
+
+// Counters and timings arrive as strings or numbers depending on the backend build
+const optionalMetric = (what: string) =>
+  z.union([z.string(), z.number()], { invalid_type_error: `${what} must be a string or number` }).optional()
+
+export const localIpInfoSchema = z.object({
+  interface: optionalString("interface"),
+  localIp: requiredString("localIp"),
+})
+
+export const neighIpInfoSchema = z.object({
+  interface: optionalString("interface"),
+  neighIp: requiredString("neighIp"),
+})
+
+export const routeInfoSchema = z.object({
+  sourceNode: requiredString("sourceNode"),
+  incomingInterface: optionalString("incomingInterface"),
+  iifNeighNode: optionalString("iifNeighNode"),
+  rx_packets: optionalMetric("rx_packets"),
+  tx_packets: optionalMetric("tx_packets"),
+  rtt_ms: optionalMetric("rtt_ms"),
+  mdev_rtt_ms: optionalMetric("mdev_rtt_ms"),
+})
+
+export type BackendLocalIp = z.infer<typeof localIpInfoSchema>
+export type BackendNeighbor = z.infer<typeof neighIpInfoSchema>
+export type BackendRoute = z.infer<typeof routeInfoSchema>
+
+export interface BackendNodeEntry {
+  nodeName: string
+  localIpInfo: BackendLocalIp[]
+  neighIpInfo: BackendNeighbor[]
+  routeInfo: BackendRoute[]
+  /** JSON path of this entry in the original payload, e.g. `$.networkMap.nodeRouteInfo[3]` */
+  path: string
+  /** JSON paths of the list items above in the original payload, spelled as found, e.g. `$.networkMap.nodeRouteInfo[3].neigh_ip_info[1]` */
+  itemPaths: Record<"localIpInfo" | "neighIpInfo" | "routeInfo", string[]>
+}
+
+export interface PayloadIssue {
+  /** JSON path of the offending value, e.g. `$.networkMap.nodeRouteInfo[3].neighIpInfo[1].neighIp` */
+  path: string
+  message: string
+}
+
+export interface ParsedBackendPayload {
+  status?: string
+  entries: BackendNodeEntry[]
+  issues: PayloadIssue[]
+}
+
+// Accepted spellings for each canonical field, in lookup priority order
+const NODE_ALIASES = {
+  nodeName: ["nodeName", "node_name", "name"],
+  localIpInfo: ["localIpInfo", "local_ip_info", "local_ip_infos"],
+  neighIpInfo: ["neighIpInfo", "neigh_ip_info", "neigh_infos", "neigh_list"],
+  routeInfo: ["routeInfo", "route_info", "route_infos"],
+}
+
+const LOCAL_IP_ALIASES = {
+  interface: ["interface", "iface"],
+  localIp: ["localIp", "local_ip", "ip", "address"],
+}
+
+const NEIGHBOR_ALIASES = {
+  interface: ["interface", "iface"],
+  neighIp: ["neighIp", "neigh_ip", "neigh_node", "neigh", "id"],
+}
+
+const ROUTE_ALIASES = {
+  sourceNode: ["sourceNode", "source_node", "source", "source_ip", "src"],
+  incomingInterface: ["incomingInterface", "incoming_interface", "iif", "iface", "via"],
+  iifNeighNode: ["iifNeighNode", "iif_neigh_node", "next_hop", "nextHop"],
+  rx_packets: ["rx_packets", "rxPackets"],
+  tx_packets: ["tx_packets", "txPackets"],
+  rtt_ms: ["rtt_ms", "rttMs"],
+  mdev_rtt_ms: ["mdev_rtt_ms", "mdevRttMs"],
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+// An empty string counts as present, so it is reported as empty rather than missing
+const isPresent = (value: unknown) => value !== undefined && value !== null
+
+/**
+ * Resolve each canonical field through its aliases. Returns the canonical object
+ * together with the key that was actually used, so issues can point at the
+ * spelling found in the payload.
+ */
+const resolveAliases = (raw: Record<string, unknown>, aliases: Record<string, string[]>) => {
+  const value: Record<string, unknown> = {}
+  const keys: Record<string, string> = {}
+  for (const [field, names] of Object.entries(aliases)) {
+    const found = names.find((name) => isPresent(raw[name]))
+    if (found) {
+      value[field] = raw[found]
+      keys[field] = found
+    }
+  }
+  return { value, keys }
+}
+
+const formatPath = (base: string, key: string | number) =>
+  typeof key === "number" ? `${base}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${base}.${key}` : `${base}[${JSON.stringify(key)}]`
+
+const looksLikeNodeEntry = (value: unknown) =>
+  isRecord(value) && Object.values(NODE_ALIASES).some((names) => names.some((name) => isPresent(value[name])))
+
+/**
+ * Find the node entries in any of the payload shapes the backend has produced:
+ * `{ networkMap: { nodeRouteInfo: [...] } }`, `{ network_map: [...] }`, a keyed
+ * object of entries, a bare array, or a single node object.
+ */
+const locateNodeEntries = (json: unknown, issues: PayloadIssue[]): Array<{ value: unknown, path: string }> => {
+  const fromArray = (values: unknown[], base: string) => values.map((value, i) => ({ value, path: formatPath(base, i) }))
+
+  if (Array.isArray(json)) return fromArray(json, "$")
+  if (!isRecord(json)) {
+    issues.push({ path: "$", message: "Payload must be a JSON object or array" })
+    return []
+  }
+
+  const mapKey = ["networkMap", "network_map"].find((key) => isPresent(json[key]))
+  if (!mapKey) return [{ value: json, path: "$" }]
+
+  const mapPath = formatPath("$", mapKey)
+  const networkMap = json[mapKey]
+  if (Array.isArray(networkMap)) return fromArray(networkMap, mapPath)
+  if (!isRecord(networkMap)) {
+    issues.push({ path: mapPath, message: "networkMap must be an object or array" })
+    return []
+  }
+
+  const listKey = ["nodeRouteInfo", "node_route_info"].find((key) => isPresent(networkMap[key]))
+  if (listKey) {
+    const listPath = formatPath(mapPath, listKey)
+    const list = networkMap[listKey]
+    if (!Array.isArray(list)) {
+      issues.push({ path: listPath, message: "nodeRouteInfo must be an array" })
+      return []
+    }
+    return fromArray(list, listPath)
+  }
+
+  const values = Object.entries(networkMap)
+  if (values.length > 0 && values.every(([, value]) => looksLikeNodeEntry(value))) {
+    return values.map(([key, value]) => ({ value, path: formatPath(mapPath, key) }))
+  }
+  return [{ value: networkMap, path: mapPath }]
+}
+
+/**
+ * Validate every item of one node's list field (localIpInfo, neighIpInfo, routeInfo).
+ * Items that fail validation are dropped from the result and reported as issues;
+ * `paths` holds the JSON path of each item kept.
+ */
+const parseList = <T extends z.ZodTypeAny>(
+  raw: unknown,
+  listPath: string,
+  aliases: Record<string, string[]>,
+  schema: T,
+  issues: PayloadIssue[],
+): { items: Array<z.infer<T>>, paths: string[] } => {
+  const items: Array<z.infer<T>> = []
+  const paths: string[] = []
+  if (raw === undefined) return { items, paths }
+  if (!Array.isArray(raw)) {
+    issues.push({ path: listPath, message: "Expected an array" })
+    return { items, paths }
+  }
+
+  raw.forEach((item, i) => {
+    const itemPath = formatPath(listPath, i)
+    if (!isRecord(item)) {
+      issues.push({ path: itemPath, message: "Expected an object" })
+      return
+    }
+    const { value, keys } = resolveAliases(item, aliases)
+    const result = schema.safeParse(value)
+    if (result.success) {
+      items.push(result.data)
+      paths.push(itemPath)
+      return
+    }
+    for (const zodIssue of result.error.issues) {
+      const field = zodIssue.path[0]
+      const path = typeof field === "string" ? formatPath(itemPath, keys[field] ?? field) : itemPath
+      issues.push({ path, message: zodIssue.message })
+    }
+  })
+  return { items, paths }
+}
+
+/**
+ * Parse and validate a backend payload. Never throws for malformed content:
+ * invalid node entries and list items are left out of `entries` and described
+ * in `issues`, each with the JSON path of the problem.
+ */
+export function parseBackendPayload(json: unknown): ParsedBackendPayload {
+  const issues: PayloadIssue[] = []
+  const entries: BackendNodeEntry[] = []
+
+  const status = isRecord(json) && typeof json.status === "string" ? json.status : undefined
+
+  for (const { value: raw, path } of locateNodeEntries(json, issues)) {
+    if (!isRecord(raw)) {
+      issues.push({ path, message: "Node entry must be an object" })
+      continue
+    }
+
+    const { value, keys } = resolveAliases(raw, NODE_ALIASES)
+    const nodeName = requiredString("nodeName").safeParse(value.nodeName)
+    if (!nodeName.success) {
+      issues.push({ path: formatPath(path, keys.nodeName ?? "nodeName"), message: nodeName.error.issues[0].message })
+      continue
+    }
+
+    const localIpInfo = parseList(value.localIpInfo, formatPath(path, keys.localIpInfo ?? "localIpInfo"), LOCAL_IP_ALIASES, localIpInfoSchema, issues)
+    const neighIpInfo = parseList(value.neighIpInfo, formatPath(path, keys.neighIpInfo ?? "neighIpInfo"), NEIGHBOR_ALIASES, neighIpInfoSchema, issues)
+    const routeInfo = parseList(value.routeInfo, formatPath(path, keys.routeInfo ?? "routeInfo"), ROUTE_ALIASES, routeInfoSchema, issues)
+    entries.push({
+      nodeName: nodeName.data,
+      localIpInfo: localIpInfo.items,
+      neighIpInfo: neighIpInfo.items,
+      routeInfo: routeInfo.items,
+      path,
+      itemPaths: { localIpInfo: localIpInfo.paths, neighIpInfo: neighIpInfo.paths, routeInfo: routeInfo.paths },
+    })
+  }
+
+  if (entries.length === 0 && issues.length === 0) {
+    issues.push({ path: "$", message: "Payload contains no node entries" })
+  }
+
+  return { status, entries, issues }
+}
+
+// ---------------------------------------------------------------------------
+// query-*.json: per-node inventory records (`{ status, nodeInfo: [...] }`)
+// ---------------------------------------------------------------------------
+
+export const queryNodeInfoSchema = z.object({
+  nodeName: requiredString("nodeName"),
+  nodeId: optionalString("nodeId"),
+  ipAddress: optionalString("ipAddress"),
+  nodeLabelPath: optionalString("nodeLabelPath"),
+  firmwareVersion: optionalString("firmwareVersion"),
+  baselineFirmwareVersion: optionalString("baselineFirmwareVersion"),
+  configurationVersion: optionalString("configurationVersion"),
+  cuVersion: optionalString("cuVersion"),
+  projectGuid: optionalString("projectGuid"),
+  configurationGuid: optionalString("configurationGuid"),
+  archiveGuid: optionalString("archiveGuid"),
+  archiveVersion: optionalString("archiveVersion"),
+  schemaVersion: optionalString("schemaVersion"),
+  cpuType: optionalString("cpuType"),
+  brandType: optionalString("brandType"),
+  freeDiskSpaceMb: optionalMetric("freeDiskSpaceMb"),
+}).passthrough()
+
+export type QueryNodeInfo = z.infer<typeof queryNodeInfoSchema>
+
+export interface ParsedQueryPayload {
+  status?: string
+  nodes: QueryNodeInfo[]
+  issues: PayloadIssue[]
+}
+
+/**
+ * Parse and validate a query payload. Like `parseBackendPayload`, invalid
+ * records are left out of `nodes` and described in `issues`.
+ */
+export function parseQueryPayload(json: unknown): ParsedQueryPayload {
+  const issues: PayloadIssue[] = []
+  const nodes: QueryNodeInfo[] = []
+
+  if (!isRecord(json)) {
+    issues.push({ path: "$", message: "Query payload must be a JSON object" })
+    return { nodes, issues }
+  }
+
+  const status = typeof json.status === "string" ? json.status : undefined
+  if (json.nodeInfo === undefined) {
+    issues.push({ path: "$.nodeInfo", message: "nodeInfo is missing" })
+    return { status, nodes, issues }
+  }
+  if (!Array.isArray(json.nodeInfo)) {
+    issues.push({ path: "$.nodeInfo", message: "Expected an array" })
+    return { status, nodes, issues }
+  }
+
+  json.nodeInfo.forEach((item, i) => {
+    const itemPath = formatPath("$.nodeInfo", i)
+    const result = queryNodeInfoSchema.safeParse(item)
+    if (result.success) {
+      nodes.push(result.data)
+      return
+    }
+    for (const zodIssue of result.error.issues) {
+      const path = zodIssue.path.reduce<string>((acc, key) => formatPath(acc, key), itemPath)
+      issues.push({ path, message: zodIssue.message })
+    }
+  })
+
+  return { status, nodes, issues }
+}
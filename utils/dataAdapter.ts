@@ -1,4 +1,102 @@
 import { DataSet } from "vis-data"
+import type { Edge as VisEdge, Node as VisNode } from "vis-network"
+import { parseBackendPayload, type BackendLocalIp, type BackendNodeEntry, type ParsedBackendPayload, type PayloadIssue } from "./backendSchema"
+import { buildNodeIdentityIndex, primaryAddress, shortNodeId, type NodeIdentityIndex } from "./nodeIdentity"
+import { combineLinkMetrics, linkEndMetrics, type LinkMetrics } from "./linkMetrics"
+
+/** Receiver node id -> source node id -> how traffic from that source arrives */
+export type RouteTable = Map<string, Map<string, { nextHop: string, interface: string }>>
+
+/** One local interface address of a node, as listed in the hover card */
+export interface InterfaceAddress {
+  interface: string
+  ip: string
+}
+
+/** A node as convertPhysicalOnly produces it; the views add vis-network styling on top */
+export interface MapNode extends VisNode {
+  id: string
+  label: string
+  /** 'target' for nodes with their own entry, 'neighbor' or 'source' for nodes only referenced by one */
+  type?: string
+  /** Node name as the backend spells it */
+  nodeName?: string
+  /** Primary interface address */
+  fullAddress?: string
+  /** Local addresses, eth0 first */
+  allLocalIps?: InterfaceAddress[]
+  localInterfaces?: Array<{ interface: BackendLocalIp["interface"], ip: string }>
+  /** Interface a neighbor was listed on, or the next hop and interface a route source arrives through */
+  interface?: string
+  nextHop?: string
+  viaInterface?: string
+  /** Summary node of a collapsed NCA group (see utils/nodeGroups.ts) */
+  groupKey?: string
+  memberCount?: number
+  /** Traffic summary of the generic device formats; defaults for backend nodes */
+  rx?: string
+  tx?: string
+  traffic?: string
+  latency?: string
+  packetLoss?: string
+  uptime?: string
+}
+
+/** A link as convertPhysicalOnly produces it, with the combined metrics of both ends on direct links */
+export interface MapEdge extends VisEdge, LinkMetrics {
+  id: string
+  from: string
+  to: string
+  /** 'direct' for physical links, 'route' for the hidden route entries, 'group' for collapsed groups' links */
+  edgeType?: string
+  /** Interface and neighbor address as listed by the `from` (A) and `to` (B) ends */
+  interfaceA?: string
+  interfaceB?: string
+  neighborIpA?: string
+  neighborIpB?: string
+  /** Each end's reading of the link */
+  metricsA?: LinkMetrics
+  metricsB?: LinkMetrics
+  nextHop?: string
+  /** Route entry between nodes that also share a direct link */
+  redundant?: boolean
+  /** Number of links a collapsed group's edge stands for */
+  count?: number
+}
+
+/**
+ * Device in the generic topology formats convertToVisNetwork also accepts. The
+ * alternative field names are read when the map's own are missing.
+ */
+type GenericDevice = Partial<MapNode> & {
+  nodeId?: string
+  deviceId?: string
+  name?: string
+  hostname?: string
+  rxRate?: string
+  receivedRate?: string
+  txRate?: string
+  transmitRate?: string
+  utilization?: string
+  delay?: string
+  loss?: string
+  availability?: string
+  connections?: GenericConnection[]
+}
+
+/** Connection in the generic topology formats, with its alternative field names */
+type GenericConnection = Partial<MapEdge> & {
+  edgeId?: string
+  source?: string
+  sourceId?: string
+  target?: string
+  targetId?: string
+  name?: string
+  isDashed?: boolean
+  traffic?: string | number
+  utilization?: string | number
+  bandwidth?: string | number
+}
 
 export class NetworkDataAdapter {
   /**
@@ -7,7 +105,7 @@ export class NetworkDataAdapter {
    * multiple physical links between two nodes via different interfaces).
    * Returns { pathEdges: string[], pathNodes: string[] } with ALL matching edges.
    */
-  static findAllPaths(nodes: any[], edges: any[], sourceId: string, targetId: string, backendJson?: any) {
+  static findAllPaths(nodes: MapNode[], edges: MapEdge[], sourceId: string, targetId: string, routeTable?: RouteTable) {
     if (!sourceId || !targetId) throw new Error("Source and target must be provided")
     if (sourceId === targetId) return { pathEdges: [], pathNodes: [sourceId] }
     
@@ -37,9 +135,9 @@ export class NetworkDataAdapter {
     // Not direct neighbors - try route-based pathfinding for single path
     // For multi-hop paths, we currently only find one path
     // (multi-hop multicast routing would require more complex analysis)
-    if (backendJson && (backendJson.network_map || backendJson.networkMap)) {
+    if (routeTable) {
       try {
-        return this.findPathUsingRouteInfo(sourceId, targetId, backendJson, edges)
+        return this.findPathUsingRouteInfo(sourceId, targetId, routeTable, edges)
       } catch (err) {
         console.warn('Route-based pathfinding failed, falling back to BFS:', err)
       }
@@ -52,7 +150,7 @@ export class NetworkDataAdapter {
   /**
    * Helper to find ALL edges between two nodes (for multicast with multiple physical links)
    */
-  private static findAllEdgesBetween(edges: any[], nodeA: string, nodeB: string): string[] {
+  private static findAllEdgesBetween(edges: MapEdge[], nodeA: string, nodeB: string): string[] {
     const result: string[] = []
     console.log(`[findAllEdgesBetween] Looking for edges between '${nodeA}' and '${nodeB}'`)
     console.log(`[findAllEdgesBetween] Total edges to check: ${edges.length}`)
@@ -73,10 +171,10 @@ export class NetworkDataAdapter {
   /**
    * Find path between source and target node IDs using the route_info table.
    * This method traces the path by following route entries from each intermediate
-   * node toward the target, using the actual routing information from the backend JSON.
+   * node toward the target, using the route table built from the backend JSON.
    * Returns { pathEdges: string[], pathNodes: string[] } or throws error.
    */
-  static findPath(nodes: any[], edges: any[], sourceId: string, targetId: string, backendJson?: any) {
+  static findPath(nodes: MapNode[], edges: MapEdge[], sourceId: string, targetId: string, routeTable?: RouteTable) {
     if (!sourceId || !targetId) throw new Error("Source and target must be provided")
     if (sourceId === targetId) return { pathEdges: [], pathNodes: [sourceId] }
     
@@ -84,11 +182,10 @@ export class NetworkDataAdapter {
     if (!nodeIds.has(sourceId)) throw new Error(`Source node '${sourceId}' not found`)
     if (!nodeIds.has(targetId)) throw new Error(`Target node '${targetId}' not found`)
 
-    // If backendJson with route_info is provided, try route-based pathfinding first
-    // Support both snake_case (network_map) and camelCase (networkMap)
-    if (backendJson && (backendJson.network_map || backendJson.networkMap)) {
+    // If a route table is provided, try route-based pathfinding first
+    if (routeTable) {
       try {
-        return this.findPathUsingRouteInfo(sourceId, targetId, backendJson, edges)
+        return this.findPathUsingRouteInfo(sourceId, targetId, routeTable, edges)
       } catch (err) {
         console.warn('Route-based pathfinding failed, falling back to BFS:', err)
         // Fall through to BFS
@@ -99,6 +196,55 @@ export class NetworkDataAdapter {
     return this.findPathBFS(sourceId, targetId, edges, true)
   }
 
+  /**
+   * Normalize a single node reference to its short id (see utils/nodeIdentity.ts),
+   * together with the full address when the reference carries one. References
+   * that may belong to another node's interface go through the identity index.
+   */
+  static normalizeNodeId(raw: unknown): { id: string, fullAddress: string | undefined } {
+    const s = raw === undefined || raw === null ? '' : String(raw).trim()
+    const isAddress = s.includes(':') || (s.startsWith('Node') && s.length > 4)
+    return { id: shortNodeId(s), fullAddress: isAddress ? s : undefined }
+  }
+
+  /**
+   * Build the routing table from the backend route_info entries.
+   * Maps receiver node -> source node -> { nextHop, interface }, i.e. for each node,
+   * which neighbor (and incoming interface) traffic from a given source arrives through.
+   */
+  static buildRouteTable(backendJson: unknown): RouteTable {
+    const { entries } = parseBackendPayload(backendJson)
+    return this.buildRouteTableFromEntries(entries, buildNodeIdentityIndex(entries))
+  }
+
+  /**
+   * buildRouteTable over node entries that are already parsed. Receivers, sources
+   * and next hops resolve through `identity`, the index the map's nodes use.
+   */
+  static buildRouteTableFromEntries(nodeList: BackendNodeEntry[], identity: NodeIdentityIndex): RouteTable {
+    const forwardRoutes: RouteTable = new Map()
+
+    for (const entry of nodeList) {
+      const nodeId = identity.resolve(entry.nodeName)
+      if (!nodeId) continue
+      
+      for (const route of entry.routeInfo) {
+        const srcId = identity.resolve(route.sourceNode)
+        const nextHopId = identity.resolve(route.iifNeighNode)
+        const iface = route.incomingInterface || ''
+        
+        if (srcId && nextHopId) {
+          if (!forwardRoutes.has(nodeId)) {
+            forwardRoutes.set(nodeId, new Map())
+          }
+          forwardRoutes.get(nodeId)!.set(srcId, { nextHop: nextHopId, interface: iface })
+        }
+      }
+    }
+
+    return forwardRoutes
+  }
+
   /**
    * Route-based pathfinding: Follow the route_info table from the backend JSON.
    * 
@@ -108,32 +254,7 @@ export class NetworkDataAdapter {
    * 2. Try forward direction (target's route_info has entry for source)
    * 3. Try reverse direction (source's route_info has entry for target, then reverse the path)
    */
-  private static findPathUsingRouteInfo(sourceId: string, targetId: string, backendJson: any, edges: any[]) {
-    // Helper to normalize node IDs (same logic as in convertPhysicalOnly)
-    const normalizeId = (raw: any) => {
-      if (!raw) return { id: null, fullAddress: null }
-      const str = typeof raw === 'string' ? raw : String(raw)
-      const trimmed = str.trim()
-      if (!trimmed) return { id: null, fullAddress: null }
-      
-      // Handle "Node00b0197a14cb" format - extract the last hex segment
-      if (trimmed.startsWith('Node') && trimmed.length > 4) {
-        const hexPart = trimmed.substring(4) // Remove "Node" prefix
-        // Extract last 4 characters as the node ID
-        const nodeId = hexPart.substring(hexPart.length - 4)
-        return { id: nodeId, fullAddress: trimmed }
-      }
-      
-      // Extract short form: last segment after final ':'
-      if (trimmed.includes(':')) {
-        const parts = trimmed.split(':')
-        const shortId = parts[parts.length - 1]
-        return { id: shortId, fullAddress: trimmed }
-      }
-      
-      return { id: trimmed, fullAddress: null }
-    }
-
+  static findPathUsingRouteInfo(sourceId: string, targetId: string, forwardRoutes: RouteTable, edges: MapEdge[]) {
     // Check if source and target are direct neighbors (single hop)
     const directEdge = this.findEdgeBetween(edges, sourceId, targetId)
     if (directEdge) {
@@ -144,95 +265,22 @@ export class NetworkDataAdapter {
       }
     }
 
-    // Build routing tables:
-    // - Forward: destination -> source -> next_hop (how to reach destination from source)
-    // - Reverse: source -> destination -> next_hop (reverse routing)
-    const forwardRoutes = new Map<string, Map<string, { nextHop: string, interface: string }>>()
-    
-    // Build IP-to-NodeID mapping for pathfinding
-    // Support both snake_case and camelCase field names
-    const ipToNodeId = new Map<string, string>()
-    const networkMapData = backendJson?.network_map || backendJson?.networkMap
-    let nodeList: any[] = []
-    
-    if (networkMapData) {
-      // Handle nested structure: { networkMap: { nodeRouteInfo: [...] } }
-      if (networkMapData.nodeRouteInfo || networkMapData.node_route_info) {
-        nodeList = networkMapData.nodeRouteInfo || networkMapData.node_route_info
-      } else if (Array.isArray(networkMapData)) {
-        nodeList = networkMapData
-      }
-    }
-    
-    for (const entry of nodeList) {
-      const nodeNameRaw = entry.node_name || entry.nodeName || entry.name
-      const { id: canonicalNodeId } = normalizeId(nodeNameRaw)
-      if (!canonicalNodeId) continue
-      
-      const localIfs = entry.local_ip_info || entry.localIpInfo || entry.local_ip_infos || []
-      for (const localIf of localIfs) {
-        const localIp = localIf.local_ip || localIf.localIp || localIf.ip
-        if (localIp) {
-          const { id: ipId } = normalizeId(localIp)
-          if (ipId) {
-            ipToNodeId.set(ipId, canonicalNodeId)
-          }
-        }
-      }
-    }
-    
-    for (const entry of nodeList) {
-      let { id: nodeId } = normalizeId(entry.node_name || entry.nodeName)
-      if (!nodeId) continue
-      
-      // Map to canonical node ID
-      const mappedNodeId = ipToNodeId.get(nodeId)
-      if (mappedNodeId) {
-        nodeId = mappedNodeId
-      }
-      
-      const routes = entry.route_info || entry.routeInfo || []
-      for (const route of routes) {
-        let { id: srcId } = normalizeId(route.source_node || route.sourceNode || route.source)
-        let { id: nextHopId } = normalizeId(route.iif_neigh_node || route.iifNeighNode || route.next_hop)
-        const iface = route.incoming_interface || route.incomingInterface || route.iif || ''
-        
-        // Map source and nextHop to canonical node IDs
-        if (srcId) {
-          const mappedSrcId = ipToNodeId.get(srcId)
-          if (mappedSrcId) srcId = mappedSrcId
-        }
-        
-        if (nextHopId) {
-          const mappedNextHopId = ipToNodeId.get(nextHopId)
-          if (mappedNextHopId) nextHopId = mappedNextHopId
-        }
-        
-        if (srcId && nextHopId) {
-          if (!forwardRoutes.has(nodeId)) {
-            forwardRoutes.set(nodeId, new Map())
-          }
-          forwardRoutes.get(nodeId)!.set(srcId, { nextHop: nextHopId, interface: iface })
-        }
-      }
-    }
-
     // Try forward direction: source -> ... -> target
     try {
-      return this.traceRouteForward(sourceId, targetId, forwardRoutes, edges, normalizeId)
-    } catch (err) {
+      return this.traceRouteForward(sourceId, targetId, forwardRoutes, edges)
+    } catch {
       // Forward failed, try reverse direction
     }
 
     // Try reverse direction: target -> ... -> source, then reverse the path
     try {
-      const reversePath = this.traceRouteForward(targetId, sourceId, forwardRoutes, edges, normalizeId)
+      const reversePath = this.traceRouteForward(targetId, sourceId, forwardRoutes, edges)
       // Reverse the nodes and edges
       return {
         pathNodes: reversePath.pathNodes.reverse(),
         pathEdges: reversePath.pathEdges.reverse()
       }
-    } catch (err) {
+    } catch {
       throw new Error(`No route found from '${sourceId}' to '${targetId}' in either direction`)
     }
   }
@@ -243,9 +291,8 @@ export class NetworkDataAdapter {
   private static traceRouteForward(
     sourceId: string, 
     targetId: string, 
-    forwardRoutes: Map<string, Map<string, { nextHop: string, interface: string }>>,
-    edges: any[],
-    normalizeId: (raw: any) => { id: string | null, fullAddress: string | null }
+    forwardRoutes: RouteTable,
+    edges: MapEdge[]
   ) {
     const pathNodes: string[] = []
     const pathEdges: string[] = []
@@ -293,7 +340,7 @@ export class NetworkDataAdapter {
   /**
    * Helper to find an edge ID between two nodes (works with bidirectional physical links)
    */
-  private static findEdgeBetween(edges: any[], nodeA: string, nodeB: string): string | null {
+  static findEdgeBetween(edges: MapEdge[], nodeA: string, nodeB: string): string | null {
     for (const edge of edges) {
       if (edge.hidden || edge.redundant) continue // Skip hidden/redundant edges
       if ((edge.from === nodeA && edge.to === nodeB) || 
@@ -307,13 +354,13 @@ export class NetworkDataAdapter {
   /**
    * Fallback BFS-based pathfinding (original implementation)
    */
-  private static findPathBFS(sourceId: string, targetId: string, edges: any[], bidirectional = true) {
+  static findPathBFS(sourceId: string, targetId: string, edges: MapEdge[], bidirectional = true) {
     const adj = new Map<string, Array<{ to: string; edgeId: string }>>()
-    edges.forEach((e: any) => {
+    edges.forEach((e) => {
       const from = e.from
       const to = e.to
-      const id = e.id || e.edgeId || `${from}-${to}`
-      const type = e.edgeType || e.type || undefined
+      const id = e.id || `${from}-${to}`
+      const type = e.edgeType
 
       if (!adj.has(from)) adj.set(from, [])
       if (!adj.has(to)) adj.set(to, [])
@@ -359,23 +406,48 @@ export class NetworkDataAdapter {
 
     throw new Error(`No path found from '${sourceId}' to '${targetId}'`)
   }
-  static convertPhysicalOnly(backendJson: any) {
-    // New format: top-level node object with keys like `node_name`, `neigh_ip_info`, `local_ip_info`, `route_info`.
+  /**
+   * Convert a backend networkMap payload into physical nodes and edges.
+   * The payload is validated first; entries that fail validation are skipped
+   * and reported in `issues` (with the JSON path of each problem) so callers
+   * can explain a partially drawn map instead of failing silently. Distinct
+   * nodes sharing a short id are drawn under longer ids and reported there too.
+   * Direct edges carry each end's route metrics as `metricsA`/`metricsB` and the
+   * combined `rtt_ms`, `mdev_rtt_ms`, `rx_packets` and `tx_packets` of the link.
+   */
+  static convertPhysicalOnly(backendJson: unknown): { nodes: MapNode[], edges: MapEdge[], issues: PayloadIssue[] } {
     if (!backendJson) throw new Error("Invalid backend JSON format - missing content")
+    const parsed = parseBackendPayload(backendJson)
+    return this.convertParsedPayload(parsed, buildNodeIdentityIndex(parsed.entries))
+  }
 
-    const nodes: any[] = []
-    const edges: any[] = []
+  /**
+   * convertPhysicalOnly over a payload that is already parsed, with node names,
+   * interface addresses and short ids resolving through `identity`.
+   */
+  static convertParsedPayload(parsed: ParsedBackendPayload, identity: NodeIdentityIndex): { nodes: MapNode[], edges: MapEdge[], issues: PayloadIssue[] } {
+    const { entries: nodeEntries } = parsed
+    const issues: PayloadIssue[] = [
+      ...parsed.issues,
+      ...identity.collisions.map((collision) => ({
+        path: nodeEntries.find((entry) => entry.nodeName === collision.nodeNames[0])?.path ?? '$',
+        message: `Node id '${collision.id}' is shared by ${collision.nodeNames.join(', ')}; using ${collision.resolvedIds.join(', ')}`,
+      })),
+    ]
+
+    const nodes: MapNode[] = []
+    const edges: MapEdge[] = []
     const nodeMap = new Map<string, boolean>()
     const edgeMap = new Set<string>()
 
     // Helper to add a node only once. If a fullAddress is provided, attach it
     // but keep the canonical (short) id for graph operations.
-    const addNode = (id: string, opts: any = {}) => {
+    const addNode = (id: string, opts: Partial<MapNode> = {}) => {
       if (!id) return
       if (!nodeMap.has(id)) {
         // Use provided label or create one without "Node" prefix if id already contains "Node"
         const defaultLabel = id.includes('Node') ? id : `Node ${id}`
-        const nodeObj: any = { id, label: opts.label || defaultLabel, ...opts }
+        const nodeObj: MapNode = { id, label: opts.label || defaultLabel, ...opts }
         // preserve any fullAddress provided in opts
         if (opts && opts.fullAddress) nodeObj.fullAddress = opts.fullAddress
         if (opts && opts.allLocalIps) nodeObj.allLocalIps = opts.allLocalIps
@@ -408,82 +480,29 @@ export class NetworkDataAdapter {
       }
     }
 
-    // Normalize ids: if the value looks like an IPv6 address, convert to
-    // the short hex token used elsewhere (last segment) while returning both
-    // the short id and the original full address when present.
-    // Also handle "NodeXXXXXXXX" format by extracting the hex portion.
-    const normalizeId = (raw: any) => {
-      if (raw === undefined || raw === null) return { id: '', fullAddress: undefined }
-      const s = raw.toString().trim()
-      if (!s) return { id: '', fullAddress: undefined }
-      
-      // Handle "Node00b0197a14cb" format - extract the last hex segment
-      if (s.startsWith('Node') && s.length > 4) {
-        const hexPart = s.substring(4) // Remove "Node" prefix
-        // Extract last 4 characters as the node ID and remove leading zeros
-        const nodeIdWithZeros = hexPart.substring(hexPart.length - 4)
-        // Convert to number and back to hex to remove leading zeros
-        const nodeId = parseInt(nodeIdWithZeros, 16).toString(16)
-        return { id: nodeId, fullAddress: s }
-      }
-      
-      if (s.includes(':')) {
-        return { id: this.extractLastHex(s), fullAddress: s }
-      }
-      return { id: s, fullAddress: undefined }
-    }
-
-    // If the payload wraps nodes under `network_map` or `networkMap` (new format), extract them;
-    // otherwise if the payload is an array treat it as entries; otherwise wrap
-    // a single node object into an array.
-    let nodeEntries: any[] = []
-    // Support both snake_case (network_map) and camelCase (networkMap)
-    const networkMapData = backendJson?.network_map || backendJson?.networkMap
-    if (networkMapData) {
-      // Handle nested structure: { networkMap: { nodeRouteInfo: [...] } }
-      let nm = networkMapData
-      if (nm.nodeRouteInfo || nm.node_route_info) {
-        nm = nm.nodeRouteInfo || nm.node_route_info
-      }
-      
-      if (Array.isArray(nm)) nodeEntries = nm
-      else {
-        const vals = Object.values(nm)
-        if (vals.length > 0 && vals.every((v: any) => v && (v.node_name || v.nodeName || v.neigh_ip_info || v.neighIpInfo || v.route_info || v.routeInfo || v.neigh_infos))) {
-          nodeEntries = vals
-        } else {
-          nodeEntries = [nm]
-        }
-      }
-    } else if (Array.isArray(backendJson)) {
-      nodeEntries = backendJson
-    } else {
-      nodeEntries = [backendJson]
-    }
+    const normalizeId = (raw: string) => this.normalizeNodeId(raw)
 
-    // Build IP-to-NodeID mapping using localIpInfo
-    // Also store all local IPs for each node (to show in hover)
+    // Store all local IPs for each node (to show in hover)
     // AND store original node names for lookup
-    const ipToNodeId = new Map<string, string>()
     const nodeLocalIps = new Map<string, Array<{interface: string, ip: string}>>()
     const nodeIdToNodeName = new Map<string, string>()
     
     for (const entry of nodeEntries) {
-      const targetRaw = entry.node_name || entry.nodeName || entry.name
-      const { id: nodeId } = normalizeId(targetRaw)
+      const targetRaw = entry.nodeName
+      const nodeId = identity.resolve(targetRaw)
       if (!nodeId) continue
       
       // Store the original node name for this nodeId
-      if (typeof targetRaw === 'string' && targetRaw.startsWith('Node')) {
+      if (targetRaw.startsWith('Node')) {
         nodeIdToNodeName.set(nodeId, targetRaw)
       }
       
-      const localIfs = entry.local_ip_info || entry.localIpInfo || entry.local_ip_infos || []
+      const localIfs = entry.localIpInfo
       const allLocalIps: Array<{interface: string, ip: string}> = []
       
       for (const localIf of localIfs) {
-        const localIp = localIf.local_ip || localIf.localIp || localIf.ip
-        let iface = localIf.interface || localIf.iface
+        const localIp = localIf.localIp
+        let iface = localIf.interface
         
         // If no interface specified, try to infer from existing interfaces
         // Default to eth0 if it's the first unspecified interface
@@ -497,9 +516,7 @@ export class NetworkDataAdapter {
         }
         
         if (localIp) {
-          const { id: ipId } = normalizeId(localIp)
-          if (ipId) {
-            ipToNodeId.set(ipId, nodeId)
+          if (shortNodeId(localIp)) {
             allLocalIps.push({ interface: iface, ip: localIp })
           }
         }
@@ -517,71 +534,25 @@ export class NetworkDataAdapter {
     }
 
     for (const entry of nodeEntries) {
-      const targetRaw = entry.node_name || entry.nodeName || entry.name
-      let { id: target, fullAddress: targetFull } = normalizeId(targetRaw)
-      
-      // Get the eth0 IP address to use as the full address for display
-      const localIfs = entry.local_ip_info || entry.localIpInfo || entry.local_ip_infos || []
+      const targetRaw = entry.nodeName
+      // Hostnames like "fireapp-VirtualBox" are identified by their primary interface address
+      const target = identity.resolve(targetRaw)
+      const localIfs = entry.localIpInfo
       
-      // Priority order: eth0 (or undefined) → eth1 → usb0 → usb1
-      let eth0IpAddress = null
-      
-      // First try to find eth0 or undefined interface
-      const eth0Entry = localIfs.find((li: any) => {
-        const iface = li.interface || li.iface
-        return !iface || iface === 'eth0' || iface === 'NO_INTERFACE'
-      })
-      
-      if (eth0Entry) {
-        eth0IpAddress = eth0Entry.local_ip || eth0Entry.localIp || eth0Entry.ip
-      } else {
-        // If no eth0, try eth1 → usb0 → usb1 in priority order
-        const priorityOrder = ['eth1', 'usb0', 'usb1']
-        for (const ifaceName of priorityOrder) {
-          const entry = localIfs.find((li: any) => {
-            const iface = li.interface || li.iface
-            return iface === ifaceName
-          })
-          if (entry) {
-            eth0IpAddress = entry.local_ip || entry.localIp || entry.ip
-            break
-          }
-        }
-        
-        // If still not found, use the first available as last resort
-        if (!eth0IpAddress && localIfs.length > 0) {
-          const firstEntry = localIfs[0]
-          eth0IpAddress = firstEntry.local_ip || firstEntry.localIp || firstEntry.ip
-        }
-      }
-      
-      // If normalizeId couldn't extract a canonical ID (non-standard node_name like "fireapp-VirtualBox"),
-      // try to use the eth0 interface IP to determine the canonical node ID
-      if (target && !targetRaw.toString().includes(':') && !targetRaw.toString().startsWith('Node')) {
-        if (eth0IpAddress) {
-          const { id: canonicalId } = normalizeId(eth0IpAddress)
-          if (canonicalId) {
-            target = canonicalId
-            targetFull = eth0IpAddress // Use eth0 IP as fullAddress
-          }
-        }
-      } else if (eth0IpAddress) {
-        // For standard node names, also use eth0 IP as fullAddress
-        targetFull = eth0IpAddress
-      }
+      // The primary (eth0, else eth1 → usb0 → usb1) address is shown as the node's full address
+      const eth0IpAddress = primaryAddress(localIfs)
+      const targetFull = eth0IpAddress || normalizeId(targetRaw).fullAddress
       
       if (!target) continue
       
       // Create a short label for display
       let displayLabel = targetRaw
-      if (typeof targetRaw === 'string') {
-        if (targetRaw.includes(':')) {
-          // For IPv6, show "Node XXXX" format
-          displayLabel = `Node ${target}`
-        } else if (targetRaw.startsWith('Node') && targetRaw.length > 4) {
-          // For "NodeXXXX..." format, show last 4 hex digits
-          displayLabel = `Node ${target}`
-        }
+      if (targetRaw.includes(':')) {
+        // For IPv6, show "Node XXXX" format
+        displayLabel = `Node ${target}`
+      } else if (targetRaw.startsWith('Node') && targetRaw.length > 4) {
+        // For "NodeXXXX..." format, show last 4 hex digits
+        displayLabel = `Node ${target}`
       }
       
       // Attach all local IPs to the node for display in hover
@@ -598,41 +569,33 @@ export class NetworkDataAdapter {
 
       // Neighbors come from neigh_ip_info (IP-based) or neigh_list
       // Preserve local interface info for the target node (do not create new nodes).
-      if (Array.isArray(localIfs) && localIfs.length > 0) {
+      if (localIfs.length > 0) {
         // attach localInterfaces metadata to the target node if available
         const existingTarget = nodes.find((n) => n.id === target)
-        if (existingTarget) existingTarget.localInterfaces = localIfs.map((li: any) => ({ interface: li.interface || li.iface, ip: li.local_ip || li.localIp || li.ip || li.address }))
+        if (existingTarget) existingTarget.localInterfaces = localIfs.map((li) => ({ interface: li.interface, ip: li.localIp }))
       }
 
-      const neighInfos = entry.neigh_ip_info || entry.neighIpInfo || entry.neigh_infos || entry.neigh_list || []
-      for (const n of neighInfos) {
-        // Prefer explicit neighbor id, otherwise use neigh_ip and normalize
-        const rawNeighbor = n.neigh_node || n.neigh || n.neigh_ip || n.neighIp || n.id || undefined
-        let { id: neighborId, fullAddress: neighborFull } = normalizeId(rawNeighbor)
+      for (const n of entry.neighIpInfo) {
+        const rawNeighbor = n.neighIp
+        // Neighbor IPs map to the node owning that interface
+        const neighborId = identity.resolve(rawNeighbor)
+        const neighborFull = normalizeId(rawNeighbor).fullAddress
         if (!neighborId) continue
         
-        // Map neighbor IP to actual node ID if available
-        const mappedNodeId = ipToNodeId.get(neighborId)
-        if (mappedNodeId) {
-          neighborId = mappedNodeId
-        }
-        
         // Get local IPs for this neighbor node
         const neighborLocalIps = nodeLocalIps.get(neighborId) || []
         
         // Create a short label for neighbor display
         let neighborDisplayLabel = rawNeighbor
-        if (typeof rawNeighbor === 'string') {
-          if (rawNeighbor.includes(':')) {
-            neighborDisplayLabel = `Node ${neighborId}`
-          } else if (rawNeighbor.startsWith('Node') && rawNeighbor.length > 4) {
-            neighborDisplayLabel = `Node ${neighborId}`
-          }
+        if (rawNeighbor.includes(':')) {
+          neighborDisplayLabel = `Node ${neighborId}`
+        } else if (rawNeighbor.startsWith('Node') && rawNeighbor.length > 4) {
+          neighborDisplayLabel = `Node ${neighborId}`
         }
         
         addNode(neighborId, { 
           type: 'neighbor', 
-          interface: n.interface || n.iface || undefined, 
+          interface: n.interface, 
           fullAddress: neighborFull,
           nodeName: nodeIdToNodeName.get(neighborId) || rawNeighbor, // Get original node name
           label: neighborDisplayLabel,
@@ -642,24 +605,27 @@ export class NetworkDataAdapter {
         // canonicalize undirected physical link id
         // Use sorted pair of local IP and neighbor IP to uniquely identify each connection
         // This allows multiple connections between same nodes via different interface pairs
-        const targetInterface = n.interface || n.iface || 'eth0'
+        const targetInterface = n.interface || 'eth0'
         
         // Find the local IP for this interface on the current node
-        const localIpForInterface = localIfs.find((li: any) => (li.interface || li.iface) === targetInterface)
-        const localIpStr = localIpForInterface?.local_ip || localIpForInterface?.localIp
-        const { id: localIpId } = normalizeId(localIpStr || target)
-        const { id: neighIpId } = normalizeId(rawNeighbor)
+        const localIpForInterface = localIfs.find((li) => li.interface === targetInterface)
+        const localIpStr = localIpForInterface?.localIp
+        const localIpId = identity.addressId(localIpStr || target)
+        const neighIpId = identity.addressId(rawNeighbor)
         
         // Create canonical edge ID by sorting the two IP IDs
         const [ipA, ipB] = [localIpId, neighIpId].sort()
         const eid = `direct-${ipA}-${ipB}`
+
+        // RTT and packet counters of this end, from the route entry received over the link
+        const endMetrics = linkEndMetrics(entry.routeInfo, targetInterface, (hop) => !!hop && identity.resolve(hop) === neighborId)
         
         if (!edgeMap.has(eid)) {
           // Determine which nodes are 'from' and 'to' for the edge
           const [a, b] = [target, neighborId].sort()
           
           const neighborIpAddress = rawNeighbor // Store the original neighbor IP
-          const edgeData: any = { 
+          const edgeData: MapEdge = { 
             id: eid, 
             from: a, 
             to: b, 
@@ -673,9 +639,11 @@ export class NetworkDataAdapter {
           if (target === a) {
             edgeData.interfaceA = targetInterface
             edgeData.neighborIpA = neighborIpAddress
+            if (endMetrics) edgeData.metricsA = endMetrics
           } else {
             edgeData.interfaceB = targetInterface
             edgeData.neighborIpB = neighborIpAddress
+            if (endMetrics) edgeData.metricsB = endMetrics
           }
           edges.push(edgeData)
           edgeMap.add(eid)
@@ -683,14 +651,16 @@ export class NetworkDataAdapter {
           // Edge already exists, add the interface for this endpoint
           const existingEdge = edges.find(e => e.id === eid)
           if (existingEdge) {
-            const [a, b] = [target, neighborId].sort()
+            const [a] = [target, neighborId].sort()
             const neighborIpAddress = rawNeighbor
             if (target === a) {
               existingEdge.interfaceA = targetInterface
               existingEdge.neighborIpA = neighborIpAddress
+              if (endMetrics) existingEdge.metricsA = endMetrics
             } else {
               existingEdge.interfaceB = targetInterface
               existingEdge.neighborIpB = neighborIpAddress
+              if (endMetrics) existingEdge.metricsB = endMetrics
             }
             // Update label to show both interfaces if both are known
             if (existingEdge.interfaceA && existingEdge.interfaceB) {
@@ -703,41 +673,24 @@ export class NetworkDataAdapter {
       }
 
       // Routes may reference sources by IPv6 or by id; attempt to normalize
-      const routes = entry.route_info || entry.routeInfo || entry.route_infos || []
-      for (const r of routes) {
-        const rawSource = r.source_node || r.sourceNode || r.source || r.source_ip || r.src || undefined
-        let { id: sourceId, fullAddress: sourceFull } = normalizeId(rawSource)
-        const incomingInterface = r.incoming_interface || r.incomingInterface || r.iif || r.iface || r.via || ''
+      for (const r of entry.routeInfo) {
+        const rawSource = r.sourceNode
+        const sourceId = identity.resolve(rawSource)
+        const sourceFull = normalizeId(rawSource).fullAddress
+        const incomingInterface = r.incomingInterface || ''
         if (!sourceId) continue
         
-        // Map source IP to actual node ID if available
-        const mappedSourceId = ipToNodeId.get(sourceId)
-        if (mappedSourceId) {
-          sourceId = mappedSourceId
-        }
-        
-        const rawNextHop = r.iif_neigh_node || r.iifNeighNode || r.next_hop || r.nextHop || undefined
-        let { id: nextHopId, fullAddress: nextHopFull } = normalizeId(rawNextHop)
-        
-        // Map next hop IP to actual node ID if available
-        if (nextHopId) {
-          const mappedNextHopId = ipToNodeId.get(nextHopId)
-          if (mappedNextHopId) {
-            nextHopId = mappedNextHopId
-          }
-        }
+        const nextHopId = identity.resolve(r.iifNeighNode)
         
         // Get local IPs for this source node
         const sourceLocalIps = nodeLocalIps.get(sourceId) || []
         
         // Create a short label for source display
         let sourceDisplayLabel = rawSource
-        if (typeof rawSource === 'string') {
-          if (rawSource.includes(':')) {
-            sourceDisplayLabel = `Node ${sourceId}`
-          } else if (rawSource.startsWith('Node') && rawSource.length > 4) {
-            sourceDisplayLabel = `Node ${sourceId}`
-          }
+        if (rawSource.includes(':')) {
+          sourceDisplayLabel = `Node ${sourceId}`
+        } else if (rawSource.startsWith('Node') && rawSource.length > 4) {
+          sourceDisplayLabel = `Node ${sourceId}`
         }
         
         addNode(sourceId, { 
@@ -761,7 +714,7 @@ export class NetworkDataAdapter {
           const directId = `direct-${a}-${b}`
           const isRedundant = edgeMap.has(directId)
 
-          const routeEdge: any = { 
+          const routeEdge: MapEdge = { 
             id: routeId, 
             from: sourceId, 
             to: target, 
@@ -782,9 +735,11 @@ export class NetworkDataAdapter {
       }
     }
 
-    // Final pass: ensure all direct edges have proper labels showing interface info
+    // Final pass: ensure all direct edges have proper labels showing interface info,
+    // and lift the metrics of both ends to link-level rtt_ms/mdev_rtt_ms/rx_packets/tx_packets
     for (const edge of edges) {
       if (edge.edgeType === 'direct') {
+        Object.assign(edge, combineLinkMetrics(edge.metricsA, edge.metricsB))
         if (edge.interfaceA && edge.interfaceB) {
           edge.label = `${edge.interfaceA} ↔ ${edge.interfaceB}`
         } else if (edge.interfaceA || edge.interfaceB) {
@@ -795,14 +750,19 @@ export class NetworkDataAdapter {
       }
     }
 
-    return { nodes, edges }
+    return { nodes, edges, issues }
   }
 
-  static convertToVisNetwork(customData: any) {
+  static convertToVisNetwork(customData: {
+    nodes?: GenericDevice[]
+    edges?: GenericConnection[]
+    topology?: { devices?: GenericDevice[], connections?: GenericConnection[] }
+    devices?: GenericDevice[]
+  } | null | undefined) {
     if (!customData) return null
 
-    let nodes: any[] = []
-    let edges: any[] = []
+    let nodes: MapNode[] = []
+    let edges: MapEdge[] = []
 
     if (customData.nodes && customData.edges) {
       nodes = this.processNodes(customData.nodes)
@@ -823,9 +783,9 @@ export class NetworkDataAdapter {
     }
   }
 
-  static processNodes(nodeData: any[]) {
+  static processNodes(nodeData: GenericDevice[]): MapNode[] {
     return nodeData.map((node) => ({
-      id: node.id || node.nodeId || node.deviceId,
+      id: (node.id || node.nodeId || node.deviceId) as string,
       label: node.label || node.name || node.hostname || `Node ${node.id}`,
       title: this.generateNodeTooltip(node),
       group: node.group || node.type || this.inferNodeType(node),
@@ -839,11 +799,11 @@ export class NetworkDataAdapter {
     }))
   }
 
-  static processEdges(edgeData: any[]) {
+  static processEdges(edgeData: GenericConnection[]): MapEdge[] {
     return edgeData.map((edge) => ({
       id: edge.id || edge.edgeId || `${edge.from}-${edge.to}`,
-      from: edge.from || edge.source || edge.sourceId,
-      to: edge.to || edge.target || edge.targetId,
+      from: (edge.from || edge.source || edge.sourceId) as string,
+      to: (edge.to || edge.target || edge.targetId) as string,
       label: edge.label || edge.name || "",
       arrows: { to: { enabled: false } }, // Ensure arrows are disabled
       width: this.calculateEdgeWidth(edge),
@@ -853,7 +813,7 @@ export class NetworkDataAdapter {
     }))
   }
 
-  static generateNodeTooltip(node: any) {
+  static generateNodeTooltip(node: GenericDevice) {
     const rx = node.rx || node.rxRate || "0 Mbps"
     const tx = node.tx || node.txRate || "0 Mbps"
     const traffic = node.traffic || node.utilization || "0%"
@@ -864,7 +824,7 @@ export class NetworkDataAdapter {
     // Add all local IPs if available
     if (node.allLocalIps && node.allLocalIps.length > 0) {
       tooltip += `\n\nLocal IPs:`
-      node.allLocalIps.forEach((ipInfo: any) => {
+      node.allLocalIps.forEach((ipInfo) => {
         const shortIp = ipInfo.ip ? ipInfo.ip.split(':').pop() : ipInfo.ip
         const iface = ipInfo.interface || 'eth0' // Default to eth0 if interface not specified
         tooltip += `\n  ${iface}: ${shortIp}`
@@ -879,7 +839,7 @@ Latency: ${latency}`
     return tooltip
   }
 
-  static inferNodeType(node: any) {
+  static inferNodeType(node: GenericDevice) {
     if (node.type) return node.type
 
     const name = (node.name || node.label || "").toLowerCase()
@@ -892,7 +852,7 @@ Latency: ${latency}`
     return "default"
   }
 
-  static calculateEdgeWidth(edge: any) {
+  static calculateEdgeWidth(edge: GenericConnection) {
     if (edge.width) return edge.width
 
     const traffic = edge.traffic || edge.utilization || edge.bandwidth || 0
@@ -905,7 +865,7 @@ Latency: ${latency}`
     return 1
   }
 
-  static getEdgeColor(edge: any) {
+  static getEdgeColor(edge: GenericConnection) {
     if (edge.color) return edge.color
 
     const traffic = edge.traffic || edge.utilization || 0
@@ -917,9 +877,9 @@ Latency: ${latency}`
     return "#848484"
   }
 
-  static processTopology(topology: any) {
-    const nodes: any[] = []
-    const edges: any[] = []
+  static processTopology(topology: { devices?: GenericDevice[], connections?: GenericConnection[] }) {
+    const nodes: MapNode[] = []
+    const edges: MapEdge[] = []
 
     if (topology.devices) {
       nodes.push(...this.processNodes(topology.devices))
@@ -932,9 +892,9 @@ Latency: ${latency}`
     return { nodes, edges }
   }
 
-  static processDevices(devices: any[]) {
-    const nodes: any[] = []
-    const edges: any[] = []
+  static processDevices(devices: GenericDevice[]) {
+    const nodes: GenericDevice[] = []
+    const edges: GenericConnection[] = []
 
     devices.forEach((device) => {
       nodes.push({
@@ -944,7 +904,7 @@ Latency: ${latency}`
       })
 
       if (device.connections) {
-        device.connections.forEach((conn: any) => {
+        device.connections.forEach((conn) => {
           edges.push({
             id: `${device.id}-${conn.to}`,
             from: device.id,
@@ -961,17 +921,22 @@ Latency: ${latency}`
     }
   }
 
-  static convertFromBackend(backendJson: any) {
+  static convertFromBackend(backendJson: unknown) {
     // Accept the new backend JSON format. The payload may be:
     // - an array of node entries
     // - a single node entry
     // - an object with a `network_map` property that is either an array or an object
     if (!backendJson) throw new Error('Invalid backend JSON')
+    const json = backendJson as Record<string, unknown>
+    const isNodeEntry = (value: unknown) => {
+      const v = value as Record<string, unknown> | null
+      return !!v && !!(v.node_name || v.neigh_ip_info || v.route_info || v.neigh_infos)
+    }
 
     // If the new format nests nodes under `network_map`, extract them.
-    let entries: any[] = []
-    if (backendJson.network_map) {
-      const nm = backendJson.network_map
+    let entries: unknown[] = []
+    if (json.network_map) {
+      const nm = json.network_map
       // Expect the new format: network_map is either an array of node entries
       // or an object whose values are node entries. Do not accept legacy
       // `node_route_infos` payloads anymore.
@@ -980,7 +945,7 @@ Latency: ${latency}`
         // If network_map is an object whose values are node objects, use them;
         // otherwise treat it as a single node wrapped in an array.
         const vals = Object.values(nm)
-        if (vals.length > 0 && vals.every((v: any) => v && (v.node_name || v.neigh_ip_info || v.route_info || v.neigh_infos))) {
+        if (vals.length > 0 && vals.every(isNodeEntry)) {
           entries = vals
         } else {
           entries = [nm]
@@ -988,7 +953,7 @@ Latency: ${latency}`
       }
     } else if (Array.isArray(backendJson)) {
       entries = backendJson
-    } else if (backendJson.node_name || backendJson.neigh_ip_info || backendJson.route_info || backendJson.neigh_infos) {
+    } else if (isNodeEntry(backendJson)) {
       entries = [backendJson]
     } else {
       throw new Error('Unrecognized backend JSON format for new schema')
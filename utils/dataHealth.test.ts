@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+import { parseBackendPayload, parseQueryPayload } from "./backendSchema"
+import { analyzeDataHealth, type HealthCategory } from "./dataHealth"
+
+const eth0 = (localIp: string) => [{ interface: "eth0", localIp }]
+const neighbor = (neighIp: string, iface = "eth0") => ({ interface: iface, neighIp })
+
+describe("analyzeDataHealth", () => {
+  it("finds nothing in a consistent dataset", () => {
+    const payload = parseBackendPayload({
+      status: "SUCCESS",
+      networkMap: {
+        nodeRouteInfo: [
+          { nodeName: "Node00b01979a001", localIpInfo: eth0("2001:db8::a001"), neighIpInfo: [neighbor("2001:db8::a002")] },
+          { nodeName: "Node00b01979a002", localIpInfo: eth0("2001:db8::a002"), neighIpInfo: [neighbor("2001:db8::a001")] },
+        ],
+      },
+    })
+    const query = parseQueryPayload({ status: "SUCCESS", nodeInfo: [{ nodeName: "Node00b01979a001" }, { nodeName: "Node00b01979a002" }] })
+
+    expect(analyzeDataHealth(payload, query)).toEqual([])
+  })
+
+  describe("on an inconsistent dataset", () => {
+    const payload = parseBackendPayload({
+      status: "PARTIAL",
+      networkMap: {
+        nodeRouteInfo: [
+          // Neighbors spelled neigh_ip_info; the second one is nobody's address
+          { nodeName: "Node00b01979a001", localIpInfo: eth0("2001:db8::a001"), neigh_ip_info: [neighbor("2001:db8::a002"), neighbor("2001:db8::beef", "eth1")] },
+          { nodeName: "Node00b01979a002", localIpInfo: eth0("2001:db8::a002"), neighIpInfo: [neighbor("2001:db8::a001")] },
+          // Same short id as Node00b01979a001
+          { nodeName: "Node00b0cccca001", localIpInfo: eth0("2001:db8::c001"), neighIpInfo: [neighbor("2001:db8::a002")] },
+          // Claims Node00b01979a001's address
+          { nodeName: "Node00b01979d004", localIpInfo: eth0("2001:DB8::A001") },
+          { localIpInfo: eth0("2001:db8::e005") },
+        ],
+      },
+    })
+    const query = parseQueryPayload({
+      status: "SUCCESS",
+      nodeInfo: [
+        { nodeName: "Node00b01979a001" },
+        // Matched by address rather than name
+        { nodeName: "router-x", ipAddress: "2001:db8::a002" },
+        { nodeName: "Node00b01979ffff", nodeId: "9" },
+      ],
+    })
+    const findings = analyzeDataHealth(payload, query)
+    const of = (category: HealthCategory) => findings.filter((finding) => finding.category === category)
+
+    it("reports validation problems and a status other than SUCCESS at their JSON paths", () => {
+      expect(of("validation")).toEqual([{ category: "validation", severity: "error", message: "nodeName is missing", nodes: [], path: "$.networkMap.nodeRouteInfo[4].nodeName" }])
+      expect(of("status")).toEqual([{ category: "status", severity: "warning", message: "networkMap payload reported status PARTIAL", nodes: [], path: "$.status" }])
+    })
+
+    it("reports addresses claimed twice and short ids shared by distinct nodes", () => {
+      expect(of("duplicate-ip").map((f) => f.nodes)).toEqual([["Node00b01979a001", "Node00b01979d004"]])
+      expect(of("id-collision")).toEqual([expect.objectContaining({
+        message: "Node id a001 is shared by Node00b01979a001, Node00b0cccca001; shown as 79a001, cca001",
+        nodes: ["Node00b01979a001", "Node00b0cccca001"],
+      })])
+    })
+
+    it("points unresolved neighbors at the item as spelled in the payload", () => {
+      expect(of("unresolved-neighbor")).toEqual([expect.objectContaining({
+        message: "Node00b01979a001 lists neighbor 2001:db8::beef on eth1, which is not a local IP of any node",
+        path: "$.networkMap.nodeRouteInfo[0].neigh_ip_info[1]",
+      })])
+    })
+
+    it("reports links only one end lists", () => {
+      expect(of("one-sided-link").map((f) => f.nodes)).toEqual([
+        ["Node00b01979a002", "Node00b01979d004"],
+        ["Node00b0cccca001", "Node00b01979a002"],
+      ])
+    })
+
+    it("matches the query file by name or address and reports what is missing on either side", () => {
+      expect(of("missing-from-map")).toEqual([expect.objectContaining({ nodes: ["Node00b01979ffff"], path: "$.nodeInfo[2]" })])
+      expect(of("missing-from-query").map((f) => [f.nodes[0], f.path])).toEqual([
+        ["Node00b0cccca001", "$.networkMap.nodeRouteInfo[2]"],
+        ["Node00b01979d004", "$.networkMap.nodeRouteInfo[3]"],
+      ])
+    })
+
+    it("skips the query checks without a query file", () => {
+      const categories = new Set(analyzeDataHealth(payload).map((f) => f.category))
+
+      expect(categories.has("missing-from-map")).toBe(false)
+      expect(categories.has("missing-from-query")).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,177 @@
+import type { ParsedBackendPayload, ParsedQueryPayload } from "./backendSchema"
+import { buildNodeIdentityIndex, type NodeIdentityIndex } from "./nodeIdentity"
+
+// Consistency checks across a loaded dataset (networkMap payload plus its
+// optional query-*.json inventory). Each check produces findings that the
+// Data Health panel groups by category.
+
+export type HealthCategory =
+  | "validation"
+  | "status"
+  | "unresolved-neighbor"
+  | "one-sided-link"
+  | "duplicate-ip"
+  | "id-collision"
+  | "missing-from-map"
+  | "missing-from-query"
+
+export type HealthSeverity = "error" | "warning" | "info"
+
+export interface HealthFinding {
+  category: HealthCategory
+  severity: HealthSeverity
+  message: string
+  /** Node names involved in the finding */
+  nodes: string[]
+  /** JSON path of the offending value, when the finding points at one */
+  path?: string
+}
+
+export const HEALTH_CATEGORY_LABELS: Record<HealthCategory, string> = {
+  "validation": "Schema validation",
+  "status": "Backend status",
+  "unresolved-neighbor": "Unresolved neighbors",
+  "one-sided-link": "One-sided links",
+  "duplicate-ip": "Duplicate local IPs",
+  "id-collision": "Short ID collisions",
+  "missing-from-map": "Missing from networkMap",
+  "missing-from-query": "Missing from query file",
+}
+
+// IPv6 addresses are compared case-insensitively; the backend never mixes
+// compressed and expanded forms for the same address.
+const normalizeIp = (ip: string) => ip.trim().toLowerCase()
+
+/**
+ * Run every data-quality check over a parsed dataset. `query` is optional
+ * since not every dataset comes with an inventory file; pass the payload's
+ * `identity` when it is already built.
+ */
+export function analyzeDataHealth(payload: ParsedBackendPayload, query?: ParsedQueryPayload | null, identity: NodeIdentityIndex = buildNodeIdentityIndex(payload.entries)): HealthFinding[] {
+  const findings: HealthFinding[] = []
+
+  // Validation problems found while parsing
+  for (const issue of payload.issues) {
+    findings.push({ category: "validation", severity: "error", message: issue.message, nodes: [], path: issue.path })
+  }
+  for (const issue of query?.issues ?? []) {
+    findings.push({ category: "validation", severity: "error", message: `Query file: ${issue.message}`, nodes: [], path: issue.path })
+  }
+
+  // Backend status codes other than SUCCESS
+  if (payload.status && payload.status !== "SUCCESS") {
+    findings.push({ category: "status", severity: "warning", message: `networkMap payload reported status ${payload.status}`, nodes: [], path: "$.status" })
+  }
+  if (query?.status && query.status !== "SUCCESS") {
+    findings.push({ category: "status", severity: "warning", message: `Query file reported status ${query.status}`, nodes: [], path: "$.status" })
+  }
+
+  // IP ownership: which node(s) claim each local IP
+  const ipOwners = new Map<string, string[]>()
+  for (const entry of payload.entries) {
+    for (const localIp of entry.localIpInfo) {
+      const ip = normalizeIp(localIp.localIp)
+      const owners = ipOwners.get(ip) || []
+      if (!owners.includes(entry.nodeName)) owners.push(entry.nodeName)
+      ipOwners.set(ip, owners)
+    }
+  }
+
+  for (const [ip, owners] of ipOwners) {
+    if (owners.length > 1) {
+      findings.push({
+        category: "duplicate-ip",
+        severity: "error",
+        message: `Local IP ${ip} is claimed by ${owners.length} nodes: ${owners.join(", ")}`,
+        nodes: owners,
+      })
+    }
+  }
+
+  // Distinct nodes sharing a short id; the map shows them under longer ids
+  for (const collision of identity.collisions) {
+    findings.push({
+      category: "id-collision",
+      severity: "warning",
+      message: `Node id ${collision.id} is shared by ${collision.nodeNames.join(", ")}; shown as ${collision.resolvedIds.join(", ")}`,
+      nodes: collision.nodeNames,
+    })
+  }
+
+  // Neighbor resolution and link symmetry
+  const neighborsOf = new Map<string, Set<string>>()
+  for (const entry of payload.entries) {
+    const resolved = new Set<string>()
+    entry.neighIpInfo.forEach((neighbor, i) => {
+      const owners = ipOwners.get(normalizeIp(neighbor.neighIp))
+      if (!owners) {
+        findings.push({
+          category: "unresolved-neighbor",
+          severity: "warning",
+          message: `${entry.nodeName} lists neighbor ${neighbor.neighIp}${neighbor.interface ? ` on ${neighbor.interface}` : ""}, which is not a local IP of any node`,
+          nodes: [entry.nodeName],
+          path: entry.itemPaths.neighIpInfo[i],
+        })
+        return
+      }
+      owners.forEach((owner) => resolved.add(owner))
+    })
+    neighborsOf.set(entry.nodeName, resolved)
+  }
+
+  const reportedPairs = new Set<string>()
+  for (const [node, neighbors] of neighborsOf) {
+    for (const neighbor of neighbors) {
+      if (neighbor === node) continue
+      if (neighborsOf.get(neighbor)?.has(node)) continue
+      const key = `${node}->${neighbor}`
+      if (reportedPairs.has(key)) continue
+      reportedPairs.add(key)
+      findings.push({
+        category: "one-sided-link",
+        severity: "warning",
+        message: `${node} lists ${neighbor} as a neighbor, but ${neighbor} does not list ${node}`,
+        nodes: [node, neighbor],
+      })
+    }
+  }
+
+  // networkMap vs query inventory. A node matches by nodeName, or by the
+  // query's ipAddress being one of its local IPs (hostnames such as
+  // fireapp-VirtualBox never appear in the query file by name).
+  if (query) {
+    const mapNames = new Set(payload.entries.map((entry) => entry.nodeName))
+    const matchedMapNodes = new Set<string>()
+
+    query.nodes.forEach((info, i) => {
+      let match: string | undefined = mapNames.has(info.nodeName) ? info.nodeName : undefined
+      if (!match && info.ipAddress) {
+        match = ipOwners.get(normalizeIp(info.ipAddress))?.[0]
+      }
+      if (match) {
+        matchedMapNodes.add(match)
+        return
+      }
+      findings.push({
+        category: "missing-from-map",
+        severity: "warning",
+        message: `${info.nodeName}${info.nodeId ? ` (node ${info.nodeId})` : ""} is in the query file but has no networkMap entry`,
+        nodes: [info.nodeName],
+        path: `$.nodeInfo[${i}]`,
+      })
+    })
+
+    for (const entry of payload.entries) {
+      if (matchedMapNodes.has(entry.nodeName)) continue
+      findings.push({
+        category: "missing-from-query",
+        severity: "info",
+        message: `${entry.nodeName} is in networkMap but has no query file record`,
+        nodes: [entry.nodeName],
+        path: entry.path,
+      })
+    }
+  }
+
+  return findings
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+import { diffDatasets } from "./datasetDiff"
+
+// Nodes are named Node00b01979<hex> with eth0 at 2001:db8::<hex> and eth1 at
+// 2001:db8:1::<hex>, so their map id is <hex>
+const address = (hex: string, iface = "eth0") => iface === "eth1" ? `2001:db8:1::${hex}` : `2001:db8::${hex}`
+
+const node = (hex: string, neighbors: Array<[iface: string, neighbor: string]> = [], routes: Array<[source: string, via: string]> = []) => ({
+  nodeName: `Node00b01979${hex}`,
+  localIpInfo: [{ interface: "eth0", localIp: address(hex) }, { interface: "eth1", localIp: address(hex, "eth1") }],
+  neighIpInfo: neighbors.map(([iface, neighbor]) => ({ interface: iface, neighIp: address(neighbor, iface) })),
+  routeInfo: routes.map(([source, via]) => ({ sourceNode: address(source), incomingInterface: "eth0", iifNeighNode: address(via) })),
+})
+
+const payload = (...nodes: ReturnType<typeof node>[]) => ({ networkMap: { nodeRouteInfo: nodes } })
+
+const summary = (diff: ReturnType<typeof diffDatasets>) => diff.changes.map((c) => `${c.kind} ${c.status}: ${c.description}`).sort()
+
+describe("diffDatasets", () => {
+  const before = payload(
+    node("a001", [["eth0", "a002"]]),
+    node("a002", [["eth0", "a001"], ["eth0", "a003"]], [["a001", "a001"]]),
+    node("a003", [["eth0", "a002"]], [["a001", "a002"]]),
+  )
+
+  it("reports nothing for two identical captures", () => {
+    const diff = diffDatasets(before, before)
+
+    expect(diff.changes).toEqual([])
+    expect(diff.nodeStatus).toEqual({})
+    expect(diff.edgeStatus).toEqual({})
+  })
+
+  it("tags nodes, links and route entries that appeared, disappeared or changed", () => {
+    const after = payload(
+      node("a001", [["eth0", "a002"], ["eth0", "a004"]]),
+      node("a002", [["eth0", "a001"]], [["a001", "a004"]]),
+      node("a004", [["eth0", "a001"]], [["a001", "a001"]]),
+    )
+    const diff = diffDatasets(before, after)
+
+    expect(summary(diff)).toEqual([
+      "link added: a001:eth0 ↔ a004:eth0",
+      "link removed: a002:eth0 ↔ a003:eth0",
+      "node added: Node a004 (Node00b01979a004) appeared",
+      "node removed: Node a003 (Node00b01979a003) disappeared",
+      "route added: a004 from a001: via a001 on eth0",
+      "route changed: a002 from a001: via a001 on eth0 → via a004 on eth0",
+      "route removed: a003 from a001: via a002 on eth0",
+    ])
+    expect(diff.nodeStatus).toEqual({ a001: "changed", a002: "changed", a003: "removed", a004: "added" })
+    // The merged topology keeps the removed node and link so they can be drawn
+    expect(diff.nodes.map((n) => n.id).sort()).toEqual(["a001", "a002", "a003", "a004"])
+    expect(Object.values(diff.edgeStatus).sort()).toEqual(["added", "removed"])
+  })
+
+  it("reports a cable moved to other ports as one changed link", () => {
+    const moved = payload(
+      node("a001", [["eth1", "a002"]]),
+      node("a002", [["eth1", "a001"], ["eth0", "a003"]], [["a001", "a001"]]),
+      node("a003", [["eth0", "a002"]], [["a001", "a002"]]),
+    )
+    const diff = diffDatasets(before, moved)
+
+    expect(summary(diff)).toEqual(["link changed: a001:eth0 ↔ a002:eth0 → a001:eth1 ↔ a002:eth1"])
+    expect(Object.values(diff.edgeStatus)).toEqual(["changed"])
+  })
+})
@@ -0,0 +1,179 @@
+import { NetworkDataAdapter, type MapEdge, type MapNode, type RouteTable } from "./dataAdapter"
+
+// Before/after comparison of two captures of the same network. Both payloads go
+// through convertPhysicalOnly, and the result is a single merged topology (every
+// node and link from either capture) tagged with what changed, plus a changelog.
+
+export type DiffStatus = "added" | "removed" | "changed"
+
+export type DiffKind = "node" | "link" | "interface" | "route"
+
+export interface DiffChange {
+  kind: DiffKind
+  status: DiffStatus
+  description: string
+  /** Node ids the change belongs to */
+  nodes: string[]
+}
+
+export interface DatasetDiff {
+  /** Nodes of the after capture plus the nodes that were removed */
+  nodes: MapNode[]
+  /** Direct links of the after capture plus the links that were removed */
+  edges: MapEdge[]
+  nodeStatus: Record<string, DiffStatus>
+  edgeStatus: Record<string, DiffStatus>
+  changes: DiffChange[]
+}
+
+// A physical link is identified by its two endpoints, so the same cable keeps
+// its identity even if the backend renumbers edge ids between captures.
+const endpoint = (node: string, iface: string | undefined) => `${node}:${iface || "?"}`
+const linkKey = (edge: MapEdge) => [endpoint(edge.from, edge.interfaceA), endpoint(edge.to, edge.interfaceB)].sort().join(" ↔ ")
+const nodePairKey = (edge: MapEdge) => [edge.from, edge.to].sort().join("|")
+
+const directLinks = (edges: MapEdge[]) => {
+  const links = new Map<string, MapEdge>()
+  for (const edge of edges) {
+    if (edge.edgeType !== "direct") continue
+    const key = linkKey(edge)
+    if (!links.has(key)) links.set(key, edge)
+  }
+  return links
+}
+
+const interfacesOf = (node: MapNode) => {
+  const result = new Map<string, string>()
+  for (const entry of node.allLocalIps || []) {
+    result.set(entry.interface || "unknown", entry.ip)
+  }
+  return result
+}
+
+/**
+ * Compare two backend payloads. `beforeJson` is the older capture; statuses
+ * describe how `afterJson` differs from it.
+ */
+export function diffDatasets(beforeJson: unknown, afterJson: unknown): DatasetDiff {
+  const before = NetworkDataAdapter.convertPhysicalOnly(beforeJson)
+  const after = NetworkDataAdapter.convertPhysicalOnly(afterJson)
+  const changes: DiffChange[] = []
+  const nodeStatus: Record<string, DiffStatus> = {}
+  const edgeStatus: Record<string, DiffStatus> = {}
+
+  const markChanged = (nodeId: string) => {
+    if (!nodeStatus[nodeId]) nodeStatus[nodeId] = "changed"
+  }
+
+  // Nodes
+  const beforeNodes = new Map(before.nodes.map((n) => [n.id as string, n]))
+  const afterNodes = new Map(after.nodes.map((n) => [n.id as string, n]))
+  const nodes = [...after.nodes]
+
+  for (const [id, node] of afterNodes) {
+    const old = beforeNodes.get(id)
+    if (!old) {
+      nodeStatus[id] = "added"
+      changes.push({ kind: "node", status: "added", description: `Node ${id} (${node.nodeName || node.label}) appeared`, nodes: [id] })
+      continue
+    }
+    if (old.fullAddress !== node.fullAddress) {
+      markChanged(id)
+      changes.push({ kind: "node", status: "changed", description: `Node ${id} address ${old.fullAddress || "none"} → ${node.fullAddress || "none"}`, nodes: [id] })
+    }
+
+    // Interfaces of nodes present in both captures
+    const oldIfaces = interfacesOf(old)
+    const newIfaces = interfacesOf(node)
+    for (const [iface, ip] of newIfaces) {
+      const oldIp = oldIfaces.get(iface)
+      if (oldIp === undefined) {
+        markChanged(id)
+        changes.push({ kind: "interface", status: "added", description: `${id} ${iface} added (${ip})`, nodes: [id] })
+      } else if (oldIp !== ip) {
+        markChanged(id)
+        changes.push({ kind: "interface", status: "changed", description: `${id} ${iface} ${oldIp} → ${ip}`, nodes: [id] })
+      }
+    }
+    for (const [iface, ip] of oldIfaces) {
+      if (newIfaces.has(iface)) continue
+      markChanged(id)
+      changes.push({ kind: "interface", status: "removed", description: `${id} ${iface} removed (was ${ip})`, nodes: [id] })
+    }
+  }
+
+  for (const [id, node] of beforeNodes) {
+    if (afterNodes.has(id)) continue
+    nodeStatus[id] = "removed"
+    nodes.push(node)
+    changes.push({ kind: "node", status: "removed", description: `Node ${id} (${node.nodeName || node.label}) disappeared`, nodes: [id] })
+  }
+
+  // Links. Between the same two nodes, a removed link and an added link are
+  // reported together as one changed link (the cable moved to other ports).
+  const beforeLinks = directLinks(before.edges)
+  const afterLinks = directLinks(after.edges)
+  const edges = Array.from(afterLinks.values())
+  const afterEdgeIds = new Set(edges.map((e) => e.id))
+
+  const removedByPair = new Map<string, MapEdge[]>()
+  for (const [key, edge] of beforeLinks) {
+    if (afterLinks.has(key)) continue
+    const pair = nodePairKey(edge)
+    removedByPair.set(pair, [...(removedByPair.get(pair) || []), edge])
+  }
+
+  for (const [key, edge] of afterLinks) {
+    if (beforeLinks.has(key)) continue
+    const moved = removedByPair.get(nodePairKey(edge))?.shift()
+    if (moved) {
+      edgeStatus[edge.id] = "changed"
+      changes.push({ kind: "link", status: "changed", description: `${linkKey(moved)} → ${key}`, nodes: [edge.from, edge.to] })
+    } else {
+      edgeStatus[edge.id] = "added"
+      changes.push({ kind: "link", status: "added", description: key, nodes: [edge.from, edge.to] })
+    }
+    markChanged(edge.from)
+    markChanged(edge.to)
+  }
+
+  for (const removed of removedByPair.values()) {
+    for (const edge of removed) {
+      // Removed links are drawn too, so keep their ids clear of the after capture's
+      const id = afterEdgeIds.has(edge.id) ? `removed-${edge.id}` : edge.id
+      edges.push({ ...edge, id })
+      edgeStatus[id] = "removed"
+      changes.push({ kind: "link", status: "removed", description: linkKey(edge), nodes: [edge.from, edge.to] })
+      markChanged(edge.from)
+      markChanged(edge.to)
+    }
+  }
+
+  // Route entries, keyed by receiver and source
+  const beforeRoutes: RouteTable = NetworkDataAdapter.buildRouteTable(beforeJson)
+  const afterRoutes: RouteTable = NetworkDataAdapter.buildRouteTable(afterJson)
+  const describeEntry = (entry: { nextHop: string, interface: string }) => `via ${entry.nextHop}${entry.interface ? ` on ${entry.interface}` : ""}`
+
+  for (const [receiver, routes] of afterRoutes) {
+    const oldRoutes = beforeRoutes.get(receiver)
+    for (const [source, entry] of routes) {
+      const old = oldRoutes?.get(source)
+      if (!old) {
+        markChanged(receiver)
+        changes.push({ kind: "route", status: "added", description: `${receiver} from ${source}: ${describeEntry(entry)}`, nodes: [receiver, source] })
+      } else if (old.nextHop !== entry.nextHop || old.interface !== entry.interface) {
+        markChanged(receiver)
+        changes.push({ kind: "route", status: "changed", description: `${receiver} from ${source}: ${describeEntry(old)} → ${describeEntry(entry)}`, nodes: [receiver, source] })
+      }
+    }
+  }
+  for (const [receiver, routes] of beforeRoutes) {
+    for (const [source, entry] of routes) {
+      if (afterRoutes.get(receiver)?.has(source)) continue
+      markChanged(receiver)
+      changes.push({ kind: "route", status: "removed", description: `${receiver} from ${source}: ${describeEntry(entry)}`, nodes: [receiver, source] })
+    }
+  }
+
+  return { nodes, edges, nodeStatus, edgeStatus, changes }
+}
@@ -0,0 +1,46 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { listDatasets, readDatasetFile } from "./datasetDirectory"
+
+describe("dataset directory", () => {
+  let directory: string
+  const previous = process.env.DATASETS_DIR
+
+  beforeAll(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "datasets-"))
+    for (const file of [
+      "data-28Node.json", "query-28Node.json",
+      "new_12_data.json", "query_new_12node.json",
+      "lab3.json", "query-lab3.json", "positions-lab3.json",
+      "capture-lab.json",
+      "notes.txt",
+    ]) {
+      writeFileSync(path.join(directory, file), `{"file":"${file}"}`)
+    }
+    process.env.DATASETS_DIR = directory
+  })
+
+  afterAll(() => {
+    if (previous === undefined) delete process.env.DATASETS_DIR
+    else process.env.DATASETS_DIR = previous
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("pairs every capture with its query file, configured datasets first", async () => {
+    expect(await listDatasets()).toEqual([
+      { name: "Yoda 28 Node", dataFile: "/api/datasets/data-28Node.json", positionsFile: "/api/datasets/query-28Node.json" },
+      { name: "Yoda 12 Node (new)", dataFile: "/api/datasets/new_12_data.json", positionsFile: "/api/datasets/query_new_12node.json" },
+      { name: "capture-lab", dataFile: "/api/datasets/capture-lab.json", positionsFile: "" },
+      { name: "lab3", dataFile: "/api/datasets/lab3.json", positionsFile: "/api/datasets/query-lab3.json" },
+    ])
+  })
+
+  it("reads servable files and refuses other names", async () => {
+    expect(await readDatasetFile("lab3.json")).toBe('{"file":"lab3.json"}')
+    expect(await readDatasetFile("missing.json")).toBeNull()
+    expect(await readDatasetFile("../lab3.json")).toBeNull()
+    expect(await readDatasetFile("notes.txt")).toBeNull()
+  })
+})
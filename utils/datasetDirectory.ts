@@ -0,0 +1,77 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { DATASETS } from "@/config/datasets"
+
+// Server-side view of the dataset directory served by app/api/datasets. The
+// directory comes from the DATASETS_DIR environment variable (absolute, or
+// relative to the project root) and defaults to public/, where the bundled
+// captures live. Dropping a new capture into the directory makes it listed.
+
+export interface DatasetListing {
+  name: string
+  dataFile: string
+  /** Matching query-*.json, or "" when the capture has none */
+  positionsFile: string
+}
+
+export const DATASET_API_PATH = "/api/datasets"
+
+export function datasetDirectory(): string {
+  return path.resolve(process.cwd(), process.env.DATASETS_DIR || "public")
+}
+
+// Only plain JSON file names are served, which also rules out path traversal
+export const isServableFile = (fileName: string) => /^[\w-][\w.-]*\.json$/.test(fileName)
+
+const isQueryFile = (fileName: string) => /query/i.test(fileName)
+// Arrangements exported from the map (positions-<dataset>.json)
+const isPositionsFile = (fileName: string) => /^positions[-_]/i.test(fileName)
+// Any other JSON file is a capture, whatever it is called
+const isDataFile = (fileName: string) => !isQueryFile(fileName) && !isPositionsFile(fileName)
+
+// Captures come in pairs such as data-28Node.json / query-28Node.json or
+// new_28_data.json / query_new_28node.json. Dropping the role words and
+// separators from a file name leaves a key both halves share.
+const pairKey = (fileName: string) =>
+  fileName.toLowerCase().replace(/\.json$/, "").replace(/query|data|nodes?/g, "").replace(/[^a-z0-9]/g, "")
+
+/**
+ * List the dataset/positions pairs in the dataset directory. Files that are
+ * also in the configured DATASETS keep their configured display name.
+ */
+export async function listDatasets(): Promise<DatasetListing[]> {
+  const files = (await fs.readdir(datasetDirectory())).filter(isServableFile)
+  const queries = new Map(files.filter(isQueryFile).map((file) => [pairKey(file), file]))
+  const configuredNames = new Map(Object.entries(DATASETS).map(([name, dataset]) => [dataset.dataFile.replace(/^\//, ""), name]))
+  // Configured datasets first, in their configured order; the rest by name
+  const order = (name: string) => {
+    const index = Object.keys(DATASETS).indexOf(name)
+    return index === -1 ? Infinity : index
+  }
+
+  return files
+    .filter(isDataFile)
+    .map((file) => {
+      const query = queries.get(pairKey(file))
+      return {
+        name: configuredNames.get(file) || file.replace(/\.json$/i, ""),
+        dataFile: `${DATASET_API_PATH}/${file}`,
+        positionsFile: query ? `${DATASET_API_PATH}/${query}` : "",
+      }
+    })
+    .sort((a, b) => order(a.name) - order(b.name) || a.name.localeCompare(b.name))
+}
+
+/**
+ * Read one file from the dataset directory. Returns null when the name is not
+ * servable or the file does not exist.
+ */
+export async function readDatasetFile(fileName: string): Promise<string | null> {
+  if (!isServableFile(fileName)) return null
+  try {
+    return await fs.readFile(path.join(datasetDirectory(), fileName), "utf8")
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw err
+  }
+}
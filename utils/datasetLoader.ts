@@ -0,0 +1,39 @@
+// Datasets normally live as static JSON files under public/. Files imported in
+// the browser are kept in memory for the rest of the session and addressed by
+// `session:` paths, so every consumer loads dataset files through
+// loadDatasetJson instead of calling fetch directly.
+
+const SESSION_PREFIX = "session:"
+
+const sessionFiles = new Map<string, unknown>()
+
+export const isSessionPath = (path: string) => path.startsWith(SESSION_PREFIX)
+
+/**
+ * Keep an imported JSON document for the session and return the path that
+ * loads it back.
+ */
+export function registerSessionFile(name: string, json: unknown): string {
+  const path = `${SESSION_PREFIX}${name}`
+  sessionFiles.set(path, json)
+  return path
+}
+
+/**
+ * Load a dataset file: imported files from memory, anything else from the
+ * server (bypassing the browser cache so refreshes pick up new captures).
+ */
+export async function loadDatasetJson(path: string): Promise<unknown> {
+  if (isSessionPath(path)) {
+    if (!sessionFiles.has(path)) {
+      throw new Error(`Imported file ${path.slice(SESSION_PREFIX.length)} is no longer available`)
+    }
+    return sessionFiles.get(path)
+  }
+
+  const response = await fetch(`${path}?t=${Date.now()}`)
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path}: ${response.status} ${response.statusText}`)
+  }
+  return response.json()
+}
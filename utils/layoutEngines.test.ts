@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { computeLayout, LAYOUT_MODE_LABELS, type LayoutLink, type LayoutMode, type LayoutNode } from "./layoutEngines"
+
+// A loop of five nodes with a tail, and a separate pair, spread over two NCAs
+const nodes: LayoutNode[] = ["a1", "a2", "a3", "a4", "a5", "a6", "b1", "b2"].map((id, i) => ({
+  id,
+  order: i + 1,
+  group: id.startsWith("a") && i < 3 ? "1" : "2",
+  groupOrder: i,
+}))
+
+const links: LayoutLink[] = [
+  { from: "a1", to: "a2" },
+  { from: "a2", to: "a3" },
+  { from: "a3", to: "a4" },
+  { from: "a4", to: "a5" },
+  { from: "a5", to: "a1" },
+  { from: "a5", to: "a6" },
+  { from: "b1", to: "b2" },
+  // Ignored: the other end is not on the map
+  { from: "b2", to: "zz" },
+]
+
+const modes = Object.keys(LAYOUT_MODE_LABELS) as LayoutMode[]
+
+describe("computeLayout", () => {
+  it.each(modes)("places every node at its own spot in %s mode", (mode) => {
+    const { positions } = computeLayout(mode, nodes, links)
+
+    expect(Object.keys(positions).sort()).toEqual(nodes.map((n) => n.id).sort())
+    const spots = Object.values(positions).map((p) => `${p.x},${p.y}`)
+    expect(new Set(spots).size).toBe(spots.length)
+    expect(Object.values(positions).every((p) => Number.isFinite(p.x) && Number.isFinite(p.y))).toBe(true)
+  })
+
+  it.each(modes)("gives the same layout on every run in %s mode", (mode) => {
+    const first = computeLayout(mode, nodes, links)
+    const second = computeLayout(mode, nodes, links)
+
+    expect(second.positions).toEqual(first.positions)
+    expect(second.extraPosition(0)).toEqual(first.extraPosition(0))
+  })
+
+  it.each(modes)("does not depend on the order nodes are passed in %s mode", (mode) => {
+    expect(computeLayout(mode, [...nodes].reverse(), links).positions).toEqual(computeLayout(mode, nodes, links).positions)
+  })
+
+  it("roots the hierarchical layout at the given node", () => {
+    const { positions } = computeLayout("hierarchical", nodes, links, { root: "a4" })
+    const loop = ["a1", "a2", "a3", "a5", "a6"]
+
+    expect(loop.every((id) => positions[id].y > positions.a4.y)).toBe(true)
+  })
+
+  it("keeps spots for streamed nodes clear of the layout", () => {
+    const { positions, extraPosition } = computeLayout("force", nodes, links)
+    const lowest = Math.max(...Object.values(positions).map((p) => p.y))
+
+    expect(extraPosition(0).y).toBeGreaterThan(lowest)
+    expect(extraPosition(1)).not.toEqual(extraPosition(0))
+  })
+})
@@ -0,0 +1,464 @@
+// Node placement for NetworkMap. Every mode is deterministic: no random seeds,
+// and ties are always broken by the node's sort key and then its id, so the same
+// dataset renders the same way on every load. Apart from the nodeId grid, results
+// are snapped to a lattice so the interface boxes (e0 top, e1 right, u0 bottom,
+// u1 left) of neighboring nodes never overlap and the orthogonal link routing has
+// aligned rows and columns to work with.
+
+export type LayoutMode = "grid" | "force" | "hierarchical" | "ring" | "nca"
+
+export const LAYOUT_MODE_LABELS: Record<LayoutMode, string> = {
+  "grid": "Grid (nodeId)",
+  "force": "Force-directed",
+  "hierarchical": "Hierarchical",
+  "ring": "Rings",
+  "nca": "Grouped by NCA",
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface LayoutNode {
+  id: string
+  /** Sort key: the nodeId from the query file, or the number parsed from the map id */
+  order: number
+  /** NCA number from nodeLabelPath, when the query file has one */
+  group?: string
+  /** Node number within the NCA */
+  groupOrder?: number
+}
+
+export interface LayoutLink {
+  from: string
+  to: string
+}
+
+export interface LayoutOptions {
+  /** Root of the hierarchical layout (e.g. the selected multicast source); defaults to the first node */
+  root?: string | null
+}
+
+export interface Layout {
+  positions: Record<string, Point>
+  /** Spot for the n-th node added after the layout was computed (nodes from streamed deltas) */
+  extraPosition: (n: number) => Point
+}
+
+// Lattice cell: a node's interface boxes reach 67px left/right and 39px up/down
+const CELL = { x: 160, y: 120 }
+
+/** Spacing of the nodeId grid, adapted to the node count */
+export function gridSpacing(count: number): Point {
+  if (count > 100) return { x: 300, y: 250 }
+  if (count > 50) return { x: 250, y: 200 }
+  return { x: 250, y: 250 }
+}
+
+const byOrder = (a: LayoutNode, b: LayoutNode) => a.order - b.order || a.id.localeCompare(b.id)
+
+/**
+ * Place `nodes` with the given layout mode. `links` are the physical links; links
+ * to ids that are not in `nodes` are ignored.
+ */
+export function computeLayout(mode: LayoutMode, nodes: LayoutNode[], links: LayoutLink[], options: LayoutOptions = {}): Layout {
+  if (mode === "grid" || nodes.length === 0) return gridLayout(nodes)
+
+  const sorted = [...nodes].sort(byOrder)
+  const adjacency = buildAdjacency(sorted, links)
+  let positions: Record<string, Point>
+  switch (mode) {
+    case "force":
+      positions = forceLayout(sorted, adjacency)
+      break
+    case "hierarchical":
+      positions = packBlocks(components(sorted, adjacency, options.root).map((component) => treeLayout(component, adjacency)))
+      break
+    case "ring":
+      positions = packBlocks(components(sorted, adjacency).map((component) => ringLayout(component, adjacency)))
+      break
+    case "nca":
+      positions = packBlocks(groupBlocks(sorted))
+      break
+  }
+  positions = snapToLattice(sorted, positions)
+  return { positions, extraPosition: belowLayout(positions) }
+}
+
+// ---------------------------------------------------------------------------
+// nodeId grid
+// ---------------------------------------------------------------------------
+
+/**
+ * Roughly square grid, filled row by row in nodeId order. Nodes without a nodeId
+ * keep their input order among equal keys (the sort is stable).
+ */
+function gridLayout(nodes: LayoutNode[]): Layout {
+  const spacing = gridSpacing(nodes.length)
+  const cols = Math.max(1, Math.ceil(Math.sqrt(nodes.length)))
+  const rows = Math.ceil(nodes.length / cols)
+  const startX = -((cols - 1) * spacing.x) / 2
+  const startY = -((rows - 1) * spacing.y) / 2
+  const cell = (index: number) => ({
+    x: startX + (index % cols) * spacing.x,
+    y: startY + Math.floor(index / cols) * spacing.y,
+  })
+
+  const positions: Record<string, Point> = {}
+  ;[...nodes].sort((a, b) => a.order - b.order).forEach((node, index) => {
+    positions[node.id] = cell(index)
+  })
+  // New nodes continue the grid after the last cell
+  return { positions, extraPosition: (n) => cell(nodes.length + n) }
+}
+
+// ---------------------------------------------------------------------------
+// Graph helpers
+// ---------------------------------------------------------------------------
+
+type Adjacency = Map<string, string[]>
+
+// Neighbor lists sorted in node order, without self-links or duplicate links
+function buildAdjacency(sorted: LayoutNode[], links: LayoutLink[]): Adjacency {
+  const rank = new Map(sorted.map((node, i) => [node.id, i]))
+  const sets = new Map<string, Set<string>>(sorted.map((node) => [node.id, new Set()]))
+  for (const link of links) {
+    if (link.from === link.to || !sets.has(link.from) || !sets.has(link.to)) continue
+    sets.get(link.from)!.add(link.to)
+    sets.get(link.to)!.add(link.from)
+  }
+  return new Map(Array.from(sets, ([id, set]) => [id, Array.from(set).sort((a, b) => rank.get(a)! - rank.get(b)!)]))
+}
+
+// Connected components in node order, each listed in BFS order from its first node
+// (or from `root` for the component that contains it, which then comes first)
+function components(sorted: LayoutNode[], adjacency: Adjacency, root?: string | null): string[][] {
+  const seen = new Set<string>()
+  const result: string[][] = []
+  const starts = root && adjacency.has(root) ? [root, ...sorted.map((node) => node.id)] : sorted.map((node) => node.id)
+  for (const start of starts) {
+    if (seen.has(start)) continue
+    const component = [start]
+    seen.add(start)
+    for (let i = 0; i < component.length; i++) {
+      for (const next of adjacency.get(component[i])!) {
+        if (seen.has(next)) continue
+        seen.add(next)
+        component.push(next)
+      }
+    }
+    result.push(component)
+  }
+  return result
+}
+
+// ---------------------------------------------------------------------------
+// Force-directed
+// ---------------------------------------------------------------------------
+
+const FORCE_ITERATIONS = 300
+
+/**
+ * Fruchterman-Reingold, started from a circle in node order instead of random
+ * positions, with a linear cooling schedule. Repulsion is cut off beyond a few
+ * link lengths, and a weak pull toward the center keeps disconnected parts from
+ * drifting off.
+ */
+function forceLayout(sorted: LayoutNode[], adjacency: Adjacency): Record<string, Point> {
+  const n = sorted.length
+  const k = CELL.x * 1.5
+  const ids = sorted.map((node) => node.id)
+  const index = new Map(ids.map((id, i) => [id, i]))
+  const radius = Math.max(k, (Math.sqrt(n) * k) / 2)
+  const x = ids.map((_, i) => radius * Math.cos((2 * Math.PI * i) / n))
+  const y = ids.map((_, i) => radius * Math.sin((2 * Math.PI * i) / n))
+  const links: Array<[number, number]> = []
+  ids.forEach((id, i) => adjacency.get(id)!.forEach((other) => {
+    const j = index.get(other)!
+    if (i < j) links.push([i, j])
+  }))
+
+  const dx = new Float64Array(n)
+  const dy = new Float64Array(n)
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    dx.fill(0)
+    dy.fill(0)
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        let ddx = x[i] - x[j]
+        let ddy = y[i] - y[j]
+        let distance = Math.hypot(ddx, ddy)
+        if (distance < 0.01) {
+          // Coincident nodes are pushed apart along a fixed direction
+          ddx = 0.01
+          ddy = 0.01 * ((i + j) % 3 - 1)
+          distance = Math.hypot(ddx, ddy)
+        }
+        // Only nearby nodes repel, so the map does not keep expanding as a whole
+        if (distance > k * 3) continue
+        const force = (k * k) / distance
+        dx[i] += (ddx / distance) * force
+        dy[i] += (ddy / distance) * force
+        dx[j] -= (ddx / distance) * force
+        dy[j] -= (ddy / distance) * force
+      }
+    }
+    for (const [i, j] of links) {
+      const ddx = x[i] - x[j]
+      const ddy = y[i] - y[j]
+      const distance = Math.max(Math.hypot(ddx, ddy), 0.01)
+      const force = (distance * distance) / k
+      dx[i] -= (ddx / distance) * force
+      dy[i] -= (ddy / distance) * force
+      dx[j] += (ddx / distance) * force
+      dy[j] += (ddy / distance) * force
+    }
+    const temperature = radius * 0.1 * (1 - iteration / FORCE_ITERATIONS)
+    for (let i = 0; i < n; i++) {
+      dx[i] -= x[i] * 0.05
+      dy[i] -= y[i] * 0.05
+      const length = Math.hypot(dx[i], dy[i])
+      if (length === 0) continue
+      const step = Math.min(length, temperature)
+      x[i] += (dx[i] / length) * step
+      y[i] += (dy[i] / length) * step
+    }
+  }
+
+  return Object.fromEntries(ids.map((id, i) => [id, { x: x[i], y: y[i] }]))
+}
+
+// ---------------------------------------------------------------------------
+// Hierarchical
+// ---------------------------------------------------------------------------
+
+/**
+ * Tidy tree over the BFS tree of one component, rooted at its first node: one
+ * row per hop, leaves in consecutive columns, parents centered over their children.
+ */
+function treeLayout(component: string[], adjacency: Adjacency): Record<string, Point> {
+  const children = new Map<string, string[]>(component.map((id) => [id, []]))
+  const depth = new Map<string, number>([[component[0], 0]])
+  for (const id of component) {
+    for (const next of adjacency.get(id)!) {
+      if (depth.has(next)) continue
+      depth.set(next, depth.get(id)! + 1)
+      children.get(id)!.push(next)
+    }
+  }
+
+  const positions: Record<string, Point> = {}
+  let nextColumn = 0
+  const place = (id: string): number => {
+    const kids = children.get(id)!
+    const column = kids.length === 0
+      ? nextColumn++
+      : (() => {
+        const columns = kids.map(place)
+        return (columns[0] + columns[columns.length - 1]) / 2
+      })()
+    positions[id] = { x: column * CELL.x, y: depth.get(id)! * CELL.y * 2 }
+    return column
+  }
+  place(component[0])
+  return positions
+}
+
+// ---------------------------------------------------------------------------
+// Rings
+// ---------------------------------------------------------------------------
+
+// Longest cycle closed by a single non-tree link of a DFS from the component's first node
+function longestLoop(component: string[], adjacency: Adjacency): string[] {
+  const parent = new Map<string, string | null>([[component[0], null]])
+  const depth = new Map<string, number>([[component[0], 0]])
+  const stack: Array<{ id: string, next: number }> = [{ id: component[0], next: 0 }]
+  let best: string[] = []
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1]
+    const neighbors = adjacency.get(frame.id)!
+    if (frame.next >= neighbors.length) {
+      stack.pop()
+      continue
+    }
+    const other = neighbors[frame.next++]
+    if (!depth.has(other)) {
+      parent.set(other, frame.id)
+      depth.set(other, depth.get(frame.id)! + 1)
+      stack.push({ id: other, next: 0 })
+    } else if (other !== parent.get(frame.id) && depth.get(other)! < depth.get(frame.id)! - 1) {
+      // Link back to an ancestor: the loop is the tree path between the two
+      const length = depth.get(frame.id)! - depth.get(other)! + 1
+      if (length > best.length) {
+        const loop: string[] = []
+        for (let id: string | null = frame.id; id !== other; id = parent.get(id!)!) loop.push(id!)
+        loop.push(other)
+        best = loop.reverse()
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * The longest loop of the component on a circle, starting at the top and going
+ * clockwise. Everything else hangs off the loop
+ * as radial trees pointing outward from the loop node it is attached to.
+ * Components without a loop are drawn as trees.
+ */
+function ringLayout(component: string[], adjacency: Adjacency): Record<string, Point> {
+  let loop = longestLoop(component, adjacency)
+  if (loop.length < 3) return treeLayout(component, adjacency)
+
+  // Deterministic orientation: start at the loop node nearest the component's first
+  // node, heading toward whichever of its two loop neighbors comes first
+  const rank = new Map(component.map((id, i) => [id, i]))
+  const first = loop.reduce((best, id, i) => rank.get(id)! < rank.get(loop[best])! ? i : best, 0)
+  loop = [...loop.slice(first), ...loop.slice(0, first)]
+  if (rank.get(loop[loop.length - 1])! < rank.get(loop[1])!) loop = [loop[0], ...loop.slice(1).reverse()]
+
+  const radius = Math.max(CELL.x, (loop.length * CELL.x * 1.2) / (2 * Math.PI))
+  const slice = (2 * Math.PI) / loop.length
+  const positions: Record<string, Point> = {}
+  const polar = (angle: number, r: number) => ({ x: r * Math.sin(angle), y: -r * Math.cos(angle) })
+
+  // Attach the remaining nodes breadth-first to the loop
+  const children = new Map<string, string[]>(component.map((id) => [id, []]))
+  const attached = new Set(loop)
+  const queue = [...loop]
+  for (let i = 0; i < queue.length; i++) {
+    for (const next of adjacency.get(queue[i])!) {
+      if (attached.has(next)) continue
+      attached.add(next)
+      children.get(queue[i])!.push(next)
+      queue.push(next)
+    }
+  }
+
+  // Each loop node owns its slice of the circle; subtrees split their parent's slice
+  const placeSubtree = (id: string, from: number, to: number, depth: number) => {
+    const kids = children.get(id)!
+    kids.forEach((kid, i) => {
+      const start = from + ((to - from) * i) / kids.length
+      const end = from + ((to - from) * (i + 1)) / kids.length
+      positions[kid] = polar((start + end) / 2, radius + depth * CELL.y * 1.5)
+      placeSubtree(kid, start, end, depth + 1)
+    })
+  }
+  loop.forEach((id, i) => {
+    const angle = i * slice
+    positions[id] = polar(angle, radius)
+    placeSubtree(id, angle - slice / 2, angle + slice / 2, 1)
+  })
+  return positions
+}
+
+// ---------------------------------------------------------------------------
+// Grouped by NCA
+// ---------------------------------------------------------------------------
+
+// One small grid per NCA in node-number order; nodes without an NCA form the last block
+function groupBlocks(sorted: LayoutNode[]): Array<Record<string, Point>> {
+  const groups = new Map<string, LayoutNode[]>()
+  for (const node of sorted) {
+    const key = node.group ?? ""
+    groups.set(key, [...(groups.get(key) || []), node])
+  }
+  const keys = Array.from(groups.keys()).sort((a, b) => {
+    if (!a || !b) return a ? -1 : b ? 1 : 0
+    return Number(a) - Number(b) || a.localeCompare(b)
+  })
+  return keys.map((key) => {
+    const members = groups.get(key)!.sort((a, b) => (a.groupOrder ?? Infinity) - (b.groupOrder ?? Infinity) || byOrder(a, b))
+    const cols = Math.ceil(Math.sqrt(members.length))
+    return Object.fromEntries(members.map((node, i) => [node.id, { x: (i % cols) * CELL.x * 1.5, y: Math.floor(i / cols) * CELL.y * 1.5 }]))
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Placement helpers
+// ---------------------------------------------------------------------------
+
+const boundsOf = (points: Point[]) => ({
+  minX: Math.min(...points.map((p) => p.x)),
+  maxX: Math.max(...points.map((p) => p.x)),
+  minY: Math.min(...points.map((p) => p.y)),
+  maxY: Math.max(...points.map((p) => p.y)),
+})
+
+/**
+ * Lay independent blocks (components, NCA groups) out in rows, in the given
+ * order, wrapping at about the width of a square arrangement; the result is
+ * centered on the origin.
+ */
+function packBlocks(blocks: Array<Record<string, Point>>): Record<string, Point> {
+  const gap = { x: CELL.x * 2, y: CELL.y * 2 }
+  const sized = blocks.map((block) => ({ block, bounds: boundsOf(Object.values(block)) }))
+  const area = sized.reduce((sum, { bounds }) => sum + (bounds.maxX - bounds.minX + gap.x) * (bounds.maxY - bounds.minY + gap.y), 0)
+  const rowWidth = Math.max(Math.sqrt(area), ...sized.map(({ bounds }) => bounds.maxX - bounds.minX))
+
+  const positions: Record<string, Point> = {}
+  let cursorX = 0
+  let cursorY = 0
+  let rowHeight = 0
+  for (const { block, bounds } of sized) {
+    const width = bounds.maxX - bounds.minX
+    if (cursorX > 0 && cursorX + width > rowWidth) {
+      cursorX = 0
+      cursorY += rowHeight + gap.y
+      rowHeight = 0
+    }
+    for (const [id, p] of Object.entries(block)) positions[id] = { x: cursorX + p.x - bounds.minX, y: cursorY + p.y - bounds.minY }
+    cursorX += width + gap.x
+    rowHeight = Math.max(rowHeight, bounds.maxY - bounds.minY)
+  }
+
+  const bounds = boundsOf(Object.values(positions))
+  const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }
+  for (const p of Object.values(positions)) {
+    p.x -= center.x
+    p.y -= center.y
+  }
+  return positions
+}
+
+/**
+ * Move every node to a lattice point, in node order; a node whose nearest point
+ * is taken gets the closest free one.
+ */
+function snapToLattice(sorted: LayoutNode[], positions: Record<string, Point>): Record<string, Point> {
+  const taken = new Set<string>()
+  const snapped: Record<string, Point> = {}
+  for (const { id } of sorted) {
+    const p = positions[id]
+    if (!p) continue
+    const col = Math.round(p.x / CELL.x)
+    const row = Math.round(p.y / CELL.y)
+    let best: { col: number, row: number, distance: number } | null = null
+    // Search square rings around the nearest point; a free point within ring r is
+    // closer than anything beyond ring r + 1
+    for (let r = 0; !best || r <= Math.ceil(best.distance / Math.min(CELL.x, CELL.y)) + 1; r++) {
+      for (let dc = -r; dc <= r; dc++) {
+        for (let dr = -r; dr <= r; dr++) {
+          if (Math.max(Math.abs(dc), Math.abs(dr)) !== r || taken.has(`${col + dc},${row + dr}`)) continue
+          const distance = Math.hypot((col + dc) * CELL.x - p.x, (row + dr) * CELL.y - p.y)
+          if (!best || distance < best.distance) best = { col: col + dc, row: row + dr, distance }
+        }
+      }
+    }
+    taken.add(`${best!.col},${best!.row}`)
+    snapped[id] = { x: best!.col * CELL.x, y: best!.row * CELL.y }
+  }
+  return snapped
+}
+
+// Extra nodes go in a row of lattice points below the layout, wrapping at its width
+function belowLayout(positions: Record<string, Point>): (n: number) => Point {
+  const bounds = boundsOf(Object.values(positions))
+  const cols = Math.max(1, Math.floor((bounds.maxX - bounds.minX) / (CELL.x * 2)) + 1)
+  return (n) => ({
+    x: bounds.minX + (n % cols) * CELL.x * 2,
+    y: bounds.maxY + (Math.floor(n / cols) + 1) * CELL.y * 2,
+  })
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import { percentileRank, percentileValue, rankLinksByRtt } from "./linkMetrics"
+
+describe("percentileValue", () => {
+  const sorted = [10, 20, 30, 40]
+
+  it("picks the nearest-rank value", () => {
+    expect(percentileValue(sorted, 50)).toBe(20)
+    expect(percentileValue(sorted, 75)).toBe(30)
+    expect(percentileValue(sorted, 95)).toBe(40)
+  })
+
+  it("clamps to the ends of the values", () => {
+    expect(percentileValue(sorted, 0)).toBe(10)
+    expect(percentileValue(sorted, 100)).toBe(40)
+    expect(percentileValue([5], 90)).toBe(5)
+    expect(percentileValue([], 50)).toBeUndefined()
+  })
+})
+
+describe("percentileRank", () => {
+  const sorted = [10, 20, 20, 40]
+
+  it("counts the values at or below the given one", () => {
+    expect(percentileRank(sorted, 20)).toBe(75)
+    expect(percentileRank(sorted, 15)).toBe(25)
+    expect(percentileRank(sorted, 5)).toBe(0)
+    expect(percentileRank(sorted, 40)).toBe(100)
+    expect(percentileRank([], 20)).toBeUndefined()
+  })
+})
+
+describe("rankLinksByRtt", () => {
+  const direct = (id: string, metrics: Record<string, unknown>) => ({ id, from: `${id}-a`, to: `${id}-b`, label: "eth0", edgeType: "direct", ...metrics })
+
+  const rows = rankLinksByRtt([
+    direct("d1", { rtt_ms: 5, mdev_rtt_ms: 1 }),
+    direct("d2", { rtt_ms: 9, metricsA: { rtt_ms: 9 }, metricsB: { rtt_ms: 3 } }),
+    direct("d3", { rtt_ms: 5, mdev_rtt_ms: 2 }),
+    direct("d4", { rx_packets: 100, rtt_ms: "7" }),
+    direct("d0", { rtt_ms: 5, mdev_rtt_ms: 1 }),
+    direct("quiet", {}),
+    { ...direct("route", { rtt_ms: 50 }), edgeType: "route" },
+  ])
+
+  it("lists measured direct links, worst RTT first, then deviation, then id", () => {
+    expect(rows.map((row) => row.edgeId)).toEqual(["d2", "d3", "d0", "d1", "d4"])
+  })
+
+  it("ranks each RTT among the measured links", () => {
+    expect(rows.map((row) => row.rttPercentile)).toEqual([100, 75, 75, 75, undefined])
+  })
+
+  it("keeps only numeric readings and passes each end's readings through", () => {
+    expect(rows[4].metrics).toEqual({ rx_packets: 100 })
+    expect(rows[0]).toMatchObject({ from: "d2-a", to: "d2-b", metricsA: { rtt_ms: 9 }, metricsB: { rtt_ms: 3 } })
+  })
+})
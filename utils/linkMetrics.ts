@@ -0,0 +1,143 @@
+import type { BackendRoute } from "./backendSchema"
+import type { MapEdge } from "./dataAdapter"
+
+// RTT and packet counters of the physical links. Nodes report them per route
+// entry (`route_info` rx_packets/tx_packets/rtt_ms/mdev_rtt_ms); the entry a node
+// received on a link's interface from the node at the other end carries that
+// end's reading. convertPhysicalOnly attaches both ends' readings to each direct
+// edge, and the helpers below summarise them for the map overlay and the worst
+// links list.
+
+/** Counters and timings of one end of a link (or the whole link), as numbers */
+export interface LinkMetrics {
+  rx_packets?: number
+  tx_packets?: number
+  rtt_ms?: number
+  mdev_rtt_ms?: number
+}
+
+const METRIC_FIELDS = ["rx_packets", "tx_packets", "rtt_ms", "mdev_rtt_ms"] as const
+
+/** Backend builds send counters and timings as strings or numbers */
+export const toMetricNumber = (value: string | number | undefined) => {
+  if (value === undefined || value === "") return undefined
+  const n = typeof value === "number" ? value : Number.parseFloat(value)
+  return Number.isFinite(n) ? n : undefined
+}
+
+/**
+ * Reading of a node's end of a link: the route entry received on `iface` whose
+ * previous hop is the neighbor, else any entry received on that interface.
+ * Undefined when that entry carries none of the metrics.
+ */
+export function linkEndMetrics(routeInfo: BackendRoute[], iface: string, isNeighbor: (iifNeighNode: string | undefined) => boolean): LinkMetrics | undefined {
+  const onInterface = routeInfo.filter((r) => (r.incomingInterface || "") === iface)
+  const route = onInterface.find((r) => isNeighbor(r.iifNeighNode)) || onInterface[0]
+  if (!route) return undefined
+  const metrics: LinkMetrics = {}
+  for (const field of METRIC_FIELDS) {
+    const value = toMetricNumber(route[field])
+    if (value !== undefined) metrics[field] = value
+  }
+  return Object.keys(metrics).length > 0 ? metrics : undefined
+}
+
+/**
+ * Link-level metrics from the readings of its two ends: the higher RTT and
+ * deviation (a link is as slow as its slower direction), and the packet counters
+ * summed over both ends.
+ */
+export function combineLinkMetrics(a: LinkMetrics | undefined, b: LinkMetrics | undefined): LinkMetrics {
+  const ends = [a, b].filter((end): end is LinkMetrics => end !== undefined)
+  const values = (field: keyof LinkMetrics) => ends.map((end) => end[field]).filter((value): value is number => value !== undefined)
+  const combined: LinkMetrics = {}
+  for (const field of METRIC_FIELDS) {
+    const present = values(field)
+    if (present.length === 0) continue
+    combined[field] = field === "rtt_ms" || field === "mdev_rtt_ms" ? Math.max(...present) : present.reduce((sum, n) => sum + n, 0)
+  }
+  return combined
+}
+
+export const hasLinkMetrics = (edge: LinkMetrics) => METRIC_FIELDS.some((field) => typeof edge[field] === "number")
+
+export const formatRtt = (ms: number) => `${ms < 10 ? ms.toFixed(1) : Math.round(ms)} ms`
+
+/** Compact counter: 950, 12.3k, 4.1M */
+export const formatPackets = (n: number) =>
+  n >= 1e6 ? `${(n / 1e6).toFixed(1)}M` : n >= 1e4 ? `${Math.round(n / 1e3)}k` : n >= 1e3 ? `${(n / 1e3).toFixed(1)}k` : String(Math.round(n))
+
+/** Overlay text for a link, e.g. "2.4 ±0.3 ms · 12k/9.8k"; undefined when it reported nothing */
+export function linkMetricsLabel(metrics: LinkMetrics) {
+  const parts: string[] = []
+  if (metrics.rtt_ms !== undefined) {
+    parts.push(metrics.mdev_rtt_ms !== undefined ? `${formatRtt(metrics.rtt_ms).replace(" ms", "")} ±${formatRtt(metrics.mdev_rtt_ms)}` : formatRtt(metrics.rtt_ms))
+  }
+  if (metrics.rx_packets !== undefined || metrics.tx_packets !== undefined) {
+    const side = (n: number | undefined) => n === undefined ? "?" : formatPackets(n)
+    parts.push(`${side(metrics.rx_packets)}/${side(metrics.tx_packets)}`)
+  }
+  return parts.length > 0 ? parts.join(" · ") : undefined
+}
+
+// ---------------------------------------------------------------------------
+// Percentiles: where a link's RTT stands among all measured links
+// ---------------------------------------------------------------------------
+
+/** Percentile cut points used for coloring and the worst links list */
+export const RTT_PERCENTILES = [50, 75, 90, 95] as const
+
+/** Value at percentile `p` of ascending `sorted` values (nearest rank) */
+export function percentileValue(sorted: number[], p: number) {
+  if (sorted.length === 0) return undefined
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))]
+}
+
+/** Share of `sorted` values at or below `value`, 0–100 */
+export function percentileRank(sorted: number[], value: number) {
+  if (sorted.length === 0) return undefined
+  let below = 0
+  while (below < sorted.length && sorted[below] <= value) below++
+  return (below / sorted.length) * 100
+}
+
+export interface LinkMetricsRow {
+  edgeId: string
+  from: string
+  to: string
+  /** Interfaces of the two ends, e.g. "eth0 ↔ usb1" */
+  label: string
+  metrics: LinkMetrics
+  /** Readings of the `from` and `to` ends */
+  metricsA?: LinkMetrics
+  metricsB?: LinkMetrics
+  /** Share of the measured links with this RTT or lower; undefined without an RTT */
+  rttPercentile?: number
+}
+
+/** One row per direct link with metrics, worst (highest) RTT first; links without an RTT last */
+export function rankLinksByRtt(edges: MapEdge[]): LinkMetricsRow[] {
+  const links = edges.filter((edge) => edge.edgeType === "direct" && hasLinkMetrics(edge))
+  const rtts = links.map((edge) => edge.rtt_ms).filter((ms): ms is number => typeof ms === "number").sort((a, b) => a - b)
+  return links
+    .map((edge): LinkMetricsRow => {
+      const metrics: LinkMetrics = {}
+      for (const field of METRIC_FIELDS) {
+        if (typeof edge[field] === "number") metrics[field] = edge[field]
+      }
+      return {
+        edgeId: edge.id,
+        from: edge.from,
+        to: edge.to,
+        label: edge.label || "",
+        metrics,
+        metricsA: edge.metricsA,
+        metricsB: edge.metricsB,
+        rttPercentile: metrics.rtt_ms === undefined ? undefined : percentileRank(rtts, metrics.rtt_ms),
+      }
+    })
+    .sort((a, b) =>
+      (b.metrics.rtt_ms ?? -Infinity) - (a.metrics.rtt_ms ?? -Infinity) ||
+      (b.metrics.mdev_rtt_ms ?? -Infinity) - (a.metrics.mdev_rtt_ms ?? -Infinity) ||
+      a.edgeId.localeCompare(b.edgeId))
+}
@@ -0,0 +1,267 @@
+// Export of the network map. The links, interface boxes, group containers and
+// badges are drawn by hand on the vis canvas, so exports replay the same drawing
+// code: onto a larger canvas for PNG (and the PDF, which embeds that image), or
+// onto SvgContext, which records the canvas calls as SVG elements so the
+// orthogonal routing comes out as vector paths.
+
+export type ExportFormat = "png" | "svg" | "pdf"
+
+interface SvgState {
+  fillStyle: string
+  strokeStyle: string
+  lineWidth: number
+  lineDash: number[]
+  globalAlpha: number
+  font: string
+  textAlign: CanvasTextAlign
+  textBaseline: CanvasTextBaseline
+  translateX: number
+  translateY: number
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const round = (n: number) => Math.round(n * 100) / 100
+
+const TEXT_ANCHOR: Record<string, string> = { left: "start", start: "start", center: "middle", right: "end", end: "end" }
+const DOMINANT_BASELINE: Record<string, string> = { middle: "central", top: "hanging", hanging: "hanging", bottom: "text-after-edge", alphabetic: "alphabetic", ideographic: "ideographic" }
+
+/**
+ * The canvas calls the map drawing code makes: CanvasRenderingContext2D on screen
+ * and for PNG/PDF exports, SvgContext for SVG exports.
+ */
+export type DrawContext = Pick<CanvasRenderingContext2D,
+  | "fillStyle" | "strokeStyle" | "lineWidth" | "globalAlpha" | "font" | "textAlign" | "textBaseline"
+  | "save" | "restore" | "setLineDash" | "beginPath" | "moveTo" | "lineTo" | "roundRect"
+  | "fill" | "stroke" | "fillRect" | "strokeRect" | "fillText" | "measureText">
+
+/**
+ * The part of CanvasRenderingContext2D the map drawing code uses, recorded as SVG.
+ * Paths are built from moveTo/lineTo/roundRect and emitted on fill() or stroke();
+ * text is measured with a real (detached) canvas so layout matches the screen.
+ */
+export class SvgContext implements DrawContext {
+  private state: SvgState = {
+    fillStyle: "#000000",
+    strokeStyle: "#000000",
+    lineWidth: 1,
+    lineDash: [],
+    globalAlpha: 1,
+    font: "10px sans-serif",
+    textAlign: "start",
+    textBaseline: "alphabetic",
+    translateX: 0,
+    translateY: 0,
+  }
+  private stack: SvgState[] = []
+  private path: string[] = []
+  private elements: string[] = []
+  private measurer = document.createElement("canvas").getContext("2d")!
+
+  get fillStyle() { return this.state.fillStyle }
+  set fillStyle(value: string) { this.state.fillStyle = String(value) }
+  get strokeStyle() { return this.state.strokeStyle }
+  set strokeStyle(value: string) { this.state.strokeStyle = String(value) }
+  get lineWidth() { return this.state.lineWidth }
+  set lineWidth(value: number) { this.state.lineWidth = value }
+  get globalAlpha() { return this.state.globalAlpha }
+  set globalAlpha(value: number) { this.state.globalAlpha = value }
+  get font() { return this.state.font }
+  set font(value: string) { this.state.font = value }
+  get textAlign() { return this.state.textAlign }
+  set textAlign(value: CanvasTextAlign) { this.state.textAlign = value }
+  get textBaseline() { return this.state.textBaseline }
+  set textBaseline(value: CanvasTextBaseline) { this.state.textBaseline = value }
+
+  save() { this.stack.push({ ...this.state, lineDash: [...this.state.lineDash] }) }
+  restore() { this.state = this.stack.pop() || this.state }
+  translate(x: number, y: number) {
+    this.state.translateX += x
+    this.state.translateY += y
+  }
+  setLineDash(segments: number[]) { this.state.lineDash = [...segments] }
+  getLineDash() { return [...this.state.lineDash] }
+
+  beginPath() { this.path = [] }
+  closePath() { this.path.push("Z") }
+  moveTo(x: number, y: number) { this.path.push(`M${this.x(x)} ${this.y(y)}`) }
+  lineTo(x: number, y: number) { this.path.push(`L${this.x(x)} ${this.y(y)}`) }
+  rect(x: number, y: number, width: number, height: number) {
+    this.path.push(`M${this.x(x)} ${this.y(y)}h${round(width)}v${round(height)}h${round(-width)}Z`)
+  }
+  roundRect(x: number, y: number, width: number, height: number, radius: number | number[] = 0) {
+    const r = Math.max(0, Math.min(Array.isArray(radius) ? radius[0] ?? 0 : radius, Math.abs(width) / 2, Math.abs(height) / 2))
+    if (r === 0) return this.rect(x, y, width, height)
+    const [x0, y0] = [this.x(x), this.y(y)]
+    this.path.push(
+      `M${round(x0 + r)} ${y0}h${round(width - 2 * r)}a${r} ${r} 0 0 1 ${r} ${r}v${round(height - 2 * r)}` +
+      `a${r} ${r} 0 0 1 ${-r} ${r}h${round(-(width - 2 * r))}a${r} ${r} 0 0 1 ${-r} ${-r}v${round(-(height - 2 * r))}a${r} ${r} 0 0 1 ${r} ${-r}Z`,
+    )
+  }
+
+  fill() {
+    if (this.path.length > 0) this.elements.push(`<path d="${this.path.join("")}"${this.fillAttributes()}/>`)
+  }
+  stroke() {
+    if (this.path.length > 0) this.elements.push(`<path d="${this.path.join("")}" fill="none"${this.strokeAttributes()}/>`)
+  }
+  fillRect(x: number, y: number, width: number, height: number) {
+    this.elements.push(`<rect x="${this.x(x)}" y="${this.y(y)}" width="${round(width)}" height="${round(height)}"${this.fillAttributes()}/>`)
+  }
+  strokeRect(x: number, y: number, width: number, height: number) {
+    this.elements.push(`<rect x="${this.x(x)}" y="${this.y(y)}" width="${round(width)}" height="${round(height)}" fill="none"${this.strokeAttributes()}/>`)
+  }
+  clearRect() {}
+
+  fillText(text: string, x: number, y: number) {
+    this.elements.push(
+      `<text x="${this.x(x)}" y="${this.y(y)}" style="font: ${escapeXml(this.state.font)}" text-anchor="${TEXT_ANCHOR[this.state.textAlign] || "start"}"` +
+      ` dominant-baseline="${DOMINANT_BASELINE[this.state.textBaseline] || "alphabetic"}"${this.fillAttributes()}>${escapeXml(text)}</text>`,
+    )
+  }
+  measureText(text: string) {
+    this.measurer.font = this.state.font
+    return this.measurer.measureText(text)
+  }
+
+  /** The recorded drawing as a standalone SVG document covering `viewBox` (canvas units) */
+  toSvg(viewBox: { x: number, y: number, width: number, height: number }) {
+    const box = `${round(viewBox.x)} ${round(viewBox.y)} ${round(viewBox.width)} ${round(viewBox.height)}`
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(viewBox.width)}" height="${Math.ceil(viewBox.height)}" viewBox="${box}">\n${this.elements.join("\n")}\n</svg>\n`
+  }
+
+  private x(x: number) { return round(x + this.state.translateX) }
+  private y(y: number) { return round(y + this.state.translateY) }
+  private fillAttributes() {
+    return ` fill="${escapeXml(this.state.fillStyle)}"${this.state.globalAlpha < 1 ? ` fill-opacity="${this.state.globalAlpha}"` : ""}`
+  }
+  private strokeAttributes() {
+    const dash = this.state.lineDash.length > 0 ? ` stroke-dasharray="${this.state.lineDash.join(" ")}"` : ""
+    const alpha = this.state.globalAlpha < 1 ? ` stroke-opacity="${this.state.globalAlpha}"` : ""
+    return ` stroke="${escapeXml(this.state.strokeStyle)}" stroke-width="${this.state.lineWidth}"${dash}${alpha}`
+  }
+}
+
+export interface MapLegendItem {
+  label: string
+  /** Any CSS color; `var(--name)` is looked up on the document when the legend is laid out */
+  color: string
+  /** Node swatch, link line, or dashed link line */
+  kind: "node" | "line" | "dashed"
+  /** Line width of link entries (3 when omitted) */
+  width?: number
+}
+
+const LEGEND_FONT = "13px Arial"
+const LEGEND_SWATCH = 22
+const LEGEND_GAP = 28
+const LEGEND_ROW_HEIGHT = 24
+const LEGEND_PADDING = 16
+
+export interface LegendLayout {
+  rows: Array<Array<{ item: MapLegendItem, x: number }>>
+  height: number
+}
+
+/** Wrap legend items into rows no wider than `width`; the height includes a "Legend" title */
+export function layoutLegend(items: MapLegendItem[], width: number): LegendLayout {
+  const measurer = document.createElement("canvas").getContext("2d")!
+  measurer.font = LEGEND_FONT
+  const rows: LegendLayout["rows"] = [[]]
+  let x = 0
+  for (const { color, ...rest } of items) {
+    const variable = /^var\((--[\w-]+)\)$/.exec(color.trim())?.[1]
+    const item = { ...rest, color: variable ? getComputedStyle(document.documentElement).getPropertyValue(variable).trim() : color }
+    const itemWidth = LEGEND_SWATCH + 8 + measurer.measureText(item.label).width
+    if (x > 0 && x + itemWidth > width) {
+      rows.push([])
+      x = 0
+    }
+    rows[rows.length - 1].push({ item, x })
+    x += itemWidth + LEGEND_GAP
+  }
+  return { rows, height: 2 * LEGEND_PADDING + LEGEND_ROW_HEIGHT * (rows.length + 1) }
+}
+
+/** Draw a legend laid out by layoutLegend with its top-left corner at (x, y) */
+export function drawLegend(ctx: DrawContext, legend: LegendLayout, x: number, y: number, textColor: string) {
+  ctx.save()
+  ctx.textAlign = "left"
+  ctx.textBaseline = "middle"
+  ctx.fillStyle = textColor
+  ctx.font = "bold 14px Arial"
+  ctx.fillText("Legend", x, y + LEGEND_PADDING + LEGEND_ROW_HEIGHT / 2)
+  ctx.font = LEGEND_FONT
+  legend.rows.forEach((row, i) => {
+    const midY = y + LEGEND_PADDING + LEGEND_ROW_HEIGHT * (i + 1.5)
+    row.forEach(({ item, x: offset }) => {
+      const left = x + offset
+      if (item.kind === "node") {
+        ctx.fillStyle = item.color
+        ctx.beginPath()
+        ctx.roundRect(left, midY - 8, LEGEND_SWATCH, 16, 4)
+        ctx.fill()
+      } else {
+        ctx.strokeStyle = item.color
+        ctx.lineWidth = item.width ?? 3
+        ctx.setLineDash(item.kind === "dashed" ? [6, 4] : [])
+        ctx.beginPath()
+        ctx.moveTo(left, midY)
+        ctx.lineTo(left + LEGEND_SWATCH, midY)
+        ctx.stroke()
+        ctx.setLineDash([])
+      }
+      ctx.fillStyle = textColor
+      ctx.fillText(item.label, left + LEGEND_SWATCH + 8, midY)
+    })
+  })
+  ctx.restore()
+}
+
+/**
+ * Single-page PDF showing a JPEG image at `width` x `height` points. The map is
+ * already rendered to pixels for PNG export, so the PDF wraps that rendering.
+ */
+export function buildImagePdf(jpeg: Uint8Array, imageWidth: number, imageHeight: number, width: number, height: number): Blob {
+  const encoder = new TextEncoder()
+  const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`
+  const objects: Array<Array<string | Uint8Array>> = [
+    ["<< /Type /Catalog /Pages 2 0 R >>"],
+    ["<< /Type /Pages /Kids [3 0 R] /Count 1 >>"],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+    [`<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`, jpeg, "\nendstream"],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+  ]
+
+  const chunks: Uint8Array[] = []
+  let length = 0
+  const push = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part
+    chunks.push(bytes)
+    length += bytes.length
+  }
+  push("%PDF-1.4\n")
+  const offsets = objects.map((parts, i) => {
+    const offset = length
+    push(`${i + 1} 0 obj\n`)
+    parts.forEach(push)
+    push("\nendobj\n")
+    return offset
+  })
+  const xref = length
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`)
+  offsets.forEach((offset) => push(`${String(offset).padStart(10, "0")} 00000 n \n`))
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`)
+  return new Blob(chunks as BlobPart[], { type: "application/pdf" })
+}
+
+/** Offer a blob as a file download */
+export function downloadBlob(fileName: string, blob: Blob) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+import type { LinkMetrics } from "./linkMetrics"
+import { buildTopologyModel } from "./topologyModel"
+import { buildMetricsSample, linkSeries, nodeSeries, seriesTrend, type MetricsSample } from "./metricsHistory"
+
+// Nodes are named Node00b01979<hex> with one eth0 address 2001:db8::<hex>, so
+// their map id is <hex>. Neighbors are on eth0 unless given as [neighbor, interface];
+// each route entry, received on eth0, is the reading of the link to `via`.
+const node = (hex: string, neighbors: Array<string | [string, string]>, routes: Array<{ via: string } & LinkMetrics> = []) => ({
+  nodeName: `Node00b01979${hex}`,
+  localIpInfo: [{ interface: "eth0", localIp: `2001:db8::${hex}` }],
+  neighIpInfo: neighbors.map((neighbor) => {
+    const [neighborHex, iface] = typeof neighbor === "string" ? [neighbor, "eth0"] : neighbor
+    return { interface: iface, neighIp: `2001:db8::${neighborHex}` }
+  }),
+  routeInfo: routes.map(({ via, ...metrics }) => ({ sourceNode: `2001:db8::${via}`, incomingInterface: "eth0", iifNeighNode: `2001:db8::${via}`, ...metrics })),
+})
+
+describe("buildMetricsSample", () => {
+  const model = buildTopologyModel({
+    networkMap: {
+      nodeRouteInfo: [
+        node("a001", ["a002"], [{ via: "a002", rtt_ms: 2, rx_packets: 10, tx_packets: 12 }]),
+        node("a002", ["a001", ["a003", "eth1"]], [{ via: "a001", rtt_ms: 3, mdev_rtt_ms: 0.5 }]),
+        node("a003", ["a002"]),
+      ],
+    },
+  })
+
+  it("keeps the combined metrics of each measured link with its ends", () => {
+    // a002 - a003 has no reading on either end
+    const sample = buildMetricsSample("data-test.json", model, 1000)
+
+    expect(sample.dataset).toBe("data-test.json")
+    expect(sample.at).toBe(1000)
+    expect(sample.links).toEqual({
+      "direct-a001-a002": { from: "a001", to: "a002", rtt_ms: 3, mdev_rtt_ms: 0.5, rx_packets: 10, tx_packets: 12 },
+    })
+  })
+
+  it("counts the routes and neighbors each node reported", () => {
+    expect(buildMetricsSample("data-test.json", model).nodes).toEqual({
+      a001: { routes: 1, neighbors: 1 },
+      a002: { routes: 1, neighbors: 2 },
+      a003: { routes: 0, neighbors: 1 },
+    })
+  })
+})
+
+describe("series", () => {
+  const sample = (at: number, links: MetricsSample["links"], nodes: MetricsSample["nodes"] = {}): MetricsSample => ({ dataset: "d", at, links, nodes })
+  const samples = [
+    sample(1, { l1: { from: "a", to: "b", rtt_ms: 2, rx_packets: 5 } }, { a: { routes: 3, neighbors: 1 } }),
+    sample(2, {}, { a: { routes: 4, neighbors: 1 } }),
+    sample(3, { l1: { from: "a", to: "b", rx_packets: 9 } }),
+    sample(4, { l1: { from: "a", to: "b", rtt_ms: 3.5, rx_packets: 11 } }, { a: { routes: 2, neighbors: 2 } }),
+  ]
+
+  it("lists a link's readings over time, skipping samples without it", () => {
+    expect(linkSeries(samples, "l1")).toEqual([
+      { at: 1, rtt_ms: 2, rx_packets: 5 },
+      { at: 3, rx_packets: 9 },
+      { at: 4, rtt_ms: 3.5, rx_packets: 11 },
+    ])
+    expect(linkSeries(samples, "l2")).toEqual([])
+  })
+
+  it("lists a node's counts over time", () => {
+    expect(nodeSeries(samples, "a").map(({ at, routes }) => [at, routes])).toEqual([[1, 3], [2, 4], [4, 2]])
+  })
+
+  it("gives the change from the first to the last reading of a field", () => {
+    const series = linkSeries(samples, "l1")
+
+    expect(seriesTrend(series, "rx_packets")).toBe(6)
+    // The reading without an RTT is skipped
+    expect(seriesTrend(series, "rtt_ms")).toBe(1.5)
+    expect(seriesTrend(series, "mdev_rtt_ms")).toBeUndefined()
+    expect(seriesTrend(series.slice(0, 1), "rx_packets")).toBeUndefined()
+  })
+})
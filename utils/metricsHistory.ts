@@ -0,0 +1,175 @@
+import type { LinkMetrics } from "./linkMetrics"
+import type { TopologyModel } from "./topologyModel"
+
+// Rolling history of link metrics and node counts. Every payload the app loads
+// (initial load, refresh, poll or streamed update) adds one sample per dataset,
+// kept in IndexedDB so a commissioning day's worth of refreshes survives page
+// reloads and shows whether a link is getting slower over time. Samples identical
+// to the previous one are not stored, and old samples roll off by age and count.
+
+/** Link metrics of one sample, with the link's ends so a node's links can be found later */
+export interface LinkSample extends LinkMetrics {
+  from: string
+  to: string
+}
+
+export interface NodeSample {
+  /** route_info entries the node reported */
+  routes: number
+  /** Neighbors the node reported in neigh_ip_info */
+  neighbors: number
+}
+
+export interface MetricsSample {
+  /** Dataset the sample belongs to (its data file) */
+  dataset: string
+  /** Epoch milliseconds */
+  at: number
+  /** Direct links with metrics, by edge id */
+  links: Record<string, LinkSample>
+  /** Nodes with their own entry, by map id */
+  nodes: Record<string, NodeSample>
+}
+
+export const HISTORY_RETENTION_MS = 48 * 60 * 60 * 1000
+export const MAX_SAMPLES_PER_DATASET = 1000
+
+const DB_NAME = "network-map-history"
+const DB_VERSION = 1
+const STORE = "samples"
+
+/** One sample of a topology: link metrics from the direct edges, counts from each node's entry */
+export function buildMetricsSample(dataset: string, model: TopologyModel, at = Date.now()): MetricsSample {
+  const links: MetricsSample["links"] = {}
+  for (const edge of model.edges) {
+    if (edge.edgeType !== "direct") continue
+    const sample: LinkSample = { from: edge.from, to: edge.to }
+    for (const field of ["rx_packets", "tx_packets", "rtt_ms", "mdev_rtt_ms"] as const) {
+      if (typeof edge[field] === "number") sample[field] = edge[field]
+    }
+    if (Object.keys(sample).length > 2) links[edge.id] = sample
+  }
+  const nodes: MetricsSample["nodes"] = {}
+  model.entryByNodeId.forEach((entry, id) => {
+    nodes[id] = { routes: entry.routeInfo.length, neighbors: entry.neighIpInfo.length }
+  })
+  return { dataset, at, links, nodes }
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB storage: one object store keyed by [dataset, at]
+// ---------------------------------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") throw new Error("IndexedDB is not available")
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) request.result.createObjectStore(STORE, { keyPath: ["dataset", "at"] })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call retry instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null })
+  }
+  return dbPromise
+}
+
+const datasetRange = (dataset: string, upTo = Infinity, open = false) => IDBKeyRange.bound([dataset, -Infinity], [dataset, upTo], false, open)
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve()
+  tx.onerror = () => reject(tx.error)
+  tx.onabort = () => reject(tx.error)
+})
+
+const listeners = new Set<(dataset: string) => void>()
+
+/** Be told when a dataset's history changes; returns the unsubscribe function */
+export function subscribeMetricsHistory(listener: (dataset: string) => void) {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+/** Samples of a dataset, oldest first */
+export async function loadMetricsHistory(dataset: string): Promise<MetricsSample[]> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, "readonly")
+  const request = tx.objectStore(STORE).getAll(datasetRange(dataset))
+  await transactionDone(tx)
+  return request.result as MetricsSample[]
+}
+
+const sameReadings = (a: MetricsSample, b: MetricsSample) =>
+  JSON.stringify(a.links) === JSON.stringify(b.links) && JSON.stringify(a.nodes) === JSON.stringify(b.nodes)
+
+/**
+ * Store a sample and drop the dataset's samples that fell out of the rolling
+ * window. Returns false when the readings equal the latest stored sample, which
+ * is then left as it is.
+ */
+export async function recordMetricsSample(sample: MetricsSample): Promise<boolean> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, "readwrite")
+  const store = tx.objectStore(STORE)
+  let stored = false
+
+  const latest = store.openCursor(datasetRange(sample.dataset), "prev")
+  latest.onsuccess = () => {
+    const previous = latest.result?.value as MetricsSample | undefined
+    if (previous && sameReadings(previous, sample)) return
+    stored = true
+    store.put(sample)
+    store.delete(datasetRange(sample.dataset, sample.at - HISTORY_RETENTION_MS, true))
+    const keys = store.getAllKeys(datasetRange(sample.dataset))
+    keys.onsuccess = () => {
+      keys.result.slice(0, Math.max(0, keys.result.length - MAX_SAMPLES_PER_DATASET)).forEach((key) => store.delete(key))
+    }
+  }
+
+  await transactionDone(tx)
+  if (stored) listeners.forEach((listener) => listener(sample.dataset))
+  return stored
+}
+
+export async function clearMetricsHistory(dataset: string) {
+  const db = await openDb()
+  const tx = db.transaction(STORE, "readwrite")
+  tx.objectStore(STORE).delete(datasetRange(dataset))
+  await transactionDone(tx)
+  listeners.forEach((listener) => listener(dataset))
+}
+
+// ---------------------------------------------------------------------------
+// Series for the charts
+// ---------------------------------------------------------------------------
+
+export type LinkSeriesPoint = LinkMetrics & { at: number }
+export type NodeSeriesPoint = NodeSample & { at: number }
+
+/** Readings of one link over time; samples where the link reported nothing are skipped */
+export function linkSeries(samples: MetricsSample[], edgeId: string): LinkSeriesPoint[] {
+  return samples
+    .filter((sample) => sample.links[edgeId])
+    .map((sample) => {
+      const { from: _from, to: _to, ...metrics } = sample.links[edgeId]
+      return { at: sample.at, ...metrics }
+    })
+}
+
+/** Route and neighbor counts of one node over time */
+export function nodeSeries(samples: MetricsSample[], nodeId: string): NodeSeriesPoint[] {
+  return samples
+    .filter((sample) => sample.nodes[nodeId])
+    .map((sample) => ({ at: sample.at, ...sample.nodes[nodeId] }))
+}
+
+/** Change from the first to the last reading of a series field, or undefined with fewer than two readings */
+export function seriesTrend<T extends { at: number }>(series: T[], field: keyof T) {
+  const values = series.map((point) => point[field]).filter((value): value is T[keyof T] & number => typeof value === "number")
+  return values.length < 2 ? undefined : values[values.length - 1] - values[0]
+}
@@ -0,0 +1,102 @@
+import type { MapEdge, MapNode } from "./dataAdapter"
+import type { Point } from "./layoutEngines"
+
+// NCA groups on the map. Installations are organized by panel/NCA (the "NCA n"
+// segment of a node's nodeLabelPath in the query file), so the map can draw a
+// container around each NCA and collapse it into a single summary node whose
+// links to the rest of the network are aggregated.
+
+export interface NodeGroup {
+  /** NCA number */
+  key: string
+  label: string
+  /** Map ids of the members */
+  members: string[]
+}
+
+/** Id of the summary node standing in for a collapsed group */
+export const groupNodeId = (key: string) => `nca:${key}`
+
+/**
+ * Groups present among `nodes`, in NCA order. `groupOf` returns the NCA number of
+ * a node, or undefined for nodes outside any NCA (they are not grouped).
+ */
+export function buildNodeGroups(nodes: MapNode[], groupOf: (node: MapNode) => string | undefined): NodeGroup[] {
+  const members = new Map<string, string[]>()
+  for (const node of nodes) {
+    const key = groupOf(node)
+    if (key === undefined) continue
+    members.set(key, [...(members.get(key) || []), node.id])
+  }
+  return Array.from(members, ([key, ids]) => ({ key, label: `NCA ${key}`, members: ids }))
+    .sort((a, b) => Number(a.key) - Number(b.key) || a.key.localeCompare(b.key))
+}
+
+/**
+ * Replace the members of each collapsed group with one summary node at their
+ * center (or at `positionOf(summaryId)` when the summary was placed by hand).
+ * Links inside a group disappear; links leaving it become one "group" edge per
+ * pair of endpoints, carrying the number of links it stands for and, for a real
+ * node's side, its interface when all those links use the same one.
+ */
+export function collapseGroups(nodes: MapNode[], edges: MapEdge[], groups: NodeGroup[], collapsed: Set<string>, positionOf: (id: string) => Point | undefined) {
+  const summaryOf = new Map<string, string>()
+  const summaries: MapNode[] = []
+  for (const group of groups) {
+    if (!collapsed.has(group.key)) continue
+    const id = groupNodeId(group.key)
+    const present = nodes.filter((node) => group.members.includes(node.id))
+    if (present.length === 0) continue
+    present.forEach((node) => summaryOf.set(node.id, id))
+    const center = positionOf(id) || {
+      x: present.reduce((sum, node) => sum + (node.x || 0), 0) / present.length,
+      y: present.reduce((sum, node) => sum + (node.y || 0), 0) / present.length,
+    }
+    summaries.push({
+      id,
+      label: `${group.label}\n${present.length} node${present.length === 1 ? "" : "s"}`,
+      type: "group",
+      groupKey: group.key,
+      memberCount: present.length,
+      x: center.x,
+      y: center.y,
+    })
+  }
+  if (summaries.length === 0) return { nodes, edges }
+
+  const keptEdges: MapEdge[] = []
+  const aggregated = new Map<string, MapEdge & { count: number }>()
+  for (const edge of edges) {
+    const from = summaryOf.get(edge.from) || edge.from
+    const to = summaryOf.get(edge.to) || edge.to
+    if (from === edge.from && to === edge.to) {
+      keptEdges.push(edge)
+      continue
+    }
+    if (from === to || edge.edgeType !== "direct") continue
+
+    const [a, b] = [from, to].sort()
+    const key = `${a}|${b}`
+    // Interface of each side that is still a real node
+    const interfaceOf = (end: string) => end === from
+      ? (from === edge.from ? edge.interfaceA : undefined)
+      : (to === edge.to ? edge.interfaceB : undefined)
+    const existing = aggregated.get(key)
+    if (existing) {
+      existing.count++
+      if (existing.interfaceA !== interfaceOf(a)) existing.interfaceA = undefined
+      if (existing.interfaceB !== interfaceOf(b)) existing.interfaceB = undefined
+    } else {
+      aggregated.set(key, { id: `group-${a}-${b}`, from: a, to: b, edgeType: "group", count: 1, interfaceA: interfaceOf(a), interfaceB: interfaceOf(b) })
+    }
+  }
+
+  return {
+    nodes: [...nodes.filter((node) => !summaryOf.has(node.id)), ...summaries],
+    edges: [...keptEdges, ...Array.from(aggregated.values()).map(({ interfaceA, interfaceB, ...edge }) => ({
+      ...edge,
+      ...(interfaceA ? { interfaceA } : {}),
+      ...(interfaceB ? { interfaceB } : {}),
+    }))],
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { buildAddressIds, buildNodeIdentityIndex } from "./nodeIdentity"
+
+const entry = (nodeName: string, ...addresses: string[]) => ({
+  nodeName,
+  localIpInfo: addresses.map((localIp, i) => ({ interface: `eth${i}`, localIp })),
+})
+
+describe("buildNodeIdentityIndex", () => {
+  it("resolves names, addresses and short ids of one node to the same id", () => {
+    const identity = buildNodeIdentityIndex([
+      entry("Node00b0197a0ea5", "2001:db8::2b0:19ff:fe7a:ea5"),
+      entry("fireapp-VirtualBox", "fe80::a00:27ff:fe4e:1d2c"),
+    ])
+
+    expect(identity.resolve("Node00b0197a0ea5")).toBe("ea5")
+    expect(identity.resolve("2001:DB8::2B0:19FF:FE7A:0EA5")).toBe("ea5")
+    expect(identity.resolve("0EA5")).toBe("ea5")
+    expect(identity.resolve("fireapp-VirtualBox")).toBe("1d2c")
+    expect(identity.nodeNameOf("1d2c")).toBe("fireapp-VirtualBox")
+    expect(identity.collisions).toEqual([])
+  })
+
+  it("gives nodes sharing a short id the shortest suffixes that tell them apart", () => {
+    const identity = buildNodeIdentityIndex([
+      entry("Node00b01979e78d"),
+      entry("Node00b0aaaae78d"),
+      entry("Node00b0cc79ab12"),
+      entry("Node00b0dd79ab12"),
+    ])
+
+    expect(identity.collisions).toEqual([
+      { id: "e78d", nodeNames: ["Node00b01979e78d", "Node00b0aaaae78d"], resolvedIds: ["79e78d", "aae78d"] },
+      { id: "ab12", nodeNames: ["Node00b0cc79ab12", "Node00b0dd79ab12"], resolvedIds: ["cc79ab12", "dd79ab12"] },
+    ])
+    expect(identity.resolve("Node00b0aaaae78d")).toBe("aae78d")
+    expect(identity.nodeNameOf("79e78d")).toBe("Node00b01979e78d")
+    expect(identity.nodeNameOf("e78d")).toBeUndefined()
+  })
+
+  it("numbers colliding nodes no suffix can tell apart", () => {
+    const identity = buildNodeIdentityIndex([
+      entry("gateway", "2001:db8::e78d"),
+      entry("gateway-backup", "2001:db8::e78d"),
+    ])
+
+    expect(identity.collisions).toEqual([{ id: "e78d", nodeNames: ["gateway", "gateway-backup"], resolvedIds: ["e78d-1", "e78d-2"] }])
+  })
+
+  it("maps an unknown address to a node only when its trailing digits match that node", () => {
+    const identity = buildNodeIdentityIndex([entry("Node00b01979e78d", "2001:db8::2b0:19ff:fe79:e78d")])
+
+    // Link-local address of the same device
+    expect(identity.resolve("fe80::2b0:19ff:fe79:e78d")).toBe("e78d")
+    // Another device whose address happens to end the same way
+    expect(identity.resolve("2001:db8::2b0:19ff:feaa:e78d")).toBe("aae78d")
+    // Unknown references without an address keep their short id
+    expect(identity.resolve("Node00b0aaaae78d")).toBe("e78d")
+  })
+})
+
+describe("buildAddressIds", () => {
+  it("tells apart addresses sharing their last hextet and leaves the others short", () => {
+    const addressId = buildAddressIds(["2001:db8::1:e78d", "2001:db8::2:e78d", "2001:db8::1234"])
+
+    expect(addressId("2001:DB8::1:E78D")).toBe("1e78d")
+    expect(addressId("2001:db8::2:e78d")).toBe("2e78d")
+    expect(addressId("2001:db8::1234")).toBe("1234")
+    expect(addressId("2001:db8::ffff")).toBe("ffff")
+  })
+})
@@ -0,0 +1,193 @@
+// Node identity: the backend refers to the same device by node name
+// ("Node00b0197a0ea5"), by any of its interface IPv6 addresses, by a short hex id
+// ("0ea5" or "ea5"), or by hostname ("fireapp-VirtualBox"). Every consumer (map
+// conversion, route table, deltas, positions) resolves references through this
+// module so they all agree on one canonical id per node.
+
+const HEX_ID = /^[0-9a-f]+$/i
+
+const INTERFACE_PRIORITY = ['eth1', 'usb0', 'usb1']
+
+/** Short hex ids compare without case or leading zeros: "0EA5" -> "ea5" */
+export function canonicalHexId(id: string): string {
+  return HEX_ID.test(id) ? parseInt(id, 16).toString(16) : id
+}
+
+/** Names the backend derives from hardware addresses, as opposed to free-form hostnames */
+export function isStandardNodeName(name: string): boolean {
+  return name.includes(':') || name.startsWith('Node')
+}
+
+/**
+ * Short id for one reference, without knowledge of the other nodes: the last 4 hex
+ * digits of a "NodeXXXXXXXXXXXX" name, the last hextet of an IPv6 address, or a
+ * bare hex id, all in canonical form. Hostnames are returned trimmed.
+ */
+export function shortNodeId(raw: unknown): string {
+  if (raw === undefined || raw === null) return ''
+  const s = raw.toString().trim()
+  if (!s) return ''
+  if (s.startsWith('Node') && s.length > 4) return canonicalHexId(s.substring(s.length - 4))
+  if (s.includes(':')) return canonicalHexId(s.substring(s.lastIndexOf(':') + 1))
+  return canonicalHexId(s)
+}
+
+/**
+ * Address that identifies a node on the map: eth0 (or the unnamed interface),
+ * otherwise eth1, usb0, usb1, otherwise the first interface listed.
+ */
+export function primaryAddress(localIpInfo: Array<{ interface?: string, localIp: string }>): string | null {
+  const eth0 = localIpInfo.find((li) => !li.interface || li.interface === 'eth0' || li.interface === 'NO_INTERFACE')
+  if (eth0) return eth0.localIp
+  for (const name of INTERFACE_PRIORITY) {
+    const match = localIpInfo.find((li) => li.interface === name)
+    if (match) return match.localIp
+  }
+  return localIpInfo[0]?.localIp ?? null
+}
+
+/**
+ * All hex digits identifying a node or address, most significant first: the part
+ * after "Node", or every hextet of an IPv6 address padded to 4 digits (so the
+ * trailing digits line up even when the address is written compressed).
+ */
+export function identifyingHex(raw: string): string {
+  const s = raw.trim().toLowerCase()
+  if (s.startsWith('node') && s.length > 4) return s.substring(4)
+  if (s.includes(':')) return s.split(':').filter(Boolean).map((hextet) => hextet.padStart(4, '0')).join('')
+  return s
+}
+
+/**
+ * Ids for references that share a short id: the shortest common suffix length
+ * (6, 8, ... hex digits) that tells them apart, or a numbered id as a last resort.
+ */
+const disambiguate = (id: string, hexKeys: string[]): string[] => {
+  const longest = Math.max(...hexKeys.map((key) => key.length))
+  for (let length = 6; length <= longest; length += 2) {
+    const ids = hexKeys.map((key) => canonicalHexId(key.slice(-length)))
+    if (ids.every(Boolean) && new Set(ids).size === ids.length) return ids
+  }
+  return hexKeys.map((_, i) => `${id}-${i + 1}`)
+}
+
+/**
+ * Short ids for a set of interface addresses (used in link ids). Addresses whose
+ * last hextet is shared with another address are told apart by longer suffixes.
+ */
+export function buildAddressIds(addresses: string[]): (address: string) => string {
+  const byShort = new Map<string, string[]>()
+  for (const address of new Set(addresses.map((a) => a.trim().toLowerCase()))) {
+    const short = shortNodeId(address)
+    byShort.set(short, [...(byShort.get(short) || []), address])
+  }
+  const longIds = new Map<string, string>()
+  for (const [short, group] of byShort) {
+    if (group.length < 2) continue
+    disambiguate(short, group.map(identifyingHex)).forEach((id, i) => longIds.set(group[i], id))
+  }
+  return (address) => longIds.get(address.trim().toLowerCase()) || shortNodeId(address)
+}
+
+/** Distinct node entries whose short ids collide, and the longer ids they get instead */
+export interface NodeIdCollision {
+  /** The shared short id */
+  id: string
+  nodeNames: string[]
+  /** Disambiguated id per node name, in the order of `nodeNames` */
+  resolvedIds: string[]
+}
+
+export interface NodeIdentityIndex {
+  /** Canonical id of a node entry, neighbor or route reference; unknown references fall back to their short id */
+  resolve: (raw: unknown) => string
+  /** Node name of the entry owning a canonical id */
+  nodeNameOf: (id: string) => string | undefined
+  /** Id of an interface address as used in link ids */
+  addressId: (address: string) => string
+  collisions: NodeIdCollision[]
+}
+
+/**
+ * Index the node entries of one payload. Standard node names keep their own short
+ * id; hostnames take the short id of their primary address. When distinct nodes
+ * end up with the same short id, each gets a longer suffix of its name or address
+ * instead, so they stay separate nodes. Interface addresses map to the id of the
+ * node that owns them. An unknown address ending like a node's short id only maps
+ * to that node when its trailing digits match the node's name or one of its
+ * addresses; another device gets a longer id of its own.
+ */
+export function buildNodeIdentityIndex(entries: Array<{ nodeName: string, localIpInfo: Array<{ interface?: string, localIp: string }> }>): NodeIdentityIndex {
+  // Short id and identifying digits of every distinct node name
+  const candidates = new Map<string, { short: string, hex: string }>()
+  for (const entry of entries) {
+    if (candidates.has(entry.nodeName)) continue
+    const address = primaryAddress(entry.localIpInfo)
+    const source = isStandardNodeName(entry.nodeName) || !address ? entry.nodeName : address
+    const short = shortNodeId(source)
+    if (short) candidates.set(entry.nodeName, { short, hex: identifyingHex(source) })
+  }
+
+  const namesByShort = new Map<string, string[]>()
+  for (const [name, { short }] of candidates) namesByShort.set(short, [...(namesByShort.get(short) || []), name])
+
+  const idByName = new Map<string, string>()
+  const collisions: NodeIdCollision[] = []
+  for (const [short, names] of namesByShort) {
+    if (names.length === 1) {
+      idByName.set(names[0], short)
+      continue
+    }
+    const resolvedIds = disambiguate(short, names.map((name) => candidates.get(name)!.hex))
+    names.forEach((name, i) => idByName.set(name, resolvedIds[i]))
+    collisions.push({ id: short, nodeNames: names, resolvedIds })
+  }
+  const nameById = new Map(Array.from(idByName, ([name, id]) => [id, name]))
+
+  // Identifying digits of each node id: its name (standard names only) and its addresses
+  const hexById = new Map<string, string[]>()
+  const addHex = (id: string, hex: string) => hexById.set(id, [...(hexById.get(id) || []), hex])
+
+  // Interface addresses: exact matches first, then their short id when only one node has it
+  const idByAddress = new Map<string, string>()
+  const idByShortAddress = new Map<string, string | null>()
+  for (const entry of entries) {
+    const id = idByName.get(entry.nodeName)
+    if (!id) continue
+    if (isStandardNodeName(entry.nodeName)) addHex(id, identifyingHex(entry.nodeName))
+    for (const li of entry.localIpInfo) {
+      const address = li.localIp.trim().toLowerCase()
+      addHex(id, identifyingHex(address))
+      if (!idByAddress.has(address)) idByAddress.set(address, id)
+      const short = shortNodeId(address)
+      if (!short) continue
+      const owner = idByShortAddress.get(short)
+      idByShortAddress.set(short, owner === undefined || owner === id ? id : null)
+    }
+  }
+
+  const resolve = (raw: unknown) => {
+    if (raw === undefined || raw === null) return ''
+    const s = raw.toString().trim()
+    const named = idByName.get(s) || idByAddress.get(s.toLowerCase())
+    if (named) return named
+    const short = shortNodeId(s)
+    const id = idByShortAddress.get(short) || short
+    const known = hexById.get(id)
+    if (!known || !s.includes(':')) return id
+    const hex = identifyingHex(s)
+    if (known.some((key) => key.slice(-6) === hex.slice(-6))) return id
+    for (let length = 6; length < hex.length; length += 2) {
+      const longer = canonicalHexId(hex.slice(-length))
+      if (!nameById.has(longer)) return longer
+    }
+    return canonicalHexId(hex)
+  }
+
+  return {
+    resolve,
+    nodeNameOf: (id) => nameById.get(id),
+    addressId: buildAddressIds(entries.flatMap((entry) => entry.localIpInfo.map((li) => li.localIp))),
+    collisions,
+  }
+}
@@ -0,0 +1,144 @@
+import type { QueryNodeInfo } from "./backendSchema"
+
+// Firmware and configuration inventory from the query file. Every node reports
+// the software it runs (`nodeInfo` in query-*.json); the inventory puts those
+// records side by side, linked to the map ids, so drift across a large system
+// shows up in one table (or as node colors, see styleMapping.ts) instead of
+// being audited by hand.
+
+export type InventoryAttribute =
+  | "firmwareVersion"
+  | "baselineFirmwareVersion"
+  | "configurationVersion"
+  | "cuVersion"
+  | "configurationGuid"
+  | "projectGuid"
+  | "schemaVersion"
+  | "cpuType"
+  | "freeDiskSpaceMb"
+
+export const INVENTORY_ATTRIBUTES: Array<{ key: InventoryAttribute, label: string }> = [
+  { key: "firmwareVersion", label: "Firmware" },
+  { key: "baselineFirmwareVersion", label: "Baseline firmware" },
+  { key: "configurationVersion", label: "Configuration" },
+  { key: "cuVersion", label: "CU version" },
+  { key: "configurationGuid", label: "Configuration GUID" },
+  { key: "projectGuid", label: "Project GUID" },
+  { key: "schemaVersion", label: "Schema" },
+  { key: "cpuType", label: "CPU type" },
+  { key: "freeDiskSpaceMb", label: "Free disk (MB)" },
+]
+
+/** Attributes compared as numbers; the rest are version strings or identifiers */
+const NUMERIC_ATTRIBUTES = new Set<InventoryAttribute>(["freeDiskSpaceMb"])
+
+export type InventoryValue = string | number | undefined
+
+export interface InventoryRow {
+  nodeName: string
+  /** Map id of the node; undefined when the topology does not contain it */
+  mapId?: string
+  /** NCA number from nodeLabelPath */
+  nca?: string
+  values: Record<InventoryAttribute, InventoryValue>
+}
+
+/** One row per query record; `mapIdOf` links node names to the nodes on the map */
+export function buildInventory(nodes: QueryNodeInfo[], mapIdOf: (nodeName: string) => string | undefined): InventoryRow[] {
+  return nodes.map((node) => {
+    const values = {} as Record<InventoryAttribute, InventoryValue>
+    for (const { key } of INVENTORY_ATTRIBUTES) {
+      const raw = node[key]
+      const text = raw === undefined ? "" : String(raw).trim()
+      values[key] = text === "" ? undefined : NUMERIC_ATTRIBUTES.has(key) && Number.isFinite(Number(text)) ? Number(text) : text
+    }
+    return {
+      nodeName: node.nodeName,
+      mapId: mapIdOf(node.nodeName),
+      nca: node.nodeLabelPath?.match(/NCA\s+(\d+)/)?.[1],
+      values,
+    }
+  })
+}
+
+/**
+ * Order inventory values: numbers numerically, strings segment by segment so that
+ * "08.00.00.00024" sorts before "08.00.00.00100". Missing values go last.
+ */
+export function compareInventoryValues(a: InventoryValue, b: InventoryValue): number {
+  if (a === undefined || b === undefined) return a === b ? 0 : a === undefined ? 1 : -1
+  if (typeof a === "number" && typeof b === "number") return a - b
+  return String(a).localeCompare(String(b), undefined, { numeric: true })
+}
+
+export const formatInventoryValue = (value: InventoryValue) =>
+  value === undefined ? "—" : typeof value === "number" ? value.toLocaleString() : value
+
+// ---------------------------------------------------------------------------
+// Drift: nodes whose software or configuration differs from what they should run
+// ---------------------------------------------------------------------------
+
+export type InventoryDriftKind = "firmware-baseline" | "configuration-guid" | "project-guid" | "low-disk"
+
+export interface InventoryDrift {
+  kind: InventoryDriftKind
+  nodeName: string
+  mapId?: string
+  message: string
+}
+
+export interface InventoryDriftReport {
+  drifts: InventoryDrift[]
+  /** Value most nodes report, per compared GUID; undefined when the most common values tie */
+  majority: Partial<Record<"configurationGuid" | "projectGuid", { value: string, count: number, of: number }>>
+}
+
+export const DEFAULT_MIN_FREE_DISK_MB = 1024
+
+/** Most common value of an attribute, if one value is reported more often than every other */
+function majorityValue(rows: InventoryRow[], attribute: InventoryAttribute) {
+  const counts = new Map<string, number>()
+  rows.forEach((row) => {
+    const value = row.values[attribute]
+    if (value !== undefined) counts.set(String(value), (counts.get(String(value)) || 0) + 1)
+  })
+  const ranked = Array.from(counts).sort((a, b) => b[1] - a[1])
+  if (ranked.length === 0 || (ranked.length > 1 && ranked[0][1] === ranked[1][1])) return undefined
+  return { value: ranked[0][0], count: ranked[0][1], of: Array.from(counts.values()).reduce((sum, n) => sum + n, 0) }
+}
+
+/**
+ * Flag nodes running firmware other than their baseline, nodes on a configuration
+ * or project other than the majority's, and nodes with less free disk space than
+ * `minFreeDiskMb`. A node on the wrong configuration routes differently from its
+ * peers, so these are worth ruling out before chasing route_info.
+ */
+export function detectInventoryDrift(rows: InventoryRow[], minFreeDiskMb = DEFAULT_MIN_FREE_DISK_MB): InventoryDriftReport {
+  const drifts: InventoryDrift[] = []
+  const majority: InventoryDriftReport["majority"] = {
+    configurationGuid: majorityValue(rows, "configurationGuid"),
+    projectGuid: majorityValue(rows, "projectGuid"),
+  }
+
+  for (const row of rows) {
+    const flag = (kind: InventoryDriftKind, message: string) => drifts.push({ kind, nodeName: row.nodeName, mapId: row.mapId, message })
+    const { firmwareVersion, baselineFirmwareVersion, configurationGuid, projectGuid, freeDiskSpaceMb } = row.values
+
+    if (firmwareVersion !== undefined && baselineFirmwareVersion !== undefined && firmwareVersion !== baselineFirmwareVersion) {
+      flag("firmware-baseline", `Runs firmware ${firmwareVersion}, baseline is ${baselineFirmwareVersion}`)
+    }
+    const configuration = majority.configurationGuid
+    if (configuration && configurationGuid !== undefined && configurationGuid !== configuration.value) {
+      flag("configuration-guid", `Configuration ${configurationGuid}; ${configuration.count} of ${configuration.of} nodes use ${configuration.value}`)
+    }
+    const project = majority.projectGuid
+    if (project && projectGuid !== undefined && projectGuid !== project.value) {
+      flag("project-guid", `Project ${projectGuid}; ${project.count} of ${project.of} nodes use ${project.value}`)
+    }
+    if (typeof freeDiskSpaceMb === "number" && freeDiskSpaceMb < minFreeDiskMb) {
+      flag("low-disk", `${freeDiskSpaceMb.toLocaleString()} MB free, below ${minFreeDiskMb.toLocaleString()} MB`)
+    }
+  }
+
+  return { drifts, majority }
+}
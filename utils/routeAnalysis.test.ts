@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest"
+import { buildTopologyModel } from "./topologyModel"
+import { buildDistributionTree, compareRoutedWithShortest, detectRouteFaults } from "./routeAnalysis"
+
+// Nodes are named Node00b01979<hex> with one eth0 address 2001:db8::<hex>, so
+// their map id is <hex>. Routes are [source, upstream neighbor] pairs.
+const node = (hex: string, neighbors: string[], routes: Array<[string, string]> = []) => ({
+  nodeName: `Node00b01979${hex}`,
+  localIpInfo: [{ interface: "eth0", localIp: `2001:db8::${hex}` }],
+  neighIpInfo: neighbors.map((neighbor) => ({ interface: "eth0", neighIp: `2001:db8::${neighbor}` })),
+  routeInfo: routes.map(([source, via]) => ({ sourceNode: `2001:db8::${source}`, incomingInterface: "eth0", iifNeighNode: `2001:db8::${via}` })),
+})
+
+const model = (...nodes: ReturnType<typeof node>[]) => buildTopologyModel({ networkMap: { nodeRouteInfo: nodes } })
+
+describe("buildDistributionTree", () => {
+  // a001 - a002 - a003
+  //          |
+  //        a004
+  const star = () => model(
+    node("a001", ["a002"]),
+    node("a002", ["a001", "a003", "a004"], [["a001", "a001"]]),
+    node("a003", ["a002"], [["a001", "a002"]]),
+    node("a004", ["a002"], [["a001", "a002"]]),
+  )
+
+  it("follows each receiver's upstream neighbor back to the source", () => {
+    const { routeTable, nodes, edges } = star()
+    const tree = buildDistributionTree("a001", routeTable, nodes, edges)
+
+    expect(tree.nodes.map(({ nodeId, parent, depth }) => [nodeId, parent, depth])).toEqual([
+      ["a001", null, 0],
+      ["a002", "a001", 1],
+      ["a003", "a002", 2],
+      ["a004", "a002", 2],
+    ])
+    expect(tree.edges.sort()).toEqual(["direct-a001-a002", "direct-a002-a003", "direct-a002-a004"])
+    expect(tree.unreached).toEqual([])
+    expect(tree.broken).toEqual([])
+  })
+
+  it("lists receivers without a route entry for the source as unreached", () => {
+    const { routeTable, nodes, edges } = model(
+      node("a001", ["a002"]),
+      node("a002", ["a001", "a003"], [["a001", "a001"]]),
+      node("a003", ["a002"]),
+    )
+    const tree = buildDistributionTree("a001", routeTable, nodes, edges)
+
+    expect(tree.nodes.map((n) => n.nodeId)).toEqual(["a001", "a002"])
+    expect(tree.unreached).toEqual(["a003"])
+  })
+
+  it("reports receivers whose parents loop or have no link to them as broken", () => {
+    const { routeTable, nodes, edges } = model(
+      node("a001", ["a002"]),
+      node("a002", ["a001", "a003"], [["a001", "a003"]]),
+      node("a003", ["a002"], [["a001", "a002"]]),
+      node("a004", [], [["a001", "a001"]]),
+    )
+    const tree = buildDistributionTree("a001", routeTable, nodes, edges)
+
+    expect(tree.nodes.map((n) => n.nodeId)).toEqual(["a001"])
+    expect(tree.broken.map((b) => b.nodeId)).toEqual(["a002", "a003", "a004"])
+    expect(tree.broken.find((b) => b.nodeId === "a002")!.reason).toMatch(/Routing loop/)
+    expect(tree.broken.find((b) => b.nodeId === "a004")!.reason).toMatch(/No physical link/)
+  })
+})
+
+describe("detectRouteFaults", () => {
+  it("finds nothing when every walk reaches its source", () => {
+    const { routeTable, edges } = model(
+      node("a001", ["a002"], [["a003", "a002"]]),
+      node("a002", ["a001", "a003"], [["a001", "a001"], ["a003", "a003"]]),
+      node("a003", ["a002"], [["a001", "a002"]]),
+    )
+    expect(detectRouteFaults(routeTable, edges)).toEqual([])
+  })
+
+  it("reports loops, dead ends and next hops without a physical link", () => {
+    const { routeTable, edges } = model(
+      node("a001", ["a002"]),
+      // a002 and a003 send traffic from a001 back and forth
+      node("a002", ["a001", "a003"], [["a001", "a003"]]),
+      node("a003", ["a002", "a004"], [["a001", "a002"], ["a005", "a004"]]),
+      // a004 has no entry for a005, and a005 names a neighbor it is not cabled to
+      node("a004", ["a003"]),
+      node("a005", [], [["a001", "a001"]]),
+    )
+    const faults = detectRouteFaults(routeTable, edges)
+    const summary = faults.map((f) => [f.kind, f.sourceId, f.receiverId, f.atNode]).sort()
+
+    expect(summary).toEqual([
+      ["dead-end", "a005", "a003", "a004"],
+      ["loop", "a001", "a002", "a003"],
+      ["loop", "a001", "a003", "a002"],
+      ["missing-link", "a001", "a005", "a005"],
+    ])
+    const loop = faults.find((f) => f.kind === "loop" && f.receiverId === "a002")!
+    expect(loop.walk).toEqual(["a002", "a003"])
+    expect(loop.nextHop).toBe("a002")
+    expect(faults.find((f) => f.kind === "dead-end")!.walk).toEqual(["a003", "a004"])
+  })
+})
+
+describe("compareRoutedWithShortest", () => {
+  // a001 - a002 - a003 is the short way; the routes send a001's traffic round a004 and a005
+  const ring = [
+    node("a001", ["a002", "a004"]),
+    node("a002", ["a001", "a003"]),
+    node("a003", ["a002", "a005"], [["a001", "a005"]]),
+    node("a004", ["a001", "a005"], [["a001", "a001"]]),
+    node("a005", ["a004", "a003"], [["a001", "a004"]]),
+  ]
+  const { routeTable, edges } = model(...ring)
+
+  it("measures the detour the routes take and where they leave the shortest path", () => {
+    const comparison = compareRoutedWithShortest("a001", "a003", routeTable, edges)
+
+    expect(comparison.routed?.nodes).toEqual(["a001", "a004", "a005", "a003"])
+    expect(comparison.shortest?.nodes).toEqual(["a001", "a002", "a003"])
+    expect(comparison.hopDifference).toBe(1)
+    expect(comparison.divergesAt).toBe("a001")
+    expect(comparison.routedError).toBeNull()
+  })
+
+  it("keeps the shortest path when the route tables have no route between the two", () => {
+    const comparison = compareRoutedWithShortest("a002", "a005", routeTable, edges)
+
+    expect(comparison.routed).toBeNull()
+    expect(comparison.routedError).toBeTruthy()
+    expect(comparison.shortest?.nodes).toEqual(["a002", "a003", "a005"])
+    expect(comparison.hopDifference).toBeNull()
+    expect(comparison.divergesAt).toBeNull()
+  })
+
+  it("follows the route entries between cabled neighbors instead of their direct link", () => {
+    // a001 and a002 are cabled, but a002 takes a001's traffic from a003
+    const { routeTable, edges } = model(
+      node("a001", ["a002", "a003"]),
+      node("a002", ["a001", "a003"], [["a001", "a003"]]),
+      node("a003", ["a001", "a002"], [["a001", "a001"]]),
+    )
+    const comparison = compareRoutedWithShortest("a001", "a002", routeTable, edges)
+
+    expect(comparison.routed).toEqual({ nodes: ["a001", "a003", "a002"], edges: ["direct-a001-a003", "direct-a002-a003"] })
+    expect(comparison.shortest?.nodes).toEqual(["a001", "a002"])
+    expect(comparison.hopDifference).toBe(1)
+  })
+
+  it("does not stand in the reverse route for a missing one", () => {
+    // Only a001 has a route for a002's traffic; a002 has none for a001's
+    const { routeTable, edges } = model(
+      node("a001", ["a002"], [["a002", "a002"]]),
+      node("a002", ["a001"]),
+    )
+    const comparison = compareRoutedWithShortest("a001", "a002", routeTable, edges)
+
+    expect(comparison.routed).toBeNull()
+    expect(comparison.routedError).toBe("'a002' has no route entry for source 'a001'")
+    expect(comparison.shortest?.nodes).toEqual(["a001", "a002"])
+  })
+})
@@ -0,0 +1,320 @@
+import { NetworkDataAdapter, type MapEdge, type MapNode, type RouteTable } from "./dataAdapter"
+
+// Whole-network analyses over the route_info table. Where NetworkDataAdapter's
+// pathfinding answers "how does traffic get from A to B", these answer
+// questions about every receiver (or every pair) at once, or about how a
+// routed path compares with the cabled topology.
+
+export interface DistributionTreeNode {
+  nodeId: string
+  /** Upstream neighbor toward the source (null for the source itself) */
+  parent: string | null
+  /** Hops from the source (0 for the source itself) */
+  depth: number
+  /** Interface the multicast traffic arrives on at this node */
+  incomingInterface: string
+  /** Physical edge between this node and its parent */
+  edgeId: string | null
+}
+
+export interface DistributionTree {
+  sourceId: string
+  /** Nodes reached by the tree, sorted by depth */
+  nodes: DistributionTreeNode[]
+  /** Physical edges that make up the tree */
+  edges: string[]
+  /** Nodes with no route entry for the source */
+  unreached: string[]
+  /** Nodes whose reverse path does not lead back to the source */
+  broken: Array<{ nodeId: string, reason: string }>
+}
+
+/**
+ * Build the multicast distribution tree rooted at `sourceId`.
+ *
+ * Each receiver's route entry for the source names the neighbor traffic arrives
+ * from (its RPF neighbor), so following those parents forms a tree. A receiver
+ * is part of the tree only if its chain of parents actually leads back to the
+ * source over physical links.
+ */
+export function buildDistributionTree(sourceId: string, routeTable: RouteTable, nodes: MapNode[], edges: MapEdge[]): DistributionTree {
+  const resolved = new Map<string, DistributionTreeNode>()
+  const broken = new Map<string, string>()
+  const unreached: string[] = []
+
+  resolved.set(sourceId, { nodeId: sourceId, parent: null, depth: 0, incomingInterface: '', edgeId: null })
+
+  // Resolve a node by walking up its parents; memoized so each node is walked once
+  const resolve = (nodeId: string): DistributionTreeNode | null => {
+    const chain: string[] = []
+    const onChain = new Set<string>()
+    let current = nodeId
+    let failure: string | null = null
+
+    while (!resolved.has(current)) {
+      if (broken.has(current)) {
+        failure = `Upstream node '${current}' is not connected to the tree`
+        break
+      }
+      if (onChain.has(current)) {
+        failure = `Routing loop through '${current}'`
+        break
+      }
+      const entry = routeTable.get(current)?.get(sourceId)
+      if (!entry) {
+        failure = `No route entry for source at '${current}'`
+        break
+      }
+      if (!NetworkDataAdapter.findEdgeBetween(edges, entry.nextHop, current)) {
+        failure = `No physical link between '${current}' and its upstream neighbor '${entry.nextHop}'`
+        // The node naming the missing link is broken too, even when it is the one being resolved
+        chain.push(current)
+        break
+      }
+      chain.push(current)
+      onChain.add(current)
+      current = entry.nextHop
+    }
+
+    if (failure) {
+      chain.forEach((id) => broken.set(id, failure!))
+      return null
+    }
+
+    // Unwind the chain from the node closest to the tree outward
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const id = chain[i]
+      const entry = routeTable.get(id)!.get(sourceId)!
+      const parent = resolved.get(entry.nextHop)!
+      resolved.set(id, {
+        nodeId: id,
+        parent: entry.nextHop,
+        depth: parent.depth + 1,
+        incomingInterface: entry.interface,
+        edgeId: NetworkDataAdapter.findEdgeBetween(edges, entry.nextHop, id),
+      })
+    }
+    return resolved.get(nodeId) || null
+  }
+
+  for (const node of nodes) {
+    if (node.id === sourceId) continue
+    if (!routeTable.get(node.id)?.has(sourceId)) {
+      unreached.push(node.id)
+      continue
+    }
+    resolve(node.id)
+  }
+
+  const treeNodes = Array.from(resolved.values()).sort((a, b) => a.depth - b.depth || a.nodeId.localeCompare(b.nodeId))
+  return {
+    sourceId,
+    nodes: treeNodes,
+    edges: treeNodes.map((n) => n.edgeId).filter((id): id is string => !!id),
+    unreached: unreached.sort(),
+    broken: Array.from(broken.entries()).map(([nodeId, reason]) => ({ nodeId, reason })).sort((a, b) => a.nodeId.localeCompare(b.nodeId)),
+  }
+}
+
+export type RouteFaultKind = 'loop' | 'dead-end' | 'missing-link' | 'hop-limit'
+
+export interface RouteFault {
+  kind: RouteFaultKind
+  sourceId: string
+  receiverId: string
+  /** Node where the walk failed */
+  atNode: string
+  /** Next hop named by the failing entry, when there is one */
+  nextHop?: string
+  /** Nodes visited walking from the receiver back toward the source */
+  walk: string[]
+  /** Physical edges traversed before the failure */
+  walkEdges: string[]
+  message: string
+}
+
+const MAX_ROUTE_HOPS = 64
+
+type RouteWalk = Pick<RouteFault, 'walk' | 'walkEdges'> & {
+  fault: Omit<RouteFault, 'sourceId' | 'receiverId' | 'walk' | 'walkEdges'> | null
+}
+
+/**
+ * Follow the route entries for `sourceId` from `receiverId` back toward the
+ * source, stopping at the first entry that does not lead anywhere useful.
+ */
+const walkReversePath = (sourceId: string, receiverId: string, routeTable: RouteTable, edges: MapEdge[]): RouteWalk => {
+  const walk = [receiverId]
+  const walkEdges: string[] = []
+  const visited = new Set(walk)
+  let current = receiverId
+
+  while (current !== sourceId) {
+    if (walk.length > MAX_ROUTE_HOPS) {
+      return { walk, walkEdges, fault: { kind: 'hop-limit', atNode: current, message: `Walk exceeded ${MAX_ROUTE_HOPS} hops at '${current}'` } }
+    }
+    const entry = routeTable.get(current)?.get(sourceId)
+    if (!entry) {
+      return { walk, walkEdges, fault: { kind: 'dead-end', atNode: current, message: `'${current}' has no route entry for source '${sourceId}'` } }
+    }
+    const edgeId = NetworkDataAdapter.findEdgeBetween(edges, current, entry.nextHop)
+    if (!edgeId) {
+      return { walk, walkEdges, fault: { kind: 'missing-link', atNode: current, nextHop: entry.nextHop, message: `'${current}' routes via '${entry.nextHop}' on ${entry.interface || 'unknown interface'}, but there is no physical link between them` } }
+    }
+    if (visited.has(entry.nextHop)) {
+      walkEdges.push(edgeId)
+      return { walk, walkEdges, fault: { kind: 'loop', atNode: current, nextHop: entry.nextHop, message: `Routing loop: '${current}' routes back to '${entry.nextHop}' (${walk.slice(walk.indexOf(entry.nextHop)).join(' → ')} → ${entry.nextHop})` } }
+    }
+    walk.push(entry.nextHop)
+    walkEdges.push(edgeId)
+    visited.add(entry.nextHop)
+    current = entry.nextHop
+  }
+
+  return { walk, walkEdges, fault: null }
+}
+
+/**
+ * Walk the reverse path for every (source, receiver) pair present in the route
+ * tables and report each walk that does not reach its source: routing loops,
+ * dead ends (a node on the way has no entry for the source) and next hops with
+ * no physical `direct` edge to the node that names them.
+ */
+export function detectRouteFaults(routeTable: RouteTable, edges: MapEdge[]): RouteFault[] {
+  const faults: RouteFault[] = []
+
+  for (const [receiverId, routes] of routeTable) {
+    for (const sourceId of routes.keys()) {
+      if (sourceId === receiverId) continue
+      const { walk, walkEdges, fault } = walkReversePath(sourceId, receiverId, routeTable, edges)
+      if (fault) faults.push({ ...fault, sourceId, receiverId, walk, walkEdges })
+    }
+  }
+
+  return faults
+}
+
+export interface RoutedPath {
+  /** Nodes in travel order, from the sending node to the receiving node */
+  nodes: string[]
+  edges: string[]
+}
+
+export interface RouteAsymmetry {
+  nodeA: string
+  nodeB: string
+  /** Route taken by traffic from A to B */
+  forward: RoutedPath
+  /** Route taken by traffic from B to A, in B -> A order */
+  reverse: RoutedPath
+  /** Nodes the forward path visits that the reverse path does not, and vice versa */
+  forwardOnly: string[]
+  reverseOnly: string[]
+}
+
+export interface RouteAsymmetryReport {
+  asymmetric: RouteAsymmetry[]
+  /** Pairs where both directions resolved to a complete path */
+  comparedPairs: number
+  /** Pairs skipped because at least one direction has no complete path */
+  unresolvedPairs: number
+}
+
+/**
+ * Trace the routed path in both directions for every pair of nodes and report
+ * the pairs whose A -> B node sequence is not the B -> A sequence reversed.
+ * Directions that do not resolve are routing faults (see `detectRouteFaults`)
+ * and only counted here.
+ */
+export function detectRouteAsymmetry(routeTable: RouteTable, nodes: MapNode[], edges: MapEdge[]): RouteAsymmetryReport {
+  const ids = Array.from(new Set(nodes.map((n) => n.id as string))).sort()
+  const asymmetric: RouteAsymmetry[] = []
+  let comparedPairs = 0
+  let unresolvedPairs = 0
+
+  // A walk from the receiver back to the source lists the path in reverse travel order
+  const routedPath = (from: string, to: string): RoutedPath | null => {
+    if (!routeTable.get(to)?.has(from)) return null
+    const { walk, walkEdges, fault } = walkReversePath(from, to, routeTable, edges)
+    return fault ? null : { nodes: [...walk].reverse(), edges: [...walkEdges].reverse() }
+  }
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const forward = routedPath(ids[i], ids[j])
+      const reverse = routedPath(ids[j], ids[i])
+      if (!forward || !reverse) {
+        unresolvedPairs++
+        continue
+      }
+      comparedPairs++
+
+      const reverseInForwardOrder = [...reverse.nodes].reverse()
+      const symmetric = forward.nodes.length === reverseInForwardOrder.length &&
+        forward.nodes.every((id, k) => id === reverseInForwardOrder[k])
+      if (symmetric) continue
+
+      asymmetric.push({
+        nodeA: ids[i],
+        nodeB: ids[j],
+        forward,
+        reverse,
+        forwardOnly: forward.nodes.filter((id) => !reverse.nodes.includes(id)),
+        reverseOnly: reverse.nodes.filter((id) => !forward.nodes.includes(id)),
+      })
+    }
+  }
+
+  return { asymmetric, comparedPairs, unresolvedPairs }
+}
+
+export interface PathComparison {
+  sourceId: string
+  targetId: string
+  /** Path the route tables send traffic along (null when they have no complete route) */
+  routed: RoutedPath | null
+  routedError: string | null
+  /** Fewest-hops path over physical links (null when the nodes are not connected) */
+  shortest: RoutedPath | null
+  /** Extra hops the routed path takes over the shortest one */
+  hopDifference: number | null
+  /** Last node both paths share before they split (null when they never split) */
+  divergesAt: string | null
+}
+
+/**
+ * Compare the route-table path from `sourceId` to `targetId` with the shortest
+ * path over the physical links, to spot routing tables that take detours. The
+ * routed path is the target's reverse path to the source, as the route tables
+ * give it: a neighbor's entry is followed even when the two are cabled directly,
+ * and a pair with only a route the other way has no routed path.
+ */
+export function compareRoutedWithShortest(sourceId: string, targetId: string, routeTable: RouteTable, edges: MapEdge[]): PathComparison {
+  const { walk, walkEdges, fault } = walkReversePath(sourceId, targetId, routeTable, edges)
+  const routed: RoutedPath | null = fault ? null : { nodes: [...walk].reverse(), edges: [...walkEdges].reverse() }
+  const routedError = fault ? fault.message : null
+
+  let shortest: RoutedPath | null = null
+  try {
+    const { pathNodes, pathEdges } = NetworkDataAdapter.findPathBFS(sourceId, targetId, edges.filter((e) => e.edgeType === 'direct'))
+    shortest = { nodes: pathNodes, edges: pathEdges }
+  } catch {
+    // Not connected physically; reported as a null shortest path
+  }
+
+  let divergesAt: string | null = null
+  if (routed && shortest) {
+    const split = routed.nodes.findIndex((id, i) => id !== shortest!.nodes[i])
+    if (split > 0) divergesAt = routed.nodes[split - 1]
+  }
+
+  return {
+    sourceId,
+    targetId,
+    routed,
+    routedError,
+    shortest,
+    hopDifference: routed && shortest ? routed.nodes.length - shortest.nodes.length : null,
+    divergesAt,
+  }
+}
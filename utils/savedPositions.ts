@@ -0,0 +1,71 @@
+import { z } from "zod"
+import type { Point } from "./layoutEngines"
+import { downloadBlob } from "./mapExport"
+
+// Node arrangements made by hand on the map. They are kept per dataset in
+// localStorage and can be exported to (and imported from) a positions JSON file.
+// Positions are keyed by node name rather than map id, so they survive id
+// changes such as collision disambiguation.
+
+export type NodePositions = Record<string, Point>
+
+const STORAGE_PREFIX = "network-map:positions:"
+
+const positionsFileSchema = z.object({
+  version: z.literal(1, { errorMap: () => ({ message: "version must be 1" }) }),
+  dataset: z.string().optional(),
+  savedAt: z.string().optional(),
+  positions: z.record(z.object({ x: z.number({ invalid_type_error: "x must be a number" }), y: z.number({ invalid_type_error: "y must be a number" }) })),
+})
+
+export type PositionsFile = z.infer<typeof positionsFileSchema>
+
+/** Positions file contents for a dataset's current arrangement */
+export function buildPositionsFile(dataset: string, positions: NodePositions): PositionsFile {
+  return { version: 1, dataset, savedAt: new Date().toISOString(), positions }
+}
+
+/** Validate an imported positions file; throws with the JSON path of the first problem */
+export function parsePositionsFile(json: unknown): PositionsFile {
+  const result = positionsFileSchema.safeParse(json)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new Error(`${["$", ...issue.path].join(".")}: ${issue.message}`)
+  }
+  return result.data
+}
+
+/** Saved arrangement of a dataset, or null when there is none (or storage is unavailable) */
+export function loadSavedPositions(dataset: string): NodePositions | null {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_PREFIX + dataset)
+    return stored ? parsePositionsFile(JSON.parse(stored)).positions : null
+  } catch (err) {
+    console.warn(`[v0] Ignoring saved positions for ${dataset}:`, err)
+    return null
+  }
+}
+
+/** Store a dataset's arrangement; returns false when the browser refuses (private mode, quota) */
+export function savePositions(dataset: string, positions: NodePositions): boolean {
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + dataset, JSON.stringify(buildPositionsFile(dataset, positions)))
+    return true
+  } catch (err) {
+    console.warn(`[v0] Could not save positions for ${dataset}:`, err)
+    return false
+  }
+}
+
+export function clearSavedPositions(dataset: string) {
+  try {
+    window.localStorage.removeItem(STORAGE_PREFIX + dataset)
+  } catch (err) {
+    console.warn(`[v0] Could not clear saved positions for ${dataset}:`, err)
+  }
+}
+
+/** Offer a JSON document as a file download */
+export function downloadJson(fileName: string, json: unknown) {
+  downloadBlob(fileName, new Blob([JSON.stringify(json, null, 2)], { type: "application/json" }))
+}
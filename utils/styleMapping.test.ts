@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest"
+import type { BackendRoute } from "./backendSchema"
+import { buildStyleMapping, colorByCategory, colorByPercentile, colorByRange } from "./styleMapping"
+import { buildTopologyModel } from "./topologyModel"
+
+const UNKNOWN = "#9ca3af"
+
+describe("colorByCategory", () => {
+  it("gives each distinct value a color in natural order and missing values gray", () => {
+    const { colors, legend } = colorByCategory([["a", "8.10"], ["b", "8.2"], ["c", undefined], ["d", "8.2"]])
+
+    expect(legend.map(({ label, count }) => [label, count])).toEqual([["8.2", 2], ["8.10", 1], ["Not reported", 1]])
+    expect(colors.b).toBe(colors.d)
+    expect(colors.a).not.toBe(colors.b)
+    expect(colors.c).toBe(UNKNOWN)
+  })
+})
+
+describe("colorByRange", () => {
+  it("splits the values into equal ranges, red at the bad end", () => {
+    const { colors, legend } = colorByRange([["a", 0], ["b", 10], ["c", 5], ["d", undefined]], "low-is-good")
+
+    expect(legend.map(({ label, count }) => [label, count])).toEqual([["0–2", 1], ["4–6", 1], ["8–10", 1], ["Not reported", 1]])
+    expect(colors).toEqual({ a: "hsl(120, 65%, 42%)", c: "hsl(60, 65%, 42%)", b: "hsl(0, 65%, 42%)", d: UNKNOWN })
+  })
+
+  it("uses a single range when every value is the same", () => {
+    const { legend } = colorByRange([["a", 4], ["b", 4]], "sequential")
+
+    expect(legend).toEqual([{ label: "4", color: "hsl(210, 70%, 30%)", count: 2 }])
+  })
+})
+
+describe("colorByPercentile", () => {
+  it("bands the values at p50, p75, p90 and p95", () => {
+    const { legend } = colorByPercentile(Array.from({ length: 20 }, (_, i): [string, number] => [`l${i}`, i + 1]))
+
+    expect(legend.map(({ label, count }) => [label, count])).toEqual([
+      ["≤ p50 · 1–10", 10],
+      ["p50–p75 · 11–15", 5],
+      ["p75–p90 · 16–18", 3],
+      ["p90–p95 · 19", 1],
+      ["> p95 · 20", 1],
+    ])
+  })
+})
+
+describe("buildStyleMapping", () => {
+  // a001 reaches a002 over Ethernet and a003 over USB; a004 is only a neighbor of a001,
+  // on an interface without readings
+  const route = (via: string, iface: string, rtt_ms: number): BackendRoute => ({ sourceNode: via, incomingInterface: iface, iifNeighNode: via, rtt_ms })
+  const model = buildTopologyModel({
+    networkMap: {
+      nodeRouteInfo: [
+        {
+          nodeName: "Node00b01979a001",
+          localIpInfo: [{ interface: "eth0", localIp: "2001:db8::a001" }, { interface: "usb0", localIp: "2001:db8::b001" }],
+          neighIpInfo: [{ interface: "eth0", neighIp: "2001:db8::a002" }, { interface: "usb0", neighIp: "2001:db8::b003" }, { interface: "eth1", neighIp: "2001:db8::a004" }],
+          routeInfo: [route("2001:db8::a002", "eth0", 2)],
+        },
+        { nodeName: "Node00b01979a002", localIpInfo: [{ interface: "eth0", localIp: "2001:db8::a002" }], neighIpInfo: [{ interface: "eth0", neighIp: "2001:db8::a001" }] },
+        {
+          nodeName: "Node00b01979a003",
+          localIpInfo: [{ interface: "usb0", localIp: "2001:db8::b003" }],
+          neighIpInfo: [{ interface: "usb0", neighIp: "2001:db8::b001" }],
+          routeInfo: [route("2001:db8::b001", "usb0", 8)],
+        },
+      ],
+    },
+  })
+  const linkTo = (neighbor: string) => model.edges.find((edge) => edge.edgeType === "direct" && edge.from === "a001" && edge.to === neighbor)!.id
+
+  it("leaves nodes and links alone for the default choice", () => {
+    expect(buildStyleMapping(model, [], { nodeColor: "default", linkColor: "default", linkWidth: "default" })).toEqual({ nodeScale: null, edgeStyles: null, legend: [] })
+  })
+
+  it("colors nodes by degree and reachability", () => {
+    const degree = buildStyleMapping(model, [], { nodeColor: "degree", linkColor: "default", linkWidth: "default" })
+    expect(degree.nodeScale!.colors.a002).toBe(degree.nodeScale!.colors.a003)
+    expect(degree.legend.map((item) => item.label)).toEqual(["Degree (links): 1 (3)", "Degree (links): 3 (1)"])
+
+    const reachability = buildStyleMapping(model, [], { nodeColor: "reachability", linkColor: "default", linkWidth: "default" })
+    expect(reachability.legend.map((item) => item.label)).toEqual(["Reachability: Reporting (3)", "Reachability: Seen only as a neighbor (1)"])
+  })
+
+  it("styles links by interface type and RTT, with a legend entry for each", () => {
+    const { edgeStyles, legend } = buildStyleMapping(model, [], { nodeColor: "default", linkColor: "interfaceType", linkWidth: "rtt" })
+
+    expect(edgeStyles![linkTo("a002")].width).toBe(1.5)
+    expect(edgeStyles![linkTo("a003")].width).toBe(6)
+    expect(edgeStyles![linkTo("a004")]).toEqual({ color: edgeStyles![linkTo("a002")].color, width: 1.5 })
+    expect(legend.map((item) => [item.kind, item.label])).toEqual([
+      ["line", "Interface type: Ethernet (2)"],
+      ["line", "Interface type: USB (1)"],
+      ["line", "RTT (width): 2.0 ms–3.2 ms"],
+      ["line", "RTT (width): 6.8 ms–8.0 ms"],
+      ["line", "RTT (width): Not reported"],
+    ])
+  })
+})
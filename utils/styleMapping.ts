@@ -0,0 +1,271 @@
+import type { MapEdge } from "./dataAdapter"
+import { formatRtt, percentileValue, RTT_PERCENTILES } from "./linkMetrics"
+import type { MapLegendItem } from "./mapExport"
+import type { InventoryAttribute, InventoryRow } from "./nodeInventory"
+import { INVENTORY_ATTRIBUTES } from "./nodeInventory"
+import type { TopologyModel } from "./topologyModel"
+
+// Attribute-driven styling of the map. Users pick what node colors and link
+// colors/widths stand for; the mapping turns that choice into per-node colors and
+// per-link styles for NetworkMap plus legend entries describing them, so the
+// legend always matches what is drawn.
+
+export type NodeColorAttribute = "default" | "degree" | "routeCount" | "nca" | "reachability" | InventoryAttribute
+export type LinkColorAttribute = "default" | "interfaceType" | "rtt" | "rttPercentile" | "packets"
+export type LinkWidthAttribute = "default" | "rtt" | "packets"
+
+export const NODE_COLOR_OPTIONS: Array<{ key: NodeColorAttribute, label: string }> = [
+  { key: "default", label: "Default" },
+  { key: "degree", label: "Degree (links)" },
+  { key: "routeCount", label: "Route entries" },
+  { key: "nca", label: "NCA" },
+  { key: "reachability", label: "Reachability" },
+  ...INVENTORY_ATTRIBUTES,
+]
+
+export const LINK_COLOR_OPTIONS: Array<{ key: LinkColorAttribute, label: string }> = [
+  { key: "default", label: "Default" },
+  { key: "interfaceType", label: "Interface type" },
+  { key: "rtt", label: "RTT" },
+  { key: "rttPercentile", label: "RTT percentile" },
+  { key: "packets", label: "Packets (rx + tx)" },
+]
+
+export const LINK_WIDTH_OPTIONS: Array<{ key: LinkWidthAttribute, label: string }> = [
+  { key: "default", label: "Default" },
+  { key: "rtt", label: "RTT" },
+  { key: "packets", label: "Packets (rx + tx)" },
+]
+
+// ---------------------------------------------------------------------------
+// Scales shared by the node and link mappings
+// ---------------------------------------------------------------------------
+
+export interface ColorScale {
+  /** Color by item id */
+  colors: Record<string, string>
+  /** One entry per distinct value (or value range), in order */
+  legend: Array<{ label: string, color: string, count: number }>
+}
+
+/** How a numeric range is colored: red for the bad end, or a single hue getting darker */
+export type RangeScale = "high-is-good" | "low-is-good" | "sequential"
+
+const UNKNOWN_COLOR = "#9ca3af"
+const RANGE_BINS = 5
+
+/** Equal-width bins over the values present; a single bin when they are all the same */
+function binRanges(values: number[], format: (n: number) => string) {
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const bins = max === min ? 1 : RANGE_BINS
+  const step = (max - min) / bins
+  const binOf = (value: number) => Math.min(bins - 1, Math.floor((value - min) / (step || 1)))
+  const labels = Array.from({ length: bins }, (_, i) => {
+    const from = min + i * step
+    const to = i === bins - 1 ? max : min + (i + 1) * step
+    return format(from) === format(to) ? format(from) : `${format(from)}–${format(to)}`
+  })
+  return { bins, binOf, labels }
+}
+
+/** A hue per distinct value, in natural order ("8.2" before "8.10"); missing values are gray */
+export function colorByCategory(entries: Array<[string, string | undefined]>, unknownLabel = "Not reported"): ColorScale {
+  const colors: Record<string, string> = {}
+  const legend: ColorScale["legend"] = []
+  const distinct = Array.from(new Set(entries.map(([, value]) => value).filter((value): value is string => value !== undefined)))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+  distinct.forEach((value, i) => {
+    // Golden-angle hues keep neighboring values apart
+    const color = `hsl(${Math.round((i * 137.5 + 200) % 360)}, 60%, 45%)`
+    const members = entries.filter(([, v]) => v === value)
+    members.forEach(([id]) => { colors[id] = color })
+    legend.push({ label: value, color, count: members.length })
+  })
+  return withUnknown(entries, colors, legend, unknownLabel)
+}
+
+/** Colors for numbers split into equal ranges; missing values are gray */
+export function colorByRange(entries: Array<[string, number | undefined]>, scale: RangeScale, format = (n: number) => Math.round(n).toLocaleString(), unknownLabel = "Not reported"): ColorScale {
+  const colors: Record<string, string> = {}
+  const legend: ColorScale["legend"] = []
+  const numbers = entries.map(([, value]) => value).filter((value): value is number => value !== undefined)
+  if (numbers.length > 0) {
+    const { bins, binOf, labels } = binRanges(numbers, format)
+    for (let i = 0; i < bins; i++) {
+      const t = bins === 1 ? 1 : i / (bins - 1)
+      const color = scale === "sequential"
+        ? `hsl(210, 70%, ${Math.round(70 - t * 40)}%)`
+        : `hsl(${Math.round((scale === "high-is-good" ? t : 1 - t) * 120)}, 65%, 42%)`
+      const members = entries.filter(([, value]) => value !== undefined && binOf(value) === i)
+      members.forEach(([id]) => { colors[id] = color })
+      if (members.length > 0) legend.push({ label: labels[i], color, count: members.length })
+    }
+  }
+  return withUnknown(entries, colors, legend, unknownLabel)
+}
+
+/**
+ * Colors for numbers by where they rank among the values present: at or below
+ * the median, then up to p75, p90, p95 and above; low values are good. Legend
+ * labels give the percentile band and the values it spans.
+ */
+export function colorByPercentile(entries: Array<[string, number | undefined]>, format = (n: number) => Math.round(n).toLocaleString(), unknownLabel = "Not reported"): ColorScale {
+  const colors: Record<string, string> = {}
+  const legend: ColorScale["legend"] = []
+  const sorted = entries.map(([, value]) => value).filter((value): value is number => value !== undefined).sort((a, b) => a - b)
+  const cuts = RTT_PERCENTILES.map((p) => percentileValue(sorted, p)!)
+  const bands = [
+    ...RTT_PERCENTILES.map((p, i) => ({ label: i === 0 ? `≤ p${p}` : `p${RTT_PERCENTILES[i - 1]}–p${p}`, upTo: cuts[i] })),
+    { label: `> p${RTT_PERCENTILES[RTT_PERCENTILES.length - 1]}`, upTo: Infinity },
+  ]
+  const bandOf = (value: number) => bands.findIndex((band) => value <= band.upTo)
+  bands.forEach((band, i) => {
+    const color = `hsl(${Math.round((1 - i / (bands.length - 1)) * 120)}, 65%, 42%)`
+    const members = entries.filter(([, value]) => value !== undefined && bandOf(value) === i)
+    members.forEach(([id]) => { colors[id] = color })
+    if (members.length === 0) return
+    const values = members.map(([, value]) => value!)
+    const min = Math.min(...values)
+    const max = Math.max(...values)
+    legend.push({ label: `${band.label} · ${format(min) === format(max) ? format(min) : `${format(min)}–${format(max)}`}`, color, count: members.length })
+  })
+  return withUnknown(entries, colors, legend, unknownLabel)
+}
+
+function withUnknown(entries: Array<[string, unknown]>, colors: Record<string, string>, legend: ColorScale["legend"], unknownLabel: string): ColorScale {
+  const unknown = entries.filter(([, value]) => value === undefined)
+  unknown.forEach(([id]) => { colors[id] = UNKNOWN_COLOR })
+  if (unknown.length > 0) legend.push({ label: unknownLabel, color: UNKNOWN_COLOR, count: unknown.length })
+  return { colors, legend }
+}
+
+/** Line widths (1.5 to 6) for numbers split into equal ranges; missing values keep the thinnest line */
+function widthByRange(entries: Array<[string, number | undefined]>, format: (n: number) => string) {
+  const widths: Record<string, number> = {}
+  const legend: Array<{ label: string, width: number }> = []
+  const numbers = entries.map(([, value]) => value).filter((value): value is number => value !== undefined)
+  if (numbers.length === 0) return { widths, legend }
+  const { bins, binOf, labels } = binRanges(numbers, format)
+  for (let i = 0; i < bins; i++) {
+    const width = bins === 1 ? 3 : 1.5 + (i / (bins - 1)) * 4.5
+    const members = entries.filter(([, value]) => value !== undefined && binOf(value) === i)
+    members.forEach(([id]) => { widths[id] = width })
+    if (members.length > 0) legend.push({ label: labels[i], width })
+  }
+  const unknown = entries.filter(([, value]) => value === undefined)
+  unknown.forEach(([id]) => { widths[id] = 1.5 })
+  if (unknown.length > 0) legend.push({ label: "Not reported", width: 1.5 })
+  return { widths, legend }
+}
+
+// ---------------------------------------------------------------------------
+// Node and link attributes
+// ---------------------------------------------------------------------------
+
+/** RTT and packet count (rx + tx over both ends) of a direct link, as attached by convertPhysicalOnly */
+function linkMetrics(edge: MapEdge): { rtt?: number, packets?: number } {
+  return {
+    rtt: edge.rtt_ms,
+    packets: edge.rx_packets === undefined && edge.tx_packets === undefined ? undefined : (edge.rx_packets || 0) + (edge.tx_packets || 0),
+  }
+}
+
+const interfaceKind = (iface: string | undefined) =>
+  !iface ? undefined : /^(eth|e\d)/i.test(iface) ? "Ethernet" : /^(usb|u\d)/i.test(iface) ? "USB" : "Other"
+
+/** "Ethernet", "USB" or "Ethernet ↔ USB" for a link, from the interfaces at its two ends */
+function linkInterfaceType(edge: MapEdge) {
+  const kinds = Array.from(new Set([interfaceKind(edge.interfaceA), interfaceKind(edge.interfaceB)].filter((kind) => kind !== undefined))).sort()
+  return kinds.length === 0 ? undefined : kinds.join(" ↔ ")
+}
+
+export interface StyleChoice {
+  nodeColor: NodeColorAttribute
+  linkColor: LinkColorAttribute
+  linkWidth: LinkWidthAttribute
+}
+
+export interface StyleMapping {
+  /** Node fill colors by map id and what they stand for; null when nodes keep their default colors */
+  nodeScale: ColorScale | null
+  /** Link color/width by edge id; null when links keep their default style */
+  edgeStyles: Record<string, { color?: string, width?: number }> | null
+  /** Legend entries for whatever the mapping changed */
+  legend: MapLegendItem[]
+}
+
+/**
+ * Resolve a style choice against a topology (and, for NCA and inventory
+ * attributes, the query file inventory).
+ */
+export function buildStyleMapping(model: TopologyModel, inventory: InventoryRow[], choice: StyleChoice): StyleMapping {
+  const legend: MapLegendItem[] = []
+  const optionLabel = <T extends string>(options: Array<{ key: T, label: string }>, key: T) => options.find((option) => option.key === key)?.label || key
+
+  let nodeScale: ColorScale | null = null
+  if (choice.nodeColor !== "default") {
+    const nodeColor = choice.nodeColor
+    const rowById = new Map(inventory.filter((row) => row.mapId).map((row) => [row.mapId!, row]))
+    const ids: string[] = model.nodes.map((node) => node.id)
+    let scale: ColorScale
+    switch (nodeColor) {
+      case "degree":
+        scale = colorByRange(ids.map((id) => [id, (model.edgesByNode.get(id) || []).length]), "sequential")
+        break
+      case "routeCount":
+        scale = colorByRange(ids.map((id) => [id, model.entryByNodeId.get(id)?.routeInfo.length]), "sequential", undefined, "No node entry")
+        break
+      case "nca":
+        scale = colorByCategory(ids.map((id) => [id, rowById.get(id)?.nca && `NCA ${rowById.get(id)!.nca}`]), "No NCA")
+        break
+      case "reachability":
+        // Nodes with their own entry answered the query; the others are only known from a neighbor's table
+        scale = colorByCategory(ids.map((id) => [id, model.entryByNodeId.has(id)
+          ? "Reporting"
+          : (model.edgesByNode.get(id) || []).length > 0 ? "Seen only as a neighbor" : "Isolated"]))
+        break
+      default: {
+        const values = ids.map((id): [string, string | number | undefined] => [id, rowById.get(id)?.values[nodeColor]])
+        scale = nodeColor === "freeDiskSpaceMb"
+          ? colorByRange(values.map(([id, value]) => [id, typeof value === "number" ? value : undefined]), "high-is-good")
+          : colorByCategory(values.map(([id, value]) => [id, value === undefined ? undefined : String(value)]))
+      }
+    }
+    nodeScale = scale
+    const prefix = optionLabel(NODE_COLOR_OPTIONS, nodeColor)
+    legend.push(...scale.legend.map((entry) => ({ label: `${prefix}: ${entry.label} (${entry.count})`, color: entry.color, kind: "node" as const })))
+  }
+
+  let edgeStyles: StyleMapping["edgeStyles"] = null
+  if (choice.linkColor !== "default" || choice.linkWidth !== "default") {
+    const links = model.edges.filter((edge) => edge.edgeType === "direct")
+    const metrics = new Map(links.map((edge) => [edge.id as string, linkMetrics(edge)]))
+    edgeStyles = {}
+
+    if (choice.linkColor !== "default") {
+      const scale = choice.linkColor === "interfaceType"
+        ? colorByCategory(links.map((edge) => [edge.id, linkInterfaceType(edge)]), "Unknown interface")
+        : choice.linkColor === "rtt"
+          ? colorByRange(links.map((edge) => [edge.id, metrics.get(edge.id)!.rtt]), "low-is-good", formatRtt, "No RTT reported")
+          : choice.linkColor === "rttPercentile"
+            ? colorByPercentile(links.map((edge) => [edge.id, metrics.get(edge.id)!.rtt]), formatRtt, "No RTT reported")
+            : colorByRange(links.map((edge) => [edge.id, metrics.get(edge.id)!.packets]), "sequential", undefined, "No counters reported")
+      Object.entries(scale.colors).forEach(([id, color]) => { edgeStyles![id] = { ...edgeStyles![id], color } })
+      const prefix = optionLabel(LINK_COLOR_OPTIONS, choice.linkColor)
+      legend.push(...scale.legend.map((entry) => ({ label: `${prefix}: ${entry.label} (${entry.count})`, color: entry.color, kind: "line" as const })))
+    }
+
+    if (choice.linkWidth !== "default") {
+      const { widths, legend: widthLegend } = choice.linkWidth === "rtt"
+        ? widthByRange(links.map((edge) => [edge.id, metrics.get(edge.id)!.rtt]), formatRtt)
+        : widthByRange(links.map((edge) => [edge.id, metrics.get(edge.id)!.packets]), (n) => Math.round(n).toLocaleString())
+      Object.entries(widths).forEach(([id, width]) => { edgeStyles![id] = { ...edgeStyles![id], width } })
+      const prefix = `${optionLabel(LINK_WIDTH_OPTIONS, choice.linkWidth)} (width)`
+      legend.push(...widthLegend.map((entry) => ({ label: `${prefix}: ${entry.label}`, color: "var(--color-legend-phys)", kind: "line" as const, width: entry.width })))
+      if (widthLegend.length === 0) legend.push({ label: `${prefix}: no values reported`, color: UNKNOWN_COLOR, kind: "line", width: 1.5 })
+    }
+  }
+
+  return { nodeScale, edgeStyles, legend }
+}
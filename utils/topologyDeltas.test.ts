@@ -0,0 +1,80 @@
+import { readFileSync } from "fs"
+import path from "path"
+import { DataSet } from "vis-data"
+import { describe, expect, it } from "vitest"
+import { NetworkDataAdapter, type MapEdge, type MapNode } from "./dataAdapter"
+import { applyDeltasToPayload, applyDeltaToDataSets, parseTopologyDeltas, type TopologyDelta } from "./topologyDeltas"
+
+const payload = JSON.parse(readFileSync(path.join(__dirname, "../public/data-28Node.json"), "utf8"))
+
+// Node ids and the ids and ends of the drawn links, in a comparable order. Route
+// edges are hidden and route changes leave the DataSets alone, so they are not compared.
+const nodeIds = (nodes: MapNode[]) => nodes.map((node) => node.id).sort()
+const edgeIds = (edges: MapEdge[]) => edges.filter((edge) => edge.edgeType === "direct").map((edge) => `${edge.id} ${edge.from}>${edge.to}`).sort()
+
+describe("parseTopologyDeltas", () => {
+  it("keeps valid deltas and reports invalid ones by index", () => {
+    const { deltas, errors } = parseTopologyDeltas([
+      { type: "node-down", nodeName: "Node00b01979e78d" },
+      { type: "neighbor-added", nodeName: "Node00b01979e78d" },
+      { type: "reboot", nodeName: "Node00b01979e78d" },
+    ])
+
+    expect(deltas).toEqual([{ type: "node-down", nodeName: "Node00b01979e78d" }])
+    expect(errors).toHaveLength(2)
+    expect(errors[0]).toMatch(/^delta\[1\]: neighIp/)
+    expect(errors[1]).toMatch(/^delta\[2\]: /)
+  })
+})
+
+describe("applyDeltaToDataSets", () => {
+  // Node00b01979e78d's eth0 address, and a second device whose name and address end in the same e78d
+  const e78d = "2001:db8::2b0:19ff:fe79:e78d"
+  const twin = "Node00b0aaaae78d"
+  const twinIp = "2001:db8::2b0:19ff:feaa:e78d"
+
+  const deltas: TopologyDelta[] = [
+    { type: "node-up", nodeName: twin, localIpInfo: [{ interface: "eth0", localIp: twinIp }] },
+    { type: "neighbor-added", nodeName: twin, interface: "eth0", neighIp: e78d },
+    { type: "neighbor-added", nodeName: "Node00b01979e78d", interface: "eth0", neighIp: twinIp },
+    // An unknown device whose address also ends in e78d stays a node of its own
+    { type: "neighbor-added", nodeName: twin, interface: "eth0", neighIp: "2001:db8::2b0:19ff:febb:e78d" },
+    { type: "route-changed", nodeName: twin, sourceNode: e78d, incomingInterface: "eth0", iifNeighNode: e78d },
+    { type: "neighbor-removed", nodeName: "Node00b01979e78d", neighIp: "2001:db8::2b0:19ff:fe7a:1414" },
+    { type: "node-down", nodeName: "Node00b0197a0e79" },
+    { type: "node-up", nodeName: "fireapp-VirtualBox", localIpInfo: [{ interface: "eth0", localIp: "fe80::a00:27ff:fe4e:1d2c" }] },
+    { type: "neighbor-added", nodeName: "fireapp-VirtualBox", interface: "eth0", neighIp: twinIp },
+    { type: "node-down", nodeName: twin },
+    { type: "node-up", nodeName: twin, localIpInfo: [{ interface: "eth0", localIp: twinIp }] },
+  ]
+
+  it("gives the map the node and link ids converting the patched payload gives", () => {
+    const initial = NetworkDataAdapter.convertToVisNetwork(NetworkDataAdapter.convertPhysicalOnly(payload))!
+    const data = { nodes: new DataSet<MapNode>(initial.nodes), edges: new DataSet<MapEdge>(initial.edges) }
+
+    deltas.forEach((delta, i) => {
+      applyDeltaToDataSets(data, delta, () => ({ x: 0, y: 0 }))
+      const expected = NetworkDataAdapter.convertPhysicalOnly(applyDeltasToPayload(payload, deltas.slice(0, i + 1)))
+      expect(nodeIds(data.nodes.get()), `nodes after delta ${i} (${delta.type})`).toEqual(nodeIds(expected.nodes))
+      expect(edgeIds(data.edges.get()), `edges after delta ${i} (${delta.type})`).toEqual(edgeIds(expected.edges))
+    })
+  })
+
+  it("renames both nodes when one coming up collides, and the patched payload reports it", () => {
+    const { nodes, edges } = NetworkDataAdapter.convertPhysicalOnly(payload)
+    const data = { nodes: new DataSet<MapNode>(nodes), edges: new DataSet<MapEdge>(edges) }
+
+    applyDeltaToDataSets(data, deltas[0], () => ({ x: 0, y: 0 }))
+    applyDeltaToDataSets(data, deltas[1], () => ({ x: 0, y: 0 }))
+
+    expect(data.nodes.get("79e78d")).toMatchObject({ nodeName: "Node00b01979e78d", label: "Node 79e78d" })
+    expect(data.nodes.get("aae78d")).toMatchObject({ nodeName: twin, label: "Node aae78d" })
+    expect(data.nodes.get("e78d")).toBeNull()
+
+    const collisions = (json: unknown) => NetworkDataAdapter.convertPhysicalOnly(json).issues.filter((issue) => issue.message.startsWith("Node id"))
+    expect(collisions(payload)).toEqual([])
+    expect(collisions(applyDeltasToPayload(payload, deltas.slice(0, 2)))).toEqual([
+      { path: expect.stringMatching(/^\$\.networkMap\.nodeRouteInfo\[\d+\]$/), message: `Node id 'e78d' is shared by Node00b01979e78d, ${twin}; using 79e78d, aae78d` },
+    ])
+  })
+})
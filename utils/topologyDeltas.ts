@@ -0,0 +1,349 @@
+import { z } from "zod"
+import type { DataSet } from "vis-data"
+import { localIpInfoSchema, parseBackendPayload, type BackendNodeEntry } from "./backendSchema"
+import type { MapEdge, MapNode } from "./dataAdapter"
+import { combineLinkMetrics } from "./linkMetrics"
+import { buildNodeIdentityIndex, isStandardNodeName, primaryAddress, type NodeIdentityIndex } from "./nodeIdentity"
+
+// Incremental topology changes pushed by the backend (see utils/topologyStream.ts).
+// Deltas name nodes and neighbors the way the networkMap payload does (node names
+// and IPv6 addresses), so the same message can patch both the payload used by the
+// analyses and the vis-data DataSets drawn by NetworkMap.
+
+const nodeName = z.string({ required_error: "nodeName is missing" }).trim().min(1, "nodeName is empty")
+const address = (what: string) => z.string({ required_error: `${what} is missing` }).trim().min(1, `${what} is empty`)
+
+export const topologyDeltaSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("node-up"),
+    nodeName,
+    /** Interfaces of the node; omitted when the backend only reports the node is reachable again */
+    localIpInfo: z.array(localIpInfoSchema).optional(),
+  }),
+  z.object({
+    type: z.literal("node-down"),
+    nodeName,
+  }),
+  z.object({
+    type: z.literal("neighbor-added"),
+    nodeName,
+    interface: z.string().optional(),
+    neighIp: address("neighIp"),
+  }),
+  z.object({
+    type: z.literal("neighbor-removed"),
+    nodeName,
+    interface: z.string().optional(),
+    neighIp: address("neighIp"),
+  }),
+  z.object({
+    type: z.literal("route-changed"),
+    /** Receiver whose route table changed */
+    nodeName,
+    sourceNode: address("sourceNode"),
+    incomingInterface: z.string().optional(),
+    /** New upstream neighbor; null when the route entry was withdrawn */
+    iifNeighNode: z.string().nullable(),
+  }),
+])
+
+export type TopologyDelta = z.infer<typeof topologyDeltaSchema>
+
+/**
+ * Parse one stream message. A message carries a single delta or an array of
+ * deltas applied together; invalid deltas are dropped and reported.
+ */
+export function parseTopologyDeltas(json: unknown): { deltas: TopologyDelta[], errors: string[] } {
+  const items = Array.isArray(json) ? json : [json]
+  const deltas: TopologyDelta[] = []
+  const errors: string[] = []
+  items.forEach((item, i) => {
+    const result = topologyDeltaSchema.safeParse(item)
+    if (result.success) deltas.push(result.data)
+    else errors.push(`delta[${i}]: ${result.error.issues.map((issue) => `${issue.path.join(".") || "type"} ${issue.message}`).join(", ")}`)
+  })
+  return { deltas, errors }
+}
+
+// ---------------------------------------------------------------------------
+// Payload side: keeps rawBackendData (route table, faults, node details) in step
+// ---------------------------------------------------------------------------
+
+type PayloadEntry = Omit<BackendNodeEntry, "path" | "itemPaths">
+
+const sameAddress = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+/**
+ * Apply deltas to a backend payload. The result is always the canonical
+ * `{ networkMap: { nodeRouteInfo } }` shape, whatever spelling the input used.
+ */
+export function applyDeltasToPayload(payload: unknown, deltas: TopologyDelta[]) {
+  const parsed = parseBackendPayload(payload)
+  let entries: PayloadEntry[] = parsed.entries.map(({ nodeName, localIpInfo, neighIpInfo, routeInfo }) => ({ nodeName, localIpInfo, neighIpInfo, routeInfo }))
+
+  const updateEntry = (name: string, update: (entry: PayloadEntry) => PayloadEntry) => {
+    entries = entries.map((entry) => entry.nodeName === name ? update(entry) : entry)
+  }
+
+  for (const delta of deltas) {
+    const existing = entries.find((entry) => entry.nodeName === delta.nodeName)
+    switch (delta.type) {
+      case "node-up":
+        if (existing) {
+          if (delta.localIpInfo) updateEntry(delta.nodeName, (entry) => ({ ...entry, localIpInfo: delta.localIpInfo! }))
+        } else {
+          entries = [...entries, { nodeName: delta.nodeName, localIpInfo: delta.localIpInfo || [], neighIpInfo: [], routeInfo: [] }]
+        }
+        break
+      case "node-down": {
+        if (!existing) break
+        // Links to the node and routes for traffic it sources go down with it
+        const addresses = [existing.nodeName, ...existing.localIpInfo.map((li) => li.localIp)]
+        const isDownNode = (raw: string) => addresses.some((ip) => sameAddress(ip, raw))
+        entries = entries
+          .filter((entry) => entry !== existing)
+          .map((entry) => entry.neighIpInfo.some((n) => isDownNode(n.neighIp)) || entry.routeInfo.some((r) => isDownNode(r.sourceNode))
+            ? {
+              ...entry,
+              neighIpInfo: entry.neighIpInfo.filter((n) => !isDownNode(n.neighIp)),
+              routeInfo: entry.routeInfo.filter((r) => !isDownNode(r.sourceNode)),
+            }
+            : entry)
+        break
+      }
+      case "neighbor-added":
+        if (!existing || existing.neighIpInfo.some((n) => sameAddress(n.neighIp, delta.neighIp) && n.interface === delta.interface)) break
+        updateEntry(delta.nodeName, (entry) => ({ ...entry, neighIpInfo: [...entry.neighIpInfo, { interface: delta.interface, neighIp: delta.neighIp }] }))
+        break
+      case "neighbor-removed":
+        if (!existing) break
+        updateEntry(delta.nodeName, (entry) => ({
+          ...entry,
+          neighIpInfo: entry.neighIpInfo.filter((n) => !(sameAddress(n.neighIp, delta.neighIp) && (!delta.interface || n.interface === delta.interface))),
+        }))
+        break
+      case "route-changed":
+        if (!existing) break
+        updateEntry(delta.nodeName, (entry) => {
+          const others = entry.routeInfo.filter((r) => !sameAddress(r.sourceNode, delta.sourceNode))
+          if (delta.iifNeighNode === null) return { ...entry, routeInfo: others }
+          const previous = entry.routeInfo.find((r) => sameAddress(r.sourceNode, delta.sourceNode))
+          return {
+            ...entry,
+            routeInfo: [...others, { ...previous, sourceNode: delta.sourceNode, incomingInterface: delta.incomingInterface, iifNeighNode: delta.iifNeighNode }],
+          }
+        })
+        break
+    }
+  }
+
+  return { ...(parsed.status ? { status: parsed.status } : {}), networkMap: { nodeRouteInfo: entries } }
+}
+
+// ---------------------------------------------------------------------------
+// Map side: mirrors what convertPhysicalOnly would produce for the changed parts
+// ---------------------------------------------------------------------------
+
+export interface TopologyDataSets {
+  nodes: DataSet<MapNode>
+  edges: DataSet<MapEdge>
+}
+
+const INTERFACE_ORDER: Record<string, number> = { eth0: 0, eth1: 1, usb0: 2, usb1: 3 }
+
+type IdentityEntry = Parameters<typeof buildNodeIdentityIndex>[0][number]
+
+/** Nodes on the map that have an entry of their own, as buildNodeIdentityIndex takes them */
+const mapEntries = (nodes: DataSet<MapNode>): IdentityEntry[] =>
+  nodes
+    .get({ filter: (node) => !!node.nodeName && (node.type === "target" || !!node.allLocalIps?.length) })
+    .map((node) => ({
+      nodeName: String(node.nodeName),
+      localIpInfo: (node.allLocalIps || []).map((li) => ({ interface: li.interface, localIp: li.ip })),
+    }))
+
+/**
+ * Apply one delta to the DataSets behind a vis Network. `placeNode` supplies the
+ * position of nodes that are not on the map yet. Route changes only affect the
+ * route table, so they leave the DataSets untouched.
+ *
+ * Ids come from the same identity index convertPhysicalOnly uses, built from the
+ * nodes on the map. A node coming up with a short id another node already has
+ * gets a longer id (and so does the node it collides with); one going down gives
+ * the longer id back. Nodes and links whose ids change are renamed in place.
+ * The collision itself is reported where the patched payload is converted.
+ */
+export function applyDeltaToDataSets(data: TopologyDataSets, delta: TopologyDelta, placeNode: (nodeId: string) => { x: number, y: number }) {
+  const entries = mapEntries(data.nodes)
+  const others = entries.filter((entry) => entry.nodeName !== delta.nodeName)
+  const current = entries.find((entry) => entry.nodeName === delta.nodeName)
+  const identity = delta.type === "node-up"
+    ? buildNodeIdentityIndex([...others, { nodeName: delta.nodeName, localIpInfo: delta.localIpInfo || current?.localIpInfo || [] }])
+    : delta.type === "node-down" && current ? buildNodeIdentityIndex(others) : buildNodeIdentityIndex(entries)
+
+  const resolve = identity.resolve
+  const linkId = (node: MapNode | null, iface: string, neighIp: string) => {
+    const localIp = (node?.allLocalIps || []).find((li) => li.interface === iface)?.ip
+    const [ipA, ipB] = [identity.addressId(localIp || node?.id || ""), identity.addressId(neighIp)].sort()
+    return `direct-${ipA}-${ipB}`
+  }
+  // Remove links; neighbor stubs (addresses with no node entry of their own) go when their last link does
+  const removeEdges = (ids: Array<string | number>) => {
+    const ends = new Set(data.edges.get(ids.map(String)).flatMap((edge) => [edge.from, edge.to]))
+    data.edges.remove(ids)
+    for (const id of ends) {
+      const node = data.nodes.get(id)
+      if (node?.type !== "neighbor" || node.allLocalIps?.length) continue
+      if (data.edges.getIds({ filter: (edge) => edge.from === id || edge.to === id }).length === 0) data.nodes.remove(id)
+    }
+  }
+
+  switch (delta.type) {
+    case "node-up": {
+      const localIps = (delta.localIpInfo || [])
+        .map((li, i) => ({ interface: li.interface || (i === 0 ? "eth0" : "unknown"), ip: li.localIp }))
+        .sort((a, b) => (INTERFACE_ORDER[a.interface] ?? 999) - (INTERFACE_ORDER[b.interface] ?? 999))
+      const eth0 = primaryAddress(delta.localIpInfo || []) || undefined
+      // Hostnames like "fireapp-VirtualBox" are identified by their primary interface address
+      const isStandardName = isStandardNodeName(delta.nodeName)
+      const previousId = data.nodes.getIds({ filter: (node) => node.nodeName === delta.nodeName })[0]
+      const id = resolve(delta.nodeName)
+      const existing = previousId !== undefined ? data.nodes.get(previousId as string) : data.nodes.get(id)
+      if (previousId !== undefined && previousId !== id) renameNode(data, String(previousId), id)
+      data.nodes.update({
+        ...(existing || placeNode(id)),
+        id,
+        label: isStandardName ? `Node ${id}` : delta.nodeName,
+        type: "target",
+        nodeName: delta.nodeName,
+        fullAddress: eth0 || existing?.fullAddress,
+        allLocalIps: delta.localIpInfo ? localIps : existing?.allLocalIps || [],
+        ...(delta.localIpInfo ? { localInterfaces: delta.localIpInfo.map((li) => ({ interface: li.interface, ip: li.localIp })) } : {}),
+      })
+      reconcileIds(data, identity, linkId)
+      break
+    }
+    case "node-down": {
+      const id = current ? String(data.nodes.getIds({ filter: (node) => node.nodeName === delta.nodeName })[0]) : resolve(delta.nodeName)
+      removeEdges(data.edges.getIds({ filter: (edge) => edge.from === id || edge.to === id }))
+      data.nodes.remove(id)
+      reconcileIds(data, identity, linkId)
+      break
+    }
+    case "neighbor-added": {
+      const nodeId = resolve(delta.nodeName)
+      const node = data.nodes.get(nodeId)
+      if (!node) break
+      const iface = delta.interface || "eth0"
+      const neighborId = resolve(delta.neighIp)
+      if (!data.nodes.get(neighborId)) {
+        data.nodes.add({
+          ...placeNode(neighborId),
+          id: neighborId,
+          label: `Node ${neighborId}`,
+          type: "neighbor",
+          fullAddress: delta.neighIp,
+          nodeName: delta.neighIp,
+          allLocalIps: [],
+        })
+      }
+
+      const id = linkId(node, iface, delta.neighIp)
+      const [from, to] = [nodeId, neighborId].sort()
+      const side = nodeId === from ? { interfaceA: iface, neighborIpA: delta.neighIp } : { interfaceB: iface, neighborIpB: delta.neighIp }
+      const existing = data.edges.get(id)
+      if (existing) {
+        data.edges.update({ id, ...side, label: linkLabel({ ...existing, ...side }) })
+      } else {
+        data.edges.add({ id, from, to, edgeType: "direct", width: 3, color: "#4ECDC4", dashes: false, ...side, label: iface })
+      }
+      break
+    }
+    case "neighbor-removed": {
+      const node = data.nodes.get(resolve(delta.nodeName))
+      if (!node) break
+      if (delta.interface) {
+        dropLinkEnd(data, node.id, [linkId(node, delta.interface, delta.neighIp)])
+      } else {
+        // Without an interface every link between the two nodes loses this end
+        const pair = [node.id, resolve(delta.neighIp)].sort().join("|")
+        dropLinkEnd(data, node.id, data.edges.getIds({ filter: (edge) => edge.edgeType === "direct" && [edge.from, edge.to].sort().join("|") === pair }))
+      }
+      reconcileIds(data, identity, linkId)
+      break
+    }
+    case "route-changed":
+      break
+  }
+}
+
+const linkLabel = (edge: MapEdge) => edge.interfaceA && edge.interfaceB ? `${edge.interfaceA} ↔ ${edge.interfaceB}` : edge.interfaceA || edge.interfaceB || "eth0"
+
+/**
+ * Forget one end's report of its links, as when that end's neighbor entry goes
+ * from the payload. A link stays on the map while its other end still lists it.
+ */
+function dropLinkEnd(data: TopologyDataSets, nodeId: string, edgeIds: Array<string | number>) {
+  for (const edge of data.edges.get(edgeIds.map(String))) {
+    if (!edge) continue
+    const [own, other] = edge.from === nodeId ? ["A", "B"] as const : ["B", "A"] as const
+    data.edges.remove(edge.id)
+    if (edge[`neighborIp${other}` as const] === undefined) continue
+    const kept = { ...edge }
+    for (const field of ["interface", "neighborIp", "metrics"] as const) delete kept[`${field}${own}` as const]
+    for (const field of ["rx_packets", "tx_packets", "rtt_ms", "mdev_rtt_ms"] as const) delete kept[field]
+    data.edges.add({ ...kept, ...combineLinkMetrics(kept.metricsA, kept.metricsB), label: linkLabel(kept) })
+  }
+}
+
+/** Give a node a new id, keeping its position and pointing its links at the new id */
+function renameNode(data: TopologyDataSets, from: string, to: string) {
+  const node = data.nodes.get(from)
+  if (!node || data.nodes.get(to)) return
+  data.nodes.remove(from)
+  data.nodes.add({ ...node, id: to, label: isStandardNodeName(node.nodeName || "") ? `Node ${to}` : node.label })
+  const renamed = (id: string) => id === from ? to : id
+  const edges = data.edges.get({ filter: (edge) => edge.from === from || edge.to === from || edge.nextHop === from })
+  data.edges.remove(edges.map((edge) => edge.id))
+  data.edges.add(edges.map((edge): MapEdge => {
+    if (edge.edgeType !== "direct") {
+      // Route edges point from source to receiver and carry both ids in their own id
+      const moved = { ...edge, from: renamed(edge.from), to: renamed(edge.to), ...(edge.nextHop !== undefined ? { nextHop: renamed(edge.nextHop) } : {}) }
+      return edge.edgeType === "route" ? { ...moved, id: edge.id.replace(`route-${edge.from}-${edge.to}-`, `route-${moved.from}-${moved.to}-`) } : moved
+    }
+    const ends = [renamed(edge.from), renamed(edge.to)]
+    if (ends[0] <= ends[1]) return { ...edge, from: ends[0], to: ends[1] }
+    // Links keep their ends sorted, with each end's interface and neighbor address on its side
+    const { interfaceA, neighborIpA, metricsA, interfaceB, neighborIpB, metricsB, ...rest } = edge
+    const swapped = {
+      ...rest,
+      from: ends[1],
+      to: ends[0],
+      ...(interfaceB !== undefined ? { interfaceA: interfaceB, neighborIpA: neighborIpB } : {}),
+      ...(metricsB ? { metricsA: metricsB } : {}),
+      ...(interfaceA !== undefined ? { interfaceB: interfaceA, neighborIpB: neighborIpA } : {}),
+      ...(metricsA ? { metricsB: metricsA } : {}),
+    }
+    return { ...swapped, label: linkLabel(swapped) }
+  }))
+}
+
+/**
+ * Bring node and link ids in line with a new identity index after a node came or
+ * went: nodes (and neighbor stubs) whose id changed are renamed, and links get the
+ * ids built from the addresses of their ends.
+ */
+function reconcileIds(data: TopologyDataSets, identity: NodeIdentityIndex, linkId: (node: MapNode | null, iface: string, neighIp: string) => string) {
+  for (const node of data.nodes.get({ filter: (node) => !!node.nodeName })) {
+    const id = identity.resolve(node.nodeName!)
+    if (id && id !== node.id) renameNode(data, node.id, id)
+  }
+  for (const edge of data.edges.get({ filter: (edge) => edge.edgeType === "direct" })) {
+    const id = edge.neighborIpA !== undefined
+      ? linkId(data.nodes.get(edge.from), edge.interfaceA || "eth0", edge.neighborIpA)
+      : edge.neighborIpB !== undefined ? linkId(data.nodes.get(edge.to), edge.interfaceB || "eth0", edge.neighborIpB) : edge.id
+    if (id === edge.id || data.edges.get(id)) continue
+    data.edges.remove(edge.id)
+    data.edges.add({ ...edge, id })
+  }
+}
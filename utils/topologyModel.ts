@@ -0,0 +1,143 @@
+import { NetworkDataAdapter, type MapEdge, type MapNode, type RouteTable } from "./dataAdapter"
+import { parseBackendPayload, type BackendNodeEntry, type ParsedBackendPayload, type PayloadIssue } from "./backendSchema"
+import { buildNodeIdentityIndex, type NodeIdentityIndex } from "./nodeIdentity"
+import type { LinkMetrics } from "./linkMetrics"
+
+// Indexed view of one backend payload. The payload is parsed, indexed and converted once;
+// hovers, clicks, the node lists and the route analyses then query these maps
+// instead of running convertPhysicalOnly over the whole payload again.
+
+/** One physical link of a node, as listed in the hover card and details panel */
+export interface NodeConnection {
+  interface: string
+  /** Map id of the node at the other end */
+  neighbor: string
+  /** Id of the direct edge the connection is drawn as */
+  edgeId: string
+  rx_packets?: number
+  tx_packets?: number
+  rtt_ms?: number
+  mdev_rtt_ms?: number
+}
+
+/** A map node with what the hover card and details panel show about it */
+export interface NodeDetails extends MapNode {
+  connectedInterfaces?: NodeConnection[]
+  /** Entries in the node's route_info and neigh_ip_info */
+  routeCount?: number
+  neighborCount?: number
+  /** nodeId and NCA/node numbers from the query file, added by NetworkMap */
+  nodeIdNumber?: string
+  ncaNumber?: string
+  nodeNumber?: string
+}
+
+export interface TopologyModel {
+  /** Physical nodes and links as produced by convertPhysicalOnly */
+  nodes: MapNode[]
+  edges: MapEdge[]
+  /** Validation problems and short id collisions, as convertPhysicalOnly reports them */
+  issues: PayloadIssue[]
+  /** The payload as parsed and validated; the analyses read its entries instead of parsing again */
+  parsed: ParsedBackendPayload
+  /** Physical topology in vis-network shape, without any highlight styling */
+  visData: { nodes: MapNode[], edges: MapEdge[] }
+  routeTable: RouteTable
+  nodeById: Map<string, MapNode>
+  /** Node id -> direct links touching it */
+  edgesByNode: Map<string, MapEdge[]>
+  /** Canonical ids for node names, interface addresses and short ids */
+  identity: NodeIdentityIndex
+  /** Node id -> its nodeRouteInfo entry (interfaces, neighbors, route_info with metrics) */
+  entryByNodeId: Map<string, BackendNodeEntry>
+  /** Resolve a map id, node name or interface address to the id of its node on the map */
+  resolveNodeId: (raw: string) => string
+  /** Physical links of a node by local interface, deduplicated and sorted; cached per node */
+  connectedInterfaces: (nodeId: string) => NodeConnection[]
+}
+
+export function buildTopologyModel(payload: unknown): TopologyModel {
+  const parsed = parseBackendPayload(payload)
+  const { entries } = parsed
+  const identity = buildNodeIdentityIndex(entries)
+  const { nodes, edges, issues } = NetworkDataAdapter.convertParsedPayload(parsed, identity)
+  const nodeById = new Map<string, MapNode>(nodes.map((node) => [node.id, node]))
+
+  const edgesByNode = new Map<string, MapEdge[]>()
+  for (const edge of edges) {
+    if (edge.edgeType !== 'direct') continue
+    for (const end of [edge.from, edge.to]) {
+      if (!edgesByNode.has(end)) edgesByNode.set(end, [])
+      edgesByNode.get(end)!.push(edge)
+    }
+  }
+
+  const resolveNodeId = (raw: string) => nodeById.has(raw) ? raw : identity.resolve(raw)
+
+  const entryByNodeId = new Map<string, BackendNodeEntry>()
+  for (const entry of entries) {
+    const id = resolveNodeId(entry.nodeName)
+    if (!entryByNodeId.has(id)) entryByNodeId.set(id, entry)
+  }
+
+  const connectionCache = new Map<string, NodeConnection[]>()
+  const connectedInterfaces = (nodeId: string) => {
+    const id = resolveNodeId(nodeId)
+    const cached = connectionCache.get(id)
+    if (cached) return cached
+
+    const seen = new Set<string>()
+    const connections: NodeConnection[] = []
+    for (const edge of edgesByNode.get(id) || []) {
+      // Take the interface and neighbor address recorded for this node's side of the link
+      const fromSide = edge.from === id
+      const iface = ((fromSide ? edge.interfaceA : edge.interfaceB) || edge.label || 'unknown').toString().trim() || 'unknown'
+      const neighborIp = (fromSide ? edge.neighborIpA : edge.neighborIpB) || (fromSide ? edge.to : edge.from)
+      const neighbor = identity.resolve(neighborIp)
+      if (!neighbor || neighbor.toLowerCase() === id.toLowerCase()) continue
+
+      const key = `${iface.toLowerCase()}::${neighbor.toLowerCase()}`
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      // This end's reading of the link, attached by convertPhysicalOnly
+      const metrics: LinkMetrics | undefined = fromSide ? edge.metricsA : edge.metricsB
+      connections.push({ interface: iface, neighbor, edgeId: edge.id, ...metrics })
+    }
+    connections.sort((a, b) => a.interface.localeCompare(b.interface) || a.neighbor.localeCompare(b.neighbor))
+    connectionCache.set(id, connections)
+    return connections
+  }
+
+  return {
+    nodes,
+    edges,
+    issues,
+    parsed,
+    visData: NetworkDataAdapter.convertToVisNetwork({ nodes, edges })!,
+    routeTable: NetworkDataAdapter.buildRouteTableFromEntries(entries, identity),
+    nodeById,
+    edgesByNode,
+    identity,
+    entryByNodeId,
+    resolveNodeId,
+    connectedInterfaces,
+  }
+}
+
+const modelCache = new WeakMap<object, TopologyModel>()
+
+/**
+ * Topology model for a payload, built on first use and cached by payload identity.
+ * Payloads are replaced, never mutated (polls and streamed deltas produce new
+ * objects), so the cache stays valid for as long as the payload is referenced.
+ */
+export function getTopologyModel(payload: unknown): TopologyModel {
+  if (typeof payload !== 'object' || payload === null) return buildTopologyModel(payload)
+  let model = modelCache.get(payload)
+  if (!model) {
+    model = buildTopologyModel(payload)
+    modelCache.set(payload, model)
+  }
+  return model
+}
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { connectTopologyStream } from "./topologyStream"
+
+describe("connectTopologyStream", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  it("reports a URL the browser refuses to open as a failed connection and retries", () => {
+    vi.useFakeTimers()
+    const opened: string[] = []
+    vi.stubGlobal("EventSource", class {
+      constructor(url: string) {
+        opened.push(url)
+        throw new SyntaxError(`The URL '${url}' is invalid`)
+      }
+    })
+    const statuses: string[] = []
+    const errors: string[] = []
+
+    const stream = connectTopologyStream("http://[bad", (status) => statuses.push(status), (message) => errors.push(message))
+    expect(errors).toEqual(["The URL 'http://[bad' is invalid"])
+    expect(statuses).toEqual(["connecting", "reconnecting"])
+
+    vi.advanceTimersByTime(3000)
+    expect(opened).toHaveLength(2)
+
+    stream.close()
+    vi.advanceTimersByTime(3000)
+    expect(opened).toHaveLength(2)
+    expect(statuses.at(-1)).toBe("closed")
+  })
+})
@@ -0,0 +1,102 @@
+import { parseTopologyDeltas, type TopologyDelta } from "./topologyDeltas"
+
+// Client for the backend's push channel. http(s) URLs are read as Server-Sent
+// Events, ws(s) URLs as a WebSocket; both carry JSON messages holding one delta
+// or an array of deltas. `npm run mock:stream` serves both for development.
+
+export const DEFAULT_TOPOLOGY_STREAM_URL = process.env.NEXT_PUBLIC_TOPOLOGY_STREAM_URL || "http://localhost:8787/events"
+
+export type TopologyStreamStatus = "connecting" | "open" | "reconnecting" | "closed"
+
+export type TopologyDeltaListener = (deltas: TopologyDelta[]) => void
+
+export interface TopologyStream {
+  url: string
+  /** Register a listener for incoming delta batches; returns the unsubscribe function */
+  subscribe: (listener: TopologyDeltaListener) => () => void
+  close: () => void
+}
+
+const RECONNECT_DELAY_MS = 3000
+
+/**
+ * Connect to a delta stream. The connection is re-established after errors
+ * until `close()` is called; malformed messages are logged and skipped. Failed
+ * connections, including URLs the browser refuses to open, go to `onError`.
+ */
+export function connectTopologyStream(url: string, onStatus?: (status: TopologyStreamStatus) => void, onError?: (message: string) => void): TopologyStream {
+  const listeners = new Set<TopologyDeltaListener>()
+  let closed = false
+  let source: EventSource | WebSocket | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+  const handleMessage = (data: string) => {
+    let json: unknown
+    try {
+      json = JSON.parse(data)
+    } catch {
+      console.warn("[v0] Ignoring non-JSON stream message:", data)
+      return
+    }
+    const { deltas, errors } = parseTopologyDeltas(json)
+    if (errors.length > 0) console.warn("[v0] Ignoring invalid topology deltas:", errors)
+    if (deltas.length > 0) listeners.forEach((listener) => listener(deltas))
+  }
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer) return
+    onStatus?.("reconnecting")
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null
+      connect()
+    }, RECONNECT_DELAY_MS)
+  }
+
+  const connect = () => {
+    if (closed) return
+    onStatus?.("connecting")
+    try {
+      if (/^wss?:/i.test(url)) {
+        const socket = new WebSocket(url)
+        socket.onopen = () => onStatus?.("open")
+        socket.onmessage = (event) => handleMessage(String(event.data))
+        socket.onerror = () => onError?.(`Could not connect to ${url}`)
+        socket.onclose = () => scheduleReconnect()
+        source = socket
+      } else {
+        // EventSource retries by itself, but gives up for good on HTTP errors
+        const events = new EventSource(url)
+        events.onopen = () => onStatus?.("open")
+        events.onmessage = (event) => handleMessage(event.data)
+        events.onerror = () => {
+          if (events.readyState === EventSource.CLOSED) {
+            onError?.(`Could not connect to ${url}`)
+            scheduleReconnect()
+          } else onStatus?.("reconnecting")
+        }
+        source = events
+      }
+    } catch (err) {
+      // Malformed or blocked URLs throw from the constructor instead of failing the connection
+      onError?.(err instanceof Error ? err.message : String(err))
+      scheduleReconnect()
+    }
+  }
+
+  connect()
+
+  return {
+    url,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    },
+    close: () => {
+      closed = true
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      source?.close()
+      listeners.clear()
+      onStatus?.("closed")
+    },
+  }
+}